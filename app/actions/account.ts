@@ -0,0 +1,136 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { getOtherMembers } from "@/lib/members";
+import { getStorage } from "@/lib/storage";
+import type { AccountDeletionVersus, VersusRole } from "@/types/database";
+
+/**
+ * What deleting the signed-in user's account would do to each versus
+ * they're in (mirrors delete_my_account())
+ */
+export async function getAccountDeletionPlan() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  type MembershipRow = {
+    role: VersusRole;
+    versus: { id: string; name: string; created_by: string };
+  };
+
+  const { data: memberships, error: membershipsError } = await supabase
+    .from("versus_players")
+    .select(
+      `
+      role,
+      versus:versus_id (
+        id,
+        name,
+        created_by
+      )
+    `
+    )
+    .eq("player_id", user.id)
+    .returns<MembershipRow[]>();
+
+  if (membershipsError) {
+    return { data: null, error: membershipsError };
+  }
+
+  const plan: AccountDeletionVersus[] = [];
+
+  for (const membership of memberships) {
+    const { data: members, error: membersError } = await getOtherMembers(
+      supabase,
+      membership.versus.id,
+      user.id
+    );
+
+    if (membersError || !members) {
+      return { data: null, error: membersError || new Error("Failed to load members") };
+    }
+
+    const isOwner = membership.versus.created_by === user.id;
+    const otherCommissioner = members.find((m) => m.role === "commissioner") || null;
+    const lastCommissioner = membership.role === "commissioner" && !otherCommissioner;
+
+    plan.push({
+      versus_id: membership.versus.id,
+      versus_name: membership.versus.name,
+      role: membership.role,
+      is_owner: isOwner,
+      outcome:
+        members.length === 0 ? "delete" : isOwner || lastCommissioner ? "hand_off" : "leave",
+      default_successor_id: otherCommissioner?.player_id || null,
+      members,
+    });
+  }
+
+  return { data: plan, error: null };
+}
+
+/**
+ * Permanently delete the signed-in user's account
+ *
+ * delete_my_account() hands off or deletes each versus first (see
+ * getAccountDeletionPlan()), then deletes the account along with the
+ * player's memberships and completions. Their avatar and proof photos are
+ * removed from storage afterwards.
+ *
+ * @param successors - Versus id → player id of who takes over, for versus
+ *        with no other commissioner to default to
+ */
+export async function deleteAccount(successors: Record<string, string>) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  // Collect stored files before the rows pointing at them are gone
+  const [{ data: player }, { data: proofs }] = await Promise.all([
+    supabase.from("players").select("avatar_path").eq("id", user.id).single(),
+    supabase
+      .from("completions")
+      .select("proof_path")
+      .eq("player_id", user.id)
+      .not("proof_path", "is", null),
+  ]);
+
+  const { error } = await supabase.rpc("delete_my_account", {
+    p_successors: successors,
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  // The account is gone either way; a failed delete only leaves a file orphaned
+  if (player?.avatar_path) {
+    await getStorage("avatars").delete(player.avatar_path).catch(() => undefined);
+  }
+
+  const proofStorage = getStorage();
+  await Promise.all(
+    (proofs || []).map((p: { proof_path: string }) =>
+      proofStorage.delete(p.proof_path).catch(() => undefined)
+    )
+  );
+
+  await supabase.auth.signOut();
+
+  return { data: { deleted: true }, error: null };
+}
@@ -0,0 +1,78 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import type { AuditEntry, VersusAuditLogEntry } from "@/types/database";
+
+/**
+ * How many entries the audit page loads (newest first)
+ */
+const AUDIT_LOG_LIMIT = 500;
+
+/**
+ * Get the audit log for a versus (any player in it)
+ *
+ * Entries are written by database triggers when a versus changes
+ * and can't be edited or deleted.
+ */
+export async function getVersusAuditLog(versusId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  // Check if user has access to this versus
+  const { error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .single();
+
+  if (accessError) {
+    return {
+      data: null,
+      error: new Error("You don't have access to this versus"),
+    };
+  }
+
+  const { data: entries, error } = await supabase
+    .from("versus_audit_log")
+    .select(
+      `
+      *,
+      actor:actor_id (
+        id,
+        display_name,
+        email
+      )
+    `
+    )
+    .eq("versus_id", versusId)
+    .order("created_at", { ascending: false })
+    .limit(AUDIT_LOG_LIMIT);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  type AuditLogRow = VersusAuditLogEntry & {
+    actor: {
+      id: string;
+      display_name: string | null;
+      email: string;
+    } | null;
+  };
+
+  const log: AuditEntry[] = (entries as AuditLogRow[]).map(({ actor, ...entry }) => ({
+    ...entry,
+    actor_name: actor ? actor.display_name || actor.email.split("@")[0] : "Former player",
+  }));
+
+  return { data: log, error: null };
+}
@@ -2,10 +2,21 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
-import type { InsertCompletion } from "@/types/database";
+import { getEarliestBackfillTime, isWithinUndoWindow } from "@/lib/completion-utils";
+import { getSeasonStatus } from "@/lib/season-utils";
+import { getObjectiveAllowance } from "@/lib/objective-limits";
+import { isQuantityObjective } from "@/lib/scoring";
+import { getStorage } from "@/lib/storage";
+import { getProofFileError, getProofUrl, PROOF_CONTENT_TYPES } from "@/lib/proof-utils";
+import type { HistoryEntry, InsertCompletion, VersusRole } from "@/types/database";
 
 /**
  * Mark an objective as complete
+ *
+ * Players log for themselves and can backdate (completed_at) up to the
+ * versus' max_backfill_hours. Commissioners can also log for any player in
+ * their versus, backdate without a limit and add a note; those entries are
+ * shown as "logged by" the commissioner.
  */
 export async function completeObjective(completion: InsertCompletion) {
   const supabase = await createClient();
@@ -20,34 +31,224 @@ export async function completeObjective(completion: InsertCompletion) {
   }
 
   // Verify user has access to this versus
-  const { error: accessError } = await supabase
+  const { data: access, error: accessError } = await supabase
     .from("versus_players")
     .select("*")
     .eq("versus_id", completion.versus_id)
     .eq("player_id", user.id)
     .single();
 
-  if (accessError) {
+  if (accessError || !access) {
     return {
       data: null,
       error: new Error("You don't have access to this versus"),
     };
   }
 
-  // Ensure the completion is for the current user
-  if (completion.player_id !== user.id) {
+  if (access.role === "viewer") {
+    return { data: null, error: new Error("Viewers can't log completions") };
+  }
+
+  // Only commissioners can log for someone else or add a note
+  const isForSelf = completion.player_id === user.id;
+  if (!access.is_commissioner) {
+    if (!isForSelf) {
+      return {
+        data: null,
+        error: new Error("You can only complete objectives for yourself"),
+      };
+    }
+    if (completion.note) {
+      return {
+        data: null,
+        error: new Error("Only commissioners can add a note"),
+      };
+    }
+  }
+
+  // Limit messages name the player when logging for someone else
+  let targetName: string | null = null;
+  if (!isForSelf) {
+    const { data: target, error: playerError } = await supabase
+      .from("versus_players")
+      .select("role, nickname, player:player_id (display_name, email)")
+      .eq("versus_id", completion.versus_id)
+      .eq("player_id", completion.player_id)
+      .single<{
+        role: VersusRole;
+        nickname: string | null;
+        player: { display_name: string | null; email: string };
+      }>();
+
+    if (playerError || !target) {
+      return { data: null, error: new Error("That player isn't in this versus") };
+    }
+
+    if (target.role === "viewer") {
+      return { data: null, error: new Error("That player is only a viewer in this versus") };
+    }
+
+    targetName = target.nickname || target.player.display_name || target.player.email.split("@")[0];
+  }
+
+  const completedAt = completion.completed_at ? new Date(completion.completed_at).getTime() : Date.now();
+  if (isNaN(completedAt)) {
+    return { data: null, error: new Error("Invalid completion date") };
+  }
+  if (completedAt > Date.now() + 60 * 1000) {
+    return { data: null, error: new Error("Completions can't be dated in the future") };
+  }
+
+  const note = completion.note?.trim() || null;
+  if (note && note.length > 500) {
+    return { data: null, error: new Error("Note must be 500 characters or less") };
+  }
+
+  // Reject completions outside the season window (if the versus has one)
+  const { data: versus, error: versusError } = await supabase
+    .from("versus")
+    .select("starts_at, ends_at, max_backfill_hours")
+    .eq("id", completion.versus_id)
+    .single();
+
+  if (versusError || !versus) {
+    return { data: null, error: versusError || new Error("Versus not found") };
+  }
+
+  // Players can backdate up to the versus' backfill window; commissioners any time
+  if (
+    !access.is_commissioner &&
+    completion.completed_at &&
+    completedAt < getEarliestBackfillTime(versus.max_backfill_hours, null)
+  ) {
     return {
       data: null,
-      error: new Error("You can only complete objectives for yourself"),
+      error: new Error(
+        versus.max_backfill_hours > 0
+          ? `Completions can only be backdated up to ${versus.max_backfill_hours} hours`
+          : "This Versus doesn't allow backdated completions"
+      ),
     };
   }
 
-  const { data, error } = await supabase
-    .from("completions")
-    .insert(completion)
-    .select()
+  // A backdated completion must also fall inside the season
+  const seasonStatus = getSeasonStatus(versus.starts_at, versus.ends_at);
+  const completedSeasonStatus = getSeasonStatus(versus.starts_at, versus.ends_at, completedAt);
+  if (seasonStatus === "upcoming" || completedSeasonStatus === "upcoming") {
+    return {
+      data: null,
+      error: new Error(
+        seasonStatus === "upcoming"
+          ? "This Versus hasn't started yet"
+          : "That date is before this Versus started"
+      ),
+    };
+  }
+  if (seasonStatus === "ended") {
+    return {
+      data: null,
+      error: new Error("This Versus has ended"),
+    };
+  }
+
+  // Enforce the objective's completion limits and cooldown
+  const { data: objective, error: objectiveError } = await supabase
+    .from("objectives")
+    .select("title, max_per_player, max_per_period, limit_period, cooldown_minutes, claim_mode, unit, points_per_unit, requires_proof, archived_at")
+    .eq("id", completion.objective_id)
+    .eq("versus_id", completion.versus_id)
     .single();
 
+  if (objectiveError || !objective) {
+    return { data: null, error: objectiveError || new Error("Objective not found") };
+  }
+
+  if (objective.archived_at) {
+    return {
+      data: null,
+      error: new Error(`"${objective.title}" has been removed from this Versus`),
+    };
+  }
+
+  const { data: previousCompletions, error: previousError } = await supabase
+    .from("completions")
+    .select("completed_at")
+    .eq("objective_id", completion.objective_id)
+    .eq("player_id", completion.player_id)
+    .not("status", "in", "(rejected,voided)");
+
+  if (previousError) {
+    return { data: null, error: previousError };
+  }
+
+  const { reason } = getObjectiveAllowance(
+    objective,
+    (previousCompletions || []).map((c) => c.completed_at),
+    completedAt,
+    targetName
+  );
+
+  if (reason) {
+    return { data: null, error: new Error(reason) };
+  }
+
+  // Quantity-based objectives need an amount; fixed-point ones ignore it
+  let quantity: number | null = null;
+  if (isQuantityObjective(objective)) {
+    if (!completion.quantity || completion.quantity <= 0) {
+      return {
+        data: null,
+        error: new Error(`Enter a quantity (${objective.unit}) for "${objective.title}"`),
+      };
+    }
+    if (completion.quantity > 100000) {
+      return {
+        data: null,
+        error: new Error("Quantity must be 100,000 or less"),
+      };
+    }
+    quantity = completion.quantity;
+  }
+
+  // Proofs must come from uploadCompletionProof() by whoever is logging it
+  if (completion.proof_path) {
+    if (!completion.proof_path.startsWith(`${completion.versus_id}/${user.id}/`)) {
+      return { data: null, error: new Error("Invalid proof attachment") };
+    }
+  } else if (objective.requires_proof) {
+    return {
+      data: null,
+      error: new Error(`"${objective.title}" requires a photo as proof`),
+    };
+  }
+
+  const completedAtIso = completion.completed_at ? new Date(completedAt).toISOString() : null;
+
+  // Claimable objectives go through claim_objective(), which locks the
+  // objective row so two players can't take the same claim slot
+  const { data, error } =
+    objective.claim_mode === "unlimited"
+      ? await supabase
+          .from("completions")
+          .insert({
+            versus_id: completion.versus_id,
+            player_id: completion.player_id,
+            objective_id: completion.objective_id,
+            quantity,
+            proof_path: completion.proof_path || null,
+            note,
+            ...(completedAtIso ? { completed_at: completedAtIso } : {}),
+          })
+          .select()
+          .single()
+      : await supabase.rpc("claim_objective", {
+          p_objective_id: completion.objective_id,
+          p_proof_path: completion.proof_path || null,
+          p_player_id: completion.player_id,
+          p_completed_at: completedAtIso,
+          p_note: note,
+        });
+
   if (!error) {
     revalidatePath(`/versus/${completion.versus_id}`);
     revalidatePath("/");
@@ -56,6 +257,68 @@ export async function completeObjective(completion: InsertCompletion) {
   return { data, error };
 }
 
+/**
+ * Upload a photo as proof for a completion
+ *
+ * Called before completeObjective(); pass the returned path as proof_path.
+ * Files are stored under "<versus_id>/<player_id>/" so access can be checked
+ * from the path alone (see /api/proofs).
+ *
+ * @param formData - versus_id and file (JPEG, PNG, WebP or GIF, max 5 MB)
+ */
+export async function uploadCompletionProof(formData: FormData) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const versusId = formData.get("versus_id");
+  const file = formData.get("file");
+
+  if (typeof versusId !== "string" || !(file instanceof File)) {
+    return { data: null, error: new Error("Choose a photo to upload") };
+  }
+
+  // Verify user has access to this versus
+  const { error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .single();
+
+  if (accessError) {
+    return {
+      data: null,
+      error: new Error("You don't have access to this versus"),
+    };
+  }
+
+  const fileError = getProofFileError(file);
+  if (fileError) {
+    return { data: null, error: new Error(fileError) };
+  }
+
+  const path = `${versusId}/${user.id}/${crypto.randomUUID()}.${PROOF_CONTENT_TYPES[file.type]}`;
+
+  try {
+    await getStorage().put(path, new Uint8Array(await file.arrayBuffer()), file.type);
+  } catch (err) {
+    return {
+      data: null,
+      error: err instanceof Error ? err : new Error("Failed to upload proof"),
+    };
+  }
+
+  return { data: { path }, error: null };
+}
+
 /**
  * Get completions for a specific player in a versus
  */
@@ -106,10 +369,17 @@ export async function getPlayerCompletions(versusId: string, playerId: string) {
 }
 
 /**
- * Delete a completion (undo)
- * Users can only delete their own completions
+ * Delete a completion (undo or commissioner removal)
+ *
+ * Players can undo their own completions within the versus' undo grace period.
+ * After that (or for other players' completions) only a commissioner can remove
+ * the completion, and a reason is required. Commissioner removals are recorded
+ * in completion_removals.
+ *
+ * @param completionId - The completion to delete
+ * @param reason - Required when a commissioner removes a completion outside the undo window
  */
-export async function deleteCompletion(completionId: string) {
+export async function deleteCompletion(completionId: string, reason?: string) {
   const supabase = await createClient();
 
   const {
@@ -132,20 +402,87 @@ export async function deleteCompletion(completionId: string) {
     return { data: null, error: new Error("Completion not found") };
   }
 
-  // Verify user owns this completion
-  if (completion.player_id !== user.id) {
+  // Get the user's membership (for commissioner status)
+  const { data: access, error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", completion.versus_id)
+    .eq("player_id", user.id)
+    .single();
+
+  if (accessError || !access) {
     return {
       data: null,
-      error: new Error("You can only delete your own completions"),
+      error: new Error("You don't have access to this versus"),
     };
   }
 
+  // Get the undo grace period for this versus
+  const { data: versus, error: versusError } = await supabase
+    .from("versus")
+    .select("undo_grace_minutes")
+    .eq("id", completion.versus_id)
+    .single();
+
+  if (versusError || !versus) {
+    return { data: null, error: new Error("Versus not found") };
+  }
+
+  // The player, or the commissioner who logged it for them, can undo
+  const isOwnCompletion = completion.player_id === user.id || completion.logged_by === user.id;
+  const canUndo =
+    isOwnCompletion &&
+    isWithinUndoWindow(completion.logged_at, versus.undo_grace_minutes);
+
+  if (!canUndo) {
+    // Outside the undo window (or someone else's completion) - commissioners only
+    if (!access.is_commissioner) {
+      return {
+        data: null,
+        error: new Error(
+          isOwnCompletion
+            ? "The undo window for this completion has passed. Ask a commissioner to remove it."
+            : "You can only delete your own completions"
+        ),
+      };
+    }
+
+    if (!reason || !reason.trim()) {
+      return {
+        data: null,
+        error: new Error("A reason is required to remove this completion"),
+      };
+    }
+
+    // Record the removal before deleting the completion
+    const { error: removalError } = await supabase
+      .from("completion_removals")
+      .insert({
+        versus_id: completion.versus_id,
+        completion_id: completion.id,
+        player_id: completion.player_id,
+        objective_id: completion.objective_id,
+        completed_at: completion.completed_at,
+        removed_by: user.id,
+        reason: reason.trim(),
+      });
+
+    if (removalError) {
+      return { data: null, error: removalError };
+    }
+  }
+
   const { error } = await supabase
     .from("completions")
     .delete()
     .eq("id", completionId);
 
   if (!error) {
+    // Best effort: a leftover proof file is harmless once the completion is gone
+    if (completion.proof_path) {
+      await getStorage().delete(completion.proof_path).catch(() => undefined);
+    }
+
     revalidatePath(`/versus/${completion.versus_id}`);
     revalidatePath("/");
   }
@@ -153,3 +490,165 @@ export async function deleteCompletion(completionId: string) {
   return { data: null, error };
 }
 
+/**
+ * Get completions waiting for review in a versus (commissioners only)
+ *
+ * Used by the review queue. Oldest first so entries are handled in order.
+ */
+export async function getPendingCompletions(versusId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  // Check if user is a commissioner
+  const { data: access, error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .eq("is_commissioner", true)
+    .single();
+
+  if (accessError || !access) {
+    return {
+      data: null,
+      error: new Error("Only commissioners can review completions"),
+    };
+  }
+
+  type PendingCompletion = {
+    id: string;
+    completed_at: string;
+    logged_at: string;
+    note: string | null;
+    claim_rank: number | null;
+    quantity: number | null;
+    points_awarded: number;
+    proof_path: string | null;
+    objective: {
+      id: string;
+      title: string;
+      unit: string | null;
+    };
+    player: {
+      id: string;
+      display_name: string | null;
+      email: string;
+    };
+    logger: {
+      id: string;
+      display_name: string | null;
+      email: string;
+    } | null;
+  };
+
+  const { data: completions, error } = await supabase
+    .from("completions")
+    .select(
+      `
+      *,
+      objective:objective_id (
+        id,
+        title,
+        unit
+      ),
+      player:player_id (
+        id,
+        display_name,
+        email
+      ),
+      logger:logged_by (
+        id,
+        display_name,
+        email
+      )
+    `
+    )
+    .eq("versus_id", versusId)
+    .eq("status", "pending")
+    .order("completed_at", { ascending: true })
+    .returns<PendingCompletion[]>();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const pending: HistoryEntry[] = completions.map((c) => ({
+    id: c.id,
+    date: new Date(c.completed_at).toLocaleDateString(),
+    time: new Date(c.completed_at).toLocaleTimeString([], {
+      hour: "2-digit",
+      minute: "2-digit",
+    }),
+    completed_at: c.completed_at,
+    logged_at: c.logged_at,
+    logged_by: c.logger?.id ?? null,
+    logged_by_name: c.logger ? c.logger.display_name || c.logger.email.split("@")[0] : null,
+    note: c.note,
+    objective_id: c.objective.id,
+    objective_name: c.objective.title,
+    points: c.points_awarded,
+    claim_rank: c.claim_rank,
+    quantity: c.quantity,
+    unit: c.objective.unit,
+    status: "pending",
+    review_note: null,
+    proof_url: getProofUrl(c.proof_path),
+    dispute: null, // Only approved completions can be disputed
+    player_name: c.player.display_name || c.player.email.split("@")[0],
+    player_id: c.player.id,
+  }));
+
+  return { data: pending, error: null };
+}
+
+/**
+ * Approve or reject a pending completion (commissioners only)
+ *
+ * @param completionId - The pending completion
+ * @param approve - true to approve (counts toward scores), false to reject
+ * @param note - Optional note shown to the player in their history
+ */
+export async function reviewCompletion(
+  completionId: string,
+  approve: boolean,
+  note?: string
+) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  if (note && note.trim().length > 500) {
+    return { data: null, error: new Error("Note must be 500 characters or less") };
+  }
+
+  // review_completion() checks commissioner status and that the entry is still pending
+  const { data, error } = await supabase.rpc("review_completion", {
+    p_completion_id: completionId,
+    p_approve: approve,
+    p_note: note?.trim() || null,
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  revalidatePath(`/versus/${data.versus_id}`);
+  revalidatePath("/");
+
+  return { data, error: null };
+}
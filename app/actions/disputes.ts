@@ -0,0 +1,98 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import type { DisputeVoteChoice } from "@/types/database";
+
+/**
+ * Dispute another player's completion
+ *
+ * Opens a vote among the versus players (viewers don't vote). The challenger's "void" vote is
+ * cast automatically. See 2025-12-13-completion-disputes.sql for the rules.
+ *
+ * @param completionId - The approved completion being challenged
+ * @param reason - Why the completion is suspicious (shown on the entry)
+ */
+export async function openDispute(completionId: string, reason: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  if (!reason.trim()) {
+    return { data: null, error: new Error("A reason is required to dispute a completion") };
+  }
+
+  if (reason.trim().length > 500) {
+    return { data: null, error: new Error("Reason must be 500 characters or less") };
+  }
+
+  // open_completion_dispute() checks access (viewers can't dispute), ownership
+  // and completion status
+  const { data, error } = await supabase.rpc("open_completion_dispute", {
+    p_completion_id: completionId,
+    p_reason: reason.trim(),
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  revalidatePath(`/versus/${data.versus_id}`);
+  revalidatePath("/");
+
+  return { data, error: null };
+}
+
+/**
+ * Vote on an open dispute
+ *
+ * Each player votes once. The dispute resolves as soon as everyone has voted,
+ * otherwise when its deadline passes.
+ *
+ * @param disputeId - The open dispute
+ * @param vote - "keep" the completion or "void" it
+ * @param comment - Optional comment shown in the thread
+ */
+export async function castDisputeVote(
+  disputeId: string,
+  vote: DisputeVoteChoice,
+  comment?: string
+) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  if (comment && comment.trim().length > 500) {
+    return { data: null, error: new Error("Comment must be 500 characters or less") };
+  }
+
+  // cast_dispute_vote() checks access (viewers can't vote) and the deadline
+  const { data, error } = await supabase.rpc("cast_dispute_vote", {
+    p_dispute_id: disputeId,
+    p_vote: vote,
+    p_comment: comment?.trim() || null,
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  revalidatePath(`/versus/${data.versus_id}`);
+  revalidatePath("/");
+
+  return { data, error: null };
+}
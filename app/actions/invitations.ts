@@ -0,0 +1,352 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/lib/supabase/server";
+import { getMailer } from "@/lib/mailer";
+import { getSiteUrl } from "@/lib/site-url";
+import {
+  MAX_VERSUS_PLAYERS,
+  buildInvitationEmail,
+  getInviteSignupUrl,
+  getResendWaitSeconds,
+  normalizeInviteEmail,
+} from "@/lib/invitation-utils";
+import { isVersusRole } from "@/lib/role-utils";
+import type { VersusInvitation, VersusRole } from "@/types/database";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Check the signed-in user is a commissioner of the versus
+ * Returns the user and the versus name (for the email), or an error
+ */
+async function getCommissionerContext(supabase: SupabaseClient, versusId: string) {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { context: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const { data: access, error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .eq("is_commissioner", true)
+    .single();
+
+  if (accessError || !access) {
+    return { context: null, error: new Error("Only commissioners can invite players") };
+  }
+
+  const [{ data: versus }, { data: inviter }] = await Promise.all([
+    supabase.from("versus").select("name").eq("id", versusId).single(),
+    supabase.from("players").select("display_name, email").eq("id", user.id).single(),
+  ]);
+
+  return {
+    context: {
+      userId: user.id,
+      versusName: (versus?.name as string | undefined) || "a Versus",
+      inviterName: inviter?.display_name || inviter?.email?.split("@")[0] || "A friend",
+    },
+    error: null,
+  };
+}
+
+/**
+ * Email the signup link for an invitation
+ * Returns false (and logs) if the mailer failed, so the invitation stays
+ * pending and can be resent.
+ */
+async function sendInvitationEmail(
+  invitation: VersusInvitation,
+  versusName: string,
+  inviterName: string
+): Promise<boolean> {
+  try {
+    const signupUrl = getInviteSignupUrl(await getSiteUrl(), invitation.token, invitation.email);
+    await getMailer().send(
+      buildInvitationEmail({ to: invitation.email, versusName, inviterName, signupUrl })
+    );
+    return true;
+  } catch (error) {
+    console.error(`[sendInvitationEmail] Failed to email ${invitation.email}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Invite people without an account to a versus (commissioners only)
+ *
+ * Each invitation reserves a roster slot until it's accepted or revoked.
+ * Emails that already belong to an account are rejected - add those
+ * players directly instead.
+ *
+ * @returns The new invitations, plus the emails that couldn't be sent
+ *          (those stay pending and can be resent)
+ */
+export async function inviteToVersus(
+  versusId: string,
+  invites: Array<{
+    email: string;
+    nickname: string | null;
+    role: VersusRole;
+  }>
+) {
+  const supabase = await createClient();
+
+  const { context, error: contextError } = await getCommissionerContext(supabase, versusId);
+  if (!context) {
+    return { data: null, error: contextError };
+  }
+
+  if (invites.length === 0) {
+    return { data: { invitations: [] as VersusInvitation[], unsent: [] as string[] }, error: null };
+  }
+
+  const emails = invites.map((invite) => normalizeInviteEmail(invite.email));
+  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+  const invalidEmail = emails.find((email) => !emailRegex.test(email));
+  if (invalidEmail) {
+    return { data: null, error: new Error(`Invalid email: ${invalidEmail}`) };
+  }
+
+  if (invites.some((invite) => !isVersusRole(invite.role))) {
+    return { data: null, error: new Error("Invalid role") };
+  }
+
+  if (new Set(emails).size !== emails.length) {
+    return { data: null, error: new Error("Each email can only be invited once") };
+  }
+
+  // Accounts are added as players, not invited. Looked up by exact email,
+  // since players outside your versus aren't readable directly.
+  const lookups = await Promise.all(
+    emails.map((email) =>
+      supabase.rpc("find_player_by_email", { p_email: email }).maybeSingle<{ email: string }>()
+    )
+  );
+
+  const lookupError = lookups.find((lookup) => lookup.error)?.error;
+  if (lookupError) {
+    return { data: null, error: lookupError };
+  }
+
+  const existingPlayer = lookups.find((lookup) => lookup.data)?.data;
+  if (existingPlayer) {
+    return {
+      data: null,
+      error: new Error(`${existingPlayer.email} already has an account - add them as a player instead`),
+    };
+  }
+
+  // Slots: current players + pending invitations + these
+  const [{ count: playerCount, error: countError }, { data: pending, error: pendingError }] =
+    await Promise.all([
+      supabase
+        .from("versus_players")
+        .select("*", { count: "exact", head: true })
+        .eq("versus_id", versusId),
+      supabase
+        .from("versus_invitations")
+        .select("email")
+        .eq("versus_id", versusId)
+        .eq("status", "pending"),
+    ]);
+
+  if (countError || pendingError) {
+    return { data: null, error: countError || pendingError };
+  }
+
+  const alreadyInvited = (pending || []).find((p: { email: string }) => emails.includes(p.email));
+  if (alreadyInvited) {
+    return {
+      data: null,
+      error: new Error(`${alreadyInvited.email} has already been invited - resend their invitation instead`),
+    };
+  }
+
+  if ((playerCount || 0) + (pending?.length || 0) + invites.length > MAX_VERSUS_PLAYERS) {
+    return {
+      data: null,
+      error: new Error(`A Versus can have at most ${MAX_VERSUS_PLAYERS} players, including pending invitations`),
+    };
+  }
+
+  const { data: invitations, error: insertError } = await supabase
+    .from("versus_invitations")
+    .insert(
+      invites.map((invite, index) => ({
+        versus_id: versusId,
+        email: emails[index],
+        nickname: invite.nickname?.trim() || null,
+        role: invite.role,
+        is_commissioner: invite.role === "commissioner",
+        invited_by: context.userId,
+      }))
+    )
+    .select("*");
+
+  if (insertError || !invitations) {
+    return { data: null, error: insertError || new Error("Failed to create invitations") };
+  }
+
+  const unsent: string[] = [];
+  for (const invitation of invitations as VersusInvitation[]) {
+    const sent = await sendInvitationEmail(invitation, context.versusName, context.inviterName);
+    if (!sent) unsent.push(invitation.email);
+  }
+
+  revalidatePath(`/versus/${versusId}/players`);
+
+  return { data: { invitations: invitations as VersusInvitation[], unsent }, error: null };
+}
+
+/**
+ * Get a versus' pending invitations (commissioners only)
+ */
+export async function getVersusInvitations(versusId: string) {
+  const supabase = await createClient();
+
+  const { context, error: contextError } = await getCommissionerContext(supabase, versusId);
+  if (!context) {
+    return { data: null, error: contextError };
+  }
+
+  const { data, error } = await supabase
+    .from("versus_invitations")
+    .select("*")
+    .eq("versus_id", versusId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: true });
+
+  return { data: data as VersusInvitation[] | null, error };
+}
+
+/**
+ * Send a pending invitation's email again (commissioners only)
+ */
+export async function resendInvitation(invitationId: string) {
+  const supabase = await createClient();
+
+  const { data: invitation, error: fetchError } = await supabase
+    .from("versus_invitations")
+    .select("*")
+    .eq("id", invitationId)
+    .single();
+
+  if (fetchError || !invitation) {
+    return { data: null, error: new Error("Invitation not found") };
+  }
+
+  const { context, error: contextError } = await getCommissionerContext(
+    supabase,
+    invitation.versus_id
+  );
+  if (!context) {
+    return { data: null, error: contextError };
+  }
+
+  if (invitation.status !== "pending") {
+    return { data: null, error: new Error("This invitation is no longer pending") };
+  }
+
+  const waitSeconds = getResendWaitSeconds(invitation.last_sent_at);
+  if (waitSeconds > 0) {
+    return {
+      data: null,
+      error: new Error(`Please wait ${waitSeconds} seconds before resending`),
+    };
+  }
+
+  const sent = await sendInvitationEmail(invitation, context.versusName, context.inviterName);
+  if (!sent) {
+    return { data: null, error: new Error("The email couldn't be sent. Please try again later.") };
+  }
+
+  const { data, error } = await supabase
+    .from("versus_invitations")
+    .update({
+      last_sent_at: new Date().toISOString(),
+      send_count: invitation.send_count + 1,
+    })
+    .eq("id", invitationId)
+    .select("*")
+    .single();
+
+  return { data: data as VersusInvitation | null, error };
+}
+
+/**
+ * Cancel a pending invitation, freeing its roster slot (commissioners only)
+ * The signup link stops working; the person can still create an account.
+ */
+export async function revokeInvitation(invitationId: string) {
+  const supabase = await createClient();
+
+  const { data: invitation, error: fetchError } = await supabase
+    .from("versus_invitations")
+    .select("*")
+    .eq("id", invitationId)
+    .single();
+
+  if (fetchError || !invitation) {
+    return { data: null, error: new Error("Invitation not found") };
+  }
+
+  const { context, error: contextError } = await getCommissionerContext(
+    supabase,
+    invitation.versus_id
+  );
+  if (!context) {
+    return { data: null, error: contextError };
+  }
+
+  const { data, error } = await supabase
+    .from("versus_invitations")
+    .update({ status: "revoked" })
+    .eq("id", invitationId)
+    .eq("status", "pending")
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    return { data: null, error: error || new Error("This invitation is no longer pending") };
+  }
+
+  revalidatePath(`/versus/${invitation.versus_id}/players`);
+
+  return { data: data as VersusInvitation, error: null };
+}
+
+/**
+ * Join every versus the signed-in user has a pending invitation for
+ * Called after sign-in; /auth/callback calls the same RPC after signup.
+ *
+ * @param token - Invitation token from the signup link, if any
+ * @returns The ids of the versus the user was added to
+ */
+export async function acceptInvitations(token?: string | null) {
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.rpc("accept_versus_invitations", {
+    p_token: token || null,
+  });
+
+  if (error) {
+    console.error("[acceptInvitations] Failed to accept invitations:", error);
+    return { data: null, error };
+  }
+
+  const versusIds = (data || []) as string[];
+  if (versusIds.length > 0) {
+    revalidatePath("/");
+  }
+
+  return { data: versusIds, error: null };
+}
@@ -0,0 +1,359 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/lib/supabase/server";
+import { MAX_VERSUS_PLAYERS } from "@/lib/invitation-utils";
+import { generateJoinCode, isValidJoinCode, normalizeJoinCode } from "@/lib/join-code-utils";
+import type {
+  JoinCodePreview,
+  JoinRequestWithPlayer,
+  VersusJoinCode,
+  VersusJoinRequest,
+} from "@/types/database";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Check the signed-in user is a commissioner of the versus
+ * Returns the user's id, or an error
+ */
+async function requireCommissioner(supabase: SupabaseClient, versusId: string) {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { userId: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const { data: access, error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .eq("is_commissioner", true)
+    .single();
+
+  if (accessError || !access) {
+    return { userId: null, error: new Error("Only commissioners can manage join links") };
+  }
+
+  return { userId: user.id, error: null };
+}
+
+// ============================================================================
+// Commissioner: join links
+// ============================================================================
+
+/**
+ * Create a join link/code for a versus (commissioners only)
+ *
+ * @param options.requires_approval - Joining creates a request instead of adding the player
+ * @param options.expires_in_hours - Link stops working after this many hours (null = never)
+ * @param options.max_uses - How many people can use it (null = unlimited)
+ */
+export async function createJoinCode(
+  versusId: string,
+  options: {
+    requires_approval: boolean;
+    expires_in_hours: number | null;
+    max_uses: number | null;
+  }
+) {
+  const supabase = await createClient();
+
+  const { userId, error: accessError } = await requireCommissioner(supabase, versusId);
+  if (!userId) {
+    return { data: null, error: accessError };
+  }
+
+  if (options.expires_in_hours !== null && !(options.expires_in_hours > 0)) {
+    return { data: null, error: new Error("Expiry must be in the future") };
+  }
+
+  if (
+    options.max_uses !== null &&
+    (!Number.isInteger(options.max_uses) || options.max_uses < 1 || options.max_uses > 100)
+  ) {
+    return { data: null, error: new Error("Max uses must be between 1 and 100") };
+  }
+
+  const expiresAt =
+    options.expires_in_hours !== null
+      ? new Date(Date.now() + options.expires_in_hours * 60 * 60 * 1000).toISOString()
+      : null;
+
+  // Codes are random, so a collision is rare - retry a couple of times
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data, error } = await supabase
+      .from("versus_join_codes")
+      .insert({
+        versus_id: versusId,
+        code: generateJoinCode(),
+        requires_approval: options.requires_approval,
+        expires_at: expiresAt,
+        max_uses: options.max_uses,
+        created_by: userId,
+      })
+      .select("*")
+      .single();
+
+    if (!error) {
+      revalidatePath(`/versus/${versusId}/players`);
+      return { data: data as VersusJoinCode, error: null };
+    }
+
+    // 23505 = unique violation (code already taken)
+    if (error.code !== "23505") {
+      return { data: null, error };
+    }
+  }
+
+  return { data: null, error: new Error("Failed to create a join code. Please try again.") };
+}
+
+/**
+ * Get a versus' join links that haven't been revoked, newest first
+ * (commissioners only)
+ */
+export async function getVersusJoinCodes(versusId: string) {
+  const supabase = await createClient();
+
+  const { userId, error: accessError } = await requireCommissioner(supabase, versusId);
+  if (!userId) {
+    return { data: null, error: accessError };
+  }
+
+  const { data, error } = await supabase
+    .from("versus_join_codes")
+    .select("*")
+    .eq("versus_id", versusId)
+    .is("revoked_at", null)
+    .order("created_at", { ascending: false });
+
+  return { data: data as VersusJoinCode[] | null, error };
+}
+
+/**
+ * Stop a join link from working (commissioners only)
+ * People who already joined with it stay in the versus.
+ */
+export async function revokeJoinCode(codeId: string) {
+  const supabase = await createClient();
+
+  const { data: code, error: fetchError } = await supabase
+    .from("versus_join_codes")
+    .select("*")
+    .eq("id", codeId)
+    .single();
+
+  if (fetchError || !code) {
+    return { data: null, error: new Error("Join link not found") };
+  }
+
+  const { userId, error: accessError } = await requireCommissioner(supabase, code.versus_id);
+  if (!userId) {
+    return { data: null, error: accessError };
+  }
+
+  const { data, error } = await supabase
+    .from("versus_join_codes")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", codeId)
+    .select("*")
+    .single();
+
+  if (!error) {
+    revalidatePath(`/versus/${code.versus_id}/players`);
+  }
+
+  return { data: data as VersusJoinCode | null, error };
+}
+
+// ============================================================================
+// Commissioner: join requests
+// ============================================================================
+
+/**
+ * Get the people waiting to join a versus (commissioners only)
+ */
+export async function getPendingJoinRequests(versusId: string) {
+  const supabase = await createClient();
+
+  const { userId, error: accessError } = await requireCommissioner(supabase, versusId);
+  if (!userId) {
+    return { data: null, error: accessError };
+  }
+
+  const { data, error } = await supabase
+    .from("versus_join_requests")
+    .select(
+      `
+      *,
+      player:player_id (
+        id,
+        display_name,
+        email
+      )
+    `
+    )
+    .eq("versus_id", versusId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  type JoinRequestRow = VersusJoinRequest & {
+    player: { id: string; display_name: string | null; email: string };
+  };
+
+  const requests: JoinRequestWithPlayer[] = (data as JoinRequestRow[]).map(({ player, ...request }) => ({
+    ...request,
+    player_name: player.display_name || player.email.split("@")[0],
+    player_email: player.email,
+  }));
+
+  return { data: requests, error: null };
+}
+
+/**
+ * Approve or reject a join request (commissioners only)
+ * Approving adds the person as a participant, if there's room.
+ */
+export async function decideJoinRequest(requestId: string, approve: boolean) {
+  const supabase = await createClient();
+
+  const { data: request, error: fetchError } = await supabase
+    .from("versus_join_requests")
+    .select("*")
+    .eq("id", requestId)
+    .single();
+
+  if (fetchError || !request) {
+    return { data: null, error: new Error("Join request not found") };
+  }
+
+  const { userId, error: accessError } = await requireCommissioner(supabase, request.versus_id);
+  if (!userId) {
+    return { data: null, error: accessError };
+  }
+
+  if (request.status !== "pending") {
+    return { data: null, error: new Error("This request has already been handled") };
+  }
+
+  if (approve) {
+    // Pending invitations hold slots too
+    const [{ count: playerCount }, { count: inviteCount }] = await Promise.all([
+      supabase
+        .from("versus_players")
+        .select("*", { count: "exact", head: true })
+        .eq("versus_id", request.versus_id),
+      supabase
+        .from("versus_invitations")
+        .select("*", { count: "exact", head: true })
+        .eq("versus_id", request.versus_id)
+        .eq("status", "pending"),
+    ]);
+
+    if ((playerCount || 0) + (inviteCount || 0) >= MAX_VERSUS_PLAYERS) {
+      return {
+        data: null,
+        error: new Error(`This Versus already has ${MAX_VERSUS_PLAYERS} players (including pending invitations)`),
+      };
+    }
+
+    const { error: insertError } = await supabase.from("versus_players").insert({
+      versus_id: request.versus_id,
+      player_id: request.player_id,
+      nickname: null,
+      role: "participant",
+      is_commissioner: false,
+    });
+
+    if (insertError) {
+      return { data: null, error: new Error(`Failed to add player: ${insertError.message}`) };
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("versus_join_requests")
+    .update({
+      status: approve ? "approved" : "rejected",
+      decided_by: userId,
+      decided_at: new Date().toISOString(),
+    })
+    .eq("id", requestId)
+    .select("*")
+    .single();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  if (approve) {
+    revalidatePath(`/versus/${request.versus_id}`);
+  }
+
+  revalidatePath(`/versus/${request.versus_id}/players`);
+
+  return { data: data as VersusJoinRequest, error: null };
+}
+
+// ============================================================================
+// Joining
+// ============================================================================
+
+/**
+ * Look up what a join code points to (any signed-in user)
+ * Returns null data for codes that don't exist.
+ */
+export async function getJoinCodePreview(code: string) {
+  const supabase = await createClient();
+
+  const normalized = normalizeJoinCode(code);
+  if (!isValidJoinCode(normalized)) {
+    return { data: null, error: null };
+  }
+
+  const { data, error } = await supabase
+    .rpc("get_join_code_preview", { p_code: normalized })
+    .maybeSingle();
+
+  return { data: data as JoinCodePreview | null, error };
+}
+
+/**
+ * Join (or ask to join) a versus with a code
+ *
+ * @returns The versus id and the result: "joined", "requested" (waiting for
+ *          approval) or "member" (already in the versus)
+ */
+export async function joinVersusWithCode(code: string) {
+  const supabase = await createClient();
+
+  const normalized = normalizeJoinCode(code);
+  if (!isValidJoinCode(normalized)) {
+    return { data: null, error: new Error("This join link is not valid") };
+  }
+
+  const { data, error } = await supabase
+    .rpc("join_versus_with_code", { p_code: normalized })
+    .single();
+
+  if (error || !data) {
+    return { data: null, error: error || new Error("Failed to join") };
+  }
+
+  const result = data as { versus_id: string; result: "joined" | "requested" | "member" };
+
+  if (result.result === "joined") {
+    revalidatePath("/");
+    revalidatePath(`/versus/${result.versus_id}`);
+  }
+
+  return { data: result, error: null };
+}
@@ -0,0 +1,201 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/lib/supabase/server";
+import { getStorage } from "@/lib/storage";
+import type { VersusWinnerOption } from "@/types/database";
+
+/**
+ * Who can be declared the winner of a versus (commissioners only)
+ * Players in current ranking order; viewers aren't ranked, so they're left out.
+ */
+export async function getVersusWinnerOptions(versusId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const { data: access, error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .eq("is_commissioner", true)
+    .single();
+
+  if (accessError || !access) {
+    return { data: null, error: new Error("Only commissioners can finish this versus") };
+  }
+
+  type MemberRow = {
+    player_id: string;
+    nickname: string | null;
+    player: { display_name: string | null; email: string };
+  };
+
+  const [{ data: rankings, error: rankingsError }, { data: members, error: membersError }] =
+    await Promise.all([
+      supabase
+        .from("player_rankings")
+        .select("player_id, total_score, rank")
+        .eq("versus_id", versusId)
+        .order("rank", { ascending: true }),
+      supabase
+        .from("versus_players")
+        .select(
+          `
+          player_id,
+          nickname,
+          player:player_id (
+            display_name,
+            email
+          )
+        `
+        )
+        .eq("versus_id", versusId)
+        .neq("role", "viewer")
+        .returns<MemberRow[]>(),
+    ]);
+
+  if (rankingsError || membersError) {
+    return { data: null, error: rankingsError || membersError };
+  }
+
+  const options: VersusWinnerOption[] = [];
+  for (const ranking of rankings || []) {
+    const member = (members || []).find((m) => m.player_id === ranking.player_id);
+    if (!member) continue;
+
+    options.push({
+      player_id: member.player_id,
+      name: member.nickname || member.player.display_name || member.player.email.split("@")[0],
+      score: ranking.total_score,
+      rank: ranking.rank,
+    });
+  }
+
+  return { data: options, error: null };
+}
+
+/**
+ * Finish a versus now (commissioners only)
+ *
+ * The season ends immediately and the final standings are frozen, so no
+ * more completions can be logged.
+ *
+ * @param winnerId - Player to declare the winner; null = whoever is the sole
+ *        leader (no winner on a tie)
+ */
+export async function finishVersus(versusId: string, winnerId: string | null) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  // finish_versus() checks the caller is a commissioner and the winner plays
+  const { data, error } = await supabase.rpc("finish_versus", {
+    p_versus_id: versusId,
+    p_winner_id: winnerId,
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  revalidatePath("/");
+  revalidatePath(`/versus/${versusId}`);
+
+  return { data, error: null };
+}
+
+/**
+ * Archive a finished versus, or restore it to Finished (commissioners only)
+ */
+export async function setVersusArchived(versusId: string, archived: boolean) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const { data, error } = await supabase.rpc("set_versus_archived", {
+    p_versus_id: versusId,
+    p_archived: archived,
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  revalidatePath("/");
+  revalidatePath(`/versus/${versusId}`);
+
+  return { data, error: null };
+}
+
+/**
+ * Permanently delete a versus (owner only)
+ *
+ * Deletes its objectives, completions, history and audit log with it, then
+ * removes its proof photos from storage.
+ *
+ * @param confirmName - The versus name, typed by the owner to confirm
+ */
+export async function deleteVersus(versusId: string, confirmName: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  // Collect stored files before the rows pointing at them are gone
+  const { data: proofs } = await supabase
+    .from("completions")
+    .select("proof_path")
+    .eq("versus_id", versusId)
+    .not("proof_path", "is", null);
+
+  // delete_versus() checks ownership and the typed name
+  const { error } = await supabase.rpc("delete_versus", {
+    p_versus_id: versusId,
+    p_confirm_name: confirmName,
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  // The versus is gone either way; a failed delete only leaves a file orphaned
+  const storage = getStorage();
+  await Promise.all(
+    (proofs || []).map((p: { proof_path: string }) =>
+      storage.delete(p.proof_path).catch(() => undefined)
+    )
+  );
+
+  revalidatePath("/");
+
+  return { data: { deleted: true }, error: null };
+}
@@ -0,0 +1,153 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/lib/supabase/server";
+import { getOtherMembers } from "@/lib/members";
+import type { LeaveVersusOptions } from "@/types/database";
+
+/**
+ * What leaving a versus would involve for the signed-in user: how many
+ * completions they have, and whether they must name a successor
+ */
+export async function getLeaveVersusOptions(versusId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const { data: access, error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .single();
+
+  if (accessError || !access) {
+    return { data: null, error: new Error("You aren't in this versus") };
+  }
+
+  const [{ data: members, error: membersError }, { count, error: countError }] = await Promise.all([
+    getOtherMembers(supabase, versusId, user.id),
+    supabase
+      .from("completions")
+      .select("id", { count: "exact", head: true })
+      .eq("versus_id", versusId)
+      .eq("player_id", user.id),
+  ]);
+
+  if (membersError || !members) {
+    return { data: null, error: membersError || new Error("Failed to load members") };
+  }
+
+  if (countError) {
+    return { data: null, error: countError };
+  }
+
+  const options: LeaveVersusOptions = {
+    role: access.role,
+    completion_count: count || 0,
+    needs_successor:
+      access.role === "commissioner" && !members.some((m) => m.role === "commissioner"),
+    members,
+  };
+
+  return { data: options, error: null };
+}
+
+/**
+ * Leave a versus
+ *
+ * The last commissioner must name a successor, who becomes a commissioner
+ * (and the owner, if the leaving player created the versus).
+ * An owner who isn't a commissioner passes ownership to the longest-serving
+ * commissioner.
+ *
+ * @param options.purge_completions - Also delete the player's completions
+ *        (recorded as removals); otherwise they stay in the history
+ * @param options.successor_id - Member to hand the versus to
+ * @returns The number of completions purged
+ */
+export async function leaveVersus(
+  versusId: string,
+  options: {
+    purge_completions: boolean;
+    successor_id?: string | null;
+  }
+) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  // leave_versus() checks membership and the successor
+  const { data, error } = await supabase.rpc("leave_versus", {
+    p_versus_id: versusId,
+    p_purge_completions: options.purge_completions,
+    p_successor_id: options.successor_id || null,
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  revalidatePath("/");
+  revalidatePath(`/versus/${versusId}`);
+
+  return { data: { purged: (data as number) || 0 }, error: null };
+}
+
+/**
+ * Hand a versus to another member (commissioners only)
+ *
+ * The member becomes a commissioner, and the owner if the caller created
+ * the versus. With step_down the caller becomes a participant.
+ */
+export async function transferCommissioner(
+  versusId: string,
+  newCommissionerId: string,
+  options: { step_down: boolean }
+) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  if (newCommissionerId === user.id) {
+    return { data: null, error: new Error("Choose someone else to hand the versus to") };
+  }
+
+  // transfer_versus_commissioner() checks the caller is a commissioner
+  const { data, error } = await supabase.rpc("transfer_versus_commissioner", {
+    p_versus_id: versusId,
+    p_new_commissioner_id: newCommissionerId,
+    p_step_down: options.step_down,
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  revalidatePath("/");
+  revalidatePath(`/versus/${versusId}`);
+  revalidatePath(`/versus/${versusId}/players`);
+
+  return { data, error: null };
+}
@@ -2,7 +2,16 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
-import type { InsertObjective, UpdateObjective } from "@/types/database";
+import { getObjectiveAllowance } from "@/lib/objective-limits";
+import { getClaimSlots, getCompletionPoints, rankByScore } from "@/lib/scoring";
+import type {
+  InsertObjective,
+  UpdateObjective,
+  ObjectiveWithStatus,
+  RescorePreviewEntry,
+  LimitPeriod,
+  ClaimMode,
+} from "@/types/database";
 
 /**
  * Get all objectives for a versus
@@ -38,11 +47,140 @@ export async function getObjectivesByVersusId(versusId: string) {
     .from("objectives")
     .select("*")
     .eq("versus_id", versusId)
+    .is("archived_at", null)
     .order("created_at", { ascending: true });
 
   return { data, error };
 }
 
+/**
+ * Get all objectives for a versus with the current user's completion status
+ *
+ * Used by the "Log it" check-in panel on the Versus page. The completion
+ * count and remaining allowance describe the current user only.
+ */
+export async function getObjectivesWithStatus(versusId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  // Check if user has access to this versus
+  const { error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .single();
+
+  if (accessError) {
+    return {
+      data: null,
+      error: new Error("You don't have access to this versus"),
+    };
+  }
+
+  const { data: objectives, error: objectivesError } = await supabase
+    .from("objectives")
+    .select("*")
+    .eq("versus_id", versusId)
+    .is("archived_at", null)
+    .order("created_at", { ascending: true });
+
+  if (objectivesError) {
+    return { data: null, error: objectivesError };
+  }
+
+  // Get the current user's completions to count per objective
+  const { data: completions, error: completionsError } = await supabase
+    .from("completions")
+    .select("objective_id, completed_at")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .not("status", "in", "(rejected,voided)");
+
+  if (completionsError) {
+    return { data: null, error: completionsError };
+  }
+
+  type ClaimRow = {
+    objective_id: string;
+    claim_rank: number;
+    player: {
+      id: string;
+      display_name: string | null;
+      email: string;
+    };
+  };
+
+  // Get every claim in this versus (single/podium objectives)
+  const { data: claimRows, error: claimsError } = await supabase
+    .from("completions")
+    .select(
+      `
+      objective_id,
+      claim_rank,
+      player:player_id (
+        id,
+        display_name,
+        email
+      )
+    `
+    )
+    .eq("versus_id", versusId)
+    .not("claim_rank", "is", null)
+    .order("claim_rank", { ascending: true })
+    .returns<ClaimRow[]>();
+
+  if (claimsError) {
+    return { data: null, error: claimsError };
+  }
+
+  const objectivesWithStatus: ObjectiveWithStatus[] = (objectives || []).map(
+    (objective) => {
+      const completedAt = (completions || [])
+        .filter((c) => c.objective_id === objective.id)
+        .map((c) => c.completed_at);
+      const allowance = getObjectiveAllowance(objective, completedAt);
+
+      const claims = claimRows
+        .filter((c) => c.objective_id === objective.id)
+        .map((c) => ({
+          claim_rank: c.claim_rank,
+          player_id: c.player.id,
+          player_name: c.player.display_name || c.player.email.split("@")[0],
+        }));
+
+      // Claimable objectives are used up once every slot is taken
+      // or the current user already holds one
+      let remaining = allowance.remaining;
+      const claimSlots = getClaimSlots(objective);
+      if (claimSlots > 0) {
+        const alreadyClaimed = claims.some((c) => c.player_id === user.id);
+        const claimsLeft = alreadyClaimed ? 0 : Math.max(0, claimSlots - claims.length);
+        remaining = remaining === null ? claimsLeft : Math.min(remaining, claimsLeft);
+      }
+
+      return {
+        ...objective,
+        completed_by_user: completedAt.length > 0,
+        completion_count: completedAt.length,
+        remaining,
+        available_at: allowance.availableAt,
+        claims,
+      };
+    }
+  );
+
+  return { data: objectivesWithStatus, error: null };
+}
+
 /**
  * Create a new objective (commissioners only)
  */
@@ -89,10 +227,15 @@ export async function createObjective(objective: InsertObjective) {
 
 /**
  * Update an objective (commissioners only)
+ *
+ * Past completions keep the points they were logged with unless
+ * options.rescore is set, in which case every completion of the objective
+ * is re-scored with the new settings (see previewObjectiveRescore()).
  */
 export async function updateObjective(
   objectiveId: string,
-  updates: UpdateObjective
+  updates: UpdateObjective,
+  options: { rescore?: boolean } = {}
 ) {
   const supabase = await createClient();
 
@@ -108,7 +251,7 @@ export async function updateObjective(
   // Get objective to find versus_id
   const { data: objective, error: objectiveError } = await supabase
     .from("objectives")
-    .select("versus_id")
+    .select("*")
     .eq("id", objectiveId)
     .single();
 
@@ -139,15 +282,170 @@ export async function updateObjective(
     .select()
     .single();
 
-  if (!error) {
-    revalidatePath(`/versus/${objective.versus_id}`);
+  if (error) {
+    return { data: null, error };
   }
 
-  return { data, error };
+  if (options.rescore) {
+    const { error: rescoreError } = await supabase.rpc("rescore_objective", {
+      p_objective_id: objectiveId,
+    });
+
+    if (rescoreError) {
+      return {
+        data: null,
+        error: new Error(`Objective saved, but re-scoring failed: ${rescoreError.message}`),
+      };
+    }
+  }
+
+  revalidatePath(`/versus/${objective.versus_id}`);
+  revalidatePath("/");
+
+  return { data, error: null };
+}
+
+/**
+ * Preview how the standings would change if an objective's past completions
+ * were re-scored with new settings (commissioners only)
+ *
+ * Nothing is saved. Uses the live standings, so a finished season's frozen
+ * final standings are unaffected either way.
+ *
+ * @param objectiveId - The objective being edited
+ * @param updates - The unsaved scoring settings
+ * @returns How many completions would change, and every player's score/rank before and after
+ */
+export async function previewObjectiveRescore(
+  objectiveId: string,
+  updates: Pick<UpdateObjective, "points" | "claim_mode" | "podium_points" | "points_per_unit">
+) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const { data: objective, error: objectiveError } = await supabase
+    .from("objectives")
+    .select("*")
+    .eq("id", objectiveId)
+    .single();
+
+  if (objectiveError || !objective) {
+    return { data: null, error: new Error("Objective not found") };
+  }
+
+  // Check if user is a commissioner
+  const { data: access, error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", objective.versus_id)
+    .eq("player_id", user.id)
+    .eq("is_commissioner", true)
+    .single();
+
+  if (accessError || !access) {
+    return {
+      data: null,
+      error: new Error("You don't have permission to update objectives"),
+    };
+  }
+
+  const [
+    { data: versus, error: versusError },
+    { data: rankings, error: rankingsError },
+    { data: completions, error: completionsError },
+  ] = await Promise.all([
+    supabase.from("versus").select("reverse_ranking").eq("id", objective.versus_id).single(),
+    supabase
+      .from("player_rankings")
+      .select(
+        `
+        *,
+        player:player_id (
+          id,
+          display_name,
+          email
+        )
+      `
+      )
+      .eq("versus_id", objective.versus_id),
+    supabase
+      .from("completions")
+      .select("player_id, claim_rank, quantity, points_awarded")
+      .eq("objective_id", objectiveId),
+  ]);
+
+  if (versusError || rankingsError || completionsError) {
+    return { data: null, error: versusError || rankingsError || completionsError };
+  }
+
+  // Score change per player if every completion were re-scored
+  const rescored = { ...objective, ...updates };
+  const deltas = new Map<string, number>();
+  let changedCount = 0;
+
+  for (const completion of completions || []) {
+    const delta = getCompletionPoints(rescored, completion) - completion.points_awarded;
+    if (delta !== 0) {
+      changedCount++;
+      deltas.set(completion.player_id, (deltas.get(completion.player_id) || 0) + delta);
+    }
+  }
+
+  type RankingWithPlayer = {
+    total_score: number;
+    rank: number;
+    player: {
+      id: string;
+      email: string;
+      display_name: string | null;
+    };
+  };
+
+  const after = rankByScore(
+    (rankings as RankingWithPlayer[]).map((r) => ({
+      player_id: r.player.id,
+      score: Number(r.total_score) + (deltas.get(r.player.id) || 0),
+    })),
+    versus.reverse_ranking
+  );
+
+  const entries: RescorePreviewEntry[] = (rankings as RankingWithPlayer[])
+    .map((r) => {
+      const afterEntry = after.find((a) => a.player_id === r.player.id)!;
+      return {
+        player_id: r.player.id,
+        player_name: r.player.display_name || r.player.email.split("@")[0],
+        score_before: Number(r.total_score),
+        score_after: afterEntry.score,
+        rank_before: r.rank,
+        rank_after: afterEntry.rank,
+      };
+    })
+    .sort((a, b) => a.rank_after - b.rank_after);
+
+  return {
+    data: {
+      completionCount: (completions || []).length,
+      changedCount,
+      entries,
+    },
+    error: null,
+  };
 }
 
 /**
  * Delete an objective (commissioners only)
+ *
+ * The objective is archived rather than deleted, so its past completions
+ * (and the points they earned) stay on the scoreboard and in history.
  */
 export async function deleteObjective(objectiveId: string) {
   const supabase = await createClient();
@@ -161,10 +459,10 @@ export async function deleteObjective(objectiveId: string) {
     return { data: null, error: authError || new Error("Not authenticated") };
   }
 
-  // Get objective to find versus_id
+  // Get objective to find versus_id (and its values for the audit log)
   const { data: objective, error: objectiveError } = await supabase
     .from("objectives")
-    .select("versus_id")
+    .select("*")
     .eq("id", objectiveId)
     .single();
 
@@ -190,7 +488,7 @@ export async function deleteObjective(objectiveId: string) {
 
   const { error } = await supabase
     .from("objectives")
-    .delete()
+    .update({ archived_at: new Date().toISOString() })
     .eq("id", objectiveId);
 
   if (!error) {
@@ -210,8 +508,9 @@ export async function deleteObjective(objectiveId: string) {
  * 
  * The function performs atomic updates and handles rollback if any operation fails.
  * 
- * Note: Deleting an objective will cascade delete all completions for that objective
- * (handled by database foreign key constraints).
+ * Note: Deleted objectives are archived, and edits only apply to future
+ * completions - past completions keep their points_awarded.
+ * Use updateObjective() with { rescore: true } to re-score retroactively.
  * 
  * @param versusId - The Versus ID to update
  * @param objectivesData - Array of objective updates with id (for updates) or without id (for new)
@@ -236,6 +535,15 @@ export async function updateVersusObjectives(
     title: string;
     points: number; // Can be positive or negative
     description: string | null;
+    max_per_player?: number | null;
+    max_per_period?: number | null;
+    limit_period?: LimitPeriod | null;
+    cooldown_minutes?: number | null;
+    claim_mode?: ClaimMode;
+    podium_points?: number[] | null;
+    unit?: string | null;
+    points_per_unit?: number | null;
+    requires_proof?: boolean;
   }>
 ) {
   const supabase = await createClient();
@@ -269,7 +577,8 @@ export async function updateVersusObjectives(
   const { data: currentObjectives, error: currentError } = await supabase
     .from("objectives")
     .select("*")
-    .eq("versus_id", versusId);
+    .eq("versus_id", versusId)
+    .is("archived_at", null);
 
   if (currentError) {
     return { data: null, error: currentError };
@@ -298,6 +607,15 @@ export async function updateVersusObjectives(
             title: objectiveUpdate.title,
             points: objectiveUpdate.points,
             description: objectiveUpdate.description,
+            max_per_player: objectiveUpdate.max_per_player,
+            max_per_period: objectiveUpdate.max_per_period,
+            limit_period: objectiveUpdate.limit_period,
+            cooldown_minutes: objectiveUpdate.cooldown_minutes,
+            claim_mode: objectiveUpdate.claim_mode,
+            podium_points: objectiveUpdate.podium_points,
+            unit: objectiveUpdate.unit,
+            points_per_unit: objectiveUpdate.points_per_unit,
+            requires_proof: objectiveUpdate.requires_proof,
           })
           .eq("id", objectiveUpdate.id)
           .eq("versus_id", versusId);
@@ -316,6 +634,15 @@ export async function updateVersusObjectives(
             title: objectiveUpdate.title,
             points: objectiveUpdate.points,
             description: objectiveUpdate.description,
+            max_per_player: objectiveUpdate.max_per_player,
+            max_per_period: objectiveUpdate.max_per_period,
+            limit_period: objectiveUpdate.limit_period,
+            cooldown_minutes: objectiveUpdate.cooldown_minutes,
+            claim_mode: objectiveUpdate.claim_mode,
+            podium_points: objectiveUpdate.podium_points,
+            unit: objectiveUpdate.unit,
+            points_per_unit: objectiveUpdate.points_per_unit,
+            requires_proof: objectiveUpdate.requires_proof,
           })
           .select()
           .single();
@@ -328,7 +655,7 @@ export async function updateVersusObjectives(
       }
     }
 
-    // Delete objectives that are no longer in the array
+    // Archive objectives that are no longer in the array
     const objectivesToKeep = objectivesData
       .map((o) => o.id)
       .filter((id): id is string => !!id);
@@ -339,7 +666,7 @@ export async function updateVersusObjectives(
     for (const objectiveToRemove of objectivesToRemove || []) {
       const { error: deleteError } = await supabase
         .from("objectives")
-        .delete()
+        .update({ archived_at: new Date().toISOString() })
         .eq("id", objectiveToRemove.id)
         .eq("versus_id", versusId);
 
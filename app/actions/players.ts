@@ -2,7 +2,20 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
-import type { UpdatePlayer } from "@/types/database";
+import { getStorage } from "@/lib/storage";
+import {
+  AVATAR_CONTENT_TYPES,
+  DISPLAY_NAME_MAX_LENGTH,
+  getAvatarFileError,
+  getAvatarUrl,
+} from "@/lib/avatar-utils";
+import type {
+  CareerStats,
+  PlayerProfile,
+  PlayerSearchResult,
+  UpdatePlayer,
+  VersusRole,
+} from "@/types/database";
 
 /**
  * Get the current authenticated player
@@ -43,6 +56,23 @@ export async function updatePlayerProfile(updates: UpdatePlayer) {
     return { data: null, error: authError || new Error("Not authenticated") };
   }
 
+  if (updates.display_name !== undefined && updates.display_name !== null) {
+    const displayName = updates.display_name.trim();
+
+    if (!displayName) {
+      return { data: null, error: new Error("Display name can't be empty") };
+    }
+
+    if (displayName.length > DISPLAY_NAME_MAX_LENGTH) {
+      return {
+        data: null,
+        error: new Error(`Display name must be ${DISPLAY_NAME_MAX_LENGTH} characters or fewer`),
+      };
+    }
+
+    updates = { ...updates, display_name: displayName };
+  }
+
   const { data, error } = await supabase
     .from("players")
     .update(updates)
@@ -52,11 +82,234 @@ export async function updatePlayerProfile(updates: UpdatePlayer) {
 
   if (!error) {
     revalidatePath("/");
+    revalidatePath("/profile");
   }
 
   return { data, error };
 }
 
+/**
+ * Upload a new avatar for the current player
+ *
+ * Expects FormData with a "file" image. Replaces (and deletes) any
+ * previous avatar.
+ */
+export async function uploadAvatar(formData: FormData) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const file = formData.get("file");
+
+  if (!(file instanceof File)) {
+    return { data: null, error: new Error("Choose a photo to upload") };
+  }
+
+  const fileError = getAvatarFileError(file);
+  if (fileError) {
+    return { data: null, error: new Error(fileError) };
+  }
+
+  const { data: player, error: playerError } = await supabase
+    .from("players")
+    .select("avatar_path")
+    .eq("id", user.id)
+    .single();
+
+  if (playerError || !player) {
+    return { data: null, error: playerError || new Error("Player not found") };
+  }
+
+  const storage = getStorage("avatars");
+  const path = `${user.id}/${crypto.randomUUID()}.${AVATAR_CONTENT_TYPES[file.type]}`;
+
+  try {
+    await storage.put(path, new Uint8Array(await file.arrayBuffer()), file.type);
+  } catch (err) {
+    return {
+      data: null,
+      error: err instanceof Error ? err : new Error("Failed to upload avatar"),
+    };
+  }
+
+  const { error: updateError } = await supabase
+    .from("players")
+    .update({ avatar_path: path })
+    .eq("id", user.id);
+
+  if (updateError) {
+    await storage.delete(path).catch(() => undefined);
+    return { data: null, error: updateError };
+  }
+
+  // The old file is no longer referenced; a failed delete only leaves it orphaned
+  if (player.avatar_path) {
+    await storage.delete(player.avatar_path).catch(() => undefined);
+  }
+
+  revalidatePath("/profile");
+
+  return { data: { avatar_url: getAvatarUrl(path) }, error: null };
+}
+
+/**
+ * Remove the current player's avatar (back to initials)
+ */
+export async function removeAvatar() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const { data: player, error: playerError } = await supabase
+    .from("players")
+    .select("avatar_path")
+    .eq("id", user.id)
+    .single();
+
+  if (playerError || !player) {
+    return { data: null, error: playerError || new Error("Player not found") };
+  }
+
+  const { error: updateError } = await supabase
+    .from("players")
+    .update({ avatar_path: null })
+    .eq("id", user.id);
+
+  if (updateError) {
+    return { data: null, error: updateError };
+  }
+
+  if (player.avatar_path) {
+    await getStorage("avatars").delete(player.avatar_path).catch(() => undefined);
+  }
+
+  revalidatePath("/profile");
+
+  return { data: { avatar_url: null }, error: null };
+}
+
+/**
+ * Career totals across all of a player's versus
+ * Only for yourself or players you share a versus with (checked by
+ * get_player_career_stats()).
+ */
+export async function getPlayerCareerStats(playerId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const { data, error } = await supabase.rpc("get_player_career_stats", {
+    p_player_id: playerId,
+  });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return { data: data as CareerStats, error: null };
+}
+
+/**
+ * A player's profile, opened from a versus you're both in
+ */
+export async function getVersusPlayerProfile(versusId: string, playerId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  // Check if user has access to this versus
+  const { error: accessError } = await supabase
+    .from("versus_players")
+    .select("id")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .single();
+
+  if (accessError) {
+    return { data: null, error: new Error("You don't have access to this versus") };
+  }
+
+  type MemberRow = {
+    nickname: string | null;
+    role: VersusRole;
+    joined_at: string;
+    player: { id: string; email: string; display_name: string | null; avatar_path: string | null };
+  };
+
+  const { data: member, error: memberError } = await supabase
+    .from("versus_players")
+    .select(
+      `
+      nickname,
+      role,
+      joined_at,
+      player:player_id (
+        id,
+        email,
+        display_name,
+        avatar_path
+      )
+    `
+    )
+    .eq("versus_id", versusId)
+    .eq("player_id", playerId)
+    .maybeSingle<MemberRow>();
+
+  if (memberError) {
+    return { data: null, error: memberError };
+  }
+
+  if (!member) {
+    return { data: null, error: new Error("That player isn't in this versus") };
+  }
+
+  const { data: stats, error: statsError } = await getPlayerCareerStats(playerId);
+
+  if (statsError || !stats) {
+    return { data: null, error: statsError || new Error("Failed to load stats") };
+  }
+
+  const profile: PlayerProfile = {
+    player_id: member.player.id,
+    name: member.nickname || member.player.display_name || member.player.email.split("@")[0],
+    display_name: member.player.display_name,
+    avatar_url: getAvatarUrl(member.player.avatar_path),
+    role: member.role,
+    joined_at: member.joined_at,
+    stats,
+  };
+
+  return { data: profile, error: null };
+}
+
 /**
  * Get a player by ID
  */
@@ -73,18 +326,31 @@ export async function getPlayerById(playerId: string) {
 }
 
 /**
- * Search for players by email or display name
+ * Search for players by name
+ *
+ * Only finds people you already play with (by name or email) and players
+ * who opted in to being discoverable (by name only, without their email).
+ * search_players() escapes the query, and ignores queries under 2 characters.
  */
 export async function searchPlayers(query: string) {
   const supabase = await createClient();
 
-  const { data, error } = await supabase
-    .from("players")
-    .select("*")
-    .or(`email.ilike.%${query}%,display_name.ilike.%${query}%`)
-    .limit(10);
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
 
-  return { data, error };
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const { data, error } = await supabase.rpc("search_players", { p_query: query });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return { data: (data || []) as PlayerSearchResult[], error: null };
 }
 
 /**
@@ -96,22 +362,25 @@ export async function searchPlayers(query: string) {
  * This function is called on blur (when user finishes typing email) to:
  * 1. Validate the email exists in the system
  * 2. Auto-populate the player's display_name if found
- * 3. Show error if player doesn't exist (must sign up first)
+ * 3. Mark the row as an email invitation if there's no account yet
  * 
  * @param email - Email address to validate
- * @returns Player data if found, null if not found
+ * @returns Player data if found, null data (and no error) if there's no
+ *          account with this email
  * 
  * @example
  * ```typescript
  * // In wizard Step 2, on email input blur:
  * const result = await validatePlayerEmail('john@example.com');
  * 
- * if (result.data) {
+ * if (result.error) {
+ *   setError(result.error.message);
+ * } else if (result.data) {
  *   // Player exists! Auto-populate display name
  *   setDisplayName(result.data.display_name);
  * } else {
- *   // Player doesn't exist - show error
- *   setError('No account found with this email. Player must sign up first.');
+ *   // No account yet - they'll get an invitation email
+ *   setIsInvite(true);
  * }
  * ```
  * 
@@ -120,8 +389,8 @@ export async function searchPlayers(query: string) {
 export async function validatePlayerEmail(email: string) {
   const supabase = await createClient();
 
-  // No authentication check needed - this is a lookup function
-  // We want to allow checking if emails exist during wizard flow
+  // No separate authentication check - find_player_by_email() rejects
+  // anonymous callers
 
   // Validate email format first (basic check)
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -132,22 +401,18 @@ export async function validatePlayerEmail(email: string) {
     };
   }
 
-  // Look up player by email (case-insensitive)
+  // Exact, case-insensitive match - players you don't share a versus with
+  // aren't readable directly (see 2025-12-22-player-directory.sql)
   const { data, error } = await supabase
-    .from("players")
-    .select("id, email, display_name")
-    .ilike("email", email)
-    .single();
+    .rpc("find_player_by_email", { p_email: email })
+    .maybeSingle<{ id: string; email: string; display_name: string | null }>();
 
   if (error) {
-    // Player not found - return null data with descriptive error
-    return { 
-      data: null, 
-      error: new Error("No account found with this email. Player must sign up first.") 
-    };
+    return { data: null, error };
   }
 
-  // Player found! Return their data for auto-population
+  // Player found - return their data for auto-population
+  // (null means no account yet, so the player can be invited by email)
   return { data, error: null };
 }
 
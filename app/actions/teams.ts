@@ -0,0 +1,237 @@
+"use server";
+
+import { createClient } from "@/lib/supabase/server";
+import { revalidatePath } from "next/cache";
+import type { TeamScoring } from "@/types/database";
+
+/**
+ * Get all teams for a versus
+ */
+export async function getVersusTeams(versusId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  // Check if user has access to this versus
+  const { error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .single();
+
+  if (accessError) {
+    return {
+      data: null,
+      error: new Error("You don't have access to this versus"),
+    };
+  }
+
+  const { data, error } = await supabase
+    .from("versus_teams")
+    .select("*")
+    .eq("versus_id", versusId)
+    .order("created_at", { ascending: true });
+
+  return { data, error };
+}
+
+/**
+ * Replace the teams for a Versus (commissioners only)
+ *
+ * Teams not in the array are deleted (their players become teamless).
+ * Every player listed under a team is assigned to it; all other players
+ * are left without a team. Viewers can't be on a team.
+ *
+ * @param versusId - The Versus ID to update
+ * @param teamsData - Team scoring mode and the full list of teams
+ * @returns Success status or error
+ *
+ * @example
+ * ```typescript
+ * const result = await updateVersusTeams(versusId, {
+ *   team_scoring: "average",
+ *   teams: [
+ *     { id: "existing-team-id", name: "The Smiths", player_ids: ["p1", "p2"] },
+ *     { id: null, name: "The Joneses", player_ids: ["p3", "p4"] },
+ *   ],
+ * });
+ * ```
+ */
+export async function updateVersusTeams(
+  versusId: string,
+  teamsData: {
+    team_scoring: TeamScoring;
+    teams: Array<{
+      id: string | null; // null = new team
+      name: string;
+      player_ids: string[];
+    }>;
+  }
+) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  // Check if user is a commissioner
+  const { data: access, error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .eq("is_commissioner", true)
+    .single();
+
+  if (accessError || !access) {
+    return {
+      data: null,
+      error: new Error("Only commissioners can edit teams"),
+    };
+  }
+
+  // Validate team names and memberships before touching anything
+  const names = teamsData.teams.map((t) => t.name.trim());
+  if (names.some((name) => name.length === 0 || name.length > 50)) {
+    return { data: null, error: new Error("Team names must be 1-50 characters") };
+  }
+  if (new Set(names.map((name) => name.toLowerCase())).size !== names.length) {
+    return { data: null, error: new Error("Team names must be unique") };
+  }
+
+  const assignedPlayerIds = teamsData.teams.flatMap((t) => t.player_ids);
+  if (new Set(assignedPlayerIds).size !== assignedPlayerIds.length) {
+    return { data: null, error: new Error("A player can only be on one team") };
+  }
+
+  if (assignedPlayerIds.length > 0) {
+    const { data: viewers, error: viewersError } = await supabase
+      .from("versus_players")
+      .select("player_id")
+      .eq("versus_id", versusId)
+      .eq("role", "viewer")
+      .in("player_id", assignedPlayerIds);
+
+    if (viewersError) {
+      return { data: null, error: viewersError };
+    }
+
+    if (viewers && viewers.length > 0) {
+      return { data: null, error: new Error("Viewers can't be on a team") };
+    }
+  }
+
+  try {
+    const { data: currentTeams, error: currentError } = await supabase
+      .from("versus_teams")
+      .select("id")
+      .eq("versus_id", versusId);
+
+    if (currentError) {
+      throw new Error(`Failed to load teams: ${currentError.message}`);
+    }
+
+    // Remove teams that are no longer in the array (ON DELETE SET NULL clears members)
+    const teamsToKeep = teamsData.teams.map((t) => t.id).filter(Boolean);
+    const teamsToRemove = (currentTeams || []).filter((t) => !teamsToKeep.includes(t.id));
+
+    if (teamsToRemove.length > 0) {
+      const { error: deleteError } = await supabase
+        .from("versus_teams")
+        .delete()
+        .in(
+          "id",
+          teamsToRemove.map((t) => t.id)
+        );
+
+      if (deleteError) {
+        throw new Error(`Failed to remove teams: ${deleteError.message}`);
+      }
+    }
+
+    // Clear assignments, then reassign team by team
+    const { error: clearError } = await supabase
+      .from("versus_players")
+      .update({ team_id: null })
+      .eq("versus_id", versusId);
+
+    if (clearError) {
+      throw new Error(`Failed to update players: ${clearError.message}`);
+    }
+
+    for (const [index, team] of teamsData.teams.entries()) {
+      let teamId = team.id;
+
+      if (teamId) {
+        const { error: updateError } = await supabase
+          .from("versus_teams")
+          .update({ name: names[index] })
+          .eq("id", teamId)
+          .eq("versus_id", versusId);
+
+        if (updateError) {
+          throw new Error(`Failed to update team: ${updateError.message}`);
+        }
+      } else {
+        const { data: newTeam, error: insertError } = await supabase
+          .from("versus_teams")
+          .insert({ versus_id: versusId, name: names[index] })
+          .select("id")
+          .single();
+
+        if (insertError || !newTeam) {
+          throw new Error(`Failed to add team: ${insertError?.message}`);
+        }
+
+        teamId = newTeam.id;
+      }
+
+      if (team.player_ids.length > 0) {
+        const { error: assignError } = await supabase
+          .from("versus_players")
+          .update({ team_id: teamId })
+          .eq("versus_id", versusId)
+          .in("player_id", team.player_ids);
+
+        if (assignError) {
+          throw new Error(`Failed to assign players: ${assignError.message}`);
+        }
+      }
+    }
+
+    const { error: scoringError } = await supabase
+      .from("versus")
+      .update({ team_scoring: teamsData.team_scoring })
+      .eq("id", versusId);
+
+    if (scoringError) {
+      throw new Error(`Failed to update team scoring: ${scoringError.message}`);
+    }
+
+    revalidatePath(`/versus/${versusId}`);
+
+    return { data: { success: true }, error: null };
+  } catch (error) {
+    console.error("[updateVersusTeams] Error:", error);
+
+    const errorMessage =
+      error instanceof Error
+        ? error.message
+        : "Failed to update teams. Please try again.";
+
+    return { data: null, error: new Error(errorMessage) };
+  }
+}
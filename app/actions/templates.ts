@@ -0,0 +1,279 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { createClient } from "@/lib/supabase/server";
+import {
+  TEMPLATE_NAME_MAX_LENGTH,
+  TEMPLATE_OBJECTIVE_FIELDS,
+  TEMPLATE_SETTINGS_FIELDS,
+} from "@/lib/versus-templates";
+import type {
+  VersusCloneMember,
+  VersusClonePart,
+  VersusCloneSource,
+  VersusRole,
+  VersusTemplate,
+  VersusTemplateObjective,
+  VersusTemplateSettings,
+} from "@/types/database";
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Reads a versus' name, template settings and active objectives
+ * Callers must already have checked the user is in the versus.
+ */
+async function getVersusBlueprint(supabase: SupabaseClient, versusId: string) {
+  const [{ data: versus, error: versusError }, { data: objectives, error: objectivesError }] =
+    await Promise.all([
+      supabase
+        .from("versus")
+        .select(["name", ...TEMPLATE_SETTINGS_FIELDS].join(", "))
+        .eq("id", versusId)
+        .single<VersusTemplateSettings & { name: string }>(),
+      supabase
+        .from("objectives")
+        .select(TEMPLATE_OBJECTIVE_FIELDS.join(", "))
+        .eq("versus_id", versusId)
+        .is("archived_at", null)
+        .order("created_at", { ascending: true })
+        .returns<VersusTemplateObjective[]>(),
+    ]);
+
+  if (versusError || !versus) {
+    return { data: null, error: versusError || new Error("Versus not found") };
+  }
+
+  if (objectivesError) {
+    return { data: null, error: objectivesError };
+  }
+
+  const { name, ...settings } = versus;
+
+  return {
+    data: {
+      name,
+      settings,
+      objectives: objectives || [],
+    },
+    error: null,
+  };
+}
+
+/**
+ * The signed-in user's saved templates, most recently updated first
+ */
+export async function getVersusTemplates() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const { data, error } = await supabase
+    .from("versus_templates")
+    .select("*")
+    .eq("player_id", user.id)
+    .order("updated_at", { ascending: false });
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  return { data: data as VersusTemplate[], error: null };
+}
+
+/**
+ * Save a versus' settings and objectives as a named template
+ * Any member can save one; the template is private to them.
+ */
+export async function saveVersusAsTemplate(versusId: string, name: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const templateName = name.trim();
+  if (!templateName) {
+    return { data: null, error: new Error("Template name is required") };
+  }
+  if (templateName.length > TEMPLATE_NAME_MAX_LENGTH) {
+    return {
+      data: null,
+      error: new Error(`Template name must be ${TEMPLATE_NAME_MAX_LENGTH} characters or less`),
+    };
+  }
+
+  const { data: access, error: accessError } = await supabase
+    .from("versus_players")
+    .select("id")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .single();
+
+  if (accessError || !access) {
+    return { data: null, error: new Error("You don't have access to this versus") };
+  }
+
+  const { data: blueprint, error: blueprintError } = await getVersusBlueprint(supabase, versusId);
+
+  if (blueprintError || !blueprint) {
+    return { data: null, error: blueprintError || new Error("Versus not found") };
+  }
+
+  const { data, error } = await supabase
+    .from("versus_templates")
+    .insert({
+      player_id: user.id,
+      name: templateName,
+      settings: blueprint.settings,
+      objectives: blueprint.objectives,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // 23505 = unique violation (name already used)
+    if (error.code === "23505") {
+      return {
+        data: null,
+        error: new Error(`You already have a template called "${templateName}"`),
+      };
+    }
+    return { data: null, error };
+  }
+
+  revalidatePath("/create");
+
+  return { data: data as VersusTemplate, error: null };
+}
+
+/**
+ * Delete one of the signed-in user's templates
+ */
+export async function deleteVersusTemplate(templateId: string) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const { error } = await supabase
+    .from("versus_templates")
+    .delete()
+    .eq("id", templateId)
+    .eq("player_id", user.id);
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  revalidatePath("/create");
+
+  return { data: { deleted: true }, error: null };
+}
+
+/**
+ * What a clone of a versus starts from, for the create wizard
+ *
+ * Only the chosen parts are read; the rest come back null and the wizard
+ * uses its defaults. The roster leaves out the person cloning, who is always
+ * the new versus' commissioner.
+ *
+ * @param parts - Which parts to copy (settings, objectives, roster)
+ */
+export async function getVersusCloneSource(versusId: string, parts: VersusClonePart[]) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  const { data: access, error: accessError } = await supabase
+    .from("versus_players")
+    .select("id")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .single();
+
+  if (accessError || !access) {
+    return { data: null, error: new Error("You don't have access to this versus") };
+  }
+
+  const { data: blueprint, error: blueprintError } = await getVersusBlueprint(supabase, versusId);
+
+  if (blueprintError || !blueprint) {
+    return { data: null, error: blueprintError || new Error("Versus not found") };
+  }
+
+  let members: VersusCloneMember[] | null = null;
+
+  if (parts.includes("roster")) {
+    type MemberRow = {
+      role: VersusRole;
+      nickname: string | null;
+      player: { id: string; display_name: string | null; email: string };
+    };
+
+    const { data: memberRows, error: membersError } = await supabase
+      .from("versus_players")
+      .select(
+        `
+        role,
+        nickname,
+        player:player_id (
+          id,
+          display_name,
+          email
+        )
+      `
+      )
+      .eq("versus_id", versusId)
+      .neq("player_id", user.id)
+      .order("joined_at", { ascending: true })
+      .returns<MemberRow[]>();
+
+    if (membersError) {
+      return { data: null, error: membersError };
+    }
+
+    members = memberRows.map((m) => ({
+      player_id: m.player.id,
+      email: m.player.email,
+      display_name: m.player.display_name || m.player.email.split("@")[0],
+      nickname: m.nickname,
+      role: m.role,
+    }));
+  }
+
+  const source: VersusCloneSource = {
+    versus_id: versusId,
+    name: blueprint.name,
+    settings: parts.includes("settings") ? blueprint.settings : null,
+    objectives: parts.includes("objectives") ? blueprint.objectives : null,
+    members,
+  };
+
+  return { data: source, error: null };
+}
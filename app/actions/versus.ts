@@ -2,13 +2,114 @@
 
 import { createClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
+import { getSeasonStatus } from "@/lib/season-utils";
+import { getRoundStart, normalizeRoundStart } from "@/lib/round-utils";
+import { getProofUrl } from "@/lib/proof-utils";
+import { toDisputeThread, type DisputeRow } from "@/lib/dispute-utils";
+import { isVersusRole } from "@/lib/role-utils";
+import { inviteToVersus } from "@/app/actions/invitations";
 import type {
   InsertVersus,
   UpdateVersus,
   VersusWithStats,
   PlayerWithStats,
+  RoundPeriod,
+  LimitPeriod,
+  ClaimMode,
+  CompletionStatus,
+  DisputeThread,
+  VersusTeam,
+  VersusRole,
+  VersusStatus,
 } from "@/types/database";
 
+/**
+ * Snapshot final standings for a versus whose season has ended
+ * The RPC is idempotent, so concurrent page loads are safe. Finalizing also
+ * finishes the versus and declares the winner.
+ * Returns the versus' lifecycle fields afterwards, or null if it couldn't be
+ * finalized.
+ */
+async function finalizeVersusStandings(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  versusId: string
+): Promise<{ finalized_at: string; status: VersusStatus; winner_id: string | null } | null> {
+  const { error: finalizeError } = await supabase.rpc("finalize_versus_standings", {
+    p_versus_id: versusId,
+  });
+
+  if (finalizeError) {
+    console.error("Error finalizing standings:", finalizeError);
+    return null;
+  }
+
+  const { data } = await supabase
+    .from("versus")
+    .select("finalized_at, status, winner_id")
+    .eq("id", versusId)
+    .single();
+
+  return data?.finalized_at ? data : null;
+}
+
+/**
+ * Resolve disputes whose voting deadline has passed (any versus the user is in)
+ * Disputes are resolved lazily, so this runs before scores are read.
+ */
+async function resolveDueDisputes(supabase: Awaited<ReturnType<typeof createClient>>) {
+  const { error } = await supabase.rpc("resolve_due_disputes");
+
+  if (error) {
+    console.error("Error resolving disputes:", error);
+  }
+}
+
+/**
+ * Load the dispute thread (if any) for each completion, keyed by completion ID
+ */
+async function getDisputeThreads(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  completionIds: string[]
+): Promise<Map<string, DisputeThread>> {
+  if (completionIds.length === 0) {
+    return new Map();
+  }
+
+  const { data, error } = await supabase
+    .from("completion_disputes")
+    .select(
+      `
+      *,
+      opener:opened_by (
+        id,
+        display_name,
+        email
+      ),
+      votes:dispute_votes (
+        voter_id,
+        vote,
+        comment,
+        voted_at,
+        voter:voter_id (
+          id,
+          display_name,
+          email
+        )
+      )
+    `
+    )
+    .in("completion_id", completionIds);
+
+  if (error) {
+    console.error("Disputes error:", error);
+    return new Map();
+  }
+
+  return new Map(
+    (data as DisputeRow[]).map((row) => [row.completion_id, toDisputeThread(row)])
+  );
+}
+
 /**
  * Get all versus for the current user with their stats
  */
@@ -24,16 +125,22 @@ export async function getUserVersus() {
     return { data: null, error: authError || new Error("Not authenticated") };
   }
 
-  // Get versus where user is a participant (include is_commissioner)
+  // Get versus the user is a member of (include their role)
   const { data: versusData, error: versusError } = await supabase
     .from("versus_players")
     .select(
       `
+      role,
       is_commissioner,
       versus:versus_id (
         id,
         name,
         reverse_ranking,
+        starts_at,
+        ends_at,
+        finalized_at,
+        status,
+        winner_id,
         created_by,
         created_at,
         updated_at
@@ -51,12 +158,18 @@ export async function getUserVersus() {
     id: string;
     name: string;
     reverse_ranking: boolean;
+    starts_at: string | null;
+    ends_at: string | null;
+    finalized_at: string | null;
+    status: VersusStatus;
+    winner_id: string | null;
     created_by: string;
     created_at: string;
     updated_at: string;
   };
   
   type VersusPlayerWithVersus = {
+    role: VersusRole;
     is_commissioner: boolean;
     versus: VersusObject | VersusObject[] | null;
   };
@@ -68,26 +181,98 @@ export async function getUserVersus() {
     return Array.isArray(vp.versus) ? vp.versus[0] || null : vp.versus;
   };
   
-  const versusIds = (versusData as VersusPlayerWithVersus[])
-    .map((vp) => getVersusFromData(vp)?.id)
-    .filter((id): id is string => Boolean(id));
+  const versusList = (versusData as VersusPlayerWithVersus[])
+    .map((vp) => getVersusFromData(vp))
+    .filter((v): v is VersusObject => v !== null);
 
-  if (versusIds.length === 0) {
+  if (versusList.length === 0) {
     return { data: [], error: null };
   }
 
-  const { data: rankings, error: rankingsError } = await supabase
-    .from("player_rankings")
-    .select("*")
-    .in("versus_id", versusIds)
-    .eq("player_id", user.id);
+  await resolveDueDisputes(supabase);
 
+  // Freeze final standings for any season that has ended since it was last viewed
+  for (const versus of versusList) {
+    if (!versus.finalized_at && getSeasonStatus(versus.starts_at, versus.ends_at) === "ended") {
+      const finalized = await finalizeVersusStandings(supabase, versus.id);
+      if (finalized) Object.assign(versus, finalized);
+    }
+  }
+
+  // Finished seasons read from the frozen snapshot, everything else from the live view
+  const finalizedIds = versusList.filter((v) => v.finalized_at).map((v) => v.id);
+  const liveIds = versusList.filter((v) => !v.finalized_at).map((v) => v.id);
+
+  const [liveResult, finalResult] = await Promise.all([
+    liveIds.length > 0
+      ? supabase
+          .from("player_rankings")
+          .select("*")
+          .in("versus_id", liveIds)
+          .eq("player_id", user.id)
+      : Promise.resolve({ data: [], error: null }),
+    finalizedIds.length > 0
+      ? supabase
+          .from("versus_final_standings")
+          .select("*")
+          .in("versus_id", finalizedIds)
+          .eq("player_id", user.id)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+
+  const rankingsError = liveResult.error || finalResult.error;
   if (rankingsError) {
     return { data: null, error: rankingsError };
   }
 
-  // Combine the data
-  const versusWithStats: (VersusWithStats & { is_commissioner: boolean })[] = (versusData as VersusPlayerWithVersus[])
+  const rankings = [...(liveResult.data || []), ...(finalResult.data || [])];
+
+  type WinnerRow = {
+    versus_id: string;
+    player_id: string;
+    nickname: string | null;
+    player: { display_name: string | null; email: string };
+  };
+
+  // Winner names for finished versus (their nickname there, if they still belong)
+  const winnerIds = versusList.map((v) => v.winner_id).filter((id): id is string => id !== null);
+  const { data: winners } =
+    winnerIds.length > 0
+      ? await supabase
+          .from("versus_players")
+          .select(
+            `
+            versus_id,
+            player_id,
+            nickname,
+            player:player_id (
+              display_name,
+              email
+            )
+          `
+          )
+          .in("versus_id", versusList.map((v) => v.id))
+          .in("player_id", winnerIds)
+          .returns<WinnerRow[]>()
+      : { data: [] };
+
+  const getWinnerName = (versus: VersusObject): string | null => {
+    if (!versus.winner_id) return null;
+    const winner = winners?.find(
+      (w) => w.versus_id === versus.id && w.player_id === versus.winner_id
+    );
+    if (!winner) return "Former player";
+    return winner.nickname || winner.player.display_name || winner.player.email.split("@")[0];
+  };
+
+  // Combine the data (viewers have no ranking, so they show 0)
+  type VersusWithRole = VersusWithStats & {
+    role: VersusRole;
+    is_commissioner: boolean;
+    is_owner: boolean;
+    winner_name: string | null;
+  };
+  const versusWithStats: VersusWithRole[] = (versusData as VersusPlayerWithVersus[])
     .map((vp) => {
       const versus = getVersusFromData(vp);
       if (!versus) return null;
@@ -98,10 +283,13 @@ export async function getUserVersus() {
         current_player_score: ranking?.total_score || 0,
         current_player_rank: ranking?.rank || 0,
         total_players: ranking?.total_players || 1,
+        role: vp.role,
         is_commissioner: vp.is_commissioner || false,
+        is_owner: versus.created_by === user.id,
+        winner_name: getWinnerName(versus),
       };
     })
-    .filter((v): v is VersusWithStats & { is_commissioner: boolean } => v !== null);
+    .filter((v): v is VersusWithRole => v !== null);
 
   return { data: versusWithStats, error: null };
 }
@@ -144,13 +332,26 @@ export async function getVersusById(versusId: string) {
     return { data: null, error: versusError };
   }
 
-  // Get current user's ranking
+  // Settle expired disputes first so voided completions are out of the standings
+  await resolveDueDisputes(supabase);
+
+  // Freeze final standings once the season has ended
+  if (!versus.finalized_at && getSeasonStatus(versus.starts_at, versus.ends_at) === "ended") {
+    const finalized = await finalizeVersusStandings(supabase, versusId);
+    if (finalized) Object.assign(versus, finalized);
+  }
+
+  // Finished seasons read from the frozen snapshot so later edits can't change the result
+  const rankingsSource = versus.finalized_at ? "versus_final_standings" : "player_rankings";
+
+  // Get current user's ranking (viewers aren't ranked)
+  const isViewer = access.role === "viewer";
   const { data: userRanking, error: rankingError } = await supabase
-    .from("player_rankings")
+    .from(rankingsSource)
     .select("*")
     .eq("versus_id", versusId)
     .eq("player_id", user.id)
-    .single();
+    .maybeSingle();
 
   if (rankingError) {
     console.error("Ranking error:", rankingError);
@@ -158,14 +359,15 @@ export async function getVersusById(versusId: string) {
 
   // Get scoreboard (all players with rankings)
   const { data: allRankings, error: scoreboardError } = await supabase
-    .from("player_rankings")
+    .from(rankingsSource)
     .select(
       `
       *,
       player:player_id (
         id,
         display_name,
-        email
+        email,
+        avatar_path
       )
     `
     )
@@ -183,6 +385,7 @@ export async function getVersusById(versusId: string) {
       id: string;
       email: string;
       display_name: string | null;
+      avatar_path: string | null;
     };
   };
 
@@ -191,12 +394,68 @@ export async function getVersusById(versusId: string) {
       id: r.player.id,
       email: r.player.email,
       display_name: r.player.display_name,
+      avatar_path: r.player.avatar_path,
       created_at: "",
       updated_at: "",
       score: r.total_score,
       rank: r.rank,
     })) || [];
 
+  // Team assignments (team mode) - the page aggregates these into a team scoreboard
+  const [{ data: teams, error: teamsError }, { data: memberships, error: membershipsError }] =
+    await Promise.all([
+      supabase
+        .from("versus_teams")
+        .select("*")
+        .eq("versus_id", versusId)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("versus_players")
+        .select("player_id, team_id")
+        .eq("versus_id", versusId),
+    ]);
+
+  if (teamsError || membershipsError) {
+    console.error("Teams error:", teamsError || membershipsError);
+  }
+
+  for (const entry of scoreboard) {
+    entry.team_id = memberships?.find((m) => m.player_id === entry.id)?.team_id ?? null;
+  }
+
+  // Round wins tally (recurring rounds only)
+  if (versus.round_period !== "none") {
+    const { data: roundWins, error: roundWinsError } = await supabase
+      .from("player_round_wins")
+      .select("player_id, round_wins")
+      .eq("versus_id", versusId);
+
+    if (roundWinsError) {
+      console.error("Round wins error:", roundWinsError);
+    }
+
+    for (const entry of scoreboard) {
+      entry.round_wins =
+        roundWins?.find((w) => w.player_id === entry.id)?.round_wins || 0;
+    }
+  }
+
+  // Completions waiting for review (commissioners only)
+  let pendingCount = 0;
+  if (access.is_commissioner) {
+    const { count, error: pendingError } = await supabase
+      .from("completions")
+      .select("id", { count: "exact", head: true })
+      .eq("versus_id", versusId)
+      .eq("status", "pending");
+
+    if (pendingError) {
+      console.error("Pending count error:", pendingError);
+    }
+
+    pendingCount = count || 0;
+  }
+
   // Get history (completions for current user)
   const { data: completions, error: historyError } = await supabase
     .from("completions")
@@ -206,7 +465,12 @@ export async function getVersusById(versusId: string) {
       objective:objective_id (
         id,
         title,
-        points
+        unit
+      ),
+      logger:logged_by (
+        id,
+        display_name,
+        email
       )
     `
     )
@@ -218,14 +482,32 @@ export async function getVersusById(versusId: string) {
     return { data: null, error: historyError };
   }
 
+  const disputes = await getDisputeThreads(
+    supabase,
+    (completions || []).map((c: { id: string }) => c.id)
+  );
+
   type CompletionWithObjective = {
     id: string;
     completed_at: string;
+    logged_at: string;
+    note: string | null;
+    claim_rank: number | null;
+    quantity: number | null;
+    points_awarded: number;
+    status: CompletionStatus;
+    review_note: string | null;
+    proof_path: string | null;
     objective: {
       id: string;
       title: string;
-      points: number;
+      unit: string | null;
     };
+    logger: {
+      id: string;
+      display_name: string | null;
+      email: string;
+    } | null;
   };
 
   const history =
@@ -236,8 +518,21 @@ export async function getVersusById(versusId: string) {
         hour: "2-digit",
         minute: "2-digit",
       }),
+      completed_at: c.completed_at,
+      logged_at: c.logged_at,
+      logged_by: c.logger?.id ?? null,
+      logged_by_name: c.logger ? c.logger.display_name || c.logger.email.split("@")[0] : null,
+      note: c.note,
+      objective_id: c.objective.id,
       objective_name: c.objective.title,
-      points: c.objective.points,
+      points: c.points_awarded,
+      claim_rank: c.claim_rank,
+      quantity: c.quantity,
+      unit: c.objective.unit,
+      status: c.status,
+      review_note: c.review_note,
+      proof_url: getProofUrl(c.proof_path),
+      dispute: disputes.get(c.id) ?? null,
       player_name: "You",
       player_id: user.id,
     })) || [];
@@ -247,10 +542,172 @@ export async function getVersusById(versusId: string) {
       versus,
       currentPlayerScore: userRanking?.total_score || 0,
       currentPlayerRank: userRanking?.rank || 0,
-      totalPlayers: userRanking?.total_players || 1,
+      totalPlayers: userRanking?.total_players || scoreboard.length || 1,
       scoreboard,
+      teams: (teams as VersusTeam[]) || [],
       history,
+      currentPlayerId: user.id,
       isCommissioner: access.is_commissioner,
+      role: access.role as VersusRole,
+      isViewer,
+      pendingCount,
+    },
+    error: null,
+  };
+}
+
+/**
+ * Get the scoreboard for one round of a versus with recurring rounds
+ *
+ * @param versusId - The Versus ID
+ * @param roundStart - ISO start of the round to show, or null for the current round
+ * @returns The round's scoreboard and every round with activity (newest first)
+ */
+export async function getRoundScoreboard(
+  versusId: string,
+  roundStart: string | null = null
+) {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return { data: null, error: authError || new Error("Not authenticated") };
+  }
+
+  // Check if user has access to this versus
+  const { error: accessError } = await supabase
+    .from("versus_players")
+    .select("*")
+    .eq("versus_id", versusId)
+    .eq("player_id", user.id)
+    .single();
+
+  if (accessError) {
+    return { data: null, error: new Error("You don't have access to this versus") };
+  }
+
+  const { data: versus, error: versusError } = await supabase
+    .from("versus")
+    .select("round_period")
+    .eq("id", versusId)
+    .single();
+
+  if (versusError) {
+    return { data: null, error: versusError };
+  }
+
+  const currentRound = getRoundStart(versus.round_period);
+  if (!currentRound) {
+    return { data: null, error: new Error("This Versus doesn't have rounds") };
+  }
+
+  const selectedRound = normalizeRoundStart(roundStart ?? currentRound);
+
+  // Every round with at least one completion, plus the current round
+  const { data: roundRows, error: roundsError } = await supabase
+    .from("player_round_rankings")
+    .select("round_start")
+    .eq("versus_id", versusId);
+
+  if (roundsError) {
+    return { data: null, error: roundsError };
+  }
+
+  const rounds = Array.from(
+    new Set([
+      currentRound,
+      ...(roundRows || []).map((r) => normalizeRoundStart(r.round_start)),
+    ])
+  ).sort((a, b) => b.localeCompare(a));
+
+  // Standings for the selected round
+  const { data: roundRankings, error: rankingsError } = await supabase
+    .from("player_round_rankings")
+    .select(
+      `
+      *,
+      player:player_id (
+        id,
+        display_name,
+        email,
+        avatar_path
+      )
+    `
+    )
+    .eq("versus_id", versusId)
+    .eq("round_start", selectedRound)
+    .order("rank", { ascending: true });
+
+  if (rankingsError) {
+    return { data: null, error: rankingsError };
+  }
+
+  type RankingWithPlayer = {
+    total_score: number;
+    rank: number;
+    player: {
+      id: string;
+      email: string;
+      display_name: string | null;
+      avatar_path: string | null;
+    };
+  };
+
+  let scoreboard: PlayerWithStats[] = (roundRankings as RankingWithPlayer[]).map((r) => ({
+    id: r.player.id,
+    email: r.player.email,
+    display_name: r.player.display_name,
+    avatar_path: r.player.avatar_path,
+    created_at: "",
+    updated_at: "",
+    score: r.total_score,
+    rank: r.rank,
+  }));
+
+  // Nobody has logged anything this round yet - every player (not viewers) is tied on 0
+  if (scoreboard.length === 0) {
+    const { data: players, error: playersError } = await supabase
+      .from("versus_players")
+      .select(
+        `
+        player:player_id (
+          id,
+          display_name,
+          email,
+          avatar_path
+        )
+      `
+      )
+      .eq("versus_id", versusId)
+      .neq("role", "viewer")
+      .returns<Pick<RankingWithPlayer, "player">[]>();
+
+    if (playersError) {
+      return { data: null, error: playersError };
+    }
+
+    scoreboard = players.map((p) => ({
+      id: p.player.id,
+      email: p.player.email,
+      display_name: p.player.display_name,
+      avatar_path: p.player.avatar_path,
+      created_at: "",
+      updated_at: "",
+      score: 0,
+      rank: 1,
+    }));
+  }
+
+  return {
+    data: {
+      roundStart: selectedRound,
+      currentRound,
+      rounds,
+      scoreboard,
     },
     error: null,
   };
@@ -295,11 +752,16 @@ export async function getPlayerHistoryInVersus(
       objective:objective_id (
         id,
         title,
-        points
+        unit
       ),
       player:player_id (
         id,
         display_name
+      ),
+      logger:logged_by (
+        id,
+        display_name,
+        email
       )
     `
     )
@@ -311,18 +773,36 @@ export async function getPlayerHistoryInVersus(
     return { data: null, error: historyError };
   }
 
+  const disputes = await getDisputeThreads(
+    supabase,
+    (completions || []).map((c: { id: string }) => c.id)
+  );
+
   type CompletionWithObjectiveAndPlayer = {
     id: string;
     completed_at: string;
+    logged_at: string;
+    note: string | null;
+    claim_rank: number | null;
+    quantity: number | null;
+    points_awarded: number;
+    status: CompletionStatus;
+    review_note: string | null;
+    proof_path: string | null;
     objective: {
       id: string;
       title: string;
-      points: number;
+      unit: string | null;
     };
     player: {
       id: string;
       display_name: string | null;
     };
+    logger: {
+      id: string;
+      display_name: string | null;
+      email: string;
+    } | null;
   };
 
   const history =
@@ -333,8 +813,21 @@ export async function getPlayerHistoryInVersus(
         hour: "2-digit",
         minute: "2-digit",
       }),
+      completed_at: c.completed_at,
+      logged_at: c.logged_at,
+      logged_by: c.logger?.id ?? null,
+      logged_by_name: c.logger ? c.logger.display_name || c.logger.email.split("@")[0] : null,
+      note: c.note,
+      objective_id: c.objective.id,
       objective_name: c.objective.title,
-      points: c.objective.points,
+      points: c.points_awarded,
+      claim_rank: c.claim_rank,
+      quantity: c.quantity,
+      unit: c.objective.unit,
+      status: c.status,
+      review_note: c.review_note,
+      proof_url: getProofUrl(c.proof_path),
+      dispute: disputes.get(c.id) ?? null,
       player_name: c.player.display_name || "",
       player_id: c.player.id,
     })) || [];
@@ -374,6 +867,7 @@ export async function createVersus(versus: InsertVersus) {
     .insert({
       versus_id: newVersus.id,
       player_id: user.id,
+      role: "commissioner",
       is_commissioner: true,
     });
 
@@ -416,6 +910,28 @@ export async function updateVersus(versusId: string, updates: UpdateVersus) {
     };
   }
 
+  // Current values, for the finalized check
+  const { data: current, error: currentError } = await supabase
+    .from("versus")
+    .select("*")
+    .eq("id", versusId)
+    .single();
+
+  if (currentError || !current) {
+    return { data: null, error: currentError || new Error("Versus not found") };
+  }
+
+  // Final standings are frozen once a season ends, so its window can't move
+  if (
+    (updates.starts_at !== undefined || updates.ends_at !== undefined) &&
+    current.finalized_at
+  ) {
+    return {
+      data: null,
+      error: new Error("This Versus has ended and its final standings are locked"),
+    };
+  }
+
   const { data, error } = await supabase
     .from("versus")
     .update(updates)
@@ -435,10 +951,10 @@ export async function updateVersus(versusId: string, updates: UpdateVersus) {
  * Update versus settings (commissioners only)
  * 
  * This is a convenience wrapper around updateVersus() specifically for settings updates.
- * Updates name, type, and reverse_ranking fields.
+ * Updates name, type, reverse_ranking, undo_grace_minutes, season window, round, approval and dispute fields.
  * 
  * @param versusId - The Versus ID to update
- * @param settings - Settings to update (name, type, reverse_ranking)
+ * @param settings - Settings to update (name, type, reverse_ranking, undo_grace_minutes, starts_at, ends_at, round_period, require_approval, dispute settings)
  * @returns Success status or error
  * 
  * @example
@@ -458,6 +974,14 @@ export async function updateVersusSettings(
     name?: string;
     type?: string | null;
     reverse_ranking?: boolean;
+    undo_grace_minutes?: number;
+    starts_at?: string | null;
+    ends_at?: string | null;
+    round_period?: RoundPeriod;
+    require_approval?: boolean;
+    dispute_quorum_percent?: number;
+    dispute_window_hours?: number;
+    max_backfill_hours?: number;
   }
 ) {
   return updateVersus(versusId, settings);
@@ -469,7 +993,7 @@ export async function updateVersusSettings(
 export async function addPlayerToVersus(
   versusId: string,
   playerId: string,
-  isCommissioner: boolean = false
+  role: VersusRole = "participant"
 ) {
   const supabase = await createClient();
 
@@ -498,12 +1022,17 @@ export async function addPlayerToVersus(
     };
   }
 
+  if (!isVersusRole(role)) {
+    return { data: null, error: new Error("Invalid role") };
+  }
+
   const { data, error } = await supabase
     .from("versus_players")
     .insert({
       versus_id: versusId,
       player_id: playerId,
-      is_commissioner: isCommissioner,
+      role,
+      is_commissioner: role === "commissioner",
     })
     .select()
     .single();
@@ -521,16 +1050,18 @@ export async function addPlayerToVersus(
  * This is the main function called by the Create Versus Wizard (Step 3) to create
  * a new Versus with all associated data in a single atomic operation.
  * 
- * The function performs three database operations:
+ * The function performs these database operations:
  * 1. Create the Versus record
  * 2. Create versus_players records for all invited players
  * 3. Create objectives records for all defined objectives
+ * 4. Create email invitations for people without an account (if any)
  * 
  * If ANY step fails, all created records are rolled back to maintain data consistency.
  * 
- * @param versusData - Versus settings from Step 1 (name, type, reverse_ranking)
- * @param playersData - Array of players from Step 2 (player_id, is_commissioner, nickname)
+ * @param versusData - Versus settings from Step 1 (name, type, reverse_ranking, plus optional settings)
+ * @param playersData - Array of players from Step 2 (player_id, role, nickname)
  * @param objectivesData - Array of objectives from Step 3 (title, points, description)
+ * @param invitationsData - People from Step 2 who don't have an account yet (email, nickname, role)
  * 
  * @returns Created Versus record or error
  * 
@@ -544,8 +1075,8 @@ export async function addPlayerToVersus(
  *     reverse_ranking: false
  *   },
  *   [
- *     { player_id: "user-1-id", is_commissioner: true, nickname: null },
- *     { player_id: "user-2-id", is_commissioner: false, nickname: "Johnny" }
+ *     { player_id: "user-1-id", role: "commissioner", nickname: null },
+ *     { player_id: "user-2-id", role: "participant", nickname: "Johnny" }
  *   ],
  *   [
  *     { title: "Run 5 miles", points: 10, description: "Any outdoor or treadmill run" },
@@ -569,17 +1100,39 @@ export async function createVersusComplete(
     name: string;
     type: string | null;
     reverse_ranking: boolean;
+    undo_grace_minutes?: number;
+    starts_at?: string | null;
+    ends_at?: string | null;
+    round_period?: RoundPeriod;
+    require_approval?: boolean;
+    dispute_quorum_percent?: number;
+    dispute_window_hours?: number;
+    max_backfill_hours?: number;
   },
   playersData: Array<{
     player_id: string;
-    is_commissioner: boolean;
+    role: VersusRole;
     nickname: string | null;
   }>,
   objectivesData: Array<{
     title: string;
     points: number;
     description: string | null;
-  }>
+    max_per_player?: number | null;
+    max_per_period?: number | null;
+    limit_period?: LimitPeriod | null;
+    cooldown_minutes?: number | null;
+    claim_mode?: ClaimMode;
+    podium_points?: number[] | null;
+    unit?: string | null;
+    points_per_unit?: number | null;
+    requires_proof?: boolean;
+  }>,
+  invitationsData: Array<{
+    email: string;
+    nickname: string | null;
+    role: VersusRole;
+  }> = []
 ) {
   const supabase = await createClient();
 
@@ -626,6 +1179,15 @@ export async function createVersusComplete(
     };
   }
 
+  // Validation: Roles must be valid, and the creator manages the Versus
+  if (playersData.some((p) => !isVersusRole(p.role))) {
+    return { data: null, error: new Error("Invalid player role") };
+  }
+
+  if (!playersData.some((p) => p.player_id === user.id && p.role === "commissioner")) {
+    return { data: null, error: new Error("The creator must be a commissioner") };
+  }
+
   // Validation: Ensure at least one objective
   if (objectivesData.length === 0) {
     console.error("[createVersusComplete] No objectives provided");
@@ -640,6 +1202,9 @@ export async function createVersusComplete(
   let createdPlayersCount = 0;
   let createdObjectivesCount = 0;
 
+  // Optional settings are applied after the players are added (see Step 2b)
+  const { name, type, reverse_ranking, ...optionalSettings } = versusData;
+
   try {
     // ========================================================================
     // STEP 1: Create the Versus record
@@ -650,9 +1215,9 @@ export async function createVersusComplete(
     // The SECURITY DEFINER function validates user exists and creates the versus
     const { data: versusResult, error: versusError } = await supabase
       .rpc("create_versus_as_user", {
-        p_name: versusData.name,
-        p_type: versusData.type,
-        p_reverse_ranking: versusData.reverse_ranking,
+        p_name: name,
+        p_type: type,
+        p_reverse_ranking: reverse_ranking,
         p_created_by: user.id,
       })
       .single();
@@ -697,6 +1262,22 @@ export async function createVersusComplete(
     createdPlayersCount = insertedPlayers?.length || 0;
     console.log(`[createVersusComplete] ✓ Added ${createdPlayersCount} players`);
 
+    // ========================================================================
+    // STEP 2b: Apply optional settings (not handled by create_versus_as_user)
+    // ========================================================================
+    // Runs after Step 2 so the creator is already a commissioner (RLS UPDATE policy)
+    if (Object.keys(optionalSettings).length > 0) {
+      const { error: settingsError } = await supabase
+        .from("versus")
+        .update(optionalSettings)
+        .eq("id", newVersus.id);
+
+      if (settingsError) {
+        console.error("[createVersusComplete] Failed to apply settings:", settingsError);
+        throw new Error(`Failed to apply settings: ${settingsError.message}`);
+      }
+    }
+
     // ========================================================================
     // STEP 3: Create objectives records
     // ========================================================================
@@ -717,6 +1298,28 @@ export async function createVersusComplete(
     createdObjectivesCount = insertedObjectives?.length || 0;
     console.log(`[createVersusComplete] ✓ Created ${createdObjectivesCount} objectives`);
 
+    // ========================================================================
+    // STEP 4: Invite people who don't have an account yet
+    // ========================================================================
+    if (invitationsData.length > 0) {
+      console.log(`[createVersusComplete] Step 4: Inviting ${invitationsData.length} people...`);
+
+      const { data: invited, error: inviteError } = await inviteToVersus(
+        newVersus.id,
+        invitationsData
+      );
+
+      if (inviteError || !invited) {
+        console.error("[createVersusComplete] Failed to create invitations:", inviteError);
+        throw new Error(`Failed to invite players: ${inviteError?.message || "Unknown error"}`);
+      }
+
+      // Unsent emails aren't fatal - they can be resent from the players page
+      if (invited.unsent.length > 0) {
+        console.warn("[createVersusComplete] Invitation emails not sent:", invited.unsent);
+      }
+    }
+
     // ========================================================================
     // SUCCESS: All steps completed
     // ========================================================================
@@ -768,7 +1371,7 @@ export async function createVersusComplete(
 /**
  * Get versus_players data for a specific versus (commissioners only)
  * 
- * Returns all players in a versus with their nicknames and commissioner status.
+ * Returns all players in a versus with their nicknames and roles.
  * Used by the Edit Players page to display current players.
  * 
  * @param versusId - The Versus ID
@@ -832,21 +1435,21 @@ export async function getVersusPlayers(versusId: string) {
  * - Add new players
  * - Remove existing players
  * - Update player nicknames
- * - Change commissioner status
+ * - Change roles (viewer, participant or commissioner)
  * 
  * The function performs atomic updates using transactions where possible,
  * and handles rollback if any operation fails.
  * 
  * @param versusId - The Versus ID to update
- * @param playersData - Array of player updates with player_id, nickname, is_commissioner
+ * @param playersData - Array of player updates with player_id, nickname, role
  * @returns Success status or error
  * 
  * @example
  * ```typescript
  * // Add a new player, remove another, update nickname:
  * const result = await updateVersusPlayers(versusId, [
- *   { player_id: "new-player-id", nickname: "Johnny", is_commissioner: false },
- *   { player_id: "existing-player-id", nickname: "Updated Nick", is_commissioner: true }
+ *   { player_id: "new-player-id", nickname: "Johnny", role: "participant" },
+ *   { player_id: "existing-player-id", nickname: "Updated Nick", role: "commissioner" }
  * ]);
  * 
  * // Remove a player by omitting from array
@@ -860,7 +1463,7 @@ export async function updateVersusPlayers(
   playersData: Array<{
     player_id: string;
     nickname: string | null;
-    is_commissioner: boolean;
+    role: VersusRole;
   }>
 ) {
   const supabase = await createClient();
@@ -890,6 +1493,14 @@ export async function updateVersusPlayers(
     };
   }
 
+  if (playersData.some((p) => !isVersusRole(p.role))) {
+    return { data: null, error: new Error("Invalid player role") };
+  }
+
+  if (!playersData.some((p) => p.role === "commissioner")) {
+    return { data: null, error: new Error("A Versus needs at least one commissioner") };
+  }
+
   // Get current players for this versus
   const { data: currentPlayers, error: currentError } = await supabase
     .from("versus_players")
@@ -908,7 +1519,7 @@ export async function updateVersusPlayers(
     // Get the versus to check number_of_players (if it exists in schema)
     const { data: versus, error: versusError } = await supabase
       .from("versus")
-      .select("id")
+      .select("id, created_by")
       .eq("id", versusId)
       .single();
 
@@ -916,6 +1527,15 @@ export async function updateVersusPlayers(
       throw new Error("Versus not found");
     }
 
+    // The owner hands the versus off when they leave (leaveVersus());
+    // removing them here would leave created_by pointing at a non-member
+    if (
+      currentPlayers?.some((p) => p.player_id === versus.created_by) &&
+      !playersData.some((p) => p.player_id === versus.created_by)
+    ) {
+      throw new Error("The Versus owner can't be removed. They can leave the Versus themselves.");
+    }
+
     // Process each player in the update array
     for (const playerUpdate of playersData) {
       const existingPlayer = currentPlayers?.find(
@@ -923,12 +1543,14 @@ export async function updateVersusPlayers(
       );
 
       if (existingPlayer) {
-        // Update existing player (nickname or is_commissioner)
+        // Update existing player (nickname or role)
+        // Viewers are taken off their team by the database
         const { error: updateError } = await supabase
           .from("versus_players")
           .update({
             nickname: playerUpdate.nickname,
-            is_commissioner: playerUpdate.is_commissioner,
+            role: playerUpdate.role,
+            is_commissioner: playerUpdate.role === "commissioner",
           })
           .eq("versus_id", versusId)
           .eq("player_id", playerUpdate.player_id);
@@ -946,7 +1568,8 @@ export async function updateVersusPlayers(
             versus_id: versusId,
             player_id: playerUpdate.player_id,
             nickname: playerUpdate.nickname,
-            is_commissioner: playerUpdate.is_commissioner,
+            role: playerUpdate.role,
+            is_commissioner: playerUpdate.role === "commissioner",
           });
 
         if (insertError) {
@@ -964,18 +1587,6 @@ export async function updateVersusPlayers(
     );
 
     for (const playerToRemove of playersToRemove || []) {
-      // Don't allow removing the creator (they should always be in the array)
-      // This is a safety check
-      if (playerToRemove.player_id === user.id && playerToRemove.is_commissioner) {
-        // Check if there's at least one other commissioner
-        const otherCommissioners = playersData.filter(
-          (p) => p.is_commissioner && p.player_id !== user.id
-        );
-        if (otherCommissioners.length === 0) {
-          throw new Error("Cannot remove the last commissioner");
-        }
-      }
-
       const { error: deleteError } = await supabase
         .from("versus_players")
         .delete()
@@ -0,0 +1,93 @@
+import { createClient } from "@/lib/supabase/server";
+
+/**
+ * Downloads everything tied to the signed-in account as JSON
+ *
+ * Route: /api/account/export
+ * Includes the profile, memberships, the player's completions (and
+ * completions removed from them), the objectives of every versus they
+ * created, and their saved templates. Only rows the player can still read are included, so versus
+ * they've left are missing.
+ */
+export async function GET() {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return new Response("Not authenticated", { status: 401 });
+  }
+
+  const [profile, memberships, completions, removals, createdVersus, templates] = await Promise.all([
+    supabase.from("players").select("*").eq("id", user.id).single(),
+    supabase
+      .from("versus_players")
+      .select(
+        `
+        *,
+        versus:versus_id (
+          id,
+          name,
+          type
+        )
+      `
+      )
+      .eq("player_id", user.id)
+      .order("joined_at", { ascending: true }),
+    supabase
+      .from("completions")
+      .select(
+        `
+        *,
+        objective:objective_id (
+          id,
+          title
+        )
+      `
+      )
+      .eq("player_id", user.id)
+      .order("completed_at", { ascending: true }),
+    supabase
+      .from("completion_removals")
+      .select("*")
+      .eq("player_id", user.id)
+      .order("removed_at", { ascending: true }),
+    supabase
+      .from("versus")
+      .select("*, objectives (*)")
+      .eq("created_by", user.id)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("versus_templates")
+      .select("*")
+      .eq("player_id", user.id)
+      .order("created_at", { ascending: true }),
+  ]);
+
+  const failed = [profile, memberships, completions, removals, createdVersus, templates].find((r) => r.error);
+  if (failed) {
+    return new Response(`Export failed: ${failed.error!.message}`, { status: 500 });
+  }
+
+  const exportedAt = new Date().toISOString();
+  const body = {
+    exported_at: exportedAt,
+    profile: profile.data,
+    memberships: memberships.data,
+    completions: completions.data,
+    removed_completions: removals.data,
+    created_versus: createdVersus.data,
+    templates: templates.data,
+  };
+
+  return new Response(JSON.stringify(body, null, 2), {
+    headers: {
+      "Content-Type": "application/json",
+      "Content-Disposition": `attachment; filename="whoversus-export-${exportedAt.slice(0, 10)}.json"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
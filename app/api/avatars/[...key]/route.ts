@@ -0,0 +1,56 @@
+import { createClient } from "@/lib/supabase/server";
+import { getStorage } from "@/lib/storage";
+
+/**
+ * Serves player avatars to anyone in a versus with the player
+ *
+ * Route: /api/avatars/<player_id>/<file>
+ * The first path segment is the player, so access is checked from the key.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  const { key } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return new Response("Not authenticated", { status: 401 });
+  }
+
+  if (key.length !== 2) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  const { data: shared, error: accessError } = await supabase.rpc("shares_versus_with", {
+    p_player_id: key[0],
+  });
+
+  if (accessError || !shared) {
+    return new Response("You don't share a versus with this player", { status: 403 });
+  }
+
+  let file;
+  try {
+    file = await getStorage("avatars").get(key.join("/"));
+  } catch {
+    file = null;
+  }
+
+  if (!file) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  return new Response(file.data as BodyInit, {
+    headers: {
+      "Content-Type": file.contentType,
+      "Cache-Control": "private, max-age=3600",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -0,0 +1,60 @@
+import { createClient } from "@/lib/supabase/server";
+import { getStorage } from "@/lib/storage";
+
+/**
+ * Serves completion proof photos to members of the versus
+ *
+ * Route: /api/proofs/<versus_id>/<player_id>/<file>
+ * The first path segment is the versus, so membership is checked from the key.
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ key: string[] }> }
+) {
+  const { key } = await params;
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError || !user) {
+    return new Response("Not authenticated", { status: 401 });
+  }
+
+  if (key.length !== 3) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  // Check if user has access to this versus
+  const { error: accessError } = await supabase
+    .from("versus_players")
+    .select("id")
+    .eq("versus_id", key[0])
+    .eq("player_id", user.id)
+    .single();
+
+  if (accessError) {
+    return new Response("You don't have access to this versus", { status: 403 });
+  }
+
+  let file;
+  try {
+    file = await getStorage().get(key.join("/"));
+  } catch {
+    file = null;
+  }
+
+  if (!file) {
+    return new Response("Not found", { status: 404 });
+  }
+
+  return new Response(file.data as BodyInit, {
+    headers: {
+      "Content-Type": file.contentType,
+      "Cache-Control": "private, max-age=3600",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
@@ -1,17 +1,32 @@
 import { createClient } from "@/lib/supabase/server";
 import { NextResponse } from "next/server";
+import { getSafeNextPath } from "@/lib/auth-utils";
 
 export async function GET(request: Request) {
   const { searchParams, origin } = new URL(request.url);
   const code = searchParams.get("code");
   const type = searchParams.get("type");
-  const next = searchParams.get("next") ?? "/";
+  const invite = searchParams.get("invite");
+  let next = getSafeNextPath(searchParams.get("next"));
 
   if (code) {
     const supabase = await createClient();
     const { error } = await supabase.auth.exchangeCodeForSession(code);
     
     if (!error) {
+      // Add the new account to any Versus it was invited to, and land on
+      // the first one unless a specific page was requested
+      const { data: joinedVersusIds, error: inviteError } = await supabase.rpc(
+        "accept_versus_invitations",
+        { p_token: invite }
+      );
+
+      if (inviteError) {
+        console.error("Failed to accept invitations:", inviteError);
+      } else if (next === "/" && joinedVersusIds?.length > 0) {
+        next = `/versus/${joinedVersusIds[0]}`;
+      }
+
       const forwardedHost = request.headers.get("x-forwarded-host"); // original origin before load balancer
       const isLocalEnv = process.env.NODE_ENV === "development";
       
@@ -30,7 +45,9 @@ export async function GET(request: Request) {
     if (error && type === "signup") {
       console.log("Email verified but session creation failed, redirecting to login");
       return NextResponse.redirect(
-        `${origin}/auth/login?message=Email confirmed! Please log in to continue.`
+        `${origin}/auth/login?message=Email confirmed! Please log in to continue.${
+          next !== "/" ? `&next=${encodeURIComponent(next)}` : ""
+        }`
       );
     }
   }
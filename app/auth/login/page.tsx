@@ -3,7 +3,7 @@ import { AuthForm } from "@/components/auth-form";
 export default function LoginPage({
   searchParams,
 }: {
-  searchParams: Promise<{ message?: string }>;
+  searchParams: Promise<{ message?: string; next?: string }>;
 }) {
   return (
     <div className="flex min-h-screen items-center justify-center p-4">
@@ -1,10 +1,13 @@
 import { AuthForm } from "@/components/auth-form";
 
-export default function SignupPage() {
+export default function SignupPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ message?: string; invite?: string; email?: string; next?: string }>;
+}) {
   return (
     <div className="flex min-h-screen items-center justify-center p-4">
-      <AuthForm mode="signup" />
+      <AuthForm mode="signup" searchParams={searchParams} />
     </div>
   );
 }
-
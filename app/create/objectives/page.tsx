@@ -22,9 +22,10 @@
 
 import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { VersusWizardStep3, type ObjectiveSubmitData } from "@/components/versus-wizard-step3";
+import { VersusWizardStep3, toObjectiveData, type ObjectiveSubmitData } from "@/components/versus-wizard-step3";
 import { createVersusComplete } from "@/app/actions/versus";
 import { useWizard } from "../wizard-context";
+import { fromDateTimeLocalValue } from "@/lib/season-utils";
 
 export default function ObjectivesPage() {
   const router = useRouter();
@@ -32,6 +33,7 @@ export default function ObjectivesPage() {
     versusData,
     playersData,
     objectivesData,
+    seed,
     getObjectiveCreationMode,
     isStepCompleted,
     resetWizard,
@@ -92,20 +94,40 @@ export default function ObjectivesPage() {
         name: versusData.name,
         type: versusData.type || null,
         reverse_ranking: versusData.reverse_ranking,
+        undo_grace_minutes: versusData.undo_grace_minutes,
+        starts_at: fromDateTimeLocalValue(versusData.starts_at),
+        ends_at: fromDateTimeLocalValue(versusData.ends_at),
+        round_period: versusData.round_period,
+        require_approval: versusData.require_approval,
+        dispute_quorum_percent: versusData.dispute_quorum_percent,
+        dispute_window_hours: versusData.dispute_window_hours,
+        max_backfill_hours: versusData.max_backfill_hours,
       };
 
       // Convert PlayerRowData to the format expected by the action
-      const playersPayload = playersData.map(player => ({
-        player_id: player.player_id,
-        is_commissioner: player.is_commissioner,
-        nickname: player.nickname || null,
-      }));
+      const playersPayload = playersData
+        .filter(player => !player.isInvite)
+        .map(player => ({
+          player_id: player.player_id,
+          role: player.role,
+          nickname: player.nickname || null,
+        }));
+
+      // People without an account are invited by email
+      const invitationsPayload = playersData
+        .filter(player => player.isInvite)
+        .map(player => ({
+          email: player.email,
+          role: player.role,
+          nickname: player.nickname || null,
+        }));
 
       // Call the server action
       const result = await createVersusComplete(
         versusPayload,
         playersPayload,
-        objectives
+        objectives,
+        invitationsPayload
       );
 
       if (result.error) {
@@ -176,6 +198,9 @@ export default function ObjectivesPage() {
   // Render
   // ============================================================================
 
+  // Saved objectives, else the cloned/template ones
+  const initialObjectives = objectivesData || seed?.objectivesData;
+
   // Loading state while checking prerequisites
   if (isLoading) {
     return (
@@ -196,14 +221,9 @@ export default function ObjectivesPage() {
       {/* Step 3 Form */}
       <VersusWizardStep3
         mode="create"
-        initialData={objectivesData ? objectivesData.map((o, i) => ({
-          id: `obj-${i}`,
-          title: o.title,
-          points_type: o.points >= 0 ? "positive" : "negative",
-          points: Math.abs(o.points),
-          description: o.description || "",
-          isEditing: false,
-        })) : undefined}
+        initialData={initialObjectives
+          ? initialObjectives.map((o, i) => toObjectiveData({ ...o, id: `obj-${i}` }))
+          : undefined}
         creationMode={getObjectiveCreationMode()}
         onSubmit={handleSubmit}
         onBack={handleBack}
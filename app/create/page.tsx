@@ -5,6 +5,7 @@
  * Users configure basic settings: name, type, reverse ranking, player count, and objective mode.
  * 
  * Route: /create
+ * Clone: /create?clone=<versus id>&include=settings,objectives,roster
  * 
  * Flow:
  * 1. Page loads → Fetch current user data
@@ -17,6 +18,8 @@
 
 import { redirect } from "next/navigation";
 import { getCurrentPlayer } from "@/app/actions/players";
+import { getVersusCloneSource } from "@/app/actions/templates";
+import { parseClonePartsParam } from "@/lib/versus-templates";
 import { Step1Client } from "./step1-client";
 
 /**
@@ -27,7 +30,11 @@ import { Step1Client } from "./step1-client";
  * - Server components can make authenticated Supabase calls
  * - Client component handles interactivity (form, navigation)
  */
-export default async function CreatePage() {
+export default async function CreatePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ clone?: string; include?: string }>;
+}) {
   // Fetch current user data
   // This is used to pre-fill the creator row in Step 2
   const { data: currentPlayer, error } = await getCurrentPlayer();
@@ -37,6 +44,12 @@ export default async function CreatePage() {
     redirect("/auth/login?message=Please sign in to create a Versus");
   }
 
+  // Cloning - read the chosen parts of the source Versus
+  const { clone, include } = await searchParams;
+  const { data: cloneSource, error: cloneError } = clone
+    ? await getVersusCloneSource(clone, parseClonePartsParam(include))
+    : { data: null, error: null };
+
   // Pass user data to client component
   return (
     <Step1Client
@@ -45,6 +58,8 @@ export default async function CreatePage() {
         email: currentPlayer.email,
         display_name: currentPlayer.display_name,
       }}
+      cloneSource={cloneSource}
+      cloneError={cloneError?.message || null}
     />
   );
 }
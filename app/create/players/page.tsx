@@ -10,7 +10,8 @@
  * 
  * Flow:
  * 1. Check Step 1 is completed (redirect if not)
- * 2. User adds players by email (validated against database)
+ * 2. User adds players by email (validated against database; emails without
+ *    an account are invited to sign up)
  * 3. User clicks "Next" → Save to context, navigate to /create/objectives
  * 4. User clicks "Back" → Navigate to /create (data preserved)
  * 5. User clicks "Cancel" → Confirm, redirect to home
@@ -28,6 +29,7 @@ export default function PlayersPage() {
   const {
     currentUser,
     playersData,
+    seed,
     setPlayersData,
     getMaxPlayers,
     isStepCompleted,
@@ -135,7 +137,7 @@ export default function PlayersPage() {
       {/* Step 2 Form */}
       <VersusWizardStep2
         mode="create"
-        initialData={playersData || undefined}
+        initialData={playersData || seed?.playersData || undefined}
         maxPlayers={getMaxPlayers()}
         currentUser={currentUser}
         onSubmit={handleSubmit}
@@ -5,6 +5,7 @@
  * 
  * This client component wraps VersusWizardStep1 and handles:
  * - Initializing the wizard context with current user
+ * - Seeding the wizard from a cloned Versus or a saved template
  * - Navigation on form submit
  * - Cancel confirmation dialog
  * 
@@ -14,26 +15,43 @@
  * - Clean separation of concerns
  */
 
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { VersusWizardStep1, type Step1FormData } from "@/components/versus-wizard-step1";
+import { VersusTemplatePicker } from "@/components/versus-template-picker";
 import { useWizard, type WizardCurrentUser } from "./wizard-context";
+import { fromCloneSource, fromTemplate } from "./wizard-seed";
+import type { VersusCloneSource, VersusTemplate } from "@/types/database";
 
 interface Step1ClientProps {
   currentUser: WizardCurrentUser;
+  cloneSource?: VersusCloneSource | null; // From /create?clone=<id>
+  cloneError?: string | null;
 }
 
-export function Step1Client({ currentUser }: Step1ClientProps) {
+export function Step1Client({ currentUser, cloneSource = null, cloneError = null }: Step1ClientProps) {
   const router = useRouter();
   const { 
     versusData, 
+    seed,
     setVersusData, 
-    setCurrentUser 
+    setCurrentUser,
+    applySeed,
   } = useWizard();
 
   // Show cancel confirmation dialog?
   const [showCancelConfirm, setShowCancelConfirm] = useState(false);
 
+  // Remounts the form when a template replaces its values
+  const [formKey, setFormKey] = useState(0);
+
+  // A clone prefills the wizard until another seed replaces it
+  const cloneSeed = useMemo(
+    () => (cloneSource ? fromCloneSource(cloneSource) : null),
+    [cloneSource]
+  );
+  const activeSeed = seed || (versusData ? null : cloneSeed);
+
   // ============================================================================
   // Initialize Context with Current User
   // ============================================================================
@@ -46,6 +64,16 @@ export function Step1Client({ currentUser }: Step1ClientProps) {
     setCurrentUser(currentUser);
   }, [currentUser, setCurrentUser]);
 
+  /**
+   * Store the clone seed so Steps 2 and 3 can use it
+   * (only on a fresh wizard - going back to Step 1 keeps what was saved)
+   */
+  useEffect(() => {
+    if (cloneSeed && !seed && !versusData) {
+      applySeed(cloneSeed);
+    }
+  }, [cloneSeed, seed, versusData, applySeed]);
+
   // ============================================================================
   // Handlers
   // ============================================================================
@@ -59,6 +87,15 @@ export function Step1Client({ currentUser }: Step1ClientProps) {
     router.push("/create/players");
   };
 
+  /**
+   * Start from a saved template (settings and objectives)
+   * Players already copied from a clone are kept.
+   */
+  const handleApplyTemplate = (template: VersusTemplate) => {
+    applySeed({ ...fromTemplate(template), playersData: activeSeed?.playersData ?? null });
+    setFormKey((key) => key + 1);
+  };
+
   /**
    * Handle cancel button click
    * Shows confirmation dialog before leaving wizard
@@ -80,10 +117,26 @@ export function Step1Client({ currentUser }: Step1ClientProps) {
 
   return (
     <>
+      {/* Template picker */}
+      <VersusTemplatePicker onApply={handleApplyTemplate} />
+
+      {cloneError && (
+        <p className="mb-4 text-sm text-destructive" role="alert">
+          Couldn&apos;t copy that Versus: {cloneError}
+        </p>
+      )}
+      {activeSeed && (
+        <p className="mb-4 text-sm text-muted-foreground">
+          Started from <span className="text-primary">{activeSeed.label}</span>. Review each step
+          before creating.
+        </p>
+      )}
+
       {/* Step 1 Form */}
       <VersusWizardStep1
+        key={formKey}
         mode="create"
-        initialData={versusData || undefined}
+        initialData={versusData || activeSeed?.versusData || undefined}
         onSubmit={handleSubmit}
         onCancel={handleCancel}
       />
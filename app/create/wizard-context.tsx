@@ -17,6 +17,9 @@
  * 1. Step 1 (Settings) → saves versusData
  * 2. Step 2 (Players) → saves playersData
  * 3. Step 3 (Objectives) → uses all data to call createVersusComplete()
+ *
+ * A seed (cloned Versus or template, see wizard-seed.ts) prefills steps the
+ * user hasn't saved yet.
  * 
  * See: docs/features/create-versus-wizard-spec.md
  */
@@ -25,6 +28,7 @@ import { createContext, useContext, useState, ReactNode, useCallback } from "rea
 import type { Step1FormData, ObjectiveCreationMode } from "@/components/versus-wizard-step1";
 import type { PlayerRowData } from "@/components/versus-wizard-step2";
 import type { ObjectiveSubmitData } from "@/components/versus-wizard-step3";
+import type { WizardSeed } from "./wizard-seed";
 
 // ============================================================================
 // Type Definitions
@@ -56,6 +60,9 @@ interface WizardState {
   
   // Current user (set on wizard load)
   currentUser: WizardCurrentUser | null;
+
+  // Prefill from a cloned Versus or template (null = start blank)
+  seed: WizardSeed | null;
   
   // Track which steps have been completed
   completedSteps: Set<number>;
@@ -76,6 +83,9 @@ interface WizardContextValue extends WizardState {
   
   // Set current user (called on mount)
   setCurrentUser: (user: WizardCurrentUser) => void;
+
+  // Start over from a seed
+  applySeed: (seed: WizardSeed) => void;
   
   // Mark a step as completed
   markStepCompleted: (step: number) => void;
@@ -102,6 +112,7 @@ const DEFAULT_STATE: WizardState = {
   playersData: null,
   objectivesData: null,
   currentUser: null,
+  seed: null,
   completedSteps: new Set<number>(),
 };
 
@@ -173,6 +184,18 @@ export function WizardProvider({ children }: WizardProviderProps) {
     }));
   }, []);
 
+  /**
+   * Start over from a seed
+   * Clears saved steps so each one shows the seed's values
+   */
+  const applySeed = useCallback((seed: WizardSeed) => {
+    setState(prev => ({
+      ...DEFAULT_STATE,
+      currentUser: prev.currentUser,
+      seed,
+    }));
+  }, []);
+
   /**
    * Mark a step as completed
    */
@@ -228,6 +251,7 @@ export function WizardProvider({ children }: WizardProviderProps) {
     setPlayersData,
     setObjectivesData,
     setCurrentUser,
+    applySeed,
     markStepCompleted,
     isStepCompleted,
     getMaxPlayers,
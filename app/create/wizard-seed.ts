@@ -0,0 +1,99 @@
+/**
+ * Wizard Seeds - Prefill the Create Versus Wizard
+ *
+ * A seed fills in wizard steps from somewhere else:
+ * - a cloned Versus (settings, roster and/or objectives - /create?clone=<id>)
+ * - a saved template (settings and objectives)
+ *
+ * Steps show the seed's values until the user saves that step; parts the
+ * seed leaves null fall back to the wizard's defaults.
+ */
+
+import { VERSUS_TYPES, type Step1FormData, type VersusType } from "@/components/versus-wizard-step1";
+import type { PlayerRowData } from "@/components/versus-wizard-step2";
+import type { ObjectiveSubmitData } from "@/components/versus-wizard-step3";
+import type {
+  VersusCloneMember,
+  VersusCloneSource,
+  VersusTemplate,
+  VersusTemplateObjective,
+  VersusTemplateSettings,
+} from "@/types/database";
+
+// Step 1 allows at most 12 players, the creator included
+const MAX_PLAYERS = 12;
+
+export interface WizardSeed {
+  label: string; // Shown as "Started from <label>"
+  versusData: Partial<Step1FormData> | null;
+  playersData: PlayerRowData[] | null; // Everyone but the creator
+  objectivesData: ObjectiveSubmitData[] | null;
+}
+
+/**
+ * Template/versus settings as Step 1 form values
+ */
+const toStep1Data = (settings: VersusTemplateSettings): Partial<Step1FormData> => ({
+  type: VERSUS_TYPES.includes(settings.type as VersusType) ? (settings.type as VersusType) : "",
+  reverse_ranking: settings.reverse_ranking,
+  undo_grace_minutes: settings.undo_grace_minutes,
+  round_period: settings.round_period,
+  require_approval: settings.require_approval,
+  dispute_quorum_percent: settings.dispute_quorum_percent,
+  dispute_window_hours: settings.dispute_window_hours,
+  max_backfill_hours: settings.max_backfill_hours,
+});
+
+/**
+ * Copied members as Step 2 rows (already validated, so no lookups)
+ */
+const toPlayerRows = (members: VersusCloneMember[]): PlayerRowData[] =>
+  members.slice(0, MAX_PLAYERS - 1).map((member) => ({
+    player_id: member.player_id,
+    email: member.email,
+    display_name: member.display_name,
+    nickname: member.nickname || "",
+    role: member.role,
+    isCreator: false,
+    isValidated: true,
+    isInvite: false,
+    isValidating: false,
+    error: null,
+  }));
+
+const toObjectivesData = (objectives: VersusTemplateObjective[]): ObjectiveSubmitData[] =>
+  objectives.map((o) => ({ ...o }));
+
+/**
+ * Seed for cloning a versus
+ * Keeps its name so the new run can be renamed in Step 1.
+ */
+export function fromCloneSource(source: VersusCloneSource): WizardSeed {
+  const versusData: Partial<Step1FormData> = {
+    name: source.name,
+    ...(source.settings ? toStep1Data(source.settings) : {}),
+  };
+
+  if (source.members) {
+    versusData.number_of_players = Math.min(MAX_PLAYERS, Math.max(2, source.members.length + 1));
+  }
+
+  return {
+    label: source.name,
+    versusData,
+    playersData: source.members ? toPlayerRows(source.members) : null,
+    objectivesData: source.objectives ? toObjectivesData(source.objectives) : null,
+  };
+}
+
+/**
+ * Seed for a saved template (Steps 1 and 3)
+ */
+export function fromTemplate(template: VersusTemplate): WizardSeed {
+  return {
+    label: template.name,
+    versusData: toStep1Data(template.settings),
+    playersData: null,
+    objectivesData: toObjectivesData(template.objectives),
+  };
+}
@@ -0,0 +1,190 @@
+"use client";
+
+/**
+ * Join Page - Join a Versus with a Shared Link
+ *
+ * Opened from a join link (/join/<code>) or the code form on /join.
+ * Logged-out visitors are sent through login/signup first and come back
+ * here via the `next` parameter.
+ *
+ * Route: /join/[code]
+ *
+ * Flow:
+ * 1. Look up the code (versus name, player count, approval mode, status)
+ * 2. Already a player → link to the versus
+ * 3. Otherwise "Join" → added instantly, or a join request is sent for a
+ *    commissioner to approve
+ */
+
+import { use, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Navigation } from "@/components/navigation";
+import { getJoinCodePreview, joinVersusWithCode } from "@/app/actions/join";
+import { JOIN_CODE_STATUS_LABELS, formatJoinCode, normalizeJoinCode } from "@/lib/join-code-utils";
+import type { JoinCodePreview } from "@/types/database";
+
+export default function JoinPage({ params }: { params: Promise<{ code: string }> }) {
+  const { code } = use(params);
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<JoinCodePreview | null>(null);
+  const [joining, setJoining] = useState(false);
+  const [requested, setRequested] = useState(false);
+
+  // ============================================================================
+  // Load Data
+  // ============================================================================
+
+  useEffect(() => {
+    async function fetchPreview() {
+      const { data, error: previewError } = await getJoinCodePreview(code);
+
+      if (previewError) {
+        setError(previewError.message);
+      } else if (!data) {
+        setError("This join link is not valid. Check the code and try again.");
+      } else {
+        setPreview(data);
+        setRequested(data.has_pending_request);
+      }
+
+      setLoading(false);
+    }
+
+    fetchPreview();
+  }, [code]);
+
+  // ============================================================================
+  // Handlers
+  // ============================================================================
+
+  const handleJoin = async () => {
+    setJoining(true);
+    setError(null);
+
+    const { data, error: joinError } = await joinVersusWithCode(code);
+
+    if (joinError || !data) {
+      setError(joinError?.message || "Failed to join");
+      setJoining(false);
+      return;
+    }
+
+    if (data.result === "requested") {
+      setRequested(true);
+      setJoining(false);
+      return;
+    }
+
+    router.push(`/versus/${data.versus_id}`);
+  };
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen flex-col">
+        <Navigation />
+        <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+          <p className="text-center text-muted-foreground">Loading...</p>
+        </main>
+      </div>
+    );
+  }
+
+  if (!preview) {
+    return (
+      <div className="flex min-h-screen flex-col">
+        <Navigation />
+        <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+          <div className="text-center py-12">
+            <h1 className="text-2xl font-bold text-destructive font-display mb-4">
+              Can&apos;t Join
+            </h1>
+            <p className="text-muted-foreground mb-6">{error}</p>
+            <Link
+              href="/join"
+              className="rounded-lg bg-primary px-6 py-3 font-bold text-primary-foreground transition-all hover:bg-primary/90"
+            >
+              Enter a Code
+            </Link>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const canJoin = preview.status === "active" && !preview.is_member && !requested;
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <Navigation />
+      <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+        <div className="rounded-lg border border-primary/30 bg-card/50 p-6 text-center panel-blur">
+          <p className="text-sm text-muted-foreground">You&apos;re invited to join</p>
+          <h1 className="mt-2 text-3xl font-bold text-primary neon-text font-display">
+            {preview.versus_name}
+          </h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            {preview.player_count} {preview.player_count === 1 ? "player" : "players"} · Code{" "}
+            <span className="font-mono text-foreground">{formatJoinCode(normalizeJoinCode(code))}</span>
+          </p>
+
+          <div className="mt-6">
+            {preview.is_member ? (
+              <>
+                <p className="mb-4 text-sm text-neon-green">You&apos;re already in this Versus.</p>
+                <Link
+                  href={`/versus/${preview.versus_id}`}
+                  className="rounded-lg bg-primary px-6 py-3 font-bold text-primary-foreground transition-all hover:bg-primary/90"
+                >
+                  Go to Versus
+                </Link>
+              </>
+            ) : requested ? (
+              <p className="text-sm text-neon-blue">
+                Request sent! A commissioner needs to approve it before you can play.
+              </p>
+            ) : preview.status !== "active" ? (
+              <p className="text-sm text-destructive">
+                This join link can&apos;t be used ({JOIN_CODE_STATUS_LABELS[preview.status].toLowerCase()}).
+                Ask a commissioner for a new one.
+              </p>
+            ) : (
+              <>
+                {preview.requires_approval && (
+                  <p className="mb-4 text-xs text-muted-foreground">
+                    A commissioner will approve your request before you can play.
+                  </p>
+                )}
+                <button
+                  type="button"
+                  onClick={handleJoin}
+                  disabled={!canJoin || joining}
+                  className="rounded-lg bg-primary px-6 py-3 font-bold text-primary-foreground transition-all hover:bg-primary/90 hover:neon-glow-subtle disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {joining
+                    ? "Joining..."
+                    : preview.requires_approval
+                    ? "Ask to Join"
+                    : "Join Versus"}
+                </button>
+              </>
+            )}
+          </div>
+
+          {error && (
+            <p className="mt-4 text-sm text-destructive" role="alert">
+              {error}
+            </p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+/**
+ * Enter Join Code Page
+ *
+ * For codes shared out loud or in a chat instead of as a link.
+ *
+ * Route: /join
+ *
+ * Flow:
+ * 1. User types the code (dashes/spaces and case don't matter)
+ * 2. Continue → /join/<code>, which shows the Versus and the Join button
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Navigation } from "@/components/navigation";
+import {
+  JOIN_CODE_LENGTH,
+  getJoinPath,
+  isValidJoinCode,
+  normalizeJoinCode,
+} from "@/lib/join-code-utils";
+
+export default function EnterJoinCodePage() {
+  const router = useRouter();
+  const [code, setCode] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const normalized = normalizeJoinCode(code);
+    if (!isValidJoinCode(normalized)) {
+      setError(`Join codes are ${JOIN_CODE_LENGTH} letters and numbers, like K7QM-3XPA`);
+      return;
+    }
+
+    router.push(getJoinPath(normalized));
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <Navigation />
+      <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+        <div className="mb-6 text-center">
+          <h1 className="text-3xl font-bold text-primary neon-text font-display">Join a Versus</h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Enter the code a commissioner shared with you.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label htmlFor="join-code" className="block text-sm font-medium text-foreground mb-1">
+              Join Code
+            </label>
+            <input
+              id="join-code"
+              type="text"
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value);
+                setError(null);
+              }}
+              autoComplete="off"
+              autoCapitalize="characters"
+              placeholder="K7QM-3XPA"
+              aria-invalid={!!error}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-3 text-center font-mono text-lg uppercase tracking-widest text-foreground placeholder-muted-foreground/50 focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+            {error && (
+              <p className="mt-1 text-xs text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={!code.trim()}
+            className="w-full rounded-lg bg-primary px-4 py-3 font-bold text-primary-foreground transition-all hover:bg-primary/90 hover:neon-glow-subtle disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Continue
+          </button>
+        </form>
+      </main>
+    </div>
+  );
+}
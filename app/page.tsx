@@ -2,8 +2,22 @@ import { Navigation } from "@/components/navigation";
 import { VersusCard } from "@/components/versus-card";
 import { getUserVersus } from "@/app/actions/versus";
 import { redirect } from "next/navigation";
+import Link from "next/link";
+import type { VersusStatus } from "@/types/database";
 
-export default async function Home() {
+const TABS: { status: VersusStatus; label: string; empty: string }[] = [
+  { status: "active", label: "Active", empty: "No challenges yet" },
+  { status: "finished", label: "Finished", empty: "No finished challenges" },
+  { status: "archived", label: "Archived", empty: "Nothing archived" },
+];
+
+export default async function Home({
+  searchParams,
+}: {
+  searchParams: Promise<{ tab?: string }>;
+}) {
+  const { tab: tabParam } = await searchParams;
+  const tab = TABS.find((t) => t.status === tabParam) || TABS[0];
   const { data: versusData, error } = await getUserVersus();
 
   if (error) {
@@ -14,7 +28,8 @@ export default async function Home() {
     }
   }
 
-  const versus = versusData || [];
+  const allVersus = versusData || [];
+  const versus = allVersus.filter((v) => v.status === tab.status);
 
   return (
     <div className="flex min-h-screen flex-col">
@@ -24,15 +39,42 @@ export default async function Home() {
       <main className="mx-auto w-full max-w-md md:max-w-2xl">
         <div className="flex flex-col gap-4 p-4">
           {/* Page Title */}
-          <div className="mb-2">
-            <h1 className="text-2xl font-bold text-primary font-display">
-              My Versus
-            </h1>
-            <p className="text-sm text-muted-foreground">
-              Your active challenges
-            </p>
+          <div className="mb-2 flex items-end justify-between gap-3">
+            <div>
+              <h1 className="text-2xl font-bold text-primary font-display">
+                My Versus
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                Your {tab.label.toLowerCase()} challenges
+              </p>
+            </div>
+            <Link href="/join" className="text-sm text-primary hover:underline">
+              Have a code?
+            </Link>
           </div>
 
+          {/* Status Tabs */}
+          <nav className="flex gap-1 rounded-lg border border-primary/30 bg-card/50 p-1" aria-label="Versus status">
+            {TABS.map((t) => {
+              const count = allVersus.filter((v) => v.status === t.status).length;
+              return (
+                <Link
+                  key={t.status}
+                  href={t.status === "active" ? "/" : `/?tab=${t.status}`}
+                  aria-current={t.status === tab.status ? "page" : undefined}
+                  className={`flex-1 rounded-md px-3 py-1.5 text-center text-sm transition-colors ${
+                    t.status === tab.status
+                      ? "bg-primary/20 text-primary"
+                      : "text-muted-foreground hover:text-foreground"
+                  }`}
+                >
+                  {t.label}
+                  {count > 0 && <span className="ml-1 text-xs">({count})</span>}
+                </Link>
+              );
+            })}
+          </nav>
+
           {/* Versus List */}
           {versus.length > 0 && (
             <div className="flex flex-col gap-3">
@@ -45,19 +87,31 @@ export default async function Home() {
                   rank={v.current_player_rank}
                   totalPlayers={v.total_players}
                   isCommissioner={v.is_commissioner}
+                  isOwner={v.is_owner}
+                  isViewer={v.role === "viewer"}
+                  startsAt={v.starts_at}
+                  endsAt={v.ends_at}
+                  status={v.status}
+                  winnerName={v.winner_name}
                 />
               ))}
             </div>
           )}
 
           {/* Empty state - shown when no versus exist */}
-          {versus.length === 0 && (
+          {versus.length === 0 && tab.status !== "active" && (
+            <p className="py-16 text-center text-lg text-muted-foreground">{tab.empty}</p>
+          )}
+          {versus.length === 0 && tab.status === "active" && (
             <div className="flex flex-col items-center justify-center py-16 text-center">
               <p className="text-lg text-muted-foreground">
-                No challenges yet
+                {allVersus.length > 0 ? "No active challenges" : tab.empty}
               </p>
               <p className="mt-2 text-sm text-muted-foreground">
-                Create your first Versus to get started
+                Create your first Versus to get started, or{" "}
+                <Link href="/join" className="text-primary hover:underline">
+                  join one with a code
+                </Link>
               </p>
             </div>
           )}
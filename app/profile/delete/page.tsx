@@ -0,0 +1,227 @@
+"use client";
+
+/**
+ * Delete Account Page
+ *
+ * Walks a player through deleting their account:
+ * 1. Lists every Versus they're in and what happens to it - deleted (only
+ *    member), handed to a successor (owner / last commissioner), or left
+ * 2. Pick a successor where there's no other commissioner to default to
+ * 3. Type your email to confirm
+ *
+ * Route: /profile/delete
+ *
+ * On success the session is gone, so it goes to the login page.
+ */
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { Navigation } from "@/components/navigation";
+import { deleteAccount, getAccountDeletionPlan } from "@/app/actions/account";
+import { getCurrentPlayer } from "@/app/actions/players";
+import { VERSUS_ROLE_LABELS } from "@/lib/role-utils";
+import type { AccountDeletionVersus } from "@/types/database";
+
+export default function DeleteAccountPage() {
+  const router = useRouter();
+  const [plan, setPlan] = useState<AccountDeletionVersus[]>([]);
+  const [email, setEmail] = useState("");
+  const [successors, setSuccessors] = useState<Record<string, string>>({});
+  const [confirmText, setConfirmText] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deleting, setDeleting] = useState(false);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadData() {
+      const [{ data: player, error: playerError }, { data: planData, error: planError }] =
+        await Promise.all([getCurrentPlayer(), getAccountDeletionPlan()]);
+
+      if (playerError || !player) {
+        setError("Not authenticated. Please log in.");
+      } else if (planError || !planData) {
+        setError(planError?.message || "Failed to load your Versus");
+      } else {
+        setEmail(player.email);
+        setPlan(planData);
+      }
+
+      setLoading(false);
+    }
+
+    loadData();
+  }, []);
+
+  // Hand-offs with no other commissioner to fall back on need a choice
+  const missingSuccessor = plan.find(
+    (v) => v.outcome === "hand_off" && !v.default_successor_id && !successors[v.versus_id]
+  );
+  const confirmed = confirmText.trim().toLowerCase() === email.toLowerCase();
+
+  const handleDelete = async () => {
+    if (missingSuccessor || !confirmed) return;
+
+    setDeleting(true);
+    setDeleteError(null);
+
+    const { error: accountError } = await deleteAccount(successors);
+
+    if (accountError) {
+      setDeleteError(accountError.message);
+      setDeleting(false);
+      return;
+    }
+
+    router.push("/auth/login");
+    router.refresh();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen flex-col">
+        <Navigation />
+        <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+          <p className="text-center text-muted-foreground">Loading...</p>
+        </main>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen flex-col">
+        <Navigation />
+        <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+          <div className="text-center py-12">
+            <p className="text-muted-foreground mb-6">{error}</p>
+            <Link href="/profile" className="text-primary hover:underline">
+              Back to Profile
+            </Link>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <Navigation />
+      <main className="mx-auto w-full max-w-md md:max-w-2xl space-y-6 p-4">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-destructive font-display">Delete Account</h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            This can&apos;t be undone. Your profile, memberships, completions and photos are
+            deleted, so other players&apos; rankings may change.{" "}
+            <a href="/api/account/export" className="text-primary hover:underline">
+              Download your data
+            </a>{" "}
+            first if you want a copy.
+          </p>
+        </div>
+
+        {/* What happens to each Versus */}
+        <section className="space-y-3 rounded-lg border border-primary/30 bg-card/50 p-4 panel-blur">
+          <h2 className="text-xl font-bold text-foreground font-display">Your Versus</h2>
+
+          {plan.length === 0 ? (
+            <p className="text-sm text-muted-foreground">You&apos;re not in any Versus.</p>
+          ) : (
+            <ul className="divide-y divide-primary/10">
+              {plan.map((v) => (
+                <li key={v.versus_id} className="space-y-2 py-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="truncate font-medium text-foreground">{v.versus_name}</p>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {v.is_owner ? "Owner" : VERSUS_ROLE_LABELS[v.role]}
+                    </span>
+                  </div>
+
+                  {v.outcome === "delete" && (
+                    <p className="text-sm text-destructive">
+                      You&apos;re the only member, so this Versus will be deleted.
+                    </p>
+                  )}
+                  {v.outcome === "leave" && (
+                    <p className="text-sm text-muted-foreground">You&apos;ll be removed; the Versus carries on.</p>
+                  )}
+                  {v.outcome === "hand_off" && (
+                    <div>
+                      <label
+                        htmlFor={`successor-${v.versus_id}`}
+                        className="block text-sm text-muted-foreground mb-1"
+                      >
+                        {v.is_owner ? "Transfer ownership to" : "New commissioner"}
+                        {!v.default_successor_id && <span className="text-destructive"> *</span>}
+                      </label>
+                      <select
+                        id={`successor-${v.versus_id}`}
+                        value={successors[v.versus_id] || v.default_successor_id || ""}
+                        onChange={(e) =>
+                          setSuccessors({ ...successors, [v.versus_id]: e.target.value })
+                        }
+                        className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+                      >
+                        {!v.default_successor_id && (
+                          <option value="" className="bg-background">Choose a member...</option>
+                        )}
+                        {v.members.map((member) => (
+                          <option key={member.player_id} value={member.player_id} className="bg-background">
+                            {member.name} ({VERSUS_ROLE_LABELS[member.role]})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* Confirm */}
+        <section className="space-y-3 rounded-lg border border-destructive/50 bg-destructive/5 p-4">
+          <label htmlFor="confirm-email" className="block text-sm font-medium text-foreground">
+            Type <span className="font-mono">{email}</span> to confirm
+          </label>
+          <input
+            id="confirm-email"
+            type="text"
+            value={confirmText}
+            onChange={(e) => setConfirmText(e.target.value)}
+            autoComplete="off"
+            className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+          />
+
+          {missingSuccessor && (
+            <p className="text-sm text-neon-orange">
+              Choose who takes over {missingSuccessor.versus_name}.
+            </p>
+          )}
+          {deleteError && (
+            <p className="text-sm text-destructive" role="alert">
+              {deleteError}
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            <Link
+              href="/profile"
+              className="flex-1 rounded-lg border border-primary/30 py-2 text-center text-foreground hover:bg-card/50 transition-colors"
+            >
+              Cancel
+            </Link>
+            <button
+              onClick={handleDelete}
+              disabled={deleting || !!missingSuccessor || !confirmed}
+              className="flex-1 rounded-lg bg-destructive py-2 text-white hover:bg-destructive/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {deleting ? "Deleting..." : "Delete My Account"}
+            </button>
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+"use client";
+
+/**
+ * Profile Page - Your Player Profile
+ *
+ * - Change your display name (shown wherever you don't have a nickname)
+ * - Upload or remove an avatar
+ * - Choose whether anyone can find you by name (discoverable)
+ * - Career stats across every Versus you've played
+ * - Download your data or delete your account (/profile/delete)
+ *
+ * Route: /profile
+ *
+ * Other players see the same stats on your profile inside a shared Versus
+ * (/versus/[id]/players/[playerId]).
+ */
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Navigation } from "@/components/navigation";
+import { PlayerAvatar } from "@/components/player-avatar";
+import { CareerStats } from "@/components/career-stats";
+import {
+  getCurrentPlayer,
+  getPlayerCareerStats,
+  removeAvatar,
+  updatePlayerProfile,
+  uploadAvatar,
+} from "@/app/actions/players";
+import { DISPLAY_NAME_MAX_LENGTH, getAvatarFileError, getAvatarUrl } from "@/lib/avatar-utils";
+import type { CareerStats as CareerStatsData, Player } from "@/types/database";
+
+export default function ProfilePage() {
+  const [player, setPlayer] = useState<Player | null>(null);
+  const [stats, setStats] = useState<CareerStatsData | null>(null);
+  const [displayName, setDisplayName] = useState("");
+  const [discoverable, setDiscoverable] = useState(false);
+  const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // ============================================================================
+  // Load Data
+  // ============================================================================
+
+  useEffect(() => {
+    async function loadData() {
+      const { data: currentPlayer, error: playerError } = await getCurrentPlayer();
+
+      if (playerError || !currentPlayer) {
+        setError("Not authenticated. Please log in.");
+        setLoading(false);
+        return;
+      }
+
+      const { data: careerStats, error: statsError } = await getPlayerCareerStats(currentPlayer.id);
+
+      if (statsError || !careerStats) {
+        setError(statsError?.message || "Failed to load your stats");
+        setLoading(false);
+        return;
+      }
+
+      setPlayer(currentPlayer);
+      setDisplayName(currentPlayer.display_name || "");
+      setDiscoverable(currentPlayer.discoverable);
+      setAvatarUrl(getAvatarUrl(currentPlayer.avatar_path));
+      setStats(careerStats);
+      setLoading(false);
+    }
+
+    loadData();
+  }, []);
+
+  // ============================================================================
+  // Handlers
+  // ============================================================================
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    setSaving(true);
+    setFormError(null);
+    setNotice(null);
+
+    const { data, error: saveError } = await updatePlayerProfile({
+      display_name: displayName,
+      discoverable,
+    });
+
+    setSaving(false);
+
+    if (saveError || !data) {
+      setFormError(saveError?.message || "Failed to save your profile");
+      return;
+    }
+
+    setPlayer(data);
+    setDisplayName(data.display_name || "");
+    setDiscoverable(data.discoverable);
+    setNotice("Profile saved");
+  };
+
+  const handleAvatar = async (file: File | undefined) => {
+    if (!file) return;
+
+    const fileError = getAvatarFileError(file);
+    if (fileError) {
+      setFormError(fileError);
+      return;
+    }
+
+    setUploading(true);
+    setFormError(null);
+    setNotice(null);
+
+    const formData = new FormData();
+    formData.append("file", file);
+    const { data, error: uploadError } = await uploadAvatar(formData);
+
+    setUploading(false);
+
+    if (uploadError || !data) {
+      setFormError(uploadError?.message || "Failed to upload your avatar");
+      return;
+    }
+
+    setAvatarUrl(data.avatar_url);
+  };
+
+  const handleRemoveAvatar = async () => {
+    setUploading(true);
+    setFormError(null);
+    setNotice(null);
+
+    const { error: removeError } = await removeAvatar();
+
+    setUploading(false);
+
+    if (removeError) {
+      setFormError(removeError.message);
+      return;
+    }
+
+    setAvatarUrl(null);
+  };
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen flex-col">
+        <Navigation />
+        <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+          <p className="text-center text-muted-foreground">Loading...</p>
+        </main>
+      </div>
+    );
+  }
+
+  if (error || !player || !stats) {
+    return (
+      <div className="flex min-h-screen flex-col">
+        <Navigation />
+        <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+          <div className="text-center py-12">
+            <p className="text-muted-foreground mb-6">{error || "Profile not found"}</p>
+            <Link href="/" className="text-primary hover:underline">
+              Back to Home
+            </Link>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const shownName = player.display_name || player.email.split("@")[0];
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <Navigation />
+      <main className="mx-auto w-full max-w-md md:max-w-2xl space-y-6 p-4">
+        <h1 className="text-center text-3xl font-bold text-primary neon-text font-display">
+          Your Profile
+        </h1>
+
+        <form
+          onSubmit={handleSave}
+          className="space-y-4 rounded-lg border border-primary/30 bg-card/50 p-4 panel-blur"
+        >
+          {/* Avatar */}
+          <div className="flex items-center gap-4">
+            <PlayerAvatar name={shownName} avatarUrl={avatarUrl} size={72} />
+            <div className="space-y-2">
+              <label
+                htmlFor="avatar-file"
+                className={`inline-block cursor-pointer rounded-lg border border-primary/30 px-3 py-2 text-sm text-primary hover:bg-primary/10 transition-colors ${
+                  uploading ? "pointer-events-none opacity-50" : ""
+                }`}
+              >
+                {uploading ? "Uploading..." : avatarUrl ? "Change Avatar" : "Upload Avatar"}
+              </label>
+              <input
+                id="avatar-file"
+                type="file"
+                accept="image/jpeg,image/png,image/webp,image/gif"
+                disabled={uploading}
+                onChange={(e) => {
+                  handleAvatar(e.target.files?.[0]);
+                  e.target.value = "";
+                }}
+                className="sr-only"
+              />
+              {avatarUrl && (
+                <button
+                  type="button"
+                  onClick={handleRemoveAvatar}
+                  disabled={uploading}
+                  className="block text-xs text-destructive hover:underline disabled:opacity-50"
+                >
+                  Remove avatar
+                </button>
+              )}
+            </div>
+          </div>
+
+          {/* Display name */}
+          <div>
+            <label htmlFor="display-name" className="block text-sm font-medium text-foreground mb-1">
+              Display Name
+            </label>
+            <input
+              id="display-name"
+              type="text"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              maxLength={DISPLAY_NAME_MAX_LENGTH}
+              required
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground placeholder-muted-foreground/50 focus:border-primary focus:ring-1 focus:ring-primary"
+            />
+            <p className="mt-1 text-xs text-muted-foreground">
+              Shown in every Versus where you don&apos;t have a nickname. Signed in as {player.email}.
+            </p>
+          </div>
+
+          {/* Discoverability */}
+          <label className="flex items-start gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={discoverable}
+              onChange={(e) => setDiscoverable(e.target.checked)}
+              className="mt-1 accent-primary"
+            />
+            <span>
+              Let anyone find me by name
+              <span className="block text-xs text-muted-foreground">
+                People you already play with can always find you. Your email is never shown in search.
+              </span>
+            </span>
+          </label>
+
+          {formError && (
+            <p className="text-sm text-destructive" role="alert">
+              {formError}
+            </p>
+          )}
+          {notice && !formError && <p className="text-sm text-neon-green">{notice}</p>}
+
+          <button
+            type="submit"
+            disabled={
+              saving ||
+              !displayName.trim() ||
+              (displayName.trim() === (player.display_name || "") && discoverable === player.discoverable)
+            }
+            className="w-full rounded-lg bg-primary py-2 font-bold text-primary-foreground transition-all hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </form>
+
+        <CareerStats stats={stats} />
+
+        {/* Account */}
+        <section className="space-y-3 rounded-lg border border-primary/30 bg-card/50 p-4 panel-blur">
+          <h2 className="text-xl font-bold text-foreground font-display">Account</h2>
+          <div className="flex flex-col gap-3 sm:flex-row">
+            <a
+              href="/api/account/export"
+              className="flex-1 rounded-lg border border-primary/30 py-2 text-center text-sm text-primary hover:bg-primary/10 transition-colors"
+            >
+              Download My Data
+            </a>
+            <Link
+              href="/profile/delete"
+              className="flex-1 rounded-lg border border-destructive/50 py-2 text-center text-sm text-destructive hover:bg-destructive/10 transition-colors"
+            >
+              Delete Account
+            </Link>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The download is a JSON file with your profile, memberships, completions and the
+            objectives of every Versus you created.
+          </p>
+        </section>
+      </main>
+    </div>
+  );
+}
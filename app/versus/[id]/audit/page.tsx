@@ -0,0 +1,281 @@
+"use client";
+
+/**
+ * Audit Log Page - Who Changed What
+ *
+ * Every player in a Versus can see the changes made to its settings,
+ * objectives and roster, and every deleted completion, with the values
+ * before and after.
+ *
+ * Route: /versus/[id]/audit
+ *
+ * Flow:
+ * 1. Load the Versus (for its name) and its audit log, newest first
+ * 2. Filter by who made the change, by kind of entity, and by a specific
+ *    objective/player/completion
+ */
+
+import { use, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Navigation } from "@/components/navigation";
+import { getVersusById } from "@/app/actions/versus";
+import { getVersusAuditLog } from "@/app/actions/audit";
+import {
+  AUDIT_ENTITY_LABELS,
+  describeAuditEntry,
+  formatAuditValue,
+  getAuditFieldLabel,
+  getAuditFields,
+} from "@/lib/audit";
+import type { AuditEntityType, AuditEntry } from "@/types/database";
+
+export default function AuditLogPage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: versusId } = use(params);
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [versusName, setVersusName] = useState("");
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+
+  // Filters ("" = all)
+  const [filterActorId, setFilterActorId] = useState("");
+  const [filterEntityType, setFilterEntityType] = useState<AuditEntityType | "">("");
+  const [filterEntityId, setFilterEntityId] = useState("");
+
+  // ============================================================================
+  // Load Data
+  // ============================================================================
+
+  useEffect(() => {
+    async function fetchData() {
+      const { data: versusData, error: versusError } = await getVersusById(versusId);
+
+      if (versusError || !versusData) {
+        setError(versusError?.message || "Versus not found");
+        setLoading(false);
+        return;
+      }
+
+      setVersusName(versusData.versus.name);
+
+      const { data: logData, error: logError } = await getVersusAuditLog(versusId);
+
+      if (logError || !logData) {
+        setError(logError?.message || "Failed to load the audit log");
+      } else {
+        setEntries(logData);
+      }
+
+      setLoading(false);
+    }
+
+    fetchData();
+  }, [versusId]);
+
+  // ============================================================================
+  // Filters
+  // ============================================================================
+
+  // Everyone who appears in the log (including players who have since left)
+  const actors = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const entry of entries) {
+      if (entry.actor_id) byId.set(entry.actor_id, entry.actor_name);
+    }
+    return Array.from(byId, ([id, name]) => ({ id, name }));
+  }, [entries]);
+
+  // Objectives / players / completions of the selected kind
+  const entities = useMemo(() => {
+    if (!filterEntityType || filterEntityType === "versus") return [];
+
+    const byId = new Map<string, string>();
+    for (const entry of entries) {
+      if (entry.entity_type === filterEntityType && entry.entity_id && !byId.has(entry.entity_id)) {
+        byId.set(entry.entity_id, entry.entity_label || "Unnamed");
+      }
+    }
+    return Array.from(byId, ([id, label]) => ({ id, label }));
+  }, [entries, filterEntityType]);
+
+  const filteredEntries = entries.filter(
+    (entry) =>
+      (!filterActorId || entry.actor_id === filterActorId) &&
+      (!filterEntityType || entry.entity_type === filterEntityType) &&
+      (!filterEntityId || entry.entity_id === filterEntityId)
+  );
+
+  const hasActiveFilters = Boolean(filterActorId || filterEntityType || filterEntityId);
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen flex-col">
+        <Navigation />
+        <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+          <p className="text-center text-muted-foreground">Loading...</p>
+        </main>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen flex-col">
+        <Navigation />
+        <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+          <div className="text-center py-12">
+            <h1 className="text-2xl font-bold text-destructive font-display mb-4">
+              Access Denied
+            </h1>
+            <p className="text-muted-foreground mb-6">{error}</p>
+            <Link
+              href={`/versus/${versusId}`}
+              className="rounded-lg bg-primary px-6 py-3 font-bold text-primary-foreground transition-all hover:bg-primary/90"
+            >
+              Back to Versus
+            </Link>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <Navigation />
+      <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+        <div className="mb-6">
+          <Link href={`/versus/${versusId}`} className="text-sm text-primary hover:underline">
+            ← {versusName}
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-primary neon-text font-display">
+            Change Log
+          </h1>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Every change to settings, objectives and players, and every deleted completion.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="mb-4 grid grid-cols-1 gap-3 rounded-lg border border-primary/20 bg-card/30 p-3 md:grid-cols-3">
+          <div>
+            <label htmlFor="filter-actor" className="block text-xs font-medium text-muted-foreground mb-1">
+              Changed by
+            </label>
+            <select
+              id="filter-actor"
+              value={filterActorId}
+              onChange={(e) => setFilterActorId(e.target.value)}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+            >
+              <option value="" className="bg-background">Anyone</option>
+              {actors.map((actor) => (
+                <option key={actor.id} value={actor.id} className="bg-background">
+                  {actor.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="filter-entity-type" className="block text-xs font-medium text-muted-foreground mb-1">
+              What
+            </label>
+            <select
+              id="filter-entity-type"
+              value={filterEntityType}
+              onChange={(e) => {
+                setFilterEntityType(e.target.value as AuditEntityType | "");
+                setFilterEntityId("");
+              }}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+            >
+              <option value="" className="bg-background">Everything</option>
+              {(Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map((type) => (
+                <option key={type} value={type} className="bg-background">
+                  {AUDIT_ENTITY_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="filter-entity" className="block text-xs font-medium text-muted-foreground mb-1">
+              Which
+            </label>
+            <select
+              id="filter-entity"
+              value={filterEntityId}
+              onChange={(e) => setFilterEntityId(e.target.value)}
+              disabled={entities.length === 0}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary disabled:opacity-50"
+            >
+              <option value="" className="bg-background">All</option>
+              {entities.map((entity) => (
+                <option key={entity.id} value={entity.id} className="bg-background">
+                  {entity.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="rounded-lg border border-primary/30 bg-card/50 p-4 panel-blur">
+          {filteredEntries.length > 0 ? (
+            <ul className="divide-y divide-primary/10">
+              {filteredEntries.map((entry) => {
+                const fields = getAuditFields(entry);
+
+                return (
+                  <li key={entry.id} className="py-3 first:pt-0 last:pb-0">
+                    <div className="flex items-baseline justify-between gap-3">
+                      <p className="text-sm font-medium text-foreground">
+                        {describeAuditEntry(entry)}
+                      </p>
+                      <span className="shrink-0 text-xs text-muted-foreground">
+                        {new Date(entry.created_at).toLocaleString()}
+                      </span>
+                    </div>
+                    {entry.reason && (
+                      <p className="mt-1 text-xs text-muted-foreground">Reason: {entry.reason}</p>
+                    )}
+                    {fields.length > 0 && (
+                      <dl className="mt-2 space-y-0.5 text-xs">
+                        {fields.map((field) => (
+                          <div key={field} className="flex flex-wrap gap-x-2">
+                            <dt className="text-muted-foreground">{getAuditFieldLabel(field)}:</dt>
+                            <dd className="text-foreground">
+                              {entry.action === "update" ? (
+                                <>
+                                  <span className="text-destructive line-through">
+                                    {formatAuditValue(entry.before?.[field])}
+                                  </span>
+                                  {" → "}
+                                  <span className="text-neon-green">
+                                    {formatAuditValue(entry.after?.[field])}
+                                  </span>
+                                </>
+                              ) : (
+                                formatAuditValue((entry.after ?? entry.before)?.[field])
+                              )}
+                            </dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-center text-muted-foreground py-8">
+              {hasActiveFilters ? "No changes match these filters" : "No changes yet"}
+            </p>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
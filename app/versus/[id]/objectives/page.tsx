@@ -5,7 +5,7 @@
  * 
  * This page allows commissioners to manage objectives after Versus creation:
  * - Add new objectives
- * - Edit existing objectives (title, points, description)
+ * - Edit existing objectives (title, points, description, limits)
  * - Delete objectives
  * 
  * Route: /versus/[id]/objectives
@@ -17,18 +17,58 @@
  * 4. On submit: Call updateVersusObjectives() to save changes
  * 5. Show success toast and redirect to versus detail page
  * 
- * Warning: Changing points will affect existing player scores (scores recalculate automatically)
+ * Past completions keep the points they were logged with. When an edit changes
+ * an objective's scoring, the commissioner can choose to re-score past
+ * completions retroactively after previewing how the standings would change.
  * 
  * See: docs/features/create-versus-wizard-tasks.md (T023)
  */
 
 import { use, useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
-import { VersusWizardStep3, type ObjectiveData, type ObjectiveSubmitData } from "@/components/versus-wizard-step3";
-import { getObjectivesByVersusId, updateObjective, createObjective, deleteObjective } from "@/app/actions/objectives";
+import {
+  VersusWizardStep3,
+  toObjectiveData,
+  type ObjectiveData,
+  type ObjectiveSubmitData,
+} from "@/components/versus-wizard-step3";
+import {
+  getObjectivesByVersusId,
+  updateObjective,
+  createObjective,
+  deleteObjective,
+  previewObjectiveRescore,
+} from "@/app/actions/objectives";
 import { getVersusById } from "@/app/actions/versus";
 import { Navigation } from "@/components/navigation";
 import Link from "next/link";
+import type { Objective, RescorePreviewEntry } from "@/types/database";
+
+/**
+ * How to apply a scoring change: only to future completions, or to past ones too
+ * (null = the commissioner cancelled the save)
+ */
+type RescoreChoice = "future" | "rescore" | null;
+
+interface RescorePrompt {
+  title: string;
+  completionCount: number;
+  changedCount: number;
+  entries: RescorePreviewEntry[];
+  resolve: (choice: RescoreChoice) => void;
+}
+
+/**
+ * Whether an edit changes how completions of an objective are scored
+ */
+function hasScoringChange(saved: Objective, edited: ObjectiveSubmitData): boolean {
+  return (
+    saved.points !== edited.points ||
+    saved.claim_mode !== edited.claim_mode ||
+    saved.points_per_unit !== edited.points_per_unit ||
+    JSON.stringify(saved.podium_points) !== JSON.stringify(edited.podium_points)
+  );
+}
 
 export default function EditObjectivesPage({ params }: { params: Promise<{ id: string }> }) {
   const { id: versusId } = use(params);
@@ -39,6 +79,8 @@ export default function EditObjectivesPage({ params }: { params: Promise<{ id: s
   const [error, setError] = useState<string | null>(null);
   const [isCommissioner, setIsCommissioner] = useState(false);
   const [initialObjectives, setInitialObjectives] = useState<ObjectiveData[]>([]);
+  const [savedObjectives, setSavedObjectives] = useState<Objective[]>([]);
+  const [rescorePrompt, setRescorePrompt] = useState<RescorePrompt | null>(null);
 
   // ============================================================================
   // Load Data
@@ -76,23 +118,10 @@ export default function EditObjectivesPage({ params }: { params: Promise<{ id: s
         }
 
         // Convert objectives to ObjectiveData format for the component
-        type ObjectiveFromDB = {
-          id: string;
-          title: string;
-          points: number;
-          description: string | null;
-        };
-        
-        const objectives: ObjectiveData[] = (objectivesData as ObjectiveFromDB[]).map((obj) => ({
-          id: obj.id,
-          title: obj.title,
-          points_type: obj.points >= 0 ? "positive" : "negative",
-          points: Math.abs(obj.points),
-          description: obj.description || "",
-          isEditing: false,
-        }));
+        const objectives: ObjectiveData[] = objectivesData.map(toObjectiveData);
 
         setInitialObjectives(objectives);
+        setSavedObjectives(objectivesData);
         setLoading(false);
       } catch (err) {
         console.error("Error loading data:", err);
@@ -108,43 +137,99 @@ export default function EditObjectivesPage({ params }: { params: Promise<{ id: s
   // Handlers
   // ============================================================================
 
+  /**
+   * Ask whether a scoring change should re-score past completions
+   * Resolves immediately with "future" if the objective has no completions yet
+   */
+  const askRescore = async (
+    objectiveId: string,
+    objective: ObjectiveSubmitData
+  ): Promise<RescoreChoice> => {
+    const { data: preview, error: previewError } = await previewObjectiveRescore(objectiveId, {
+      points: objective.points,
+      claim_mode: objective.claim_mode,
+      podium_points: objective.podium_points,
+      points_per_unit: objective.points_per_unit,
+    });
+
+    if (previewError || !preview) {
+      throw new Error(previewError?.message || "Failed to preview re-score");
+    }
+
+    if (preview.completionCount === 0) {
+      return "future";
+    }
+
+    return new Promise<RescoreChoice>((resolve) => {
+      setRescorePrompt({
+        title: objective.title,
+        completionCount: preview.completionCount,
+        changedCount: preview.changedCount,
+        entries: preview.entries,
+        resolve,
+      });
+    });
+  };
+
+  /**
+   * Close the re-score dialog with the commissioner's choice
+   */
+  const handleRescoreChoice = (choice: RescoreChoice) => {
+    rescorePrompt?.resolve(choice);
+    setRescorePrompt(null);
+  };
+
+  /**
+   * Refresh the objectives list after a save or delete
+   */
+  const refreshObjectives = async () => {
+    const { data: objectivesData } = await getObjectivesByVersusId(versusId);
+    if (objectivesData) {
+      const updated: ObjectiveData[] = objectivesData.map(toObjectiveData);
+      setInitialObjectives(updated);
+      setSavedObjectives(objectivesData);
+    }
+  };
+
   /**
    * Handle individual objective save (edit mode)
    * Called immediately when user clicks "Save Objective" on a card
    */
   const handleSaveObjective = async (objective: ObjectiveSubmitData & { id?: string }) => {
     if (objective.id) {
+      // Scoring changes only apply to future completions unless the commissioner opts in
+      const saved = savedObjectives.find((o) => o.id === objective.id);
+      let rescore = false;
+
+      if (saved && hasScoringChange(saved, objective)) {
+        const choice = await askRescore(objective.id, objective);
+        if (choice === null) {
+          throw new Error("Save cancelled - your changes haven't been saved yet");
+        }
+        rescore = choice === "rescore";
+      }
+
       // Update existing objective
       const result = await updateObjective(objective.id, {
         title: objective.title,
         points: objective.points,
         description: objective.description,
-      });
+        max_per_player: objective.max_per_player,
+        max_per_period: objective.max_per_period,
+        limit_period: objective.limit_period,
+        cooldown_minutes: objective.cooldown_minutes,
+        claim_mode: objective.claim_mode,
+        podium_points: objective.podium_points,
+        unit: objective.unit,
+        points_per_unit: objective.points_per_unit,
+        requires_proof: objective.requires_proof,
+      }, { rescore });
 
       if (result.error) {
         throw new Error(result.error.message);
       }
 
-      // Refresh objectives list
-      const { data: objectivesData } = await getObjectivesByVersusId(versusId);
-      if (objectivesData) {
-        type ObjectiveFromDB = {
-          id: string;
-          title: string;
-          points: number;
-          description: string | null;
-        };
-        
-        const updated: ObjectiveData[] = (objectivesData as ObjectiveFromDB[]).map((obj) => ({
-          id: obj.id,
-          title: obj.title,
-          points_type: obj.points >= 0 ? "positive" : "negative",
-          points: Math.abs(obj.points),
-          description: obj.description || "",
-          isEditing: false,
-        }));
-        setInitialObjectives(updated);
-      }
+      await refreshObjectives();
     } else {
       // Create new objective
       const result = await createObjective({
@@ -152,32 +237,22 @@ export default function EditObjectivesPage({ params }: { params: Promise<{ id: s
         title: objective.title,
         points: objective.points,
         description: objective.description,
+        max_per_player: objective.max_per_player,
+        max_per_period: objective.max_per_period,
+        limit_period: objective.limit_period,
+        cooldown_minutes: objective.cooldown_minutes,
+        claim_mode: objective.claim_mode,
+        podium_points: objective.podium_points,
+        unit: objective.unit,
+        points_per_unit: objective.points_per_unit,
+        requires_proof: objective.requires_proof,
       });
 
       if (result.error) {
         throw new Error(result.error.message);
       }
 
-      // Refresh objectives list
-      const { data: objectivesData } = await getObjectivesByVersusId(versusId);
-      if (objectivesData) {
-        type ObjectiveFromDB = {
-          id: string;
-          title: string;
-          points: number;
-          description: string | null;
-        };
-        
-        const updated: ObjectiveData[] = (objectivesData as ObjectiveFromDB[]).map((obj) => ({
-          id: obj.id,
-          title: obj.title,
-          points_type: obj.points >= 0 ? "positive" : "negative",
-          points: Math.abs(obj.points),
-          description: obj.description || "",
-          isEditing: false,
-        }));
-        setInitialObjectives(updated);
-      }
+      await refreshObjectives();
     }
   };
 
@@ -192,26 +267,7 @@ export default function EditObjectivesPage({ params }: { params: Promise<{ id: s
       throw new Error(result.error.message);
     }
 
-    // Refresh objectives list
-    const { data: objectivesData } = await getObjectivesByVersusId(versusId);
-    if (objectivesData) {
-      type ObjectiveFromDB = {
-        id: string;
-        title: string;
-        points: number;
-        description: string | null;
-      };
-      
-      const updated: ObjectiveData[] = (objectivesData as ObjectiveFromDB[]).map((obj) => ({
-        id: obj.id,
-        title: obj.title,
-        points_type: obj.points >= 0 ? "positive" : "negative",
-        points: Math.abs(obj.points),
-        description: obj.description || "",
-        isEditing: false,
-      }));
-      setInitialObjectives(updated);
-    }
+    await refreshObjectives();
   };
 
   /**
@@ -346,6 +402,81 @@ export default function EditObjectivesPage({ params }: { params: Promise<{ id: s
           onDeleteObjective={handleDeleteObjective}
         />
 
+        {/* Re-score dialog */}
+        {rescorePrompt && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+            <div className="mx-4 w-full max-w-lg rounded-lg border border-primary/30 bg-card p-6 shadow-lg">
+              <h2 className="text-lg font-bold text-foreground font-display">
+                Scoring changed for &ldquo;{rescorePrompt.title}&rdquo;
+              </h2>
+              <p className="mt-2 text-sm text-muted-foreground">
+                {rescorePrompt.completionCount} past{" "}
+                {rescorePrompt.completionCount === 1 ? "completion was" : "completions were"} logged
+                under the old scoring. Re-scoring would change {rescorePrompt.changedCount} of them.
+              </p>
+
+              {/* Standings preview */}
+              <div className="mt-4 max-h-64 overflow-y-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-primary/20">
+                      <th className="pb-2 text-left font-bold text-muted-foreground font-display">Player</th>
+                      <th className="pb-2 text-right font-bold text-muted-foreground font-display">Score</th>
+                      <th className="pb-2 text-right font-bold text-muted-foreground font-display">Rank</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rescorePrompt.entries.map((entry) => {
+                      const changed =
+                        entry.score_before !== entry.score_after || entry.rank_before !== entry.rank_after;
+
+                      return (
+                        <tr
+                          key={entry.player_id}
+                          className={`border-b border-primary/10 last:border-0 ${changed ? "text-foreground" : "text-muted-foreground"}`}
+                        >
+                          <td className="py-2 text-left">{entry.player_name}</td>
+                          <td className="py-2 text-right font-score">
+                            {entry.score_before === entry.score_after
+                              ? entry.score_after
+                              : `${entry.score_before} → ${entry.score_after}`}
+                          </td>
+                          <td className="py-2 text-right font-score">
+                            {entry.rank_before === entry.rank_after
+                              ? entry.rank_after
+                              : `${entry.rank_before} → ${entry.rank_after}`}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="mt-6 flex flex-col gap-2">
+                <button
+                  onClick={() => handleRescoreChoice("future")}
+                  className="w-full rounded-lg bg-primary py-2 font-bold text-primary-foreground transition-all hover:bg-primary/90"
+                >
+                  Keep past points (future completions only)
+                </button>
+                <button
+                  onClick={() => handleRescoreChoice("rescore")}
+                  className="w-full rounded-lg border border-primary/30 py-2 text-foreground hover:bg-card/50 transition-colors"
+                >
+                  Retroactively re-score past completions
+                </button>
+                <button
+                  onClick={() => handleRescoreChoice(null)}
+                  className="w-full py-2 text-sm text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Saving overlay */}
         {saving && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
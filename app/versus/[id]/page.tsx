@@ -1,37 +1,93 @@
 "use client";
 
 import { use, useState, useEffect } from "react";
+import Link from "next/link";
 import { Navigation } from "@/components/navigation";
+import { ObjectiveCheckIn } from "@/components/objective-check-in";
+import { HistoryTable } from "@/components/history-table";
+import { LeaveVersusDialog } from "@/components/leave-versus-dialog";
+import { CloneVersusDialog } from "@/components/clone-versus-dialog";
+import { SaveTemplateDialog } from "@/components/save-template-dialog";
 import { getScoreColor, getRankColor } from "@/lib/color-utils";
+import { isWithinUndoWindow } from "@/lib/completion-utils";
+import { getSeasonLabel, getSeasonStatus } from "@/lib/season-utils";
+import { formatRoundLabel } from "@/lib/round-utils";
+import { rankTeams } from "@/lib/team-utils";
+import { canVoteOnDispute } from "@/lib/dispute-utils";
 import { ChevronDown, ChevronUp, Menu } from "lucide-react";
-import { getVersusById, getPlayerHistoryInVersus } from "@/app/actions/versus";
-import type { HistoryEntry } from "@/types/database";
+import { getVersusById, getPlayerHistoryInVersus, getRoundScoreboard } from "@/app/actions/versus";
+import { getObjectivesWithStatus } from "@/app/actions/objectives";
+import { deleteCompletion } from "@/app/actions/completions";
+import { castDisputeVote, openDispute } from "@/app/actions/disputes";
+import type { DisputeVoteChoice, HistoryEntry, ObjectiveWithStatus } from "@/types/database";
 
 export default function VersusPage({ params }: { params: Promise<{ id: string }> }) {
   const { id } = use(params);
   const [scoreboardOpen, setScoreboardOpen] = useState(true);
   const [historyOpen, setHistoryOpen] = useState(true);
+  const [teamScoreboardOpen, setTeamScoreboardOpen] = useState(true);
   const [selectedPlayer, setSelectedPlayer] = useState<string | null>(null);
   const [selectedPlayerHistory, setSelectedPlayerHistory] = useState<HistoryEntry[]>([]);
   const [versusData, setVersusData] = useState<Awaited<ReturnType<typeof getVersusById>>["data"] | null>(null);
+  const [objectives, setObjectives] = useState<ObjectiveWithStatus[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Menu and history filter state
+  const [menuOpen, setMenuOpen] = useState(false);
+  const [leaveOpen, setLeaveOpen] = useState(false);
+  const [cloneOpen, setCloneOpen] = useState(false);
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
+  const [filtersOpen, setFiltersOpen] = useState(false);
+  const [filterObjectiveId, setFilterObjectiveId] = useState("");
+  const [filterFrom, setFilterFrom] = useState("");
+  const [filterTo, setFilterTo] = useState("");
+
+  // Round scoreboard state - null = current round, "all" = all time
+  const [selectedRound, setSelectedRound] = useState<string | null>(null);
+  const [roundData, setRoundData] = useState<Awaited<ReturnType<typeof getRoundScoreboard>>["data"] | null>(null);
+
+  // Undo / removal state
+  const [now, setNow] = useState(() => Date.now());
+  const [removeTarget, setRemoveTarget] = useState<HistoryEntry | null>(null);
+  const [removeReason, setRemoveReason] = useState("");
+  const [isRemoving, setIsRemoving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Dispute state - open a dispute, or vote on one
+  const [disputeTarget, setDisputeTarget] = useState<HistoryEntry | null>(null);
+  const [disputeReason, setDisputeReason] = useState("");
+  const [voteTarget, setVoteTarget] = useState<{ entry: HistoryEntry; vote: DisputeVoteChoice } | null>(null);
+  const [voteComment, setVoteComment] = useState("");
+  const [isSubmittingDispute, setIsSubmittingDispute] = useState(false);
+
+  // Bumped after logging or removing a completion to reload scores and the scoreboard
+  const [refreshKey, setRefreshKey] = useState(0);
+  const refresh = () => setRefreshKey((key) => key + 1);
+
+  // Load versus details and objective status
   useEffect(() => {
     async function fetchData() {
-      const { data, error } = await getVersusById(id);
-      
+      const [{ data, error }, { data: objectivesData }] = await Promise.all([
+        getVersusById(id),
+        getObjectivesWithStatus(id),
+      ]);
+
       if (error) {
         setError(error.message);
       } else if (data) {
         setVersusData(data);
       }
-      
+
+      if (objectivesData) {
+        setObjectives(objectivesData);
+      }
+
       setLoading(false);
     }
-    
+
     fetchData();
-  }, [id]);
+  }, [id, refreshKey]);
 
   useEffect(() => {
     async function fetchPlayerHistory() {
@@ -54,6 +110,206 @@ export default function VersusPage({ params }: { params: Promise<{ id: string }>
     fetchPlayerHistory();
   }, [selectedPlayer, id, versusData]);
 
+  // Load the round scoreboard for versus with recurring rounds
+  // Re-runs whenever versusData refreshes (e.g. after logging a completion)
+  useEffect(() => {
+    async function fetchRoundScoreboard() {
+      if (!versusData || versusData.versus.round_period === "none" || selectedRound === "all") {
+        return;
+      }
+
+      const { data, error } = await getRoundScoreboard(id, selectedRound);
+
+      if (data && !error) {
+        setRoundData(data);
+      }
+    }
+
+    fetchRoundScoreboard();
+  }, [id, selectedRound, versusData]);
+
+  // Tick every 30 seconds so Undo buttons disappear when the grace period ends
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // ============================================================================
+  // Undo / Remove Handlers
+  // ============================================================================
+
+  /**
+   * Undo one of your own completions (within the undo window)
+   */
+  const handleUndo = async (entry: HistoryEntry) => {
+    setActionError(null);
+
+    const { error } = await deleteCompletion(entry.id);
+
+    if (error) {
+      setActionError(error.message);
+      return;
+    }
+
+    refresh();
+  };
+
+  /**
+   * Remove a completion as a commissioner (reason required)
+   */
+  const handleConfirmRemove = async () => {
+    if (!removeTarget) return;
+
+    setIsRemoving(true);
+    setActionError(null);
+
+    const { error } = await deleteCompletion(removeTarget.id, removeReason);
+
+    setIsRemoving(false);
+
+    if (error) {
+      setActionError(error.message);
+      return;
+    }
+
+    setRemoveTarget(null);
+    setRemoveReason("");
+    refresh();
+  };
+
+  // ============================================================================
+  // Dispute Handlers
+  // ============================================================================
+
+  /**
+   * Dispute another player's completion (reason required)
+   */
+  const handleConfirmDispute = async () => {
+    if (!disputeTarget) return;
+
+    setIsSubmittingDispute(true);
+    setActionError(null);
+
+    const { error } = await openDispute(disputeTarget.id, disputeReason);
+
+    setIsSubmittingDispute(false);
+
+    if (error) {
+      setActionError(error.message);
+      return;
+    }
+
+    setDisputeTarget(null);
+    setDisputeReason("");
+    refresh();
+  };
+
+  /**
+   * Vote to keep or void a disputed completion
+   */
+  const handleConfirmVote = async () => {
+    if (!voteTarget?.entry.dispute) return;
+
+    setIsSubmittingDispute(true);
+    setActionError(null);
+
+    const { error } = await castDisputeVote(voteTarget.entry.dispute.id, voteTarget.vote, voteComment);
+
+    setIsSubmittingDispute(false);
+
+    if (error) {
+      setActionError(error.message);
+      return;
+    }
+
+    setVoteTarget(null);
+    setVoteComment("");
+    refresh();
+  };
+
+  /**
+   * Row actions for a history entry
+   * - Undo: your own entry, still within the undo window
+   * - Remove: commissioners, for everything else
+   * - Dispute: players (not viewers), on another player's approved entry
+   * - Keep / Void: players who haven't voted on an open dispute
+   */
+  const renderHistoryActions = (entry: HistoryEntry) => {
+    if (!versusData) return null;
+
+    const isOwnEntry = entry.player_id === versusData.currentPlayerId;
+    const canUndo =
+      (isOwnEntry || entry.logged_by === versusData.currentPlayerId) &&
+      isWithinUndoWindow(entry.logged_at, versusData.versus.undo_grace_minutes, now);
+    const canDispute =
+      !versusData.isViewer &&
+      !isOwnEntry &&
+      entry.status === "approved" &&
+      !entry.dispute &&
+      !versusData.versus.finalized_at;
+    const canVote =
+      !versusData.isViewer &&
+      entry.dispute &&
+      canVoteOnDispute(entry.dispute, versusData.currentPlayerId, now);
+
+    if (!canUndo && !versusData.isCommissioner && !canDispute && !canVote) {
+      return null;
+    }
+
+    return (
+      <>
+        {canUndo ? (
+          <button
+            onClick={() => handleUndo(entry)}
+            className="text-xs text-primary underline decoration-primary/50 hover:decoration-primary transition-colors"
+          >
+            Undo
+          </button>
+        ) : versusData.isCommissioner && (
+          <button
+            onClick={() => {
+              setActionError(null);
+              setRemoveReason("");
+              setRemoveTarget(entry);
+            }}
+            className="text-xs text-destructive underline decoration-destructive/50 hover:decoration-destructive transition-colors"
+          >
+            Remove
+          </button>
+        )}
+        {canDispute && (
+          <button
+            onClick={() => {
+              setActionError(null);
+              setDisputeReason("");
+              setDisputeTarget(entry);
+            }}
+            className="text-xs text-neon-orange underline decoration-neon-orange/50 hover:decoration-neon-orange transition-colors"
+          >
+            Dispute
+          </button>
+        )}
+        {canVote && (["keep", "void"] as const).map((vote) => (
+          <button
+            key={vote}
+            onClick={() => {
+              setActionError(null);
+              setVoteComment("");
+              setVoteTarget({ entry, vote });
+            }}
+            className={`text-xs underline transition-colors ${
+              vote === "keep"
+                ? "text-neon-green decoration-neon-green/50 hover:decoration-neon-green"
+                : "text-destructive decoration-destructive/50 hover:decoration-destructive"
+            }`}
+          >
+            {vote === "keep" ? "Vote Keep" : "Vote Void"}
+          </button>
+        ))}
+      </>
+    );
+  };
+
   if (loading) {
     return (
       <div className="flex min-h-screen flex-col">
@@ -81,6 +337,55 @@ export default function VersusPage({ params }: { params: Promise<{ id: string }>
   const scoreColor = getScoreColor(versusData.currentPlayerScore);
   const rankColor = getRankColor(versusData.currentPlayerRank, versusData.totalPlayers);
 
+  // Season window (optional) - completions are only accepted while active
+  const seasonStatus = getSeasonStatus(versusData.versus.starts_at, versusData.versus.ends_at, now);
+  const seasonLabel = getSeasonLabel(versusData.versus.starts_at, versusData.versus.ends_at, now);
+  const winner = versusData.scoreboard.find((p) => p.id === versusData.versus.winner_id);
+  // Recurring rounds - the scoreboard shows the selected round unless "All time" is picked
+  const roundPeriod = versusData.versus.round_period;
+  const roundsEnabled = roundPeriod !== "none";
+  const showRoundScoreboard = roundsEnabled && selectedRound !== "all" && roundData !== null;
+  const scoreboard = showRoundScoreboard ? roundData.scoreboard : versusData.scoreboard;
+  const roundWinsByPlayer = new Map(
+    versusData.scoreboard.map((p) => [p.id, p.round_wins || 0])
+  );
+  const selectedPlayerId =
+    versusData.scoreboard.find((p) => p.display_name === selectedPlayer)?.id || null;
+
+  // Team mode - teams follow whichever standings the scoreboard is showing
+  const teamByPlayer = new Map(versusData.scoreboard.map((p) => [p.id, p.team_id ?? null]));
+  const teamScoreboard = rankTeams(
+    versusData.teams,
+    scoreboard.map((p) => ({ score: p.score, team_id: teamByPlayer.get(p.id) ?? null })),
+    versusData.versus.team_scoring,
+    versusData.versus.reverse_ranking
+  );
+  const currentTeamId = teamByPlayer.get(versusData.currentPlayerId) ?? null;
+
+  const checkInClosedMessage =
+    seasonStatus === "upcoming"
+      ? "This Versus hasn't started yet"
+      : seasonStatus === "ended"
+        ? "This Versus has ended"
+        : null;
+
+  // Apply history filters (objective and date range, inclusive of whole days)
+  const hasActiveFilters = !!(filterObjectiveId || filterFrom || filterTo);
+  const filteredHistory = versusData.history.filter((entry) => {
+    const completedTime = new Date(entry.completed_at).getTime();
+
+    if (filterObjectiveId && entry.objective_id !== filterObjectiveId) return false;
+    if (filterFrom && completedTime < new Date(`${filterFrom}T00:00:00`).getTime()) return false;
+    if (filterTo && completedTime > new Date(`${filterTo}T23:59:59.999`).getTime()) return false;
+    return true;
+  });
+
+  const clearFilters = () => {
+    setFilterObjectiveId("");
+    setFilterFrom("");
+    setFilterTo("");
+  };
+
   return (
     <div className="flex min-h-screen flex-col">
       <Navigation />
@@ -90,66 +395,193 @@ export default function VersusPage({ params }: { params: Promise<{ id: string }>
         <div className="flex flex-col gap-4 p-4">
           {/* Versus Header with name and menu */}
           <div className="flex items-center justify-between">
-            <h1 className="text-2xl font-bold text-foreground font-display">
-              {versusData.versus.name}
-            </h1>
-            <button 
-              className="rounded-lg p-2 transition-colors hover:bg-muted"
-              aria-label="Menu"
-            >
-              <Menu className="h-6 w-6 text-primary" />
-            </button>
-          </div>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground font-display">
+                {versusData.versus.name}
+              </h1>
+              {seasonLabel && (
+                <p className="text-sm text-muted-foreground">
+                  {seasonLabel}
+                </p>
+              )}
+              {versusData.versus.status !== "active" && (
+                <p className="text-sm text-neon-green">
+                  {versusData.versus.status === "archived" ? "Archived" : "Finished"}
+                  {winner && ` · Won by ${winner.display_name || winner.email.split("@")[0]}`}
+                </p>
+              )}
+            </div>
+            <div className="relative">
+              <button 
+                onClick={() => setMenuOpen(!menuOpen)}
+                className="rounded-lg p-2 transition-colors hover:bg-muted"
+                aria-label="Menu"
+                aria-expanded={menuOpen}
+              >
+                <Menu className="h-6 w-6 text-primary" />
+              </button>
 
-          {/* YOU label */}
-          <div className="text-center">
-            <span className="text-lg font-bold text-muted-foreground font-display">
-              YOU
-            </span>
+              {/* Dropdown Menu */}
+              {menuOpen && (
+                <>
+                  {/* Backdrop to close menu */}
+                  <div
+                    className="fixed inset-0 z-40"
+                    onClick={() => setMenuOpen(false)}
+                  />
+
+                  <div className="absolute right-0 z-50 mt-2 w-48 rounded-lg border border-primary/30 bg-background shadow-lg">
+                    <button
+                      onClick={() => {
+                        setFiltersOpen(!filtersOpen);
+                        setHistoryOpen(true);
+                        setMenuOpen(false);
+                      }}
+                      className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors first:rounded-t-lg"
+                    >
+                      {filtersOpen ? "Hide History Filters" : "Filter History"}
+                    </button>
+                    <button
+                      onClick={() => {
+                        clearFilters();
+                        setMenuOpen(false);
+                      }}
+                      disabled={!hasActiveFilters}
+                      className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors disabled:opacity-50"
+                    >
+                      Clear Filters
+                    </button>
+                    <Link
+                      href={`/versus/${id}/audit`}
+                      className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors"
+                    >
+                      Change Log
+                    </Link>
+                    <button
+                      onClick={() => {
+                        setCloneOpen(true);
+                        setMenuOpen(false);
+                      }}
+                      className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors"
+                    >
+                      Clone Versus
+                    </button>
+                    <button
+                      onClick={() => {
+                        setSaveTemplateOpen(true);
+                        setMenuOpen(false);
+                      }}
+                      className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors"
+                    >
+                      Save as Template
+                    </button>
+                    <button
+                      onClick={() => {
+                        setLeaveOpen(true);
+                        setMenuOpen(false);
+                      }}
+                      className="w-full text-left block px-4 py-2 text-sm text-destructive hover:bg-muted/50 transition-colors last:rounded-b-lg"
+                    >
+                      Leave Versus
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
           </div>
 
-          {/* Score and Rank Cards */}
-          <div className="grid grid-cols-2 gap-4">
-            {/* Points Card */}
-            <div 
-              className="relative overflow-hidden rounded-lg border bg-card/50 p-6 panel-blur"
-              style={{ borderColor: `${scoreColor}33` }}
-            >
-              <div className="absolute inset-0 bg-gradient-to-br from-primary/5 via-secondary/5 to-accent/5" />
+          {versusData.isViewer ? (
+            /* Viewers watch the scoreboard without playing */
+            <div className="rounded-lg border border-primary/30 bg-card/50 p-4 text-center panel-blur">
+              <p className="text-lg font-bold text-foreground font-display">You&apos;re watching</p>
+              <p className="mt-1 text-sm text-muted-foreground">
+                Viewers can follow the scoreboard but don&apos;t log completions or vote on disputes.
+              </p>
+            </div>
+          ) : (
+            <>
+            {/* YOU label */}
+            <div className="text-center">
+              <span className="text-lg font-bold text-muted-foreground font-display">
+                YOU
+              </span>
+            </div>
+
+            {/* Score and Rank Cards */}
+            <div className="grid grid-cols-2 gap-4">
+              {/* Points Card */}
+              <div 
+                className="relative overflow-hidden rounded-lg border bg-card/50 p-6 panel-blur"
+                style={{ borderColor: `${scoreColor}33` }}
+              >
+                <div className="absolute inset-0 bg-gradient-to-br from-primary/5 via-secondary/5 to-accent/5" />
               
-              <div className="relative flex flex-col items-center justify-center gap-2">
-                <span 
-                  className="text-6xl font-normal font-score leading-none neon-text"
-                  style={{ color: scoreColor }}
-                >
-                  {versusData.currentPlayerScore}
-                </span>
-                <span className="text-sm font-bold text-muted-foreground font-display">
-                  Points
-                </span>
+                <div className="relative flex flex-col items-center justify-center gap-2">
+                  <span 
+                    className="text-6xl font-normal font-score leading-none neon-text"
+                    style={{ color: scoreColor }}
+                  >
+                    {versusData.currentPlayerScore}
+                  </span>
+                  <span className="text-sm font-bold text-muted-foreground font-display">
+                    Points
+                  </span>
+                </div>
               </div>
-            </div>
 
-            {/* Rank Card */}
-            <div 
-              className="relative overflow-hidden rounded-lg border bg-card/50 p-6 panel-blur"
-              style={{ borderColor: `${rankColor}33` }}
-            >
-              <div className="absolute inset-0 bg-gradient-to-br from-primary/5 via-secondary/5 to-accent/5" />
+              {/* Rank Card */}
+              <div 
+                className="relative overflow-hidden rounded-lg border bg-card/50 p-6 panel-blur"
+                style={{ borderColor: `${rankColor}33` }}
+              >
+                <div className="absolute inset-0 bg-gradient-to-br from-primary/5 via-secondary/5 to-accent/5" />
               
-              <div className="relative flex flex-col items-center justify-center gap-2">
-                <span 
-                  className="text-6xl font-normal font-score leading-none neon-text"
-                  style={{ color: rankColor }}
-                >
-                  {versusData.currentPlayerRank}
-                </span>
-                <span className="text-sm font-bold text-muted-foreground font-display">
-                  of {versusData.totalPlayers}
-                </span>
+                <div className="relative flex flex-col items-center justify-center gap-2">
+                  <span 
+                    className="text-6xl font-normal font-score leading-none neon-text"
+                    style={{ color: rankColor }}
+                  >
+                    {versusData.currentPlayerRank}
+                  </span>
+                  <span className="text-sm font-bold text-muted-foreground font-display">
+                    of {versusData.totalPlayers}
+                  </span>
+                </div>
               </div>
             </div>
-          </div>
+            </>
+          )}
+
+          {/* Review queue banner (commissioners) */}
+          {versusData.isCommissioner && versusData.pendingCount > 0 && (
+            <Link
+              href={`/versus/${id}/review`}
+              className="flex items-center justify-between rounded-lg border border-neon-orange/40 bg-neon-orange/10 px-4 py-3 text-sm text-foreground transition-colors hover:bg-neon-orange/20"
+            >
+              <span>
+                {versusData.pendingCount} {versusData.pendingCount === 1 ? "completion is" : "completions are"} waiting for review
+              </span>
+              <span className="font-bold text-neon-orange">Review</span>
+            </Link>
+          )}
+
+          {/* Log it - Objective Check-In (not for viewers) */}
+          {!versusData.isViewer && (
+            <ObjectiveCheckIn
+              versusId={id}
+              playerId={versusData.currentPlayerId}
+              objectives={objectives}
+              closedMessage={checkInClosedMessage}
+              maxBackfillHours={versusData.versus.max_backfill_hours}
+              seasonStartsAt={versusData.versus.starts_at}
+              isCommissioner={versusData.isCommissioner}
+              players={versusData.scoreboard.map((p) => ({
+                id: p.id,
+                name: p.display_name || p.email.split("@")[0],
+              }))}
+              onLogged={refresh}
+            />
+          )}
 
           {/* Scoreboard Section */}
           <div className="overflow-hidden rounded-lg border border-primary/30 bg-card/50 panel-blur">
@@ -158,7 +590,7 @@ export default function VersusPage({ params }: { params: Promise<{ id: string }>
               className="flex w-full items-center justify-between p-4 transition-colors hover:bg-muted/20"
             >
               <h2 className="text-xl font-bold text-foreground font-display">
-                Scoreboard
+                {versusData.versus.finalized_at && !showRoundScoreboard ? "Final Standings" : "Scoreboard"}
               </h2>
               <div className="rounded-full bg-muted p-1.5">
                 {scoreboardOpen ? (
@@ -171,12 +603,44 @@ export default function VersusPage({ params }: { params: Promise<{ id: string }>
 
             {scoreboardOpen && (
               <div className="border-t border-primary/30 p-4">
+                {/* Round selector */}
+                {roundsEnabled && roundData && (
+                  <select
+                    value={selectedRound ?? "current"}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      setSelectedRound(value === "current" ? null : value);
+                    }}
+                    aria-label="Scoreboard round"
+                    className="mb-4 w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                  >
+                    <option value="current" className="bg-background">
+                      This round ({formatRoundLabel(roundPeriod, roundData.currentRound)})
+                    </option>
+                    {roundData.rounds
+                      .filter((round) => round !== roundData.currentRound)
+                      .map((round) => (
+                        <option key={round} value={round} className="bg-background">
+                          {formatRoundLabel(roundPeriod, round)}
+                        </option>
+                      ))}
+                    <option value="all" className="bg-background">
+                      All time
+                    </option>
+                  </select>
+                )}
+
                 <table className="w-full">
                   <thead>
                     <tr className="border-b border-primary/20">
                       <th className="pb-2 text-left text-sm font-bold text-muted-foreground font-display">
                         Player
                       </th>
+                      {roundsEnabled && (
+                        <th className="pb-2 text-right text-sm font-bold text-muted-foreground font-display">
+                          Wins
+                        </th>
+                      )}
                       <th className="pb-2 text-right text-sm font-bold text-muted-foreground font-display">
                         Score
                       </th>
@@ -186,13 +650,11 @@ export default function VersusPage({ params }: { params: Promise<{ id: string }>
                     </tr>
                   </thead>
                   <tbody>
-                    {versusData.scoreboard.map((player, index: number) => {
+                    {scoreboard.map((player) => {
                       const playerScoreColor = getScoreColor(player.score);
                       const playerRankColor = getRankColor(player.rank, versusData.totalPlayers);
                       const playerName = player.display_name || player.email.split('@')[0];
-                      const isCurrentUser = index === versusData.scoreboard.findIndex((p) => 
-                        p.rank === versusData.currentPlayerRank && p.score === versusData.currentPlayerScore
-                      );
+                      const isCurrentUser = player.id === versusData.currentPlayerId;
                       const isClickable = !isCurrentUser;
                       
                       return (
@@ -214,6 +676,11 @@ export default function VersusPage({ params }: { params: Promise<{ id: string }>
                               <span className="font-bold">You</span>
                             )}
                           </td>
+                          {roundsEnabled && (
+                            <td className="py-3 text-right text-lg font-normal font-score text-muted-foreground">
+                              {roundWinsByPlayer.get(player.id) || 0}
+                            </td>
+                          )}
                           <td 
                             className="py-3 text-right text-2xl font-normal font-score neon-text"
                             style={{ color: playerScoreColor }}
@@ -235,6 +702,84 @@ export default function VersusPage({ params }: { params: Promise<{ id: string }>
             )}
           </div>
 
+          {/* Team Scoreboard Section */}
+          {teamScoreboard.length > 0 && (
+            <div className="overflow-hidden rounded-lg border border-primary/30 bg-card/50 panel-blur">
+              <button
+                onClick={() => setTeamScoreboardOpen(!teamScoreboardOpen)}
+                className="flex w-full items-center justify-between p-4 transition-colors hover:bg-muted/20"
+              >
+                <h2 className="text-xl font-bold text-foreground font-display">
+                  Teams
+                </h2>
+                <div className="rounded-full bg-muted p-1.5">
+                  {teamScoreboardOpen ? (
+                    <ChevronUp className="h-4 w-4 text-primary" />
+                  ) : (
+                    <ChevronDown className="h-4 w-4 text-primary" />
+                  )}
+                </div>
+              </button>
+
+              {teamScoreboardOpen && (
+                <div className="border-t border-primary/30 p-4">
+                  <p className="mb-3 text-xs text-muted-foreground">
+                    {versusData.versus.team_scoring === "average" ? "Average" : "Total"} of member scores
+                    {showRoundScoreboard && roundData && ` · ${formatRoundLabel(roundPeriod, roundData.roundStart)}`}
+                  </p>
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b border-primary/20">
+                        <th className="pb-2 text-left text-sm font-bold text-muted-foreground font-display">
+                          Team
+                        </th>
+                        <th className="pb-2 text-right text-sm font-bold text-muted-foreground font-display">
+                          Score
+                        </th>
+                        <th className="pb-2 text-right text-sm font-bold text-muted-foreground font-display">
+                          Rank
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {teamScoreboard.map((team) => {
+                        const isCurrentTeam = team.id === currentTeamId;
+
+                        return (
+                          <tr
+                            key={team.id}
+                            className={`border-b border-primary/10 last:border-0 ${
+                              isCurrentTeam ? 'bg-primary/10' : ''
+                            }`}
+                          >
+                            <td className="py-3 text-left font-medium text-foreground">
+                              <span className={isCurrentTeam ? "font-bold" : ""}>{team.name}</span>
+                              <span className="ml-2 text-xs text-muted-foreground">
+                                {team.member_count} {team.member_count === 1 ? "player" : "players"}
+                              </span>
+                            </td>
+                            <td
+                              className="py-3 text-right text-2xl font-normal font-score neon-text"
+                              style={{ color: getScoreColor(team.score) }}
+                            >
+                              {team.score}
+                            </td>
+                            <td
+                              className="py-3 text-right text-2xl font-normal font-score neon-text"
+                              style={{ color: getRankColor(team.rank, teamScoreboard.length) }}
+                            >
+                              {team.rank}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* History Section */}
           <div className="overflow-hidden rounded-lg border border-primary/30 bg-card/50 panel-blur">
             <button
@@ -254,54 +799,71 @@ export default function VersusPage({ params }: { params: Promise<{ id: string }>
             </button>
 
             {historyOpen && (
-              <div className="border-t border-primary/30 p-4">
-                <table className="w-full">
-                  <thead>
-                    <tr className="border-b border-primary/20">
-                      <th className="pb-2 text-left text-sm font-bold text-muted-foreground font-display">
-                        Date
-                      </th>
-                      <th className="pb-2 text-left text-sm font-bold text-muted-foreground font-display">
+              <div className="border-t border-primary/30 p-4 space-y-4">
+                {/* History Filters */}
+                {filtersOpen && (
+                  <div className="grid grid-cols-1 gap-3 rounded-lg border border-primary/20 bg-card/30 p-3 md:grid-cols-3">
+                    <div>
+                      <label htmlFor="filter-objective" className="block text-xs font-medium text-muted-foreground mb-1">
                         Objective
-                      </th>
-                      <th className="pb-2 text-right text-sm font-bold text-muted-foreground font-display">
-                        Points
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {versusData.history.map((entry: HistoryEntry) => {
-                      const pointsColor = getScoreColor(entry.points);
-                      
-                      return (
-                        <tr 
-                          key={entry.id} 
-                          className="border-b border-primary/10 last:border-0"
-                        >
-                          <td className="py-3">
-                            <div className="flex flex-col">
-                              <span className="text-sm font-medium text-foreground">
-                                {entry.date}
-                              </span>
-                              <span className="text-xs text-muted-foreground">
-                                {entry.time}
-                              </span>
-                            </div>
-                          </td>
-                          <td className="py-3 text-left font-medium text-foreground">
-                            {entry.objective_name}
-                          </td>
-                          <td 
-                            className="py-3 text-right text-xl font-normal font-score neon-text"
-                            style={{ color: pointsColor }}
-                          >
-                            +{entry.points}
-                          </td>
-                        </tr>
-                      );
-                    })}
-                  </tbody>
-                </table>
+                      </label>
+                      <select
+                        id="filter-objective"
+                        value={filterObjectiveId}
+                        onChange={(e) => setFilterObjectiveId(e.target.value)}
+                        className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+                      >
+                        <option value="" className="bg-background">All objectives</option>
+                        {objectives.map((objective) => (
+                          <option key={objective.id} value={objective.id} className="bg-background">
+                            {objective.title}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label htmlFor="filter-from" className="block text-xs font-medium text-muted-foreground mb-1">
+                        From
+                      </label>
+                      <input
+                        id="filter-from"
+                        type="date"
+                        value={filterFrom}
+                        onChange={(e) => setFilterFrom(e.target.value)}
+                        className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="filter-to" className="block text-xs font-medium text-muted-foreground mb-1">
+                        To
+                      </label>
+                      <input
+                        id="filter-to"
+                        type="date"
+                        value={filterTo}
+                        onChange={(e) => setFilterTo(e.target.value)}
+                        className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                {actionError && !removeTarget && !disputeTarget && !voteTarget && (
+                  <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3">
+                    <p className="text-sm text-destructive">{actionError}</p>
+                  </div>
+                )}
+
+                {filteredHistory.length > 0 ? (
+                  <HistoryTable
+                    entries={filteredHistory}
+                    renderActions={renderHistoryActions}
+                  />
+                ) : (
+                  <p className="text-center text-muted-foreground py-4">
+                    {hasActiveFilters ? "No history matches these filters" : "No history yet"}
+                  </p>
+                )}
               </div>
             )}
           </div>
@@ -320,9 +882,19 @@ export default function VersusPage({ params }: { params: Promise<{ id: string }>
           >
             {/* Modal Header */}
             <div className="flex items-center justify-between border-b border-primary/30 p-4">
-              <h2 className="text-xl font-bold text-foreground font-display">
-                {selectedPlayer}&apos;s History
-              </h2>
+              <div>
+                <h2 className="text-xl font-bold text-foreground font-display">
+                  {selectedPlayer}&apos;s History
+                </h2>
+                {selectedPlayerId && (
+                  <Link
+                    href={`/versus/${id}/players/${selectedPlayerId}`}
+                    className="text-sm text-primary hover:underline"
+                  >
+                    View profile
+                  </Link>
+                )}
+              </div>
               <button
                 onClick={() => setSelectedPlayer(null)}
                 className="rounded-lg p-2 transition-colors hover:bg-muted"
@@ -349,53 +921,10 @@ export default function VersusPage({ params }: { params: Promise<{ id: string }>
             {/* Modal Content */}
             <div className="max-h-96 overflow-y-auto p-4">
               {selectedPlayerHistory.length > 0 ? (
-                <table className="w-full">
-                  <thead>
-                    <tr className="border-b border-primary/20">
-                      <th className="pb-2 text-left text-sm font-bold text-muted-foreground font-display">
-                        Date
-                      </th>
-                      <th className="pb-2 text-left text-sm font-bold text-muted-foreground font-display">
-                        Objective
-                      </th>
-                      <th className="pb-2 text-right text-sm font-bold text-muted-foreground font-display">
-                        Points
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {selectedPlayerHistory.map((entry) => {
-                      const pointsColor = getScoreColor(entry.points);
-                      
-                      return (
-                        <tr 
-                          key={entry.id} 
-                          className="border-b border-primary/10 last:border-0"
-                        >
-                          <td className="py-3">
-                            <div className="flex flex-col">
-                              <span className="text-sm font-medium text-foreground">
-                                {entry.date}
-                              </span>
-                              <span className="text-xs text-muted-foreground">
-                                {entry.time}
-                              </span>
-                            </div>
-                          </td>
-                          <td className="py-3 text-left font-medium text-foreground">
-                            {entry.objective_name}
-                          </td>
-                          <td 
-                            className="py-3 text-right text-xl font-normal font-score neon-text"
-                            style={{ color: pointsColor }}
-                          >
-                            +{entry.points}
-                          </td>
-                        </tr>
-                      );
-                    })}
-                  </tbody>
-                </table>
+                <HistoryTable
+                  entries={selectedPlayerHistory}
+                  renderActions={renderHistoryActions}
+                />
               ) : (
                 <p className="text-center text-muted-foreground py-8">
                   No history available for this player
@@ -405,7 +934,190 @@ export default function VersusPage({ params }: { params: Promise<{ id: string }>
           </div>
         </div>
       )}
+
+      {/* Dispute Dialog */}
+      {disputeTarget && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <div className="mx-4 w-full max-w-sm rounded-lg border border-primary/30 bg-card p-6 shadow-lg">
+            <h2 className="text-lg font-bold text-foreground font-display">
+              Dispute Completion?
+            </h2>
+            <p className="mt-2 text-sm text-muted-foreground">
+              {disputeTarget.objective_name} on {disputeTarget.date} at {disputeTarget.time}
+            </p>
+            <p className="mt-2 text-xs text-muted-foreground">
+              Everyone in this Versus gets a vote. Your vote to void it is counted automatically.
+            </p>
+            <label htmlFor="dispute-reason" className="mt-4 block text-sm font-medium text-foreground mb-1">
+              Reason <span className="text-destructive">*</span>
+            </label>
+            <textarea
+              id="dispute-reason"
+              value={disputeReason}
+              onChange={(e) => setDisputeReason(e.target.value)}
+              rows={3}
+              maxLength={500}
+              placeholder="What looks wrong about this completion?"
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground placeholder-muted-foreground focus:border-primary focus:ring-1 focus:ring-primary resize-none"
+            />
+            {actionError && (
+              <p className="mt-2 text-sm text-destructive" role="alert">
+                {actionError}
+              </p>
+            )}
+            <div className="mt-6 flex gap-3">
+              <button
+                onClick={() => {
+                  setDisputeTarget(null);
+                  setActionError(null);
+                }}
+                disabled={isSubmittingDispute}
+                className="flex-1 rounded-lg border border-primary/30 py-2 text-foreground hover:bg-card/50 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmDispute}
+                disabled={isSubmittingDispute || !disputeReason.trim()}
+                className="flex-1 rounded-lg bg-primary py-2 font-bold text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmittingDispute ? "Opening..." : "Dispute"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Dispute Vote Dialog */}
+      {voteTarget && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <div className="mx-4 w-full max-w-sm rounded-lg border border-primary/30 bg-card p-6 shadow-lg">
+            <h2 className="text-lg font-bold text-foreground font-display">
+              {voteTarget.vote === "keep" ? "Vote to Keep?" : "Vote to Void?"}
+            </h2>
+            <p className="mt-2 text-sm text-muted-foreground">
+              {voteTarget.entry.player_name}: {voteTarget.entry.objective_name} on{" "}
+              {voteTarget.entry.date} at {voteTarget.entry.time}
+            </p>
+            <label htmlFor="vote-comment" className="mt-4 block text-sm font-medium text-foreground mb-1">
+              Comment (optional)
+            </label>
+            <textarea
+              id="vote-comment"
+              value={voteComment}
+              onChange={(e) => setVoteComment(e.target.value)}
+              rows={3}
+              maxLength={500}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground placeholder-muted-foreground focus:border-primary focus:ring-1 focus:ring-primary resize-none"
+            />
+            {actionError && (
+              <p className="mt-2 text-sm text-destructive" role="alert">
+                {actionError}
+              </p>
+            )}
+            <div className="mt-6 flex gap-3">
+              <button
+                onClick={() => {
+                  setVoteTarget(null);
+                  setActionError(null);
+                }}
+                disabled={isSubmittingDispute}
+                className="flex-1 rounded-lg border border-primary/30 py-2 text-foreground hover:bg-card/50 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmVote}
+                disabled={isSubmittingDispute}
+                className={`flex-1 rounded-lg py-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  voteTarget.vote === "keep"
+                    ? "bg-primary font-bold text-primary-foreground hover:bg-primary/90"
+                    : "bg-destructive text-white hover:bg-destructive/90"
+                }`}
+              >
+                {isSubmittingDispute ? "Voting..." : voteTarget.vote === "keep" ? "Keep" : "Void"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Leave Versus Dialog */}
+      {leaveOpen && (
+        <LeaveVersusDialog
+          versusId={id}
+          versusName={versusData.versus.name}
+          onClose={() => setLeaveOpen(false)}
+        />
+      )}
+
+      {/* Clone Versus Dialog */}
+      {cloneOpen && (
+        <CloneVersusDialog
+          versusId={id}
+          versusName={versusData.versus.name}
+          onClose={() => setCloneOpen(false)}
+        />
+      )}
+
+      {/* Save as Template Dialog */}
+      {saveTemplateOpen && (
+        <SaveTemplateDialog
+          versusId={id}
+          versusName={versusData.versus.name}
+          onClose={() => setSaveTemplateOpen(false)}
+        />
+      )}
+
+      {/* Remove Completion Dialog (commissioners) */}
+      {removeTarget && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <div className="mx-4 w-full max-w-sm rounded-lg border border-primary/30 bg-card p-6 shadow-lg">
+            <h2 className="text-lg font-bold text-foreground font-display">
+              Remove Completion?
+            </h2>
+            <p className="mt-2 text-sm text-muted-foreground">
+              {removeTarget.objective_name} on {removeTarget.date} at {removeTarget.time}
+            </p>
+            <label htmlFor="remove-reason" className="mt-4 block text-sm font-medium text-foreground mb-1">
+              Reason <span className="text-destructive">*</span>
+            </label>
+            <textarea
+              id="remove-reason"
+              value={removeReason}
+              onChange={(e) => setRemoveReason(e.target.value)}
+              rows={3}
+              maxLength={500}
+              placeholder="Why is this completion being removed?"
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground placeholder-muted-foreground focus:border-primary focus:ring-1 focus:ring-primary resize-none"
+            />
+            {actionError && (
+              <p className="mt-2 text-sm text-destructive" role="alert">
+                {actionError}
+              </p>
+            )}
+            <div className="mt-6 flex gap-3">
+              <button
+                onClick={() => {
+                  setRemoveTarget(null);
+                  setActionError(null);
+                }}
+                disabled={isRemoving}
+                className="flex-1 rounded-lg border border-primary/30 py-2 text-foreground hover:bg-card/50 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmRemove}
+                disabled={isRemoving || !removeReason.trim()}
+                className="flex-1 rounded-lg bg-destructive py-2 text-white hover:bg-destructive/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isRemoving ? "Removing..." : "Remove"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
-
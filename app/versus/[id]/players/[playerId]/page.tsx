@@ -0,0 +1,103 @@
+"use client";
+
+/**
+ * Player Profile Page - A Player as Seen Inside a Versus
+ *
+ * Anyone in the Versus can open a fellow member's profile:
+ * - Name (their nickname here), avatar and role
+ * - Career stats across all their Versus
+ *
+ * Route: /versus/[id]/players/[playerId]
+ */
+
+import { use, useEffect, useState } from "react";
+import Link from "next/link";
+import { Navigation } from "@/components/navigation";
+import { PlayerAvatar } from "@/components/player-avatar";
+import { CareerStats } from "@/components/career-stats";
+import { getVersusPlayerProfile } from "@/app/actions/players";
+import { VERSUS_ROLE_LABELS } from "@/lib/role-utils";
+import type { PlayerProfile } from "@/types/database";
+
+export default function PlayerProfilePage({
+  params,
+}: {
+  params: Promise<{ id: string; playerId: string }>;
+}) {
+  const { id: versusId, playerId } = use(params);
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function loadData() {
+      const { data, error: profileError } = await getVersusPlayerProfile(versusId, playerId);
+
+      if (profileError || !data) {
+        setError(profileError?.message || "Player not found");
+      } else {
+        setProfile(data);
+      }
+
+      setLoading(false);
+    }
+
+    loadData();
+  }, [versusId, playerId]);
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen flex-col">
+        <Navigation />
+        <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+          <p className="text-center text-muted-foreground">Loading...</p>
+        </main>
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="flex min-h-screen flex-col">
+        <Navigation />
+        <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+          <div className="text-center py-12">
+            <p className="text-muted-foreground mb-6">{error || "Player not found"}</p>
+            <Link href={`/versus/${versusId}`} className="text-primary hover:underline">
+              Back to Versus
+            </Link>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <Navigation />
+      <main className="mx-auto w-full max-w-md md:max-w-2xl space-y-6 p-4">
+        <Link href={`/versus/${versusId}`} className="text-sm text-primary hover:underline">
+          ← Back to Versus
+        </Link>
+
+        <div className="flex items-center gap-4">
+          <PlayerAvatar name={profile.name} avatarUrl={profile.avatar_url} size={80} />
+          <div className="min-w-0">
+            <h1 className="truncate text-3xl font-bold text-primary neon-text font-display">
+              {profile.name}
+            </h1>
+            {profile.display_name && profile.display_name !== profile.name && (
+              <p className="truncate text-sm text-muted-foreground">{profile.display_name}</p>
+            )}
+            <p className="text-sm text-muted-foreground">
+              {profile.role && VERSUS_ROLE_LABELS[profile.role]}
+              {profile.joined_at && ` · Joined ${new Date(profile.joined_at).toLocaleDateString()}`}
+            </p>
+          </div>
+        </div>
+
+        <CareerStats stats={profile.stats} />
+      </main>
+    </div>
+  );
+}
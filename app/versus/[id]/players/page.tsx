@@ -7,7 +7,11 @@
  * - Add new players
  * - Remove existing players
  * - Update player nicknames
- * - Change commissioner status
+ * - Change roles (viewer, participant or commissioner)
+ * - Invite people without an account by email, resend or revoke invitations
+ * - Share join links/codes and approve join requests (JoinLinkManager)
+ * - Create teams and assign players (TeamManager)
+ * - Hand the Versus to another member (TransferCommissioner)
  * 
  * Route: /versus/[id]/players
  * 
@@ -15,7 +19,8 @@
  * 1. Check if user is commissioner (show error if not)
  * 2. Fetch existing versus_players data
  * 3. Display players in edit mode using VersusWizardStep2
- * 4. On submit: Call updateVersusPlayers() to save changes
+ * 4. On submit: Call updateVersusPlayers() to save changes, and
+ *    inviteToVersus() for new emails without an account
  * 5. Show success toast and redirect to versus detail page
  * 
  * See: docs/features/create-versus-wizard-tasks.md (T017)
@@ -26,8 +31,24 @@ import { useRouter } from "next/navigation";
 import { VersusWizardStep2, type PlayerRowData } from "@/components/versus-wizard-step2";
 import { getVersusById, getVersusPlayers, updateVersusPlayers } from "@/app/actions/versus";
 import { getCurrentPlayer } from "@/app/actions/players";
+import { getVersusTeams } from "@/app/actions/teams";
+import { getVersusInvitations, inviteToVersus } from "@/app/actions/invitations";
+import { getPendingJoinRequests, getVersusJoinCodes } from "@/app/actions/join";
+import { TeamManager } from "@/components/team-manager";
+import { PendingInvitations } from "@/components/pending-invitations";
+import { JoinLinkManager } from "@/components/join-link-manager";
+import { TransferCommissioner } from "@/components/transfer-commissioner";
 import { Navigation } from "@/components/navigation";
+import { MAX_VERSUS_PLAYERS } from "@/lib/invitation-utils";
 import Link from "next/link";
+import type {
+  JoinRequestWithPlayer,
+  TeamScoring,
+  VersusInvitation,
+  VersusJoinCode,
+  VersusRole,
+  VersusTeam,
+} from "@/types/database";
 
 export default function EditPlayersPage({ params }: { params: Promise<{ id: string }> }) {
   const { id: versusId } = use(params);
@@ -43,7 +64,17 @@ export default function EditPlayersPage({ params }: { params: Promise<{ id: stri
     display_name: string | null;
   } | null>(null);
   const [initialPlayers, setInitialPlayers] = useState<PlayerRowData[]>([]);
-  const [maxPlayers, setMaxPlayers] = useState(12); // Default max, can be updated from versus
+  const [invitations, setInvitations] = useState<VersusInvitation[]>([]);
+  const [joinCodes, setJoinCodes] = useState<VersusJoinCode[]>([]);
+  const [joinRequests, setJoinRequests] = useState<JoinRequestWithPlayer[]>([]);
+  // Bumped when a join request is approved or the versus is handed off,
+  // to reload the roster
+  const [reloadKey, setReloadKey] = useState(0);
+  const [teams, setTeams] = useState<VersusTeam[]>([]);
+  const [teamScoring, setTeamScoring] = useState<TeamScoring>("sum");
+  const [teamPlayers, setTeamPlayers] = useState<
+    Array<{ player_id: string; name: string; team_id: string | null }>
+  >([]);
 
   // ============================================================================
   // Load Data
@@ -84,7 +115,7 @@ export default function EditPlayersPage({ params }: { params: Promise<{ id: stri
 
         setIsCommissioner(true);
 
-        // Fetch versus_players data with nicknames and commissioner status
+        // Fetch versus_players data with nicknames and roles
         const { data: versusPlayersData, error: playersError } = await getVersusPlayers(versusId);
         
         if (playersError || !versusPlayersData) {
@@ -96,7 +127,8 @@ export default function EditPlayersPage({ params }: { params: Promise<{ id: stri
         // Convert versus_players data to PlayerRowData format
         type VersusPlayerWithPlayer = {
           nickname: string | null;
-          is_commissioner: boolean;
+          role: VersusRole;
+          team_id: string | null;
           player: {
             id: string;
             email: string;
@@ -113,16 +145,64 @@ export default function EditPlayersPage({ params }: { params: Promise<{ id: stri
             email: player.email,
             display_name: player.display_name || player.email.split("@")[0],
             nickname: vp.nickname || "",
-            is_commissioner: vp.is_commissioner,
+            role: vp.role,
             isCreator: isCreator,
             isValidated: true,
+            isInvite: false,
             isValidating: false,
             error: null,
           };
         });
 
         setInitialPlayers(players);
-        setMaxPlayers(12); // Default max players (could be fetched from versus if needed)
+        // Viewers can't be on a team
+        setTeamPlayers(
+          (versusPlayersData as VersusPlayerWithPlayer[])
+            .filter((vp) => vp.role !== "viewer")
+            .map((vp) => ({
+              player_id: vp.player.id,
+              name: vp.nickname || vp.player.display_name || vp.player.email.split("@")[0],
+              team_id: vp.team_id,
+            }))
+        );
+
+        // Fetch teams for the team manager
+        const { data: teamsData, error: teamsError } = await getVersusTeams(versusId);
+
+        if (teamsError) {
+          setError(teamsError.message);
+          setLoading(false);
+          return;
+        }
+
+        setTeams(teamsData || []);
+        setTeamScoring(versusData.versus.team_scoring || "sum");
+
+        // Pending invitations hold roster slots
+        const { data: invitationsData, error: invitationsError } = await getVersusInvitations(versusId);
+
+        if (invitationsError) {
+          setError(invitationsError.message);
+          setLoading(false);
+          return;
+        }
+
+        setInvitations(invitationsData || []);
+
+        // Join links and people waiting for approval
+        const [codesResult, requestsResult] = await Promise.all([
+          getVersusJoinCodes(versusId),
+          getPendingJoinRequests(versusId),
+        ]);
+
+        if (codesResult.error || requestsResult.error) {
+          setError((codesResult.error || requestsResult.error)!.message);
+          setLoading(false);
+          return;
+        }
+
+        setJoinCodes(codesResult.data || []);
+        setJoinRequests(requestsResult.data || []);
 
         setLoading(false);
       } catch (err) {
@@ -133,7 +213,7 @@ export default function EditPlayersPage({ params }: { params: Promise<{ id: stri
     }
 
     loadData();
-  }, [versusId]);
+  }, [versusId, reloadKey]);
 
   // ============================================================================
   // Handlers
@@ -154,11 +234,13 @@ export default function EditPlayersPage({ params }: { params: Promise<{ id: stri
 
     try {
       // Convert PlayerRowData to updateVersusPlayers format
-      const playersUpdate = data.map((player) => ({
-        player_id: player.player_id,
-        nickname: player.nickname || null,
-        is_commissioner: player.is_commissioner,
-      }));
+      const playersUpdate = data
+        .filter((player) => !player.isInvite)
+        .map((player) => ({
+          player_id: player.player_id,
+          nickname: player.nickname || null,
+          role: player.role,
+        }));
 
       const result = await updateVersusPlayers(versusId, playersUpdate);
 
@@ -168,6 +250,33 @@ export default function EditPlayersPage({ params }: { params: Promise<{ id: stri
         return;
       }
 
+      // New emails without an account get an invitation
+      const invites = data
+        .filter((player) => player.isInvite)
+        .map((player) => ({
+          email: player.email,
+          nickname: player.nickname || null,
+          role: player.role,
+        }));
+
+      if (invites.length > 0) {
+        const inviteResult = await inviteToVersus(versusId, invites);
+
+        if (inviteResult.error || !inviteResult.data) {
+          setError(`Players saved, but inviting failed: ${inviteResult.error?.message}`);
+          setSaving(false);
+          return;
+        }
+
+        if (inviteResult.data.unsent.length > 0) {
+          setError(
+            `Players saved, but the invitation email couldn't be sent to ${inviteResult.data.unsent.join(", ")}. Use Resend under Pending Invitations.`
+          );
+          setSaving(false);
+          return;
+        }
+      }
+
       // Success! Redirect to versus detail page
       router.push(`/versus/${versusId}`);
     } catch (err) {
@@ -305,15 +414,65 @@ export default function EditPlayersPage({ params }: { params: Promise<{ id: stri
 
         {/* Form */}
         <VersusWizardStep2
+          key={reloadKey}
           mode="edit"
           initialData={initialPlayers}
-          maxPlayers={maxPlayers}
+          maxPlayers={MAX_VERSUS_PLAYERS - invitations.length}
           currentUser={currentUser}
           onSubmit={handleSubmit}
           onBack={handleBack}
           onCancel={handleCancel}
         />
 
+        {/* Join links and join requests */}
+        <div className="mt-8">
+          <JoinLinkManager
+            key={reloadKey}
+            versusId={versusId}
+            initialCodes={joinCodes}
+            initialRequests={joinRequests}
+            onPlayerAdded={() => setReloadKey((k) => k + 1)}
+          />
+        </div>
+
+        {/* Pending invitations (resend / revoke) */}
+        <div className="mt-8">
+          <PendingInvitations invitations={invitations} onChange={setInvitations} />
+        </div>
+
+        {/* Teams (saved separately from the players form) */}
+        <div className="mt-8">
+          <TeamManager
+            key={reloadKey}
+            versusId={versusId}
+            players={teamPlayers}
+            initialTeams={teams}
+            initialScoring={teamScoring}
+          />
+        </div>
+
+        {/* Commissioner handoff */}
+        <div className="mt-8">
+          <TransferCommissioner
+            versusId={versusId}
+            members={initialPlayers
+              .filter((p) => p.player_id !== currentUser.id)
+              .map((p) => ({
+                player_id: p.player_id,
+                name: p.nickname || p.display_name,
+                role: p.role,
+              }))}
+            isOwner={initialPlayers.some((p) => p.player_id === currentUser.id && p.isCreator)}
+            onTransferred={(steppedDown) => {
+              if (steppedDown) {
+                router.push(`/versus/${versusId}`);
+              } else {
+                setReloadKey((k) => k + 1);
+              }
+            }}
+          />
+        </div>
+
         {/* Saving overlay */}
         {saving && (
           <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
@@ -0,0 +1,251 @@
+"use client";
+
+/**
+ * Review Queue Page - Approve or Reject Pending Completions
+ *
+ * When a Versus requires approval, completions logged by players stay
+ * pending (and don't count toward scores) until a commissioner reviews them.
+ *
+ * Route: /versus/[id]/review
+ *
+ * Flow:
+ * 1. Check if user is commissioner (show error if not)
+ * 2. Fetch pending completions, oldest first
+ * 3. Approve or Reject opens a dialog with an optional note for the player
+ * 4. On confirm: Call reviewCompletion() and drop the entry from the queue
+ */
+
+import { use, useEffect, useState } from "react";
+import Link from "next/link";
+import { Navigation } from "@/components/navigation";
+import { HistoryTable } from "@/components/history-table";
+import { getVersusById } from "@/app/actions/versus";
+import { getPendingCompletions, reviewCompletion } from "@/app/actions/completions";
+import type { HistoryEntry } from "@/types/database";
+
+export default function ReviewQueuePage({ params }: { params: Promise<{ id: string }> }) {
+  const { id: versusId } = use(params);
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [versusName, setVersusName] = useState("");
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [pending, setPending] = useState<HistoryEntry[]>([]);
+
+  // Review dialog state
+  const [reviewTarget, setReviewTarget] = useState<{ entry: HistoryEntry; approve: boolean } | null>(null);
+  const [reviewNote, setReviewNote] = useState("");
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [reviewError, setReviewError] = useState<string | null>(null);
+
+  // ============================================================================
+  // Load Data
+  // ============================================================================
+
+  useEffect(() => {
+    async function fetchData() {
+      const { data: versusData, error: versusError } = await getVersusById(versusId);
+
+      if (versusError || !versusData) {
+        setError(versusError?.message || "Versus not found");
+        setLoading(false);
+        return;
+      }
+
+      if (!versusData.isCommissioner) {
+        setError("Only commissioners can review completions");
+        setLoading(false);
+        return;
+      }
+
+      setVersusName(versusData.versus.name);
+      setRequireApproval(versusData.versus.require_approval);
+
+      const { data: pendingData, error: pendingError } = await getPendingCompletions(versusId);
+
+      if (pendingError || !pendingData) {
+        setError(pendingError?.message || "Failed to load the review queue");
+      } else {
+        setPending(pendingData);
+      }
+
+      setLoading(false);
+    }
+
+    fetchData();
+  }, [versusId]);
+
+  // ============================================================================
+  // Handlers
+  // ============================================================================
+
+  const openReview = (entry: HistoryEntry, approve: boolean) => {
+    setReviewError(null);
+    setReviewNote("");
+    setReviewTarget({ entry, approve });
+  };
+
+  /**
+   * Approve or reject the selected completion
+   */
+  const handleConfirmReview = async () => {
+    if (!reviewTarget) return;
+
+    setIsReviewing(true);
+    setReviewError(null);
+
+    const { error: reviewErr } = await reviewCompletion(
+      reviewTarget.entry.id,
+      reviewTarget.approve,
+      reviewNote
+    );
+
+    setIsReviewing(false);
+
+    if (reviewErr) {
+      setReviewError(reviewErr.message);
+      return;
+    }
+
+    setPending((prev) => prev.filter((entry) => entry.id !== reviewTarget.entry.id));
+    setReviewTarget(null);
+  };
+
+  const renderReviewActions = (entry: HistoryEntry) => (
+    <>
+      <span className="text-xs text-muted-foreground">{entry.player_name}</span>
+      <button
+        onClick={() => openReview(entry, true)}
+        className="text-xs text-neon-green underline decoration-neon-green/50 hover:decoration-neon-green transition-colors"
+      >
+        Approve
+      </button>
+      <button
+        onClick={() => openReview(entry, false)}
+        className="text-xs text-destructive underline decoration-destructive/50 hover:decoration-destructive transition-colors"
+      >
+        Reject
+      </button>
+    </>
+  );
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen flex-col">
+        <Navigation />
+        <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+          <p className="text-center text-muted-foreground">Loading...</p>
+        </main>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="flex min-h-screen flex-col">
+        <Navigation />
+        <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+          <div className="text-center py-12">
+            <h1 className="text-2xl font-bold text-destructive font-display mb-4">
+              Access Denied
+            </h1>
+            <p className="text-muted-foreground mb-6">{error}</p>
+            <Link
+              href={`/versus/${versusId}`}
+              className="rounded-lg bg-primary px-6 py-3 font-bold text-primary-foreground transition-all hover:bg-primary/90"
+            >
+              Back to Versus
+            </Link>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col">
+      <Navigation />
+      <main className="mx-auto w-full max-w-md md:max-w-2xl p-4">
+        <div className="mb-6">
+          <Link href={`/versus/${versusId}`} className="text-sm text-primary hover:underline">
+            ← {versusName}
+          </Link>
+          <h1 className="mt-2 text-3xl font-bold text-primary neon-text font-display">
+            Review Queue
+          </h1>
+          {!requireApproval && (
+            <p className="mt-2 text-sm text-muted-foreground">
+              Approval is turned off for this Versus. New completions count right away.
+            </p>
+          )}
+        </div>
+
+        <div className="rounded-lg border border-primary/30 bg-card/50 p-4 panel-blur">
+          {pending.length > 0 ? (
+            <HistoryTable entries={pending} renderActions={renderReviewActions} />
+          ) : (
+            <p className="text-center text-muted-foreground py-8">
+              Nothing waiting for review
+            </p>
+          )}
+        </div>
+      </main>
+
+      {/* Review Dialog */}
+      {reviewTarget && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <div className="mx-4 w-full max-w-sm rounded-lg border border-primary/30 bg-card p-6 shadow-lg">
+            <h2 className="text-lg font-bold text-foreground font-display">
+              {reviewTarget.approve ? "Approve Completion?" : "Reject Completion?"}
+            </h2>
+            <p className="mt-2 text-sm text-muted-foreground">
+              {reviewTarget.entry.player_name}: {reviewTarget.entry.objective_name} on{" "}
+              {reviewTarget.entry.date} at {reviewTarget.entry.time}
+            </p>
+            <label htmlFor="review-note" className="mt-4 block text-sm font-medium text-foreground mb-1">
+              Note (optional)
+            </label>
+            <textarea
+              id="review-note"
+              value={reviewNote}
+              onChange={(e) => setReviewNote(e.target.value)}
+              rows={3}
+              maxLength={500}
+              placeholder={reviewTarget.approve ? "Nice work!" : "Why is this being rejected?"}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground placeholder-muted-foreground focus:border-primary focus:ring-1 focus:ring-primary resize-none"
+            />
+            {reviewError && (
+              <p className="mt-2 text-sm text-destructive" role="alert">
+                {reviewError}
+              </p>
+            )}
+            <div className="mt-6 flex gap-3">
+              <button
+                onClick={() => setReviewTarget(null)}
+                disabled={isReviewing}
+                className="flex-1 rounded-lg border border-primary/30 py-2 text-foreground hover:bg-card/50 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmReview}
+                disabled={isReviewing}
+                className={`flex-1 rounded-lg py-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  reviewTarget.approve
+                    ? "bg-primary font-bold text-primary-foreground hover:bg-primary/90"
+                    : "bg-destructive text-white hover:bg-destructive/90"
+                }`}
+              >
+                {isReviewing ? "Saving..." : reviewTarget.approve ? "Approve" : "Reject"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
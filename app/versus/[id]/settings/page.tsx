@@ -7,6 +7,10 @@
  * - Update versus name
  * - Change versus type
  * - Toggle reverse ranking
+ * - Change the undo window for completions
+ * - Set the season start/end dates (locked once the season has ended)
+ * - Choose daily, weekly or monthly rounds
+ * - Require commissioner approval for completions
  * 
  * Route: /versus/[id]/settings
  * 
@@ -27,6 +31,7 @@ import { useRouter } from "next/navigation";
 import { VersusWizardStep1, type Step1FormData, type VersusType } from "@/components/versus-wizard-step1";
 import { getVersusById, updateVersusSettings } from "@/app/actions/versus";
 import { Navigation } from "@/components/navigation";
+import { fromDateTimeLocalValue, toDateTimeLocalValue } from "@/lib/season-utils";
 import Link from "next/link";
 
 export default function EditSettingsPage({ params }: { params: Promise<{ id: string }> }) {
@@ -38,6 +43,7 @@ export default function EditSettingsPage({ params }: { params: Promise<{ id: str
   const [error, setError] = useState<string | null>(null);
   const [isCommissioner, setIsCommissioner] = useState(false);
   const [initialData, setInitialData] = useState<Partial<Step1FormData> | null>(null);
+  const [seasonLocked, setSeasonLocked] = useState(false);
 
   // ============================================================================
   // Load Data
@@ -72,9 +78,18 @@ export default function EditSettingsPage({ params }: { params: Promise<{ id: str
           reverse_ranking: versusData.versus.reverse_ranking,
           number_of_players: versusData.totalPlayers, // Informational only
           objective_creation: "commissioner", // Not editable in edit mode
+          undo_grace_minutes: versusData.versus.undo_grace_minutes,
+          starts_at: toDateTimeLocalValue(versusData.versus.starts_at),
+          ends_at: toDateTimeLocalValue(versusData.versus.ends_at),
+          round_period: versusData.versus.round_period,
+          require_approval: versusData.versus.require_approval,
+          dispute_quorum_percent: versusData.versus.dispute_quorum_percent,
+          dispute_window_hours: versusData.versus.dispute_window_hours,
+          max_backfill_hours: versusData.versus.max_backfill_hours,
         };
 
         setInitialData(formData);
+        setSeasonLocked(Boolean(versusData.versus.finalized_at));
         setLoading(false);
       } catch (err) {
         console.error("Error loading data:", err);
@@ -92,18 +107,30 @@ export default function EditSettingsPage({ params }: { params: Promise<{ id: str
 
   /**
    * Handle form submission
-   * Updates versus settings (name, type, reverse_ranking)
+   * Updates versus settings (name, type, reverse_ranking, undo_grace_minutes, season dates, rounds)
    */
   const handleSubmit = async (data: Step1FormData) => {
     setSaving(true);
     setError(null);
 
     try {
-      // Only update editable fields (name, type, reverse_ranking)
+      // Only update editable fields (season dates are skipped once final standings are locked)
       const updates = {
         name: data.name,
         type: data.type || null,
         reverse_ranking: data.reverse_ranking,
+        undo_grace_minutes: data.undo_grace_minutes,
+        round_period: data.round_period,
+        require_approval: data.require_approval,
+        dispute_quorum_percent: data.dispute_quorum_percent,
+        dispute_window_hours: data.dispute_window_hours,
+        max_backfill_hours: data.max_backfill_hours,
+        ...(seasonLocked
+          ? {}
+          : {
+              starts_at: fromDateTimeLocalValue(data.starts_at),
+              ends_at: fromDateTimeLocalValue(data.ends_at),
+            }),
       };
 
       const result = await updateVersusSettings(versusId, updates);
@@ -252,6 +279,7 @@ export default function EditSettingsPage({ params }: { params: Promise<{ id: str
         <VersusWizardStep1
           mode="edit"
           initialData={initialData}
+          seasonLocked={seasonLocked}
           onSubmit={handleSubmit}
           onCancel={handleCancel}
         />
@@ -3,10 +3,14 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
+import { acceptInvitations } from "@/app/actions/invitations";
+import { getSafeNextPath } from "@/lib/auth-utils";
 
 interface AuthFormProps {
   mode: "login" | "signup";
-  searchParams?: Promise<{ message?: string }>;
+  // invite/email come from a Versus invitation's signup link; next is the
+  // page to return to (e.g. a join link opened while logged out)
+  searchParams?: Promise<{ message?: string; invite?: string; email?: string; next?: string }>;
 }
 
 export function AuthForm({ mode, searchParams }: AuthFormProps) {
@@ -16,6 +20,8 @@ export function AuthForm({ mode, searchParams }: AuthFormProps) {
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+  const [nextPath, setNextPath] = useState("/");
   const router = useRouter();
   const supabase = createClient();
   
@@ -26,10 +32,35 @@ export function AuthForm({ mode, searchParams }: AuthFormProps) {
         if (params.message) {
           setMessage(params.message);
         }
+        if (params.invite) {
+          setInviteToken(params.invite);
+          setMessage("You've been invited to a Versus! Sign up to join.");
+        }
+        if (params.email) {
+          setEmail(params.email);
+        }
+        if (params.next) {
+          setNextPath(getSafeNextPath(params.next));
+        }
       });
     }
   }, [searchParams]);
 
+  /**
+   * Where the confirmation email sends the new user
+   * Carries the invitation token and the page they were headed to
+   */
+  const getCallbackUrl = () => {
+    const params = new URLSearchParams();
+    if (inviteToken) params.set("invite", inviteToken);
+    if (nextPath !== "/") params.set("next", nextPath);
+    const query = params.toString();
+    return `${window.location.origin}/auth/callback${query ? `?${query}` : ""}`;
+  };
+
+  // Keeps ?next= when switching between sign in and sign up
+  const nextQuery = nextPath !== "/" ? `?next=${encodeURIComponent(nextPath)}` : "";
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -45,7 +76,7 @@ export function AuthForm({ mode, searchParams }: AuthFormProps) {
             data: {
               display_name: displayName || email.split("@")[0],
             },
-            emailRedirectTo: `${window.location.origin}/auth/callback`,
+            emailRedirectTo: getCallbackUrl(),
           },
         });
 
@@ -62,7 +93,11 @@ export function AuthForm({ mode, searchParams }: AuthFormProps) {
 
         if (error) throw error;
 
-        router.push("/");
+        // Join any Versus this email was invited to (e.g. if the
+        // confirmation link didn't sign them in)
+        await acceptInvitations();
+
+        router.push(nextPath);
         router.refresh();
       }
     } catch (err) {
@@ -177,7 +212,7 @@ export function AuthForm({ mode, searchParams }: AuthFormProps) {
           <>
             Already have an account?{" "}
             <a
-              href="/auth/login"
+              href={`/auth/login${nextQuery}`}
               className="font-medium text-primary hover:underline"
             >
               Sign in
@@ -187,7 +222,7 @@ export function AuthForm({ mode, searchParams }: AuthFormProps) {
           <>
             Don&apos;t have an account?{" "}
             <a
-              href="/auth/signup"
+              href={`/auth/signup${nextQuery}`}
               className="font-medium text-primary hover:underline"
             >
               Sign up
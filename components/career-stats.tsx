@@ -0,0 +1,74 @@
+import Link from "next/link";
+import type { CareerStats as CareerStatsData } from "@/types/database";
+
+interface CareerStatsProps {
+  stats: CareerStatsData;
+}
+
+/**
+ * Career totals across every Versus a player has been in
+ * Wins and podiums only count finished seasons (frozen final standings).
+ */
+export function CareerStats({ stats }: CareerStatsProps) {
+  const totals = [
+    { label: "Wins", value: stats.wins },
+    { label: "Podiums", value: stats.podiums },
+    { label: "Completions", value: stats.total_completions },
+    { label: "Versus", value: stats.versus_count },
+  ];
+
+  return (
+    <section className="space-y-4 rounded-lg border border-primary/30 bg-card/50 p-4 panel-blur">
+      <h2 className="text-xl font-bold text-foreground font-display">Career</h2>
+
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+        {totals.map((total) => (
+          <div key={total.label} className="rounded-lg border border-primary/20 bg-card/30 p-3 text-center">
+            <p className="text-2xl font-bold text-primary font-display">{total.value}</p>
+            <p className="text-xs text-muted-foreground">{total.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {stats.finished_count} finished season{stats.finished_count === 1 ? "" : "s"}
+      </p>
+
+      {/* Favourite objectives */}
+      <div>
+        <h3 className="text-sm font-medium text-foreground mb-1">Favourite objectives</h3>
+        {stats.favourite_objectives.length > 0 ? (
+          <ul className="space-y-1">
+            {stats.favourite_objectives.map((objective) => (
+              <li key={objective.title} className="flex justify-between gap-3 text-sm">
+                <span className="truncate text-foreground">{objective.title}</span>
+                <span className="shrink-0 text-muted-foreground">{objective.completions}×</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No completions yet</p>
+        )}
+      </div>
+
+      {/* Active streaks */}
+      <div>
+        <h3 className="text-sm font-medium text-foreground mb-1">Active streaks</h3>
+        {stats.active_streaks.length > 0 ? (
+          <ul className="space-y-1">
+            {stats.active_streaks.map((streak) => (
+              <li key={streak.versus_id} className="flex justify-between gap-3 text-sm">
+                <Link href={`/versus/${streak.versus_id}`} className="truncate text-primary hover:underline">
+                  {streak.versus_name}
+                </Link>
+                <span className="shrink-0 text-neon-orange">{streak.days} days</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">No streaks running</p>
+        )}
+      </div>
+    </section>
+  );
+}
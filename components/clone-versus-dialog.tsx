@@ -0,0 +1,86 @@
+"use client";
+
+/**
+ * Clone Versus Dialog
+ *
+ * Picks which parts of a Versus to copy - settings, objectives, players -
+ * then opens the create wizard prefilled with them (/create?clone=<id>).
+ * Nothing is created until the wizard is finished.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  VERSUS_CLONE_PARTS,
+  VERSUS_CLONE_PART_DESCRIPTIONS,
+  VERSUS_CLONE_PART_LABELS,
+} from "@/lib/versus-templates";
+import type { VersusClonePart } from "@/types/database";
+
+interface CloneVersusDialogProps {
+  versusId: string;
+  versusName: string;
+  onClose: () => void;
+}
+
+export function CloneVersusDialog({ versusId, versusName, onClose }: CloneVersusDialogProps) {
+  const router = useRouter();
+  const [parts, setParts] = useState<VersusClonePart[]>(["settings", "objectives"]);
+
+  const togglePart = (part: VersusClonePart, checked: boolean) => {
+    setParts((prev) => (checked ? [...prev, part] : prev.filter((p) => p !== part)));
+  };
+
+  const handleClone = () => {
+    // Keep the params in a stable order
+    const include = VERSUS_CLONE_PARTS.filter((p) => parts.includes(p)).join(",");
+    router.push(`/create?clone=${versusId}&include=${include}`);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <div className="mx-4 w-full max-w-sm rounded-lg border border-primary/30 bg-card p-6 shadow-lg">
+        <h2 className="text-lg font-bold text-foreground font-display">Clone {versusName}</h2>
+        <p className="mt-2 text-sm text-muted-foreground">
+          Start a new Versus from this one. You can change everything in the wizard.
+        </p>
+
+        <fieldset className="mt-4 space-y-2">
+          <legend className="text-sm font-medium text-foreground mb-1">Copy</legend>
+          {VERSUS_CLONE_PARTS.map((part) => (
+            <label key={part} className="flex items-start gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={parts.includes(part)}
+                onChange={(e) => togglePart(part, e.target.checked)}
+                className="mt-1 accent-primary"
+              />
+              <span>
+                {VERSUS_CLONE_PART_LABELS[part]}
+                <span className="block text-xs text-muted-foreground">
+                  {VERSUS_CLONE_PART_DESCRIPTIONS[part]}
+                </span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 rounded-lg border border-primary/30 py-2 text-foreground hover:bg-card/50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleClone}
+            disabled={parts.length === 0}
+            className="flex-1 rounded-lg bg-primary py-2 font-bold text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+/**
+ * Delete Versus Dialog
+ *
+ * Permanently deletes a Versus once the owner types its name. Everything
+ * goes with it - objectives, completions, history and proof photos.
+ */
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { deleteVersus } from "@/app/actions/lifecycle";
+
+interface DeleteVersusDialogProps {
+  versusId: string;
+  versusName: string;
+  onClose: () => void;
+}
+
+export function DeleteVersusDialog({ versusId, versusName, onClose }: DeleteVersusDialogProps) {
+  const router = useRouter();
+  const [confirmName, setConfirmName] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const confirmed = confirmName.trim().toLowerCase() === versusName.trim().toLowerCase();
+
+  const handleDelete = async () => {
+    if (!confirmed) return;
+
+    setIsDeleting(true);
+    setError(null);
+
+    const { error: deleteError } = await deleteVersus(versusId, confirmName);
+
+    if (deleteError) {
+      setError(deleteError.message);
+      setIsDeleting(false);
+      return;
+    }
+
+    onClose();
+    router.push("/");
+    router.refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <div className="mx-4 w-full max-w-sm rounded-lg border border-destructive/50 bg-card p-6 shadow-lg">
+        <h2 className="text-lg font-bold text-destructive font-display">Delete {versusName}?</h2>
+        <p className="mt-2 text-sm text-muted-foreground">
+          This can&apos;t be undone. Its objectives, completions, history and photos are deleted
+          for every player.
+        </p>
+
+        <label htmlFor="delete-versus-name" className="mt-4 block text-sm font-medium text-foreground mb-1">
+          Type <span className="font-mono">{versusName}</span> to confirm
+        </label>
+        <input
+          id="delete-versus-name"
+          type="text"
+          value={confirmName}
+          onChange={(e) => setConfirmName(e.target.value)}
+          autoComplete="off"
+          className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+        />
+
+        {error && (
+          <p className="mt-2 text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={onClose}
+            disabled={isDeleting}
+            className="flex-1 rounded-lg border border-primary/30 py-2 text-foreground hover:bg-card/50 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={isDeleting || !confirmed}
+            className="flex-1 rounded-lg bg-destructive py-2 text-white hover:bg-destructive/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isDeleting ? "Deleting..." : "Delete"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
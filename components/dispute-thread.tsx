@@ -0,0 +1,62 @@
+"use client";
+
+/**
+ * Dispute Thread
+ *
+ * Shows a dispute on a history entry: who challenged it and why, the
+ * running vote tally and every vote with its comment. Stays visible after
+ * the dispute is resolved so the outcome can be traced.
+ *
+ * Voting itself happens through the history row actions.
+ */
+
+import { describeDisputeVotes } from "@/lib/dispute-utils";
+import type { DisputeThread as DisputeThreadData } from "@/types/database";
+
+const STATUS_LABELS: Record<DisputeThreadData["status"], string> = {
+  open: "Disputed",
+  upheld: "Dispute rejected - completion stands",
+  voided: "Voided by vote",
+};
+
+export function DisputeThread({ dispute }: { dispute: DisputeThreadData }) {
+  const closesAt = new Date(dispute.deadline_at);
+
+  return (
+    <div className="rounded-lg border border-neon-orange/30 bg-neon-orange/5 p-2 text-xs space-y-1">
+      <p
+        className={`font-bold ${
+          dispute.status === "voided"
+            ? "text-destructive"
+            : dispute.status === "upheld"
+              ? "text-neon-green"
+              : "text-neon-orange"
+        }`}
+      >
+        {STATUS_LABELS[dispute.status]}
+      </p>
+      <p className="text-foreground">
+        <span className="font-medium">{dispute.opened_by_name}:</span> {dispute.reason}
+      </p>
+      <p className="text-muted-foreground">
+        {describeDisputeVotes(dispute)}
+        {dispute.status === "open" &&
+          ` · Voting closes ${closesAt.toLocaleDateString()} ${closesAt.toLocaleTimeString([], {
+            hour: "2-digit",
+            minute: "2-digit",
+          })}`}
+      </p>
+      <ul className="space-y-0.5">
+        {dispute.votes.map((vote) => (
+          <li key={vote.voter_id} className="text-muted-foreground">
+            <span className={vote.vote === "void" ? "text-destructive" : "text-neon-green"}>
+              {vote.vote === "void" ? "Void" : "Keep"}
+            </span>{" "}
+            - {vote.voter_name}
+            {vote.comment && `: ${vote.comment}`}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+/**
+ * Finish Versus Dialog
+ *
+ * Ends a Versus now and declares the winner (defaults to the leader).
+ * The final standings are frozen and no more completions can be logged.
+ *
+ * Rendered only while open, so the players load on mount.
+ */
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { finishVersus, getVersusWinnerOptions } from "@/app/actions/lifecycle";
+import type { VersusWinnerOption } from "@/types/database";
+
+interface FinishVersusDialogProps {
+  versusId: string;
+  versusName: string;
+  onClose: () => void;
+}
+
+export function FinishVersusDialog({ versusId, versusName, onClose }: FinishVersusDialogProps) {
+  const router = useRouter();
+  const [players, setPlayers] = useState<VersusWinnerOption[]>([]);
+  const [winnerId, setWinnerId] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [isFinishing, setIsFinishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data, error: loadError } = await getVersusWinnerOptions(versusId);
+
+      if (loadError || !data) {
+        setError(loadError?.message || "Failed to load players");
+      } else {
+        setPlayers(data);
+        // Preselect the leader unless it's a tie
+        const leaders = data.filter((p) => p.rank === 1);
+        if (leaders.length === 1) setWinnerId(leaders[0].player_id);
+      }
+
+      setLoading(false);
+    };
+
+    load();
+  }, [versusId]);
+
+  const handleFinish = async () => {
+    setIsFinishing(true);
+    setError(null);
+
+    const { error: finishError } = await finishVersus(versusId, winnerId || null);
+
+    if (finishError) {
+      setError(finishError.message);
+      setIsFinishing(false);
+      return;
+    }
+
+    onClose();
+    router.refresh();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <div className="mx-4 w-full max-w-sm rounded-lg border border-primary/30 bg-card p-6 shadow-lg">
+        <h2 className="text-lg font-bold text-foreground font-display">Finish {versusName}?</h2>
+        <p className="mt-2 text-sm text-muted-foreground">
+          The final standings are locked and no more completions can be logged.
+        </p>
+
+        {loading ? (
+          <p className="mt-4 text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="mt-4">
+            <label htmlFor="finish-winner" className="block text-sm font-medium text-foreground mb-1">
+              Winner
+            </label>
+            <select
+              id="finish-winner"
+              value={winnerId}
+              onChange={(e) => setWinnerId(e.target.value)}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+            >
+              <option value="" className="bg-background">No winner</option>
+              {players.map((player) => (
+                <option key={player.player_id} value={player.player_id} className="bg-background">
+                  #{player.rank} {player.name} ({player.score})
+                </option>
+              ))}
+            </select>
+            {players.filter((p) => p.rank === 1).length > 1 && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                It&apos;s a tie for first - choose who wins, or leave it with no winner.
+              </p>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <p className="mt-2 text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={onClose}
+            disabled={isFinishing}
+            className="flex-1 rounded-lg border border-primary/30 py-2 text-foreground hover:bg-card/50 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleFinish}
+            disabled={isFinishing || loading}
+            className="flex-1 rounded-lg bg-primary py-2 font-bold text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isFinishing ? "Finishing..." : "Finish"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
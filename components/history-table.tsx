@@ -0,0 +1,157 @@
+"use client";
+
+/**
+ * History Table
+ *
+ * Renders a list of HistoryEntry rows (date, objective, points).
+ * Shared by the Versus page history section, the player history modal and
+ * the commissioner review queue.
+ *
+ * Entries are listed by when they happened (completed_at); backdated ones
+ * logged more than an hour later are flagged "Late".
+ * Pending and rejected entries are labelled and their points dimmed,
+ * since only approved completions count toward scores. Attached proof
+ * photos show as a thumbnail that opens the full image, entries a
+ * commissioner logged for the player say so (with their note), and disputed
+ * entries show their vote thread.
+ *
+ * Row actions (undo, remove, etc.) are supplied by the parent through
+ * renderActions so the table itself stays presentational.
+ */
+
+import type { ReactNode } from "react";
+import Image from "next/image";
+import { DisputeThread } from "@/components/dispute-thread";
+import { isLateEntry } from "@/lib/completion-utils";
+import { getScoreColor } from "@/lib/color-utils";
+import { formatClaimRank } from "@/lib/scoring";
+import type { HistoryEntry } from "@/types/database";
+
+interface HistoryTableProps {
+  entries: HistoryEntry[];
+  renderActions?: (entry: HistoryEntry) => ReactNode;
+}
+
+export function HistoryTable({ entries, renderActions }: HistoryTableProps) {
+  return (
+    <table className="w-full">
+      <thead>
+        <tr className="border-b border-primary/20">
+          <th className="pb-2 text-left text-sm font-bold text-muted-foreground font-display">
+            Date
+          </th>
+          <th className="pb-2 text-left text-sm font-bold text-muted-foreground font-display">
+            Objective
+          </th>
+          <th className="pb-2 text-right text-sm font-bold text-muted-foreground font-display">
+            Points
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {entries.map((entry) => {
+          const pointsColor = getScoreColor(entry.points);
+          const actions = renderActions?.(entry);
+
+          return (
+            <tr
+              key={entry.id}
+              className="border-b border-primary/10 last:border-0"
+            >
+              <td className="py-3">
+                <div className="flex flex-col">
+                  <span className="text-sm font-medium text-foreground">
+                    {entry.date}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {entry.time}
+                  </span>
+                  {isLateEntry(entry.completed_at, entry.logged_at) && (
+                    <span
+                      className="text-xs text-neon-orange"
+                      title={`Logged ${new Date(entry.logged_at).toLocaleString()}`}
+                    >
+                      Late
+                    </span>
+                  )}
+                </div>
+              </td>
+              <td className="py-3 text-left font-medium text-foreground">
+                <div className="flex flex-col gap-1">
+                  <span>
+                    {entry.objective_name}
+                    {entry.quantity !== null && entry.unit && (
+                      <span className="text-sm text-muted-foreground">
+                        {" "}({entry.quantity} {entry.unit})
+                      </span>
+                    )}
+                  </span>
+                  {entry.logged_by_name && (
+                    <span className="text-xs text-neon-blue">
+                      Logged by {entry.logged_by_name}
+                      {entry.note && ` - ${entry.note}`}
+                    </span>
+                  )}
+                  {!entry.logged_by_name && entry.note && (
+                    <span className="text-xs text-muted-foreground">{entry.note}</span>
+                  )}
+                  {entry.proof_url && (
+                    <a
+                      href={entry.proof_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="w-fit"
+                      title="View proof"
+                    >
+                      {/* Proofs are private, so they skip the image optimizer */}
+                      <Image
+                        src={entry.proof_url}
+                        alt={`Proof for ${entry.objective_name}`}
+                        width={48}
+                        height={48}
+                        unoptimized
+                        className="h-12 w-12 rounded border border-primary/30 object-cover"
+                      />
+                    </a>
+                  )}
+                  {entry.claim_rank !== null && (
+                    <span className="text-xs text-primary">
+                      {formatClaimRank(entry.claim_rank)} to claim
+                    </span>
+                  )}
+                  {(entry.status === "pending" || entry.status === "rejected") && (
+                    <span
+                      className={`text-xs ${entry.status === "pending" ? "text-neon-orange" : "text-destructive"}`}
+                    >
+                      {entry.status === "pending" ? "Pending approval" : "Rejected"}
+                      {entry.review_note && ` - ${entry.review_note}`}
+                    </span>
+                  )}
+                  {entry.status === "approved" && entry.review_note && (
+                    <span className="text-xs text-muted-foreground">
+                      Approved - {entry.review_note}
+                    </span>
+                  )}
+                  {entry.dispute && <DisputeThread dispute={entry.dispute} />}
+                  {actions && (
+                    <div className="flex items-center gap-3">
+                      {actions}
+                    </div>
+                  )}
+                </div>
+              </td>
+              <td
+                className={`py-3 text-right text-xl font-normal font-score neon-text ${
+                  entry.status === "approved" ? "" : "opacity-50"
+                } ${entry.status === "rejected" || entry.status === "voided" ? "line-through" : ""}`}
+                style={{ color: pointsColor }}
+              >
+                {entry.points >= 0 ? `+${entry.points}` : entry.points}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,303 @@
+"use client";
+
+/**
+ * Join Link Manager
+ *
+ * Lets commissioners share a Versus without typing everyone's email:
+ * - Create join links/codes, optionally expiring or limited to N uses
+ * - Choose instant join or commissioner approval per link
+ * - Copy or revoke links
+ * - Approve or reject people waiting to join
+ *
+ * Approving a request adds a player, so the parent reloads its roster
+ * through onPlayerAdded.
+ */
+
+import { useState } from "react";
+import { createJoinCode, decideJoinRequest, revokeJoinCode } from "@/app/actions/join";
+import {
+  JOIN_CODE_EXPIRY_OPTIONS,
+  JOIN_CODE_STATUS_LABELS,
+  formatJoinCode,
+  getJoinCodeStatus,
+  getJoinPath,
+} from "@/lib/join-code-utils";
+import type { JoinRequestWithPlayer, VersusJoinCode } from "@/types/database";
+
+interface JoinLinkManagerProps {
+  versusId: string;
+  initialCodes: VersusJoinCode[];
+  initialRequests: JoinRequestWithPlayer[];
+  onPlayerAdded: () => void;
+}
+
+export function JoinLinkManager({
+  versusId,
+  initialCodes,
+  initialRequests,
+  onPlayerAdded,
+}: JoinLinkManagerProps) {
+  const [codes, setCodes] = useState(initialCodes);
+  const [requests, setRequests] = useState(initialRequests);
+  const [requiresApproval, setRequiresApproval] = useState(false);
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [maxUses, setMaxUses] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const siteUrl =
+    process.env.NEXT_PUBLIC_SITE_URL || (typeof window !== "undefined" ? window.location.origin : "");
+  const getJoinUrl = (code: string) => `${siteUrl}${getJoinPath(code)}`;
+
+  // ============================================================================
+  // Handlers
+  // ============================================================================
+
+  const handleCreate = async () => {
+    const parsedMaxUses = maxUses.trim() ? parseInt(maxUses, 10) : null;
+    if (parsedMaxUses !== null && (isNaN(parsedMaxUses) || parsedMaxUses < 1 || parsedMaxUses > 100)) {
+      setError("Max uses must be between 1 and 100 (or blank for unlimited)");
+      return;
+    }
+
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+
+    const { data, error: createError } = await createJoinCode(versusId, {
+      requires_approval: requiresApproval,
+      expires_in_hours: JOIN_CODE_EXPIRY_OPTIONS[expiryIndex].hours,
+      max_uses: parsedMaxUses,
+    });
+
+    setBusy(false);
+    setNow(Date.now());
+
+    if (createError || !data) {
+      setError(createError?.message || "Failed to create a join link");
+      return;
+    }
+
+    setCodes([data, ...codes]);
+    setMaxUses("");
+  };
+
+  const handleCopy = async (code: string) => {
+    try {
+      await navigator.clipboard.writeText(getJoinUrl(code));
+      setNotice("Link copied");
+      setError(null);
+    } catch {
+      setError("Couldn't copy - select the link and copy it instead");
+    }
+  };
+
+  const handleRevoke = async (codeId: string) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+
+    const { error: revokeError } = await revokeJoinCode(codeId);
+
+    setBusy(false);
+
+    if (revokeError) {
+      setError(revokeError.message);
+      return;
+    }
+
+    setCodes(codes.filter((c) => c.id !== codeId));
+  };
+
+  const handleDecide = async (request: JoinRequestWithPlayer, approve: boolean) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+
+    const { error: decideError } = await decideJoinRequest(request.id, approve);
+
+    setBusy(false);
+
+    if (decideError) {
+      setError(decideError.message);
+      return;
+    }
+
+    setRequests(requests.filter((r) => r.id !== request.id));
+    setNotice(approve ? `${request.player_name} joined the Versus` : `Request from ${request.player_name} rejected`);
+
+    if (approve) {
+      onPlayerAdded();
+    }
+  };
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  return (
+    <section className="space-y-4 rounded-lg border border-primary/30 bg-card/50 p-4 panel-blur">
+      <div>
+        <h2 className="text-xl font-bold text-foreground font-display">Join Links</h2>
+        <p className="text-sm text-muted-foreground">
+          Share a link or code instead of adding everyone by email.
+        </p>
+      </div>
+
+      {/* Join requests */}
+      {requests.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium text-neon-orange">
+            Waiting to join ({requests.length})
+          </h3>
+          <ul className="divide-y divide-primary/10">
+            {requests.map((request) => (
+              <li key={request.id} className="flex items-center justify-between gap-3 py-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-foreground truncate">{request.player_name}</p>
+                  <p className="text-xs text-muted-foreground truncate">{request.player_email}</p>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <button
+                    type="button"
+                    onClick={() => handleDecide(request, false)}
+                    disabled={busy}
+                    className="rounded-lg px-3 py-2 text-sm text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-50"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDecide(request, true)}
+                    disabled={busy}
+                    className="rounded-lg bg-primary px-3 py-2 text-sm font-bold text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+                  >
+                    Approve
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Existing links */}
+      {codes.length > 0 && (
+        <ul className="space-y-3">
+          {codes.map((code) => {
+            const status = getJoinCodeStatus(code, now);
+
+            return (
+              <li key={code.id} className="rounded-lg border border-primary/20 bg-card/30 p-3">
+                <div className="flex items-center justify-between gap-3">
+                  <span className="font-mono text-lg tracking-widest text-primary">
+                    {formatJoinCode(code.code)}
+                  </span>
+                  {status !== "active" && (
+                    <span className="text-xs text-destructive">{JOIN_CODE_STATUS_LABELS[status]}</span>
+                  )}
+                </div>
+                <p className="mt-1 break-all text-xs text-muted-foreground">{getJoinUrl(code.code)}</p>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {code.requires_approval ? "Approval required" : "Instant join"}
+                  {" · "}
+                  {code.use_count}
+                  {code.max_uses !== null ? ` / ${code.max_uses}` : ""} used
+                  {" · "}
+                  {code.expires_at
+                    ? `Expires ${new Date(code.expires_at).toLocaleString()}`
+                    : "Never expires"}
+                </p>
+                <div className="mt-2 flex gap-1">
+                  <button
+                    type="button"
+                    onClick={() => handleCopy(code.code)}
+                    className="rounded-lg px-3 py-2 text-sm text-primary hover:bg-primary/10 transition-colors"
+                  >
+                    Copy Link
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(code.id)}
+                    disabled={busy}
+                    className="rounded-lg px-3 py-2 text-sm text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* New link */}
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-3">
+        <div>
+          <label htmlFor="join-mode" className="block text-xs font-medium text-muted-foreground mb-1">
+            Who gets in
+          </label>
+          <select
+            id="join-mode"
+            value={requiresApproval ? "approval" : "instant"}
+            onChange={(e) => setRequiresApproval(e.target.value === "approval")}
+            className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+          >
+            <option value="instant" className="bg-background">Anyone with the link</option>
+            <option value="approval" className="bg-background">Only people I approve</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="join-expiry" className="block text-xs font-medium text-muted-foreground mb-1">
+            Expires
+          </label>
+          <select
+            id="join-expiry"
+            value={expiryIndex}
+            onChange={(e) => setExpiryIndex(parseInt(e.target.value, 10))}
+            className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+          >
+            {JOIN_CODE_EXPIRY_OPTIONS.map((option, index) => (
+              <option key={option.label} value={index} className="bg-background">
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="join-max-uses" className="block text-xs font-medium text-muted-foreground mb-1">
+            Max uses
+          </label>
+          <input
+            id="join-max-uses"
+            type="number"
+            min={1}
+            max={100}
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            placeholder="Unlimited"
+            className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground placeholder-muted-foreground/50 focus:border-primary focus:ring-1 focus:ring-primary"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+      {notice && !error && <p className="text-sm text-neon-green">{notice}</p>}
+
+      <button
+        type="button"
+        onClick={handleCreate}
+        disabled={busy}
+        className="w-full rounded-lg bg-primary py-2 font-bold text-primary-foreground transition-all hover:bg-primary/90 disabled:opacity-50"
+      >
+        {busy ? "Working..." : "Create Join Link"}
+      </button>
+    </section>
+  );
+}
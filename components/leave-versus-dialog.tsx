@@ -0,0 +1,194 @@
+"use client";
+
+/**
+ * Leave Versus Dialog
+ *
+ * Confirms leaving a Versus:
+ * - Keep completions in the history, or remove them
+ * - The last commissioner picks who takes over before leaving
+ *
+ * Rendered only while open, so options load on mount. On success the
+ * player no longer has access, so it goes back to the home page.
+ */
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { getLeaveVersusOptions, leaveVersus } from "@/app/actions/membership";
+import { VERSUS_ROLE_LABELS } from "@/lib/role-utils";
+import type { LeaveVersusOptions } from "@/types/database";
+
+interface LeaveVersusDialogProps {
+  versusId: string;
+  versusName: string;
+  onClose: () => void;
+}
+
+export function LeaveVersusDialog({ versusId, versusName, onClose }: LeaveVersusDialogProps) {
+  const router = useRouter();
+  const [options, setOptions] = useState<LeaveVersusOptions | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [purgeCompletions, setPurgeCompletions] = useState(false);
+  const [successorId, setSuccessorId] = useState("");
+  const [isLeaving, setIsLeaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data, error: loadError } = await getLeaveVersusOptions(versusId);
+
+      if (loadError || !data) {
+        setError(loadError?.message || "Failed to load this Versus");
+      } else {
+        setOptions(data);
+      }
+
+      setLoading(false);
+    };
+
+    load();
+  }, [versusId]);
+
+  const handleLeave = async () => {
+    if (!options) return;
+
+    if (options.needs_successor && !successorId) {
+      setError("Choose who takes over as commissioner");
+      return;
+    }
+
+    setIsLeaving(true);
+    setError(null);
+
+    const { error: leaveError } = await leaveVersus(versusId, {
+      purge_completions: purgeCompletions,
+      successor_id: options.needs_successor ? successorId : null,
+    });
+
+    if (leaveError) {
+      setError(leaveError.message);
+      setIsLeaving(false);
+      return;
+    }
+
+    router.push("/");
+  };
+
+  const onlyMember = options !== null && options.members.length === 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <div className="mx-4 w-full max-w-sm rounded-lg border border-primary/30 bg-card p-6 shadow-lg">
+        <h2 className="text-lg font-bold text-foreground font-display">Leave {versusName}?</h2>
+
+        {loading ? (
+          <p className="mt-2 text-sm text-muted-foreground">Loading...</p>
+        ) : onlyMember ? (
+          <p className="mt-2 text-sm text-muted-foreground">
+            You&apos;re the only member of this Versus, so there&apos;s no one to leave it to.
+          </p>
+        ) : (
+          options && (
+            <div className="mt-2 space-y-4">
+              <p className="text-sm text-muted-foreground">
+                You&apos;ll lose access to this Versus. A commissioner can add you back later.
+              </p>
+
+              {/* Completions */}
+              {options.completion_count > 0 && (
+                <fieldset className="space-y-2">
+                  <legend className="text-sm font-medium text-foreground mb-1">
+                    Your {options.completion_count} completion{options.completion_count === 1 ? "" : "s"}
+                  </legend>
+                  <label className="flex items-start gap-2 text-sm text-foreground">
+                    <input
+                      type="radio"
+                      name="leave-completions"
+                      checked={!purgeCompletions}
+                      onChange={() => setPurgeCompletions(false)}
+                      className="mt-1 accent-primary"
+                    />
+                    <span>
+                      Keep them
+                      <span className="block text-xs text-muted-foreground">
+                        They stay in the history
+                      </span>
+                    </span>
+                  </label>
+                  <label className="flex items-start gap-2 text-sm text-foreground">
+                    <input
+                      type="radio"
+                      name="leave-completions"
+                      checked={purgeCompletions}
+                      onChange={() => setPurgeCompletions(true)}
+                      className="mt-1 accent-primary"
+                    />
+                    <span>
+                      Remove them
+                      <span className="block text-xs text-muted-foreground">
+                        Deleted from the history and the round scores
+                      </span>
+                    </span>
+                  </label>
+                </fieldset>
+              )}
+
+              {/* Successor */}
+              {options.needs_successor && (
+                <div>
+                  <label htmlFor="leave-successor" className="block text-sm font-medium text-foreground mb-1">
+                    New commissioner <span className="text-destructive">*</span>
+                  </label>
+                  <select
+                    id="leave-successor"
+                    value={successorId}
+                    onChange={(e) => setSuccessorId(e.target.value)}
+                    className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+                  >
+                    <option value="" className="bg-background">Choose a member...</option>
+                    {options.members.map((member) => (
+                      <option key={member.player_id} value={member.player_id} className="bg-background">
+                        {member.name} ({VERSUS_ROLE_LABELS[member.role]})
+                      </option>
+                    ))}
+                  </select>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    You&apos;re the last commissioner, so someone has to take over.
+                  </p>
+                </div>
+              )}
+            </div>
+          )
+        )}
+
+        {error && (
+          <p className="mt-2 text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={onClose}
+            disabled={isLeaving}
+            className="flex-1 rounded-lg border border-primary/30 py-2 text-foreground hover:bg-card/50 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleLeave}
+            disabled={
+              isLeaving ||
+              loading ||
+              !options ||
+              onlyMember ||
+              (options.needs_successor && !successorId)
+            }
+            className="flex-1 rounded-lg bg-destructive py-2 text-white hover:bg-destructive/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isLeaving ? "Leaving..." : "Leave"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import Link from "next/link";
-import { Home, Plus } from "lucide-react";
+import { Home, Plus, User } from "lucide-react";
 import { LogoutButton } from "./logout-button";
 
 export function Navigation() {
@@ -26,14 +26,24 @@ export function Navigation() {
           WhoVersus
         </Link>
 
-        {/* Plus Button */}
-        <Link
-          href="/create"
-          className="flex items-center justify-center rounded-lg p-2 text-primary transition-all hover:bg-primary/10 hover:neon-glow-subtle"
-          aria-label="Create new versus"
-        >
-          <Plus className="h-6 w-6" />
-        </Link>
+        {/* Right Side - Profile & Create */}
+        <div className="flex items-center gap-2">
+          <Link
+            href="/profile"
+            className="flex items-center justify-center rounded-lg p-2 text-primary transition-all hover:bg-primary/10 hover:neon-glow-subtle"
+            aria-label="Your profile"
+            title="Profile"
+          >
+            <User className="h-5 w-5" />
+          </Link>
+          <Link
+            href="/create"
+            className="flex items-center justify-center rounded-lg p-2 text-primary transition-all hover:bg-primary/10 hover:neon-glow-subtle"
+            aria-label="Create new versus"
+          >
+            <Plus className="h-6 w-6" />
+          </Link>
+        </div>
       </div>
     </nav>
   );
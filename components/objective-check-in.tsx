@@ -0,0 +1,551 @@
+"use client";
+
+/**
+ * Objective Check-In Panel ("Log it")
+ *
+ * Lets a player log a completion from the Versus page.
+ * Lists every objective with its point value and how many times the
+ * current player has completed it.
+ *
+ * Key Features:
+ * - Positive objectives styled green, negative (penalty) objectives styled pink
+ * - One tap opens a confirmation dialog before anything is saved
+ * - Shows each objective's remaining allowance and cooldown; objectives
+ *   that hit a limit are disabled (the server enforces the same rules)
+ * - First-to-claim / podium objectives show who has claimed them
+ * - Quantity-based objectives ask for an amount and preview the points
+ * - A photo can be attached as proof (required when the objective says so)
+ * - Players can backdate within the versus' backfill window
+ * - Commissioners can log for another player, backdate it and add a note
+ * - Calls onLogged() after a successful completion so the page can refresh
+ *   the YOU score/rank cards and the scoreboard
+ */
+
+import { useEffect, useState } from "react";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import { completeObjective, uploadCompletionProof } from "@/app/actions/completions";
+import { describeObjectiveLimits } from "@/lib/objective-limits";
+import { getProofFileError, PROOF_CONTENT_TYPES } from "@/lib/proof-utils";
+import { getEarliestBackfillTime } from "@/lib/completion-utils";
+import { formatCountdown, fromDateTimeLocalValue, toDateTimeLocalValue } from "@/lib/season-utils";
+import {
+  formatClaimRank,
+  formatRate,
+  getClaimSlots,
+  getCompletionPoints,
+  isQuantityObjective,
+} from "@/lib/scoring";
+import type { ObjectiveWithStatus } from "@/types/database";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Component props
+ * - versusId: The Versus the completions are logged against
+ * - playerId: The current player
+ * - objectives: Objectives with the current player's completion status
+ * - closedMessage: When set, check-in is closed (e.g. outside the season window)
+ * - maxBackfillHours: How far back players can date a completion (0 = always now)
+ * - seasonStartsAt: Backdated completions can't be earlier than the season start
+ * - isCommissioner: Shows the "Logging for" picker, date and note fields
+ * - players: Players a commissioner can log for
+ * - onLogged: Called after a completion is saved
+ */
+interface ObjectiveCheckInProps {
+  versusId: string;
+  playerId: string;
+  objectives: ObjectiveWithStatus[];
+  closedMessage?: string | null;
+  maxBackfillHours?: number;
+  seasonStartsAt?: string | null;
+  isCommissioner?: boolean;
+  players?: { id: string; name: string }[];
+  onLogged: () => void | Promise<void>;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function ObjectiveCheckIn({
+  versusId,
+  playerId,
+  objectives,
+  closedMessage = null,
+  maxBackfillHours = 0,
+  seasonStartsAt = null,
+  isCommissioner = false,
+  players = [],
+  onLogged,
+}: ObjectiveCheckInProps) {
+  const [open, setOpen] = useState(true);
+
+  // Commissioners can log for someone else (objective status is only known
+  // for the current player, so the server checks limits for others)
+  const [targetPlayerId, setTargetPlayerId] = useState(playerId);
+  const isForSelf = targetPlayerId === playerId;
+  const targetName = players.find((p) => p.id === targetPlayerId)?.name ?? "";
+
+  // Objective waiting for confirmation (null = dialog closed)
+  const [confirmObjective, setConfirmObjective] = useState<ObjectiveWithStatus | null>(null);
+  const [quantity, setQuantity] = useState("");
+  const [proofFile, setProofFile] = useState<File | null>(null);
+  const [completedAt, setCompletedAt] = useState("");
+  const [note, setNote] = useState("");
+  const [isLogging, setIsLogging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // Tick every 30 seconds so cooldowns count down and re-enable objectives
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // ============================================================================
+  // Handlers
+  // ============================================================================
+
+  /**
+   * Open the confirmation dialog for an objective
+   */
+  const handleSelect = (objective: ObjectiveWithStatus) => {
+    setError(null);
+    setSuccessMessage(null);
+    setQuantity("");
+    setProofFile(null);
+    setCompletedAt("");
+    setNote("");
+    setConfirmObjective(objective);
+  };
+
+  /**
+   * Save the completion and let the page refresh its scores
+   */
+  const handleConfirm = async () => {
+    if (!confirmObjective) return;
+
+    const needsQuantity = isQuantityObjective(confirmObjective);
+    const parsedQuantity = parseFloat(quantity);
+    if (needsQuantity && !(parsedQuantity > 0)) {
+      setError(
+        isForSelf
+          ? `Enter how much you did (${confirmObjective.unit})`
+          : `Enter how much ${targetName} did (${confirmObjective.unit})`
+      );
+      return;
+    }
+
+    if (confirmObjective.requires_proof && !proofFile) {
+      setError("Attach a photo as proof");
+      return;
+    }
+
+    const proofError = proofFile && getProofFileError(proofFile);
+    if (proofError) {
+      setError(proofError);
+      return;
+    }
+
+    setIsLogging(true);
+    setError(null);
+
+    try {
+      // Upload the photo first so the completion can point at it
+      let proofPath: string | null = null;
+      if (proofFile) {
+        const formData = new FormData();
+        formData.append("versus_id", versusId);
+        formData.append("file", proofFile);
+
+        const upload = await uploadCompletionProof(formData);
+        if (upload.error || !upload.data) {
+          setError(upload.error?.message || "Failed to upload proof");
+          return;
+        }
+        proofPath = upload.data.path;
+      }
+
+      const result = await completeObjective({
+        versus_id: versusId,
+        player_id: targetPlayerId,
+        objective_id: confirmObjective.id,
+        quantity: needsQuantity ? parsedQuantity : null,
+        proof_path: proofPath,
+        completed_at: fromDateTimeLocalValue(completedAt) ?? undefined,
+        ...(isCommissioner && { note: note.trim() || null }),
+      });
+
+      if (result.error) {
+        setError(result.error.message);
+        return;
+      }
+
+      setSuccessMessage(
+        result.data?.status === "pending"
+          ? `Logged "${confirmObjective.title}" - waiting for commissioner approval`
+          : isForSelf
+            ? `Logged "${confirmObjective.title}"`
+            : `Logged "${confirmObjective.title}" for ${targetName}`
+      );
+      setConfirmObjective(null);
+      await onLogged();
+    } catch (err) {
+      console.error("Error logging completion:", err);
+      setError("Failed to log completion. Please try again.");
+    } finally {
+      setIsLogging(false);
+    }
+  };
+
+  // ============================================================================
+  // Render Helpers
+  // ============================================================================
+
+  /**
+   * Format points with a sign prefix (+10 / -5)
+   */
+  const formatPoints = (points: number): string => {
+    return points >= 0 ? `+${points}` : `${points}`;
+  };
+
+  /**
+   * Points the current player would earn by logging an objective now
+   * For podium objectives that's the next free place
+   */
+  const getNextPoints = (objective: ObjectiveWithStatus): number => {
+    if (isQuantityObjective(objective)) return objective.points_per_unit ?? 0;
+    if (objective.claim_mode !== "podium") return objective.points;
+
+    const slots = getClaimSlots(objective);
+    for (let rank = 1; rank <= slots; rank++) {
+      if (!objective.claims.some((c) => c.claim_rank === rank)) {
+        return getCompletionPoints(objective, { claim_rank: rank });
+      }
+    }
+    return 0;
+  };
+
+  /**
+   * "Claimed by Sam" / "1st: Sam · 2nd: Alex"
+   */
+  const getClaimsLine = (objective: ObjectiveWithStatus): string | null => {
+    if (objective.claims.length === 0) return null;
+
+    if (objective.claim_mode === "single") {
+      return `Claimed by ${objective.claims[0].player_name}`;
+    }
+    return objective.claims
+      .map((c) => `${formatClaimRank(c.claim_rank)}: ${c.player_name}`)
+      .join(" · ");
+  };
+
+  /**
+   * Milliseconds until an objective's cooldown ends (0 = available now)
+   */
+  const getCooldownRemaining = (objective: ObjectiveWithStatus): number => {
+    if (!objective.available_at) return 0;
+    return Math.max(0, new Date(objective.available_at).getTime() - now);
+  };
+
+  /**
+   * Status line under each objective: completions, allowance and limits
+   */
+  const getStatusLine = (objective: ObjectiveWithStatus): string => {
+    const parts = [
+      objective.completed_by_user
+        ? `Completed ${objective.completion_count}×`
+        : "Not completed yet",
+    ];
+
+    const cooldownRemaining = getCooldownRemaining(objective);
+    const claimSlots = getClaimSlots(objective);
+    if (claimSlots > 0 && objective.remaining === 0) {
+      parts.push(
+        objective.claims.some((c) => c.player_id === playerId)
+          ? "You claimed this"
+          : "Fully claimed"
+      );
+    } else if (objective.remaining === 0) {
+      parts.push("Limit reached");
+    } else if (cooldownRemaining > 0) {
+      parts.push(`Available in ${formatCountdown(cooldownRemaining)}`);
+    } else if (objective.remaining !== null) {
+      parts.push(`${objective.remaining} left`);
+    }
+
+    const limits = describeObjectiveLimits(objective);
+    if (limits) {
+      parts.push(limits);
+    }
+
+    return parts.join(" · ");
+  };
+
+  // Commissioners can backdate freely; players only within the backfill window
+  const canBackdate = isCommissioner || maxBackfillHours > 0;
+  const backfillMin = isCommissioner
+    ? toDateTimeLocalValue(seasonStartsAt)
+    : toDateTimeLocalValue(
+        new Date(getEarliestBackfillTime(maxBackfillHours, seasonStartsAt, now)).toISOString()
+      );
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  return (
+    <div className="overflow-hidden rounded-lg border border-primary/30 bg-card/50 panel-blur">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex w-full items-center justify-between p-4 transition-colors hover:bg-muted/20"
+      >
+        <h2 className="text-xl font-bold text-foreground font-display">
+          Log it
+        </h2>
+        <div className="rounded-full bg-muted p-1.5">
+          {open ? (
+            <ChevronUp className="h-4 w-4 text-primary" />
+          ) : (
+            <ChevronDown className="h-4 w-4 text-primary" />
+          )}
+        </div>
+      </button>
+
+      {open && (
+        <div className="border-t border-primary/30 p-4 space-y-3">
+          {/* Success / error feedback */}
+          {successMessage && (
+            <div className="rounded-lg border border-neon-green/30 bg-neon-green/5 p-3">
+              <p className="text-sm text-neon-green">✓ {successMessage}</p>
+            </div>
+          )}
+          {error && !confirmObjective && (
+            <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3">
+              <p className="text-sm text-destructive">{error}</p>
+            </div>
+          )}
+
+          {closedMessage && (
+            <div className="rounded-lg border border-primary/30 bg-muted/20 p-3">
+              <p className="text-sm text-muted-foreground">{closedMessage}</p>
+            </div>
+          )}
+
+          {isCommissioner && players.length > 1 && (
+            <div>
+              <label
+                htmlFor="check-in-player"
+                className="block text-sm font-medium text-foreground mb-1"
+              >
+                Logging for
+              </label>
+              <select
+                id="check-in-player"
+                value={targetPlayerId}
+                onChange={(e) => setTargetPlayerId(e.target.value)}
+                disabled={isLogging}
+                className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+              >
+                {players.map((player) => (
+                  <option key={player.id} value={player.id}>
+                    {player.id === playerId ? `${player.name} (you)` : player.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {objectives.length === 0 ? (
+            <p className="py-4 text-center text-muted-foreground">
+              No objectives yet
+            </p>
+          ) : (
+            objectives.map((objective) => {
+              const nextPoints = getNextPoints(objective);
+              const isPositive = nextPoints >= 0;
+              const claimsLine = getClaimsLine(objective);
+              const isLimited =
+                isForSelf &&
+                (objective.remaining === 0 || getCooldownRemaining(objective) > 0);
+
+              return (
+                <button
+                  key={objective.id}
+                  onClick={() => handleSelect(objective)}
+                  disabled={isLogging || Boolean(closedMessage) || isLimited}
+                  className={`flex w-full items-center justify-between gap-4 rounded-lg border p-4 text-left transition-colors disabled:opacity-50 ${
+                    isPositive
+                      ? "border-neon-green/30 hover:bg-neon-green/5"
+                      : "border-neon-pink/30 hover:bg-neon-pink/5"
+                  }`}
+                >
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-medium text-foreground truncate">
+                      {objective.title}
+                    </h3>
+                    {objective.description && (
+                      <p className="text-sm text-muted-foreground truncate mt-1">
+                        {objective.description}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {getStatusLine(objective)}
+                      {objective.requires_proof && " · Photo proof required"}
+                    </p>
+                    {claimsLine && (
+                      <p className="text-xs text-primary mt-1 truncate">
+                        {claimsLine}
+                      </p>
+                    )}
+                  </div>
+                  <span
+                    className={`text-2xl font-normal font-score neon-text ${
+                      isPositive ? "text-neon-green" : "text-neon-pink"
+                    }`}
+                  >
+                    {isQuantityObjective(objective)
+                      ? formatRate(objective)
+                      : formatPoints(nextPoints)}
+                  </span>
+                </button>
+              );
+            })
+          )}
+        </div>
+      )}
+
+      {/* Confirmation Dialog */}
+      {confirmObjective && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <div className="mx-4 w-full max-w-sm rounded-lg border border-primary/30 bg-card p-6 shadow-lg">
+            <h2 className="text-lg font-bold text-foreground font-display">
+              {isForSelf ? "Log Completion?" : `Log for ${targetName}?`}
+            </h2>
+            {isQuantityObjective(confirmObjective) ? (
+              <div className="mt-2 space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  {confirmObjective.title} ({formatRate(confirmObjective)})
+                </p>
+                <label
+                  htmlFor="check-in-quantity"
+                  className="block text-sm font-medium text-foreground"
+                >
+                  How many {confirmObjective.unit}s?
+                </label>
+                <input
+                  id="check-in-quantity"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  autoFocus
+                  className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+                {parseFloat(quantity) > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    = {formatPoints(getCompletionPoints(confirmObjective, { quantity: parseFloat(quantity) }))} points
+                  </p>
+                )}
+              </div>
+            ) : (
+              <p className="mt-2 text-sm text-muted-foreground">
+                {confirmObjective.title} ({formatPoints(getNextPoints(confirmObjective))} points)
+              </p>
+            )}
+            <div className="mt-4">
+              <label
+                htmlFor="check-in-proof"
+                className="block text-sm font-medium text-foreground mb-1"
+              >
+                Photo proof{" "}
+                <span className="text-muted-foreground">
+                  {confirmObjective.requires_proof ? "(required)" : "(optional)"}
+                </span>
+              </label>
+              <input
+                id="check-in-proof"
+                type="file"
+                accept={Object.keys(PROOF_CONTENT_TYPES).join(",")}
+                onChange={(e) => setProofFile(e.target.files?.[0] ?? null)}
+                className="w-full text-sm text-muted-foreground file:mr-3 file:rounded-lg file:border file:border-primary/30 file:bg-card/50 file:px-3 file:py-1.5 file:text-foreground"
+              />
+            </div>
+            {canBackdate && (
+              <div className="mt-4">
+                <label
+                  htmlFor="check-in-completed-at"
+                  className="block text-sm font-medium text-foreground mb-1"
+                >
+                  When <span className="text-muted-foreground">(leave blank for now)</span>
+                </label>
+                <input
+                  id="check-in-completed-at"
+                  type="datetime-local"
+                  value={completedAt}
+                  min={backfillMin}
+                  max={toDateTimeLocalValue(new Date(now).toISOString())}
+                  onChange={(e) => setCompletedAt(e.target.value)}
+                  className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+                />
+                {!isCommissioner && (
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Forgot to log it? You can go back up to {maxBackfillHours} hours.
+                  </p>
+                )}
+              </div>
+            )}
+            {isCommissioner && (
+              <div className="mt-4">
+                <label
+                  htmlFor="check-in-note"
+                  className="block text-sm font-medium text-foreground mb-1"
+                >
+                  Note <span className="text-muted-foreground">(optional)</span>
+                </label>
+                <textarea
+                  id="check-in-note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={2}
+                  maxLength={500}
+                  placeholder="e.g. Logged from the scorecard"
+                  className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground placeholder-muted-foreground focus:border-primary focus:ring-1 focus:ring-primary resize-none"
+                />
+              </div>
+            )}
+            {error && (
+              <p className="mt-2 text-sm text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+            <div className="mt-6 flex gap-3">
+              <button
+                onClick={() => {
+                  setConfirmObjective(null);
+                  setError(null);
+                }}
+                disabled={isLogging}
+                className="flex-1 rounded-lg border border-primary/30 py-2 text-foreground hover:bg-card/50 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={isLogging}
+                className="flex-1 rounded-lg bg-primary py-2 font-medium text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isLogging ? "Logging..." : "Log it"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+/**
+ * Pending Invitations
+ *
+ * Lists email invitations that haven't been accepted yet, for commissioners
+ * on the players page:
+ * - Resend the signup link (e.g. it went to spam)
+ * - Revoke the invitation, freeing its roster slot
+ *
+ * Each pending invitation counts toward the player limit, so the parent
+ * keeps the list and gets the updated one through onChange.
+ */
+
+import { useState } from "react";
+import { resendInvitation, revokeInvitation } from "@/app/actions/invitations";
+import { VERSUS_ROLE_LABELS } from "@/lib/role-utils";
+import type { VersusInvitation } from "@/types/database";
+
+interface PendingInvitationsProps {
+  invitations: VersusInvitation[];
+  onChange: (invitations: VersusInvitation[]) => void;
+}
+
+export function PendingInvitations({ invitations, onChange }: PendingInvitationsProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [confirmRevokeId, setConfirmRevokeId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleResend = async (invitation: VersusInvitation) => {
+    setBusyId(invitation.id);
+    setError(null);
+    setNotice(null);
+
+    const { data, error: resendError } = await resendInvitation(invitation.id);
+
+    setBusyId(null);
+
+    if (resendError || !data) {
+      setError(resendError?.message || "Failed to resend the invitation");
+      return;
+    }
+
+    onChange(invitations.map((i) => (i.id === data.id ? data : i)));
+    setNotice(`Invitation resent to ${invitation.email}`);
+  };
+
+  const handleRevoke = async (invitation: VersusInvitation) => {
+    setConfirmRevokeId(null);
+    setBusyId(invitation.id);
+    setError(null);
+    setNotice(null);
+
+    const { error: revokeError } = await revokeInvitation(invitation.id);
+
+    setBusyId(null);
+
+    if (revokeError) {
+      setError(revokeError.message);
+      return;
+    }
+
+    onChange(invitations.filter((i) => i.id !== invitation.id));
+    setNotice(`Invitation for ${invitation.email} revoked`);
+  };
+
+  if (invitations.length === 0 && !notice) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4 rounded-lg border border-primary/30 bg-card/50 p-4 panel-blur">
+      <div>
+        <h2 className="text-xl font-bold text-foreground font-display">Pending Invitations</h2>
+        <p className="text-sm text-muted-foreground">
+          These people haven&apos;t signed up yet. They join automatically once they do.
+        </p>
+      </div>
+
+      {invitations.length > 0 ? (
+        <ul className="divide-y divide-primary/10">
+          {invitations.map((invitation) => (
+            <li key={invitation.id} className="flex items-center justify-between gap-3 py-2">
+              <div className="min-w-0">
+                <p className="text-sm text-foreground truncate">
+                  {invitation.email}
+                  {invitation.nickname && (
+                    <span className="text-muted-foreground"> ({invitation.nickname})</span>
+                  )}
+                  {invitation.role !== "participant" && (
+                    <span className="ml-2 text-xs text-neon-orange">
+                      {VERSUS_ROLE_LABELS[invitation.role]}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Sent {new Date(invitation.last_sent_at).toLocaleString()}
+                  {invitation.send_count > 1 && ` (${invitation.send_count} times)`}
+                </p>
+              </div>
+              {confirmRevokeId === invitation.id ? (
+                <div className="flex shrink-0 items-center gap-1">
+                  <span className="text-xs text-muted-foreground">Revoke?</span>
+                  <button
+                    type="button"
+                    onClick={() => setConfirmRevokeId(null)}
+                    className="rounded-lg px-3 py-2 text-sm text-foreground hover:bg-card/50 transition-colors"
+                  >
+                    Keep
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleRevoke(invitation)}
+                    className="rounded-lg bg-destructive px-3 py-2 text-sm text-white hover:bg-destructive/90 transition-colors"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              ) : (
+                <div className="flex shrink-0 gap-1">
+                  <button
+                    type="button"
+                    onClick={() => handleResend(invitation)}
+                    disabled={busyId === invitation.id}
+                    className="rounded-lg px-3 py-2 text-sm text-primary hover:bg-primary/10 transition-colors disabled:opacity-50"
+                  >
+                    Resend
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setConfirmRevokeId(invitation.id)}
+                    disabled={busyId === invitation.id}
+                    className="rounded-lg px-3 py-2 text-sm text-destructive hover:bg-destructive/10 transition-colors disabled:opacity-50"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No pending invitations</p>
+      )}
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+      {notice && !error && <p className="text-sm text-neon-green">{notice}</p>}
+    </section>
+  );
+}
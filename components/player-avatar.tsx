@@ -0,0 +1,38 @@
+import Image from "next/image";
+import { getInitials } from "@/lib/avatar-utils";
+
+interface PlayerAvatarProps {
+  name: string;
+  avatarUrl: string | null;
+  size?: number;
+}
+
+/**
+ * Player avatar, or their initials when they haven't uploaded one
+ */
+export function PlayerAvatar({ name, avatarUrl, size = 64 }: PlayerAvatarProps) {
+  if (avatarUrl) {
+    return (
+      // Avatars are private, so they skip the image optimizer
+      <Image
+        src={avatarUrl}
+        alt={name}
+        width={size}
+        height={size}
+        unoptimized
+        className="shrink-0 rounded-full border border-primary/30 object-cover"
+        style={{ width: size, height: size }}
+      />
+    );
+  }
+
+  return (
+    <span
+      aria-hidden="true"
+      className="flex shrink-0 items-center justify-center rounded-full border border-primary/30 bg-primary/10 font-bold text-primary font-display"
+      style={{ width: size, height: size, fontSize: size * 0.4 }}
+    >
+      {getInitials(name)}
+    </span>
+  );
+}
@@ -0,0 +1,246 @@
+"use client";
+
+/**
+ * Player CSV Import
+ *
+ * Adds many players at once from a CSV of email and optional nickname:
+ * 1. Upload the file
+ * 2. Each row is checked with validatePlayerEmail
+ * 3. Review the report: matched, unmatched (no account) and invalid rows
+ * 4. Add the matched players, and optionally invite the unmatched emails
+ *
+ * Rows past the player limit are reported and left out. Used by
+ * VersusWizardStep2, so it works in the create wizard and on the players page.
+ */
+
+import { useState } from "react";
+import { validatePlayerEmail } from "@/app/actions/players";
+import {
+  CSV_IMPORT_STATUS_LABELS,
+  MAX_CSV_BYTES,
+  parsePlayerCsv,
+  type CsvImportResult,
+} from "@/lib/csv-import";
+
+interface PlayerCsvImportProps {
+  /** Emails already in the player list (lowercased) */
+  existingEmails: string[];
+  /** How many more players fit */
+  slotsLeft: number;
+  maxPlayers: number;
+  onImport: (rows: CsvImportResult[]) => void;
+}
+
+export function PlayerCsvImport({
+  existingEmails,
+  slotsLeft,
+  maxPlayers,
+  onImport,
+}: PlayerCsvImportProps) {
+  const [results, setResults] = useState<CsvImportResult[] | null>(null);
+  const [inviteUnmatched, setInviteUnmatched] = useState(true);
+  const [checked, setChecked] = useState(0);
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // ============================================================================
+  // Handlers
+  // ============================================================================
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    setError(null);
+    setResults(null);
+
+    if (file.size > MAX_CSV_BYTES) {
+      setError("That file is too large for a player list");
+      return;
+    }
+
+    const rows = parsePlayerCsv(await file.text());
+    if (rows.length === 0) {
+      setError("No players found in that file");
+      return;
+    }
+
+    setChecking(true);
+    setChecked(0);
+
+    const seen = new Set(existingEmails);
+    const checkedRows: CsvImportResult[] = [];
+
+    // One at a time, so a large file doesn't flood the server
+    for (const row of rows) {
+      const email = row.email.toLowerCase();
+      const result: CsvImportResult = {
+        ...row,
+        email,
+        status: "invalid",
+        player_id: "",
+        display_name: "",
+        reason: null,
+      };
+
+      if (!email) {
+        result.reason = "Missing email";
+      } else if (seen.has(email)) {
+        result.reason = existingEmails.includes(email) ? "Already in this Versus" : "Duplicate in file";
+      } else {
+        seen.add(email);
+
+        try {
+          const { data: found, error: lookupError } = await validatePlayerEmail(email);
+
+          if (lookupError) {
+            result.reason = lookupError.message;
+          } else if (found) {
+            result.status = "matched";
+            result.player_id = found.id;
+            result.display_name = found.display_name || found.email.split("@")[0];
+          } else {
+            result.status = "unmatched";
+          }
+        } catch {
+          result.reason = "Failed to validate email";
+        }
+      }
+
+      checkedRows.push(result);
+      setChecked(checkedRows.length);
+    }
+
+    setChecking(false);
+    setResults(checkedRows);
+  };
+
+  // Rows that would be added, in file order, and those past the limit
+  const addable = (results || []).filter(
+    (r) => r.status === "matched" || (inviteUnmatched && r.status === "unmatched")
+  );
+  const toAdd = addable.slice(0, Math.max(0, slotsLeft));
+  const overLimit = new Set(addable.slice(toAdd.length).map((r) => r.line));
+
+  const countByStatus = (status: CsvImportResult["status"]) =>
+    (results || []).filter((r) => r.status === status).length;
+
+  const handleAdd = () => {
+    onImport(toAdd);
+    setResults(null);
+  };
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  return (
+    <div className="space-y-3 rounded-lg border border-primary/20 bg-card/30 p-4">
+      <div>
+        <label htmlFor="player-csv" className="block text-sm font-medium text-foreground">
+          Import from CSV
+        </label>
+        <p className="text-xs text-muted-foreground">
+          One player per line: email, then an optional nickname.
+        </p>
+      </div>
+
+      <input
+        id="player-csv"
+        type="file"
+        accept=".csv,text/csv,text/plain"
+        disabled={checking}
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = "";
+        }}
+        className="block w-full text-sm text-muted-foreground file:mr-3 file:rounded-lg file:border file:border-primary/30 file:bg-card/50 file:px-3 file:py-2 file:text-sm file:text-primary hover:file:bg-primary/10 disabled:opacity-50"
+      />
+
+      {checking && <p className="text-sm text-muted-foreground">Checking {checked} players...</p>}
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {results && (
+        <div className="space-y-3">
+          {/* Summary */}
+          <p className="text-sm text-foreground">
+            <span className="text-neon-green">{countByStatus("matched")} matched</span>
+            {" · "}
+            <span className="text-neon-blue">{countByStatus("unmatched")} without an account</span>
+            {" · "}
+            <span className="text-destructive">{countByStatus("invalid")} invalid</span>
+          </p>
+
+          {/* Per-row report */}
+          <ul className="max-h-60 divide-y divide-primary/10 overflow-y-auto">
+            {results.map((row) => (
+              <li key={row.line} className="flex items-center justify-between gap-3 py-2 text-sm">
+                <div className="min-w-0">
+                  <p className="truncate text-foreground">{row.email || `Line ${row.line}`}</p>
+                  <p className="truncate text-xs text-muted-foreground">
+                    {row.reason ||
+                      (overLimit.has(row.line)
+                        ? `Over the ${maxPlayers}-player limit`
+                        : row.nickname || row.display_name || `Line ${row.line}`)}
+                  </p>
+                </div>
+                <span
+                  className={`shrink-0 text-xs ${
+                    row.status === "matched"
+                      ? "text-neon-green"
+                      : row.status === "unmatched"
+                        ? "text-neon-blue"
+                        : "text-destructive"
+                  }`}
+                >
+                  {CSV_IMPORT_STATUS_LABELS[row.status]}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {countByStatus("unmatched") > 0 && (
+            <label className="flex items-center gap-2 text-sm text-foreground">
+              <input
+                type="checkbox"
+                checked={inviteUnmatched}
+                onChange={(e) => setInviteUnmatched(e.target.checked)}
+                className="accent-primary"
+              />
+              Invite emails without an account
+            </label>
+          )}
+
+          {overLimit.size > 0 && (
+            <p className="text-xs text-neon-orange">
+              Only {Math.max(0, slotsLeft)} more player{slotsLeft === 1 ? "" : "s"} fit, so {overLimit.size}{" "}
+              {overLimit.size === 1 ? "row is" : "rows are"} left out.
+            </p>
+          )}
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => setResults(null)}
+              className="flex-1 rounded-lg border border-primary/30 py-2 text-sm text-foreground hover:bg-card/50 transition-colors"
+            >
+              Discard
+            </button>
+            <button
+              type="button"
+              onClick={handleAdd}
+              disabled={toAdd.length === 0}
+              className="flex-1 rounded-lg bg-primary py-2 text-sm font-bold text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add {toAdd.length} Player{toAdd.length === 1 ? "" : "s"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+"use client";
+
+/**
+ * Player Search
+ *
+ * Finds people to add by name instead of typing their email. Results come
+ * from searchPlayers(): people you already play with, plus players who made
+ * themselves discoverable (shown without an email).
+ *
+ * Used by VersusWizardStep2 next to the email rows.
+ */
+
+import { useEffect, useState } from "react";
+import { searchPlayers } from "@/app/actions/players";
+import type { PlayerSearchResult } from "@/types/database";
+
+interface PlayerSearchProps {
+  /** Players already in the list, left out of the results */
+  excludeIds: string[];
+  onSelect: (player: PlayerSearchResult) => void;
+}
+
+export function PlayerSearch({ excludeIds, onSelect }: PlayerSearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<PlayerSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Search a moment after typing stops
+  useEffect(() => {
+    if (query.trim().length < 2) return;
+
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      const { data, error: searchError } = await searchPlayers(query);
+      setSearching(false);
+
+      if (searchError) {
+        setError(searchError.message);
+        setResults([]);
+        return;
+      }
+
+      setError(null);
+      setResults(data || []);
+    }, 300);
+
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const shown = query.trim().length < 2 ? [] : results.filter((r) => !excludeIds.includes(r.id));
+
+  return (
+    <div className="space-y-2 rounded-lg border border-primary/20 bg-card/30 p-4">
+      <label htmlFor="player-search" className="block text-sm font-medium text-foreground">
+        Find a player
+      </label>
+      <input
+        id="player-search"
+        type="search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={(e) => {
+          // Don't submit the players form
+          if (e.key === "Enter") e.preventDefault();
+        }}
+        autoComplete="off"
+        placeholder="Search people you've played with by name"
+        className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground placeholder-muted-foreground/50 focus:border-primary focus:ring-1 focus:ring-primary"
+      />
+      <p className="text-xs text-muted-foreground">
+        Players you haven&apos;t played with only show up if they&apos;ve made themselves discoverable.
+      </p>
+
+      {searching && <p className="text-xs text-muted-foreground">Searching...</p>}
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+
+      {!searching && query.trim().length >= 2 && shown.length === 0 && !error && (
+        <p className="text-sm text-muted-foreground">No players found</p>
+      )}
+
+      {shown.length > 0 && (
+        <ul className="divide-y divide-primary/10">
+          {shown.map((player) => (
+            <li key={player.id} className="flex items-center justify-between gap-3 py-2">
+              <div className="min-w-0">
+                <p className="truncate text-sm text-foreground">
+                  {player.display_name || player.email?.split("@")[0] || "Player"}
+                </p>
+                <p className="truncate text-xs text-muted-foreground">
+                  {player.plays_with_you ? player.email : "Discoverable player"}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={() => {
+                  onSelect(player);
+                  setQuery("");
+                  setResults([]);
+                }}
+                className="shrink-0 rounded-lg px-3 py-2 text-sm text-primary hover:bg-primary/10 transition-colors"
+              >
+                Add
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+/**
+ * Save Template Dialog
+ *
+ * Saves a Versus' settings and objectives as a named template, which can
+ * start a new Versus from Step 1 of the create wizard. Templates are
+ * private to the player who saves them.
+ */
+
+import { useState } from "react";
+import { saveVersusAsTemplate } from "@/app/actions/templates";
+import { TEMPLATE_NAME_MAX_LENGTH } from "@/lib/versus-templates";
+
+interface SaveTemplateDialogProps {
+  versusId: string;
+  versusName: string;
+  onClose: () => void;
+}
+
+export function SaveTemplateDialog({ versusId, versusName, onClose }: SaveTemplateDialogProps) {
+  const [name, setName] = useState(versusName.slice(0, TEMPLATE_NAME_MAX_LENGTH));
+  const [isSaving, setIsSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+
+    const { error: saveError } = await saveVersusAsTemplate(versusId, name);
+
+    setIsSaving(false);
+
+    if (saveError) {
+      setError(saveError.message);
+      return;
+    }
+
+    setSaved(true);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-background/80 backdrop-blur-sm">
+      <div className="mx-4 w-full max-w-sm rounded-lg border border-primary/30 bg-card p-6 shadow-lg">
+        <h2 className="text-lg font-bold text-foreground font-display">Save as Template</h2>
+
+        {saved ? (
+          <p className="mt-2 text-sm text-neon-green">
+            Saved. Pick &quot;{name.trim()}&quot; at the top of Step 1 when you create a Versus.
+          </p>
+        ) : (
+          <>
+            <p className="mt-2 text-sm text-muted-foreground">
+              Keeps this Versus&apos; settings and objectives (not its players or season dates).
+            </p>
+            <label htmlFor="template-name" className="mt-4 block text-sm font-medium text-foreground mb-1">
+              Template name
+            </label>
+            <input
+              id="template-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={TEMPLATE_NAME_MAX_LENGTH}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+            />
+          </>
+        )}
+
+        {error && (
+          <p className="mt-2 text-sm text-destructive" role="alert">
+            {error}
+          </p>
+        )}
+
+        <div className="mt-6 flex gap-3">
+          {saved ? (
+            <button
+              onClick={onClose}
+              className="flex-1 rounded-lg bg-primary py-2 font-bold text-primary-foreground hover:bg-primary/90 transition-colors"
+            >
+              Done
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={onClose}
+                disabled={isSaving}
+                className="flex-1 rounded-lg border border-primary/30 py-2 text-foreground hover:bg-card/50 transition-colors disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving || !name.trim()}
+                className="flex-1 rounded-lg bg-primary py-2 font-bold text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? "Saving..." : "Save"}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+/**
+ * Team Manager
+ *
+ * Lets commissioners split a Versus into teams (e.g. two households):
+ * - Create, rename and remove teams
+ * - Assign each player to a team (or no team)
+ * - Choose whether team totals sum or average member scores
+ *
+ * Saves independently of the players form via updateVersusTeams().
+ * Only players already saved to the Versus can be assigned.
+ */
+
+import { useState } from "react";
+import { updateVersusTeams } from "@/app/actions/teams";
+import { TEAM_SCORING_LABELS } from "@/lib/team-utils";
+import type { TeamScoring } from "@/types/database";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+interface TeamRow {
+  key: string; // Existing team ID, or a temporary key for new teams
+  id: string | null; // null until saved
+  name: string;
+}
+
+interface TeamManagerProps {
+  versusId: string;
+  players: Array<{ player_id: string; name: string; team_id: string | null }>;
+  initialTeams: Array<{ id: string; name: string }>;
+  initialScoring: TeamScoring;
+}
+
+// ============================================================================
+// Component
+// ============================================================================
+
+export function TeamManager({ versusId, players, initialTeams, initialScoring }: TeamManagerProps) {
+  const [teams, setTeams] = useState<TeamRow[]>(
+    initialTeams.map((team) => ({ key: team.id, id: team.id, name: team.name }))
+  );
+  const [assignments, setAssignments] = useState<Record<string, string>>(() =>
+    Object.fromEntries(players.map((p) => [p.player_id, p.team_id ?? ""]))
+  );
+  const [scoring, setScoring] = useState<TeamScoring>(initialScoring);
+  const [newTeamCount, setNewTeamCount] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const addTeam = () => {
+    const key = `new-${newTeamCount}`;
+    setNewTeamCount(newTeamCount + 1);
+    setTeams([...teams, { key, id: null, name: `Team ${teams.length + 1}` }]);
+    setSaved(false);
+  };
+
+  const renameTeam = (key: string, name: string) => {
+    setTeams(teams.map((team) => (team.key === key ? { ...team, name } : team)));
+    setSaved(false);
+  };
+
+  const removeTeam = (key: string) => {
+    setTeams(teams.filter((team) => team.key !== key));
+    setAssignments(
+      Object.fromEntries(
+        Object.entries(assignments).map(([playerId, teamKey]) => [
+          playerId,
+          teamKey === key ? "" : teamKey,
+        ])
+      )
+    );
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    setSaved(false);
+
+    const { error: saveError } = await updateVersusTeams(versusId, {
+      team_scoring: scoring,
+      teams: teams.map((team) => ({
+        id: team.id,
+        name: team.name,
+        player_ids: players
+          .filter((p) => assignments[p.player_id] === team.key)
+          .map((p) => p.player_id),
+      })),
+    });
+
+    setSaving(false);
+
+    if (saveError) {
+      setError(saveError.message);
+      return;
+    }
+
+    setSaved(true);
+  };
+
+  return (
+    <section className="space-y-4 rounded-lg border border-primary/30 bg-card/50 p-4 panel-blur">
+      <div>
+        <h2 className="text-xl font-bold text-foreground font-display">Teams</h2>
+        <p className="text-sm text-muted-foreground">
+          Optional. Teams get their own scoreboard next to the individual one.
+        </p>
+      </div>
+
+      {/* Team names */}
+      <div className="space-y-2">
+        {teams.map((team, index) => (
+          <div key={team.key} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={team.name}
+              onChange={(e) => renameTeam(team.key, e.target.value)}
+              maxLength={50}
+              aria-label={`Team ${index + 1} name`}
+              className="flex-1 rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+            />
+            <button
+              type="button"
+              onClick={() => removeTeam(team.key)}
+              className="rounded-lg px-3 py-2 text-sm text-destructive hover:bg-destructive/10 transition-colors"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+
+        <button
+          type="button"
+          onClick={addTeam}
+          className="w-full rounded-lg border border-dashed border-primary/30 py-2 text-sm text-primary hover:bg-primary/5 transition-colors"
+        >
+          + Add Team
+        </button>
+      </div>
+
+      {teams.length > 0 && (
+        <>
+          {/* Player assignments */}
+          <div className="space-y-2">
+            {players.map((player) => (
+              <div key={player.player_id} className="flex items-center justify-between gap-3">
+                <span className="text-sm text-foreground truncate">{player.name}</span>
+                <select
+                  value={assignments[player.player_id] ?? ""}
+                  onChange={(e) => {
+                    setAssignments({ ...assignments, [player.player_id]: e.target.value });
+                    setSaved(false);
+                  }}
+                  aria-label={`Team for ${player.name}`}
+                  className="w-44 rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+                >
+                  <option value="" className="bg-background">No team</option>
+                  {teams.map((team) => (
+                    <option key={team.key} value={team.key} className="bg-background">
+                      {team.name || "Unnamed team"}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          {/* Team scoring */}
+          <div>
+            <label htmlFor="team-scoring" className="block text-xs font-medium text-muted-foreground mb-1">
+              Team score
+            </label>
+            <select
+              id="team-scoring"
+              value={scoring}
+              onChange={(e) => {
+                setScoring(e.target.value as TeamScoring);
+                setSaved(false);
+              }}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+            >
+              {(Object.keys(TEAM_SCORING_LABELS) as TeamScoring[]).map((value) => (
+                <option key={value} value={value} className="bg-background">
+                  {TEAM_SCORING_LABELS[value]}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-muted-foreground">
+              Average keeps teams of different sizes comparable.
+            </p>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+      {saved && !error && <p className="text-sm text-neon-green">Teams saved</p>}
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={saving}
+        className="w-full rounded-lg bg-primary py-2 font-bold text-primary-foreground transition-all hover:bg-primary/90 disabled:opacity-50"
+      >
+        {saving ? "Saving..." : "Save Teams"}
+      </button>
+    </section>
+  );
+}
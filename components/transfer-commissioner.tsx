@@ -0,0 +1,162 @@
+"use client";
+
+/**
+ * Transfer Commissioner
+ *
+ * Guided handoff for commissioners:
+ * 1. Choose a member and whether to step down to participant
+ * 2. Review what changes, then confirm
+ *
+ * The chosen member becomes a commissioner. If the current commissioner
+ * created the Versus, ownership moves too.
+ */
+
+import { useState } from "react";
+import { transferCommissioner } from "@/app/actions/membership";
+import { VERSUS_ROLE_LABELS } from "@/lib/role-utils";
+import type { VersusMemberOption } from "@/types/database";
+
+interface TransferCommissionerProps {
+  versusId: string;
+  /** Other members of the versus (not the current user) */
+  members: VersusMemberOption[];
+  /** Whether the current user created the versus */
+  isOwner: boolean;
+  onTransferred: (steppedDown: boolean) => void;
+}
+
+export function TransferCommissioner({
+  versusId,
+  members,
+  isOwner,
+  onTransferred,
+}: TransferCommissionerProps) {
+  const [step, setStep] = useState<"choose" | "confirm">("choose");
+  const [targetId, setTargetId] = useState("");
+  const [stepDown, setStepDown] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const target = members.find((m) => m.player_id === targetId) || null;
+
+  const handleConfirm = async () => {
+    if (!target) return;
+
+    setBusy(true);
+    setError(null);
+
+    const { error: transferError } = await transferCommissioner(versusId, target.player_id, {
+      step_down: stepDown,
+    });
+
+    setBusy(false);
+
+    if (transferError) {
+      setError(transferError.message);
+      return;
+    }
+
+    setStep("choose");
+    setTargetId("");
+    onTransferred(stepDown);
+  };
+
+  return (
+    <section className="space-y-4 rounded-lg border border-primary/30 bg-card/50 p-4 panel-blur">
+      <div>
+        <h2 className="text-xl font-bold text-foreground font-display">Hand Off</h2>
+        <p className="text-sm text-muted-foreground">
+          Make another member the commissioner of this Versus.
+        </p>
+      </div>
+
+      {members.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Add another player first.</p>
+      ) : step === "choose" ? (
+        <>
+          <div>
+            <label htmlFor="handoff-member" className="block text-xs font-medium text-muted-foreground mb-1">
+              New commissioner
+            </label>
+            <select
+              id="handoff-member"
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+            >
+              <option value="" className="bg-background">Choose a member...</option>
+              {members.map((member) => (
+                <option key={member.player_id} value={member.player_id} className="bg-background">
+                  {member.name} ({VERSUS_ROLE_LABELS[member.role]})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-foreground">
+            <input
+              type="checkbox"
+              checked={stepDown}
+              onChange={(e) => setStepDown(e.target.checked)}
+              className="accent-primary"
+            />
+            Step down to participant
+          </label>
+
+          <button
+            type="button"
+            onClick={() => setStep("confirm")}
+            disabled={!target}
+            className="w-full rounded-lg bg-primary py-2 font-bold text-primary-foreground transition-all hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Continue
+          </button>
+        </>
+      ) : (
+        target && (
+          <>
+            <ul className="list-disc space-y-1 pl-5 text-sm text-foreground">
+              {target.role !== "commissioner" && (
+                <li>{target.name} becomes a commissioner</li>
+              )}
+              {isOwner && <li>{target.name} becomes the owner of this Versus</li>}
+              {stepDown ? (
+                <li>You become a participant and can no longer edit this Versus</li>
+              ) : (
+                <li>You stay a commissioner</li>
+              )}
+            </ul>
+
+            {error && (
+              <p className="text-sm text-destructive" role="alert">
+                {error}
+              </p>
+            )}
+
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={() => {
+                  setStep("choose");
+                  setError(null);
+                }}
+                disabled={busy}
+                className="flex-1 rounded-lg border border-primary/30 py-2 text-foreground hover:bg-card/50 transition-colors disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirm}
+                disabled={busy}
+                className="flex-1 rounded-lg bg-primary py-2 font-bold text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50"
+              >
+                {busy ? "Handing off..." : "Hand Off"}
+              </button>
+            </div>
+          </>
+        )
+      )}
+    </section>
+  );
+}
@@ -5,6 +5,11 @@ import { useRouter } from "next/navigation";
 import { useState, useRef, useEffect } from "react";
 import { MoreVertical } from "lucide-react";
 import { getScoreColor, getRankColor } from "@/lib/color-utils";
+import { getSeasonLabel, getSeasonStatus } from "@/lib/season-utils";
+import { setVersusArchived } from "@/app/actions/lifecycle";
+import { FinishVersusDialog } from "@/components/finish-versus-dialog";
+import { DeleteVersusDialog } from "@/components/delete-versus-dialog";
+import type { VersusStatus } from "@/types/database";
 
 interface VersusCardProps {
   id: string;
@@ -13,6 +18,12 @@ interface VersusCardProps {
   rank: number;
   totalPlayers: number;
   isCommissioner?: boolean;
+  isOwner?: boolean; // Created the versus - can delete it
+  isViewer?: boolean; // Watches only - no score or rank
+  startsAt?: string | null;
+  endsAt?: string | null;
+  status?: VersusStatus;
+  winnerName?: string | null;
 }
 
 export function VersusCard({
@@ -22,6 +33,12 @@ export function VersusCard({
   rank,
   totalPlayers,
   isCommissioner = false,
+  isOwner = false,
+  isViewer = false,
+  startsAt = null,
+  endsAt = null,
+  status = "active",
+  winnerName = null,
 }: VersusCardProps) {
   const router = useRouter();
   const scoreColor = getScoreColor(score);
@@ -30,6 +47,22 @@ export function VersusCard({
   const menuButtonRef = useRef<HTMLButtonElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
   const [menuPosition, setMenuPosition] = useState({ top: 0, right: 0 });
+  const [dialog, setDialog] = useState<"finish" | "delete" | null>(null);
+  const [archiving, setArchiving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  // Season countdown - re-evaluated every 30 seconds while the card is mounted
+  const hasSeason = Boolean(startsAt || endsAt);
+  const [now, setNow] = useState(() => Date.now());
+  const seasonStatus = getSeasonStatus(startsAt, endsAt, now);
+  const seasonLabel = getSeasonLabel(startsAt, endsAt, now);
+
+  useEffect(() => {
+    if (!hasSeason || seasonStatus === "ended") return;
+
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [hasSeason, seasonStatus]);
 
   // Calculate menu position when opening
   useEffect(() => {
@@ -67,109 +100,205 @@ export function VersusCard({
     router.push(path);
   };
 
-  return (
-    <div className="group relative overflow-hidden rounded-lg border border-primary/30 bg-card/50 p-4 panel-blur transition-all hover:border-primary/60 hover:bg-card/70">
-      {/* Subtle glow effect on hover */}
-      <div className="absolute inset-0 opacity-0 transition-opacity group-hover:opacity-100">
-        <div className="absolute inset-0 bg-gradient-to-r from-primary/5 via-secondary/5 to-accent/5" />
-      </div>
+  // Archive a finished versus, or restore an archived one
+  const handleArchive = async (archived: boolean) => {
+    setMenuOpen(false);
+    setArchiving(true);
+    setActionError(null);
 
-      <div className="relative flex items-center justify-between gap-4">
-        {/* Ranking - moved to left */}
-        <div 
-          className="flex w-20 flex-col items-center justify-center rounded-lg border bg-muted px-3 py-2"
-          style={{ borderColor: `${rankColor}33` }}
-        >
-          <span className="text-xs text-muted-foreground">Rank</span>
-          <span 
-            className="text-3xl font-normal font-score leading-none neon-text"
-            style={{ color: rankColor }}
-          >
-            {rank}
-          </span>
-          <span className="text-xs text-muted-foreground">of {totalPlayers}</span>
+    const { error } = await setVersusArchived(id, archived);
+
+    setArchiving(false);
+
+    if (error) {
+      setActionError(error.message);
+      return;
+    }
+
+    router.refresh();
+  };
+
+  return (
+    <>
+      <div className="group relative overflow-hidden rounded-lg border border-primary/30 bg-card/50 p-4 panel-blur transition-all hover:border-primary/60 hover:bg-card/70">
+        {/* Subtle glow effect on hover */}
+        <div className="absolute inset-0 opacity-0 transition-opacity group-hover:opacity-100">
+          <div className="absolute inset-0 bg-gradient-to-r from-primary/5 via-secondary/5 to-accent/5" />
         </div>
 
-        {/* Versus Name - clickable link */}
-        <Link href={`/versus/${id}`} className="flex-1">
-          <h3 className="text-2xl font-bold text-foreground font-display hover:text-primary transition-colors">
-            {name}
-          </h3>
-        </Link>
-
-        {/* Score and Menu */}
-        <div className="flex items-center gap-3">
-          {/* Score */}
-          <span 
-            className="text-5xl font-normal font-score leading-none neon-text"
-            style={{ color: scoreColor }}
+        <div className="relative flex items-center justify-between gap-4">
+          {/* Ranking - moved to left */}
+          <div 
+            className="flex w-20 flex-col items-center justify-center rounded-lg border bg-muted px-3 py-2"
+            style={{ borderColor: `${rankColor}33` }}
           >
-            {score}
-          </span>
-
-          {/* Commissioner Menu */}
-          {isCommissioner && (
-            <>
-              <button
-                ref={menuButtonRef}
-                onClick={(e) => {
-                  e.preventDefault();
-                  e.stopPropagation();
-                  setMenuOpen(!menuOpen);
-                }}
-                className="p-2 rounded-lg hover:bg-muted/50 transition-colors"
-                aria-label="Commissioner menu"
+            {isViewer ? (
+              <span className="py-2 text-xs text-muted-foreground">Watching</span>
+            ) : (
+              <>
+                <span className="text-xs text-muted-foreground">Rank</span>
+                <span 
+                  className="text-3xl font-normal font-score leading-none neon-text"
+                  style={{ color: rankColor }}
+                >
+                  {rank}
+                </span>
+                <span className="text-xs text-muted-foreground">of {totalPlayers}</span>
+              </>
+            )}
+          </div>
+
+          {/* Versus Name - clickable link */}
+          <Link href={`/versus/${id}`} className="flex-1">
+            <h3 className="text-2xl font-bold text-foreground font-display hover:text-primary transition-colors">
+              {name}
+            </h3>
+            {seasonLabel && (
+              <span
+                suppressHydrationWarning
+                className={`mt-1 inline-block rounded-full border px-2 py-0.5 text-xs ${
+                  seasonStatus === "ended"
+                    ? "border-muted-foreground/30 text-muted-foreground"
+                    : "border-primary/30 text-primary"
+                }`}
+              >
+                {seasonLabel}
+              </span>
+            )}
+            {status !== "active" && (
+              <span className="mt-1 ml-1 inline-block rounded-full border border-neon-green/40 px-2 py-0.5 text-xs text-neon-green">
+                {status === "archived" ? "Archived" : "Finished"}
+                {winnerName && ` · Won by ${winnerName}`}
+              </span>
+            )}
+            {actionError && (
+              <p className="mt-1 text-xs text-destructive" role="alert">
+                {actionError}
+              </p>
+            )}
+          </Link>
+
+          {/* Score and Menu */}
+          <div className="flex items-center gap-3">
+            {/* Score */}
+            {!isViewer && (
+              <span 
+                className="text-5xl font-normal font-score leading-none neon-text"
+                style={{ color: scoreColor }}
               >
-                <MoreVertical className="h-5 w-5 text-primary" />
-              </button>
-
-              {/* Dropdown Menu - Fixed positioning to escape overflow */}
-              {menuOpen && (
-                <>
-                  {/* Backdrop to close menu */}
-                  <div
-                    className="fixed inset-0 z-40"
-                    onClick={() => setMenuOpen(false)}
-                  />
+                {score}
+              </span>
+            )}
+
+            {/* Commissioner Menu */}
+            {(isCommissioner || isOwner) && (
+              <>
+                <button
+                  ref={menuButtonRef}
+                  onClick={(e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    setMenuOpen(!menuOpen);
+                  }}
+                  className="p-2 rounded-lg hover:bg-muted/50 transition-colors"
+                  aria-label="Commissioner menu"
+                >
+                  <MoreVertical className="h-5 w-5 text-primary" />
+                </button>
+
+                {/* Dropdown Menu - Fixed positioning to escape overflow */}
+                {menuOpen && (
+                  <>
+                    {/* Backdrop to close menu */}
+                    <div
+                      className="fixed inset-0 z-40"
+                      onClick={() => setMenuOpen(false)}
+                    />
                   
-                  {/* Menu - Fixed position calculated from button */}
-                  <div
-                    ref={menuRef}
-                    className="fixed w-48 rounded-lg border border-primary/30 bg-background shadow-lg z-50"
-                    style={{
-                      top: `${menuPosition.top}px`,
-                      right: `${menuPosition.right}px`,
-                      backgroundColor: 'var(--background)',
-                      opacity: 1,
-                    }}
-                    onClick={(e) => e.stopPropagation()}
-                  >
-                    <button
-                      onClick={() => handleMenuClick(`/versus/${id}/settings`)}
-                      className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors first:rounded-t-lg"
-                    >
-                      View Settings
-                    </button>
-                    <button
-                      onClick={() => handleMenuClick(`/versus/${id}/players`)}
-                      className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors"
+                    {/* Menu - Fixed position calculated from button */}
+                    <div
+                      ref={menuRef}
+                      className="fixed w-48 rounded-lg border border-primary/30 bg-background shadow-lg z-50"
+                      style={{
+                        top: `${menuPosition.top}px`,
+                        right: `${menuPosition.right}px`,
+                        backgroundColor: 'var(--background)',
+                        opacity: 1,
+                      }}
+                      onClick={(e) => e.stopPropagation()}
                     >
-                      Manage Players
-                    </button>
-                    <button
-                      onClick={() => handleMenuClick(`/versus/${id}/objectives`)}
-                      className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors last:rounded-b-lg"
-                    >
-                      Manage Objectives
-                    </button>
-                  </div>
-                </>
-              )}
-            </>
-          )}
+                      <button
+                        onClick={() => handleMenuClick(`/versus/${id}/settings`)}
+                        className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors first:rounded-t-lg"
+                      >
+                        View Settings
+                      </button>
+                      <button
+                        onClick={() => handleMenuClick(`/versus/${id}/players`)}
+                        className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors"
+                      >
+                        Manage Players
+                      </button>
+                      <button
+                        onClick={() => handleMenuClick(`/versus/${id}/objectives`)}
+                        className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors"
+                      >
+                        Manage Objectives
+                      </button>
+                      <button
+                        onClick={() => handleMenuClick(`/versus/${id}/review`)}
+                        className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors last:rounded-b-lg"
+                      >
+                        Review Queue
+                      </button>
+                      {isCommissioner && status === "active" && (
+                        <button
+                          onClick={() => {
+                            setMenuOpen(false);
+                            setDialog("finish");
+                          }}
+                          className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors border-t border-primary/20 last:rounded-b-lg"
+                        >
+                          Finish Versus
+                        </button>
+                      )}
+                      {isCommissioner && status !== "active" && (
+                        <button
+                          onClick={() => handleArchive(status === "finished")}
+                          disabled={archiving}
+                          className="w-full text-left block px-4 py-2 text-sm text-foreground hover:bg-muted/50 transition-colors border-t border-primary/20 last:rounded-b-lg disabled:opacity-50"
+                        >
+                          {status === "finished" ? "Archive" : "Restore to Finished"}
+                        </button>
+                      )}
+                      {isOwner && (
+                        <button
+                          onClick={() => {
+                            setMenuOpen(false);
+                            setDialog("delete");
+                          }}
+                          className="w-full text-left block px-4 py-2 text-sm text-destructive hover:bg-muted/50 transition-colors last:rounded-b-lg"
+                        >
+                          Delete Versus
+                        </button>
+                      )}
+                    </div>
+                  </>
+                )}
+              </>
+            )}
+          </div>
         </div>
       </div>
-    </div>
+
+      {/* Dialogs sit outside the card so its backdrop blur doesn't clip them */}
+      {dialog === "finish" && (
+        <FinishVersusDialog versusId={id} versusName={name} onClose={() => setDialog(null)} />
+      )}
+      {dialog === "delete" && (
+        <DeleteVersusDialog versusId={id} versusName={name} onClose={() => setDialog(null)} />
+      )}
+    </>
   );
 }
 
@@ -0,0 +1,140 @@
+"use client";
+
+/**
+ * Versus Template Picker
+ *
+ * Lists the player's saved templates at the top of the create wizard.
+ * Using one fills in Step 1 (settings) and Step 3 (objectives); templates
+ * can also be deleted here. Hidden when there are none.
+ *
+ * Templates are saved from a Versus page ("Save as Template").
+ */
+
+import { useEffect, useState } from "react";
+import { deleteVersusTemplate, getVersusTemplates } from "@/app/actions/templates";
+import type { VersusTemplate } from "@/types/database";
+
+interface VersusTemplatePickerProps {
+  onApply: (template: VersusTemplate) => void;
+}
+
+export function VersusTemplatePicker({ onApply }: VersusTemplatePickerProps) {
+  const [templates, setTemplates] = useState<VersusTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState("");
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      const { data, error: loadError } = await getVersusTemplates();
+
+      if (loadError) {
+        setError(loadError.message);
+        return;
+      }
+
+      setTemplates(data || []);
+    };
+
+    load();
+  }, []);
+
+  const selected = templates.find((t) => t.id === selectedId) || null;
+
+  const handleDelete = async () => {
+    if (!selected) return;
+
+    setIsDeleting(true);
+    setError(null);
+
+    const { error: deleteError } = await deleteVersusTemplate(selected.id);
+
+    setIsDeleting(false);
+    setConfirmDelete(false);
+
+    if (deleteError) {
+      setError(deleteError.message);
+      return;
+    }
+
+    setTemplates((prev) => prev.filter((t) => t.id !== selected.id));
+    setSelectedId("");
+  };
+
+  if (templates.length === 0 && !error) return null;
+
+  return (
+    <div className="mb-6 space-y-2 rounded-lg border border-primary/20 bg-card/30 p-4">
+      <label htmlFor="versus-template" className="block text-sm font-medium text-foreground">
+        Start from a template
+      </label>
+      <div className="flex gap-2">
+        <select
+          id="versus-template"
+          value={selectedId}
+          onChange={(e) => {
+            setSelectedId(e.target.value);
+            setConfirmDelete(false);
+          }}
+          className="min-w-0 flex-1 rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+        >
+          <option value="" className="bg-background">Choose a template...</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id} className="bg-background">
+              {template.name} ({template.objectives.length} objective{template.objectives.length === 1 ? "" : "s"})
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => selected && onApply(selected)}
+          disabled={!selected}
+          className="shrink-0 rounded-lg bg-primary px-4 py-2 text-sm font-medium text-primary-foreground hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Use
+        </button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Fills in the settings and objectives. Players and season dates are still up to you.
+      </p>
+
+      {selected &&
+        (confirmDelete ? (
+          <div className="flex items-center gap-3 text-sm">
+            <span className="text-muted-foreground">Delete &quot;{selected.name}&quot;?</span>
+            <button
+              type="button"
+              onClick={handleDelete}
+              disabled={isDeleting}
+              className="text-destructive hover:underline disabled:opacity-50"
+            >
+              {isDeleting ? "Deleting..." : "Delete"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setConfirmDelete(false)}
+              disabled={isDeleting}
+              className="text-muted-foreground hover:underline"
+            >
+              Keep
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => setConfirmDelete(true)}
+            className="text-xs text-destructive hover:underline"
+          >
+            Delete template
+          </button>
+        ))}
+
+      {error && (
+        <p className="text-sm text-destructive" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -4,7 +4,7 @@
  * Versus Wizard Step 1: Settings Form
  * 
  * This component handles the first step of creating a new Versus.
- * Users configure basic settings: name, type, reverse ranking, player count, and objective mode.
+ * Users configure basic settings: name, type, reverse ranking, player count, season dates, rounds, and objective mode.
  * 
  * Key Features:
  * - Conditional reverse ranking checkbox (only shows for "Swear Jar" and "Other" types)
@@ -15,6 +15,8 @@
  */
 
 import { useState, useEffect } from "react";
+import { ROUND_PERIOD_LABELS } from "@/lib/round-utils";
+import type { RoundPeriod } from "@/types/database";
 
 // ============================================================================
 // Type Definitions
@@ -51,6 +53,14 @@ export interface Step1FormData {
   reverse_ranking: boolean;
   number_of_players: number;
   objective_creation: ObjectiveCreationMode;
+  undo_grace_minutes: number;
+  starts_at: string; // datetime-local value, "" = starts immediately
+  ends_at: string; // datetime-local value, "" = never ends
+  round_period: RoundPeriod;
+  require_approval: boolean; // Completions wait for commissioner review
+  dispute_quorum_percent: number; // Share of players who must vote to void a disputed completion
+  dispute_window_hours: number; // How long dispute votes stay open
+  max_backfill_hours: number; // How far back players can date a completion (0 = no backdating)
 }
 
 /**
@@ -59,10 +69,12 @@ export interface Step1FormData {
  * - initialData: Pre-filled values (used in edit mode)
  * - onSubmit: Called when form is valid and user clicks Next/Save
  * - onCancel: Called when user cancels the wizard
+ * - seasonLocked: Season has ended and final standings are frozen (edit mode only)
  */
 interface Step1Props {
   mode: "create" | "edit";
   initialData?: Partial<Step1FormData>;
+  seasonLocked?: boolean;
   onSubmit: (data: Step1FormData) => void;
   onCancel: () => void;
 }
@@ -80,7 +92,15 @@ const DEFAULT_FORM_DATA: Step1FormData = {
   type: "",
   reverse_ranking: false,
   number_of_players: 2,
-  objective_creation: "commissioner"
+  objective_creation: "commissioner",
+  undo_grace_minutes: 5,
+  starts_at: "",
+  ends_at: "",
+  round_period: "none",
+  require_approval: false,
+  dispute_quorum_percent: 50,
+  dispute_window_hours: 48,
+  max_backfill_hours: 0
 };
 
 // ============================================================================
@@ -90,6 +110,7 @@ const DEFAULT_FORM_DATA: Step1FormData = {
 export function VersusWizardStep1({ 
   mode, 
   initialData, 
+  seasonLocked = false,
   onSubmit, 
   onCancel 
 }: Step1Props) {
@@ -195,6 +216,33 @@ export function VersusWizardStep1({
       newErrors.number_of_players = "Number of players must be between 1 and 12";
     }
 
+    // Undo window validation: 0 minutes (no undo) up to 24 hours
+    if (formData.undo_grace_minutes < 0 || formData.undo_grace_minutes > 1440) {
+      newErrors.undo_grace_minutes = "Undo window must be between 0 and 1440 minutes";
+    }
+
+    // Backfill window validation: 0 hours (no backdating) up to 30 days
+    if (formData.max_backfill_hours < 0 || formData.max_backfill_hours > 720) {
+      newErrors.max_backfill_hours = "Backfill window must be between 0 and 720 hours";
+    }
+
+    // Dispute settings: quorum is a percentage of players, voting lasts up to a week
+    if (formData.dispute_quorum_percent < 1 || formData.dispute_quorum_percent > 100) {
+      newErrors.dispute_quorum_percent = "Quorum must be between 1 and 100%";
+    }
+    if (formData.dispute_window_hours < 1 || formData.dispute_window_hours > 168) {
+      newErrors.dispute_window_hours = "Voting window must be between 1 and 168 hours";
+    }
+
+    // Season window validation: both optional, but the end must come after the start
+    if (
+      formData.starts_at &&
+      formData.ends_at &&
+      new Date(formData.ends_at).getTime() <= new Date(formData.starts_at).getTime()
+    ) {
+      newErrors.ends_at = "End date must be after the start date";
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -359,6 +407,226 @@ export function VersusWizardStep1({
         </p>
       </div>
 
+      {/* Undo Window Input */}
+      <div>
+        <label 
+          htmlFor="undo_grace_minutes" 
+          className="block text-sm font-medium text-foreground mb-1"
+        >
+          Undo Window (minutes)
+        </label>
+        <input
+          id="undo_grace_minutes"
+          type="number"
+          min={0}
+          max={1440}
+          value={formData.undo_grace_minutes}
+          onChange={(e) => updateField("undo_grace_minutes", parseInt(e.target.value) || 0)}
+          aria-label="Undo window in minutes"
+          aria-invalid={!!errors.undo_grace_minutes}
+          aria-describedby={errors.undo_grace_minutes ? "undo_grace_minutes-error" : "undo_grace_minutes-help"}
+          className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-3 text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+        />
+        {errors.undo_grace_minutes && (
+          <p id="undo_grace_minutes-error" className="mt-1 text-sm text-destructive" role="alert">
+            {errors.undo_grace_minutes}
+          </p>
+        )}
+        <p id="undo_grace_minutes-help" className="mt-1 text-xs text-muted-foreground">
+          How long players can undo their own completions. After that, only a commissioner can remove them.
+        </p>
+      </div>
+
+      {/* Backfill Window Input */}
+      <div>
+        <label 
+          htmlFor="max_backfill_hours" 
+          className="block text-sm font-medium text-foreground mb-1"
+        >
+          Backfill Window (hours)
+        </label>
+        <input
+          id="max_backfill_hours"
+          type="number"
+          min={0}
+          max={720}
+          value={formData.max_backfill_hours}
+          onChange={(e) => updateField("max_backfill_hours", parseInt(e.target.value) || 0)}
+          aria-label="Backfill window in hours"
+          aria-invalid={!!errors.max_backfill_hours}
+          aria-describedby={errors.max_backfill_hours ? "max_backfill_hours-error" : "max_backfill_hours-help"}
+          className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-3 text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+        />
+        {errors.max_backfill_hours && (
+          <p id="max_backfill_hours-error" className="mt-1 text-sm text-destructive" role="alert">
+            {errors.max_backfill_hours}
+          </p>
+        )}
+        <p id="max_backfill_hours-help" className="mt-1 text-xs text-muted-foreground">
+          How far back players can date a completion they forgot to log. 0 means completions are always logged as now.
+        </p>
+      </div>
+
+      {/* Require Approval Checkbox */}
+      <div className="rounded-lg border border-primary/20 bg-card/30 p-4">
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={formData.require_approval}
+            onChange={(e) => updateField("require_approval", e.target.checked)}
+            aria-label="Require approval"
+            aria-describedby="require-approval-help"
+            className="mt-1 h-5 w-5 rounded border-primary/30 bg-card/50 text-primary focus:ring-primary focus:ring-offset-0"
+          />
+          <div>
+            <span className="text-foreground font-medium">Require Approval</span>
+            <p id="require-approval-help" className="text-sm text-muted-foreground mt-0.5">
+              Players&apos; completions stay pending until a commissioner approves them
+            </p>
+          </div>
+        </label>
+      </div>
+
+      {/* Dispute Vote Settings */}
+      <div>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label 
+              htmlFor="dispute_quorum_percent" 
+              className="block text-sm font-medium text-foreground mb-1"
+            >
+              Dispute Quorum (%)
+            </label>
+            <input
+              id="dispute_quorum_percent"
+              type="number"
+              min={1}
+              max={100}
+              value={formData.dispute_quorum_percent}
+              onChange={(e) => updateField("dispute_quorum_percent", parseInt(e.target.value) || 0)}
+              aria-label="Dispute quorum percentage"
+              aria-invalid={!!errors.dispute_quorum_percent}
+              aria-describedby="dispute-help"
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-3 text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+            {errors.dispute_quorum_percent && (
+              <p className="mt-1 text-sm text-destructive" role="alert">
+                {errors.dispute_quorum_percent}
+              </p>
+            )}
+          </div>
+          <div>
+            <label 
+              htmlFor="dispute_window_hours" 
+              className="block text-sm font-medium text-foreground mb-1"
+            >
+              Dispute Voting (hours)
+            </label>
+            <input
+              id="dispute_window_hours"
+              type="number"
+              min={1}
+              max={168}
+              value={formData.dispute_window_hours}
+              onChange={(e) => updateField("dispute_window_hours", parseInt(e.target.value) || 0)}
+              aria-label="Dispute voting window in hours"
+              aria-invalid={!!errors.dispute_window_hours}
+              aria-describedby="dispute-help"
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-3 text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+            />
+            {errors.dispute_window_hours && (
+              <p className="mt-1 text-sm text-destructive" role="alert">
+                {errors.dispute_window_hours}
+              </p>
+            )}
+          </div>
+        </div>
+        <p id="dispute-help" className="mt-1 text-xs text-muted-foreground">
+          Any player can dispute a completion. It&apos;s voided if enough players vote and most vote to void it.
+        </p>
+      </div>
+
+      {/* Season Window Inputs */}
+      <div>
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label 
+              htmlFor="starts_at" 
+              className="block text-sm font-medium text-foreground mb-1"
+            >
+              Starts
+            </label>
+            <input
+              id="starts_at"
+              type="datetime-local"
+              value={formData.starts_at}
+              onChange={(e) => updateField("starts_at", e.target.value)}
+              disabled={seasonLocked}
+              aria-label="Season start"
+              aria-describedby="season-help"
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-3 text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary disabled:opacity-50"
+            />
+          </div>
+          <div>
+            <label 
+              htmlFor="ends_at" 
+              className="block text-sm font-medium text-foreground mb-1"
+            >
+              Ends
+            </label>
+            <input
+              id="ends_at"
+              type="datetime-local"
+              value={formData.ends_at}
+              onChange={(e) => updateField("ends_at", e.target.value)}
+              onBlur={() => handleBlur()}
+              disabled={seasonLocked}
+              aria-label="Season end"
+              aria-invalid={!!errors.ends_at}
+              aria-describedby={errors.ends_at ? "ends_at-error" : "season-help"}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-3 text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary disabled:opacity-50"
+            />
+          </div>
+        </div>
+        {errors.ends_at && (
+          <p id="ends_at-error" className="mt-1 text-sm text-destructive" role="alert">
+            {errors.ends_at}
+          </p>
+        )}
+        <p id="season-help" className="mt-1 text-xs text-muted-foreground">
+          {seasonLocked
+            ? "This Versus has ended. Its final standings are locked."
+            : "Optional. Leave blank to start now and run with no end date. Completions outside these dates are rejected."}
+        </p>
+      </div>
+
+      {/* Recurring Rounds Dropdown */}
+      <div>
+        <label 
+          htmlFor="round_period" 
+          className="block text-sm font-medium text-foreground mb-1"
+        >
+          Rounds
+        </label>
+        <select
+          id="round_period"
+          value={formData.round_period}
+          onChange={(e) => updateField("round_period", e.target.value as RoundPeriod)}
+          aria-label="Recurring rounds"
+          aria-describedby="round_period-help"
+          className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-3 text-foreground focus:border-primary focus:outline-none focus:ring-1 focus:ring-primary"
+        >
+          {(Object.keys(ROUND_PERIOD_LABELS) as RoundPeriod[]).map((period) => (
+            <option key={period} value={period} className="bg-background">
+              {ROUND_PERIOD_LABELS[period]}
+            </option>
+          ))}
+        </select>
+        <p id="round_period-help" className="mt-1 text-xs text-muted-foreground">
+          Rounds reset the scoreboard each day, week or month (UTC). All-time totals are always kept.
+        </p>
+      </div>
+
       {/* Objective Creation Mode (FR-006) */}
       <div>
         <label className="block text-sm font-medium text-foreground mb-3">
@@ -9,9 +9,13 @@
  * Key Features:
  * - Creator (Row 1) is pre-filled and locked - cannot be removed
  * - Email validation checks if player exists in the system (on blur)
+ * - Emails without an account become invitations (emailed a signup link on save)
  * - Display name auto-populates from database when email is found
  * - Optional nickname override for Versus-specific names
+ * - Role per player: participant, commissioner or viewer (watches only)
  * - Three-dot menu for player actions (currently just Remove)
+ * - Bulk import from a CSV of emails and nicknames (PlayerCsvImport)
+ * - Find people you've played with (or discoverable players) by name (PlayerSearch)
  * - Player counter showing current vs max players
  * 
  * See: docs/features/create-versus-wizard-spec.md (FR-009 through FR-015)
@@ -19,6 +23,11 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { validatePlayerEmail } from "@/app/actions/players";
+import { PlayerCsvImport } from "@/components/player-csv-import";
+import { PlayerSearch } from "@/components/player-search";
+import { VERSUS_ROLES, VERSUS_ROLE_DESCRIPTIONS, VERSUS_ROLE_LABELS } from "@/lib/role-utils";
+import type { CsvImportResult } from "@/lib/csv-import";
+import type { PlayerSearchResult, VersusRole } from "@/types/database";
 
 // ============================================================================
 // Type Definitions
@@ -30,12 +39,13 @@ import { validatePlayerEmail } from "@/app/actions/players";
  */
 export interface PlayerRowData {
   player_id: string;        // UUID from players table (empty until validated)
-  email: string;            // Player's email (used for lookup)
+  email: string;            // Player's email (used for lookup; empty if found by name)
   display_name: string;     // Display name from database
   nickname: string;         // Optional Versus-specific nickname
-  is_commissioner: boolean; // Can this player manage the Versus?
+  role: VersusRole;         // Viewer, participant or commissioner
   isCreator: boolean;       // Is this the Versus creator? (locked row)
   isValidated: boolean;     // Has email been validated against DB?
+  isInvite: boolean;        // No account yet - will be emailed an invitation
   isValidating: boolean;    // Currently checking email?
   error: string | null;     // Validation error message
 }
@@ -77,9 +87,10 @@ const createEmptyPlayerRow = (): PlayerRowData => ({
   email: "",
   display_name: "",
   nickname: "",
-  is_commissioner: false,
+  role: "participant",
   isCreator: false,
   isValidated: false,
+  isInvite: false,
   isValidating: false,
   error: null
 });
@@ -93,13 +104,20 @@ const createCreatorRow = (currentUser: Step2Props["currentUser"]): PlayerRowData
   email: currentUser.email,
   display_name: currentUser.display_name || currentUser.email.split("@")[0],
   nickname: "",
-  is_commissioner: true, // Creator is always a commissioner
+  role: "commissioner",  // Creator is always a commissioner
   isCreator: true,       // Mark as creator for UI locking
   isValidated: true,     // Creator is already validated
+  isInvite: false,
   isValidating: false,
   error: null
 });
 
+/**
+ * Whether a row holds a player (an email, or a player found by name)
+ */
+const isFilledRow = (player: PlayerRowData): boolean =>
+  player.player_id !== "" || player.email.trim() !== "";
+
 // ============================================================================
 // Component
 // ============================================================================
@@ -121,7 +139,7 @@ export function VersusWizardStep2({
   /**
    * Player rows state
    * 
-   * In create mode: Starts with just the creator row
+   * In create mode: Starts with the creator row, plus any saved or cloned rows
    * In edit mode: Uses initialData (existing players)
    * 
    * Users can add rows up to maxPlayers
@@ -130,8 +148,11 @@ export function VersusWizardStep2({
     if (mode === "edit" && initialData && initialData.length > 0) {
       return initialData;
     }
-    // Create mode: Start with just the creator
-    return [createCreatorRow(currentUser)];
+    // Create mode: the creator row always comes first
+    return [
+      createCreatorRow(currentUser),
+      ...(initialData || []).filter(p => !p.isCreator && p.player_id !== currentUser.id),
+    ];
   });
 
 
@@ -179,6 +200,7 @@ export function VersusWizardStep2({
       // If email changed, reset validation state
       if (field === "email") {
         updated.isValidated = false;
+        updated.isInvite = false;
         updated.player_id = "";
         updated.display_name = "";
         updated.error = null;
@@ -188,6 +210,42 @@ export function VersusWizardStep2({
     }));
   };
 
+  /**
+   * Add rows from a CSV import
+   * Rows arrive already checked, so they replace any empty rows
+   */
+  const importPlayers = (rows: CsvImportResult[]) => {
+    setPlayers(prev => [
+      ...prev.filter(p => p.isCreator || isFilledRow(p)),
+      ...rows.map(row => ({
+        ...createEmptyPlayerRow(),
+        player_id: row.player_id,
+        email: row.email,
+        display_name: row.display_name,
+        nickname: row.nickname,
+        isValidated: true,
+        isInvite: row.status === "unmatched",
+      })),
+    ]);
+  };
+
+  /**
+   * Add a player found by name
+   * Discoverable players come without an email, so the row is keyed by id
+   */
+  const addSearchResult = (result: PlayerSearchResult) => {
+    setPlayers(prev => [
+      ...prev.filter(p => p.isCreator || isFilledRow(p)),
+      {
+        ...createEmptyPlayerRow(),
+        player_id: result.id,
+        email: result.email || "",
+        display_name: result.display_name || result.email?.split("@")[0] || "Player",
+        isValidated: true,
+      },
+    ]);
+  };
+
   // ============================================================================
   // Email Validation (FR-010a, FR-010b)
   // ============================================================================
@@ -198,7 +256,7 @@ export function VersusWizardStep2({
    * This function:
    * 1. Calls the server action to check if email exists
    * 2. If found: Auto-populates player_id and display_name
-   * 3. If not found: Shows error message
+   * 3. If not found: Marks the row as an email invitation
    * 
    * Why on blur? To provide immediate feedback without API spam during typing
    */
@@ -231,31 +289,41 @@ export function VersusWizardStep2({
 
     try {
       // Call server action to validate email
-      const result = await validatePlayerEmail(player.email);
+      const { data: found, error: lookupError } = await validatePlayerEmail(player.email);
 
-      if (result.data) {
+      if (lookupError) {
+        setPlayers(prev => prev.map((p, i) => 
+          i === index 
+            ? { ...p, isValidated: false, isValidating: false, error: lookupError.message }
+            : p
+        ));
+      } else if (found) {
         // Email found! Auto-populate player data
         setPlayers(prev => prev.map((p, i) => 
           i === index 
             ? {
                 ...p,
-                player_id: result.data.id,
-                display_name: result.data.display_name || result.data.email.split("@")[0],
+                player_id: found.id,
+                display_name: found.display_name || found.email.split("@")[0],
                 isValidated: true,
+                isInvite: false,
                 isValidating: false,
                 error: null
               }
             : p
         ));
       } else {
-        // Email not found - show error
+        // No account yet - they'll be invited by email
         setPlayers(prev => prev.map((p, i) => 
           i === index 
             ? {
                 ...p,
-                isValidated: false,
+                player_id: "",
+                display_name: "",
+                isValidated: true,
+                isInvite: true,
                 isValidating: false,
-                error: "No account found with this email. Player must sign up first."
+                error: null
               }
             : p
         ));
@@ -290,7 +358,7 @@ export function VersusWizardStep2({
     e.preventDefault();
 
     // Filter out empty rows and check for validation issues
-    const filledPlayers = players.filter(p => p.email.trim() !== "");
+    const filledPlayers = players.filter(isFilledRow);
     
     // Check if all filled players are validated
     const invalidPlayers = filledPlayers.filter(p => !p.isValidated);
@@ -298,7 +366,7 @@ export function VersusWizardStep2({
       // Mark unvalidated players with error
       setPlayers(prev => prev.map(p => {
         if (p.email && !p.isValidated && !p.error) {
-          return { ...p, error: "No account found with this email. Player must sign up first." };
+          return { ...p, error: "This email hasn't been checked yet. Please try again." };
         }
         return p;
       }));
@@ -327,7 +395,7 @@ export function VersusWizardStep2({
   }, []);
 
   // Current player count for display
-  const currentPlayerCount = players.filter(p => p.email.trim() !== "").length;
+  const currentPlayerCount = players.filter(isFilledRow).length;
 
   // ============================================================================
   // Render
@@ -417,15 +485,15 @@ export function VersusWizardStep2({
                     value={player.email}
                     onChange={(e) => updatePlayer(index, "email", e.target.value)}
                     onBlur={() => validateEmail(index)}
-                    disabled={player.isCreator}
-                    placeholder="player@example.com"
+                    disabled={player.isCreator || (player.isValidated && !player.email)}
+                    placeholder={player.isValidated && !player.email ? "Found by name" : "player@example.com"}
                     aria-label={player.isCreator ? "Your email (cannot be changed)" : `Player ${index + 1} email`}
                     aria-required={!player.isCreator}
                     aria-invalid={!!player.error}
                     aria-describedby={player.error ? `email-${index}-error` : undefined}
                     aria-busy={player.isValidating}
                     className={`w-full rounded-lg border px-3 py-2 text-sm ${
-                      player.isCreator 
+                      player.isCreator || (player.isValidated && !player.email)
                         ? "border-primary/20 bg-card/30 text-muted-foreground cursor-not-allowed"
                         : "border-primary/30 bg-card/50 text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
                     } placeholder-muted-foreground/50`}
@@ -440,9 +508,15 @@ export function VersusWizardStep2({
                     </span>
                   )}
                   {player.isValidated && !player.isCreator && (
-                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-neon-green">
-                      ✓
-                    </span>
+                    player.isInvite ? (
+                      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-neon-blue" title="Will be invited by email">
+                        ✉
+                      </span>
+                    ) : (
+                      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-neon-green">
+                        ✓
+                      </span>
+                    )
                   )}
                 </div>
                 {player.error && (
@@ -468,7 +542,11 @@ export function VersusWizardStep2({
                     }
                   }}
                   disabled={player.isCreator || !player.isValidated}
-                  placeholder={player.isValidated ? "Leave blank to use display name" : "Validates after email"}
+                  placeholder={
+                    player.isInvite
+                      ? "Leave blank to use their signup name"
+                      : player.isValidated ? "Leave blank to use display name" : "Validates after email"
+                  }
                   aria-label={player.isValidated ? `Player ${index + 1} nickname (optional)` : `Player ${index + 1} display name`}
                   aria-describedby={player.isValidated ? `nickname-${index}-help` : undefined}
                   className={`w-full rounded-lg border px-3 py-2 text-sm ${
@@ -478,30 +556,41 @@ export function VersusWizardStep2({
                   } placeholder-muted-foreground/50`}
                 />
                 {player.isValidated && !player.isCreator && (
-                  <p id={`nickname-${index}-help`} className="mt-1 text-xs text-muted-foreground">
-                    DB name: {player.display_name}
-                  </p>
+                  player.isInvite ? (
+                    <p id={`nickname-${index}-help`} className="mt-1 text-xs text-neon-blue">
+                      No account yet - we&apos;ll email them an invite to sign up
+                    </p>
+                  ) : (
+                    <p id={`nickname-${index}-help`} className="mt-1 text-xs text-muted-foreground">
+                      DB name: {player.display_name}
+                    </p>
+                  )
                 )}
               </div>
             </div>
 
-            {/* Commissioner Checkbox (for non-creators) */}
+            {/* Role (for non-creators) */}
             {!player.isCreator && player.isValidated && (
               <div className="mt-3">
-                <label className="flex items-center gap-2 cursor-pointer">
-                  <input
-                    type="checkbox"
-                    checked={player.is_commissioner}
-                    onChange={(e) => updatePlayer(index, "is_commissioner", e.target.checked)}
-                    className="h-4 w-4 rounded border-primary/30 bg-card/50 text-primary focus:ring-primary"
-                  />
-                  <span className="text-sm text-foreground">
-                    Make Co-Commissioner
-                  </span>
-                  <span className="text-xs text-muted-foreground">
-                    (can edit settings, players, and objectives)
-                  </span>
+                <label htmlFor={`role-${index}`} className="block text-xs font-medium text-muted-foreground mb-1">
+                  Role
                 </label>
+                <select
+                  id={`role-${index}`}
+                  value={player.role}
+                  onChange={(e) => updatePlayer(index, "role", e.target.value)}
+                  aria-describedby={`role-${index}-help`}
+                  className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-sm text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+                >
+                  {VERSUS_ROLES.map((role) => (
+                    <option key={role} value={role} className="bg-background">
+                      {VERSUS_ROLE_LABELS[role]}
+                    </option>
+                  ))}
+                </select>
+                <p id={`role-${index}-help`} className="mt-1 text-xs text-muted-foreground">
+                  {VERSUS_ROLE_DESCRIPTIONS[player.role]}
+                </p>
               </div>
             )}
           </div>
@@ -519,6 +608,24 @@ export function VersusWizardStep2({
         </button>
       )}
 
+      {/* Find by name */}
+      {currentPlayerCount < maxPlayers && (
+        <PlayerSearch
+          excludeIds={players.map(p => p.player_id).filter(Boolean)}
+          onSelect={addSearchResult}
+        />
+      )}
+
+      {/* Bulk import */}
+      {currentPlayerCount < maxPlayers && (
+        <PlayerCsvImport
+          existingEmails={players.map(p => p.email.trim().toLowerCase()).filter(Boolean)}
+          slotsLeft={maxPlayers - currentPlayerCount}
+          maxPlayers={maxPlayers}
+          onImport={importPlayers}
+        />
+      )}
+
       {/* Form Actions */}
       <div className="flex items-center justify-between pt-6 border-t border-primary/20">
         {/* Back Button */}
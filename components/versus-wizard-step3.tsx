@@ -12,12 +12,19 @@
  * - Points can be positive (+) or negative (-) for penalty-based games
  * - Maximum 12 objectives per Versus
  * - Description field for additional context
+ * - Optional completion limits (overall, per day/week) and cooldowns
+ * - Claim modes: first-to-claim only, or a 1st/2nd/3rd podium
+ * - Per-unit scoring (e.g. 2 points per mile) as an alternative to fixed points
+ * - Optional photo proof players attach when they log it
  * 
  * See: docs/features/create-versus-wizard-spec.md (FR-016 through FR-029)
  */
 
 import { useState } from "react";
 import { generateObjectiveSuggestions, type SuggestedObjective } from "@/app/actions/suggestions";
+import { describeObjectiveLimits } from "@/lib/objective-limits";
+import { formatRate } from "@/lib/scoring";
+import type { ClaimMode, LimitPeriod, Objective } from "@/types/database";
 
 // ============================================================================
 // Type Definitions
@@ -30,6 +37,13 @@ import { generateObjectiveSuggestions, type SuggestedObjective } from "@/app/act
  */
 export type PointsType = "positive" | "negative";
 
+/**
+ * How an objective is scored
+ * - fixed: the same points every completion
+ * - per_unit: the player logs a quantity, scored at points_per_unit
+ */
+export type ScoringType = "fixed" | "per_unit";
+
 /**
  * Data for a single objective
  * Points are always stored as positive in form, then multiplied by -1 if negative
@@ -40,6 +54,16 @@ export interface ObjectiveData {
   points_type: PointsType;  // Whether points are positive or negative
   points: number;       // Point value (always positive in form)
   description: string;  // Optional explanation
+  max_per_player: number | null;   // Overall cap per player (null = unlimited)
+  max_per_period: number | null;   // Cap per day/week per player (null = unlimited)
+  limit_period: LimitPeriod;       // Window for max_per_period
+  cooldown_minutes: number | null; // Minutes between completions (null = none)
+  claim_mode: ClaimMode;           // Who can score it
+  podium_points: number[];         // 1st/2nd/3rd points (always positive in form)
+  scoring: ScoringType;            // Fixed points or per unit
+  unit: string;                    // e.g. "mile" (per_unit only)
+  points_per_unit: number;         // Rate per unit (always positive in form)
+  requires_proof: boolean;         // Players must attach a photo
   isEditing: boolean;   // Currently being edited?
 }
 
@@ -51,6 +75,15 @@ export interface ObjectiveSubmitData {
   title: string;
   points: number;       // Can be negative
   description: string | null;
+  max_per_player: number | null;
+  max_per_period: number | null;
+  limit_period: LimitPeriod | null; // Only set when max_per_period is set
+  cooldown_minutes: number | null;
+  claim_mode: ClaimMode;
+  podium_points: number[] | null;   // Signed like points; only set in podium mode
+  unit: string | null;              // Only set for per-unit scoring
+  points_per_unit: number | null;   // Signed like points; only set for per-unit scoring
+  requires_proof: boolean;
 }
 
 /**
@@ -83,6 +116,11 @@ interface Step3Props {
 
 const MAX_OBJECTIVES = 12;
 
+/**
+ * Default podium payout for 1st, 2nd and 3rd
+ */
+const DEFAULT_PODIUM_POINTS = [10, 6, 3];
+
 /**
  * Generate a temporary ID for new objectives
  * Will be replaced with UUID from database after save
@@ -98,9 +136,356 @@ const createEmptyObjective = (): ObjectiveData => ({
   points_type: "positive",
   points: 10,
   description: "",
+  max_per_player: null,
+  max_per_period: null,
+  limit_period: "day",
+  cooldown_minutes: null,
+  claim_mode: "unlimited",
+  podium_points: DEFAULT_PODIUM_POINTS,
+  scoring: "fixed",
+  unit: "",
+  points_per_unit: 1,
+  requires_proof: false,
   isEditing: true // New objectives start in edit mode
 });
 
+/**
+ * Convert a database objective (or saved wizard data) to the form format
+ * Points are stored as positive with a separate type in the form
+ */
+export const toObjectiveData = (
+  objective: Pick<Objective, "id"> & Partial<ObjectiveSubmitData> & Pick<ObjectiveSubmitData, "title" | "points">
+): ObjectiveData => ({
+  id: objective.id,
+  title: objective.title,
+  points_type: (objective.points_per_unit ?? objective.points) >= 0 ? "positive" : "negative",
+  points: Math.abs(objective.points),
+  description: objective.description || "",
+  max_per_player: objective.max_per_player ?? null,
+  max_per_period: objective.max_per_period ?? null,
+  limit_period: objective.limit_period || "day",
+  cooldown_minutes: objective.cooldown_minutes ?? null,
+  claim_mode: objective.claim_mode || "unlimited",
+  podium_points: objective.podium_points?.map(Math.abs) || DEFAULT_PODIUM_POINTS,
+  scoring: objective.unit ? "per_unit" : "fixed",
+  unit: objective.unit || "",
+  points_per_unit: Math.abs(objective.points_per_unit ?? 1),
+  requires_proof: objective.requires_proof ?? false,
+  isEditing: false,
+});
+
+/**
+ * Convert form data to the format saved to the database
+ * Points calculation (FR-017b, FR-017c): negative type multiplies by -1
+ */
+export const toObjectiveSubmitData = (obj: ObjectiveData): ObjectiveSubmitData => {
+  const sign = obj.points_type === "negative" ? -1 : 1;
+  const perUnit = obj.scoring === "per_unit";
+
+  return {
+    title: obj.title,
+    points: perUnit ? 0 : sign * Math.abs(obj.points),
+    description: obj.description.trim() || null,
+    max_per_player: obj.max_per_player,
+    max_per_period: obj.max_per_period,
+    limit_period: obj.max_per_period !== null ? obj.limit_period : null,
+    cooldown_minutes: obj.cooldown_minutes || null,
+    claim_mode: obj.claim_mode,
+    podium_points: obj.claim_mode === "podium"
+      ? obj.podium_points.map((p) => sign * Math.abs(p))
+      : null,
+    unit: perUnit ? obj.unit.trim() : null,
+    points_per_unit: perUnit ? sign * Math.abs(obj.points_per_unit) : null,
+    requires_proof: obj.requires_proof,
+  };
+};
+
+/**
+ * Parse an optional number input ("" = no limit)
+ */
+const parseOptionalNumber = (value: string): number | null => {
+  if (value.trim() === "") return null;
+  const parsed = parseInt(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+// ============================================================================
+// Scoring Fields
+// ============================================================================
+
+/**
+ * Fixed vs per-unit scoring, shared by the inline edit form and the new objective form
+ * Per-unit objectives ask the player for a quantity when they log it
+ */
+function ObjectiveScoringFields({
+  objective,
+  errors,
+  onChange,
+}: {
+  objective: ObjectiveData;
+  errors: Record<string, string>;
+  onChange: (updates: Partial<ObjectiveData>) => void;
+}) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-foreground mb-1">
+        Scoring
+      </label>
+      <select
+        value={objective.scoring}
+        onChange={(e) => onChange({ scoring: e.target.value as ScoringType })}
+        className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+      >
+        <option value="fixed" className="bg-background">Fixed points per completion</option>
+        <option value="per_unit" className="bg-background">Points per unit (e.g. per mile)</option>
+      </select>
+
+      {objective.scoring === "per_unit" && (
+        <div className="mt-3 grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-muted-foreground mb-1">
+              Unit
+            </label>
+            <input
+              type="text"
+              value={objective.unit}
+              onChange={(e) => onChange({ unit: e.target.value })}
+              placeholder="e.g., mile"
+              maxLength={30}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-foreground placeholder-muted-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+            />
+            {errors.unit && (
+              <p className="mt-1 text-sm text-destructive">{errors.unit}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-muted-foreground mb-1">
+              Points per unit
+            </label>
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={objective.points_per_unit}
+              onChange={(e) => onChange({ points_per_unit: parseFloat(e.target.value) || 0 })}
+              className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+            />
+            {errors.points_per_unit && (
+              <p className="mt-1 text-sm text-destructive">{errors.points_per_unit}</p>
+            )}
+          </div>
+        </div>
+      )}
+      {objective.scoring === "per_unit" && (
+        <p className="mt-1 text-xs text-muted-foreground">
+          Players enter a quantity when they log it. Points are rounded to the nearest whole point.
+        </p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Claim Fields
+// ============================================================================
+
+/**
+ * Claim mode inputs, shared by the inline edit form and the new objective form
+ * Single: only the first claimer scores. Podium: 1st/2nd/3rd score podium_points.
+ */
+function ObjectiveClaimFields({
+  objective,
+  errors,
+  onChange,
+}: {
+  objective: ObjectiveData;
+  errors: Record<string, string>;
+  onChange: (updates: Partial<ObjectiveData>) => void;
+}) {
+  const placeLabels = ["1st", "2nd", "3rd"];
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-foreground mb-1">
+        Who can score it?
+      </label>
+      <select
+        value={objective.claim_mode}
+        onChange={(e) => onChange({ claim_mode: e.target.value as ClaimMode })}
+        className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+      >
+        <option value="unlimited" className="bg-background">Everyone</option>
+        <option value="single" className="bg-background">First to claim only</option>
+        <option value="podium" className="bg-background">Podium (1st, 2nd, 3rd)</option>
+      </select>
+      <p className="mt-1 text-xs text-muted-foreground">
+        {objective.claim_mode === "unlimited"
+          ? "Every player can complete this objective"
+          : objective.claim_mode === "single"
+            ? "Once someone claims it, it's gone"
+            : "The first three finishers score decreasing points"}
+      </p>
+
+      {objective.claim_mode === "podium" && (
+        <div className="mt-3 grid grid-cols-3 gap-3">
+          {placeLabels.map((label, index) => (
+            <div key={label}>
+              <label className="block text-xs font-medium text-muted-foreground mb-1">
+                {label} place
+              </label>
+              <input
+                type="number"
+                min={0}
+                max={999999}
+                value={objective.podium_points[index] ?? 0}
+                onChange={(e) => {
+                  const podiumPoints = [...objective.podium_points];
+                  podiumPoints[index] = parseInt(e.target.value) || 0;
+                  onChange({ podium_points: podiumPoints });
+                }}
+                className="w-full rounded-lg border border-primary/30 bg-card/50 px-3 py-2 text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+      {errors.podium_points && (
+        <p className="mt-1 text-sm text-destructive">{errors.podium_points}</p>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Limit Fields
+// ============================================================================
+
+/**
+ * Completion limit inputs, shared by the inline edit form and the new objective form
+ * Every field is optional - blank means no limit
+ */
+function ObjectiveLimitFields({
+  objective,
+  errors,
+  onChange,
+}: {
+  objective: ObjectiveData;
+  errors: Record<string, string>;
+  onChange: (updates: Partial<ObjectiveData>) => void;
+}) {
+  return (
+    <div className="space-y-4 rounded-lg border border-primary/20 bg-card/30 p-4">
+      <p className="text-sm font-medium text-foreground">
+        Limits <span className="text-muted-foreground">(optional)</span>
+      </p>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">
+            Max per player
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={objective.max_per_player ?? ""}
+            onChange={(e) => onChange({ max_per_player: parseOptionalNumber(e.target.value) })}
+            placeholder="Unlimited"
+            className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground placeholder-muted-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+          />
+          {errors.max_per_player && (
+            <p className="mt-1 text-sm text-destructive">{errors.max_per_player}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">
+            Cooldown (minutes)
+          </label>
+          <input
+            type="number"
+            min={0}
+            value={objective.cooldown_minutes ?? ""}
+            onChange={(e) => onChange({ cooldown_minutes: parseOptionalNumber(e.target.value) })}
+            placeholder="None"
+            className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground placeholder-muted-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+          />
+          {errors.cooldown_minutes && (
+            <p className="mt-1 text-sm text-destructive">{errors.cooldown_minutes}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">
+            Max per period
+          </label>
+          <input
+            type="number"
+            min={1}
+            value={objective.max_per_period ?? ""}
+            onChange={(e) => onChange({ max_per_period: parseOptionalNumber(e.target.value) })}
+            placeholder="Unlimited"
+            className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground placeholder-muted-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+          />
+          {errors.max_per_period && (
+            <p className="mt-1 text-sm text-destructive">{errors.max_per_period}</p>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">
+            Period
+          </label>
+          <select
+            value={objective.limit_period}
+            onChange={(e) => onChange({ limit_period: e.target.value as LimitPeriod })}
+            disabled={objective.max_per_period === null}
+            className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground focus:border-primary focus:ring-1 focus:ring-primary disabled:opacity-50"
+          >
+            <option value="day" className="bg-background">Per day</option>
+            <option value="week" className="bg-background">Per week</option>
+          </select>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Days and weeks reset at midnight UTC (weeks start Monday). Leave blank for no limit.
+      </p>
+    </div>
+  );
+}
+
+// ============================================================================
+// Proof Field
+// ============================================================================
+
+/**
+ * Photo proof toggle, shared by the inline edit form and the new objective form
+ */
+function ObjectiveProofField({
+  objective,
+  onChange,
+}: {
+  objective: ObjectiveData;
+  onChange: (updates: Partial<ObjectiveData>) => void;
+}) {
+  return (
+    <label className="flex items-start gap-3 cursor-pointer">
+      <input
+        type="checkbox"
+        checked={objective.requires_proof}
+        onChange={(e) => onChange({ requires_proof: e.target.checked })}
+        className="mt-1 h-5 w-5 rounded border-primary/30 bg-card/50 text-primary focus:ring-primary focus:ring-offset-0"
+      />
+      <div>
+        <span className="text-sm font-medium text-foreground">Require photo proof</span>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          Players attach a photo or screenshot when they log it
+        </p>
+      </div>
+    </label>
+  );
+}
+
 // ============================================================================
 // Component
 // ============================================================================
@@ -170,6 +555,16 @@ export function VersusWizardStep3({
         points_type: s.isPositive ? "positive" : "negative",
         points: Math.abs(s.points),
         description: s.description || "",
+        max_per_player: null,
+        max_per_period: null,
+        limit_period: "day",
+        cooldown_minutes: null,
+        claim_mode: "unlimited",
+        podium_points: DEFAULT_PODIUM_POINTS,
+        scoring: "fixed",
+        unit: "",
+        points_per_unit: 1,
+        requires_proof: false,
         isEditing: false
       }));
 
@@ -267,6 +662,38 @@ export function VersusWizardStep3({
       newErrors.description = "Description must be 500 characters or less";
     }
 
+    if (obj.max_per_player !== null && obj.max_per_player < 1) {
+      newErrors.max_per_player = "Max per player must be at least 1";
+    }
+
+    if (obj.max_per_period !== null && obj.max_per_period < 1) {
+      newErrors.max_per_period = "Max per period must be at least 1";
+    }
+
+    if (
+      obj.claim_mode === "podium" &&
+      obj.podium_points.some((p) => p < 0 || p > 999999)
+    ) {
+      newErrors.podium_points = "Podium points must be between 0 and 999,999";
+    }
+
+    if (obj.scoring === "per_unit") {
+      if (!obj.unit.trim()) {
+        newErrors.unit = "Unit is required";
+      }
+      if (obj.points_per_unit <= 0 || obj.points_per_unit > 999999) {
+        newErrors.points_per_unit = "Points per unit must be greater than 0";
+      }
+      if (obj.claim_mode !== "unlimited") {
+        newErrors.unit = "Per-unit scoring only works when everyone can score it";
+      }
+    }
+
+    // Cooldown: up to one week
+    if (obj.cooldown_minutes !== null && (obj.cooldown_minutes < 0 || obj.cooldown_minutes > 10080)) {
+      newErrors.cooldown_minutes = "Cooldown must be between 0 and 10,080 minutes";
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -290,11 +717,7 @@ export function VersusWizardStep3({
         // Convert to submit format
         const submitData: ObjectiveSubmitData & { id?: string } = {
           ...(exists && { id: editingObjective.id }), // Only include id if it's an existing objective
-          title: editingObjective.title,
-          points: editingObjective.points_type === "negative" 
-            ? -Math.abs(editingObjective.points) 
-            : Math.abs(editingObjective.points),
-          description: editingObjective.description.trim() || null
+          ...toObjectiveSubmitData(editingObjective)
         };
 
         await onSaveObjective(submitData);
@@ -318,7 +741,9 @@ export function VersusWizardStep3({
         setErrors({});
       } catch (err) {
         console.error("Error saving objective:", err);
-        setErrors({ save: "Failed to save objective. Please try again." });
+        setErrors({
+          save: err instanceof Error ? err.message : "Failed to save objective. Please try again.",
+        });
       } finally {
         setSavingObjectiveId(null);
       }
@@ -371,12 +796,7 @@ export function VersusWizardStep3({
     }
 
     // Convert to submit format
-    // Points calculation (FR-017b, FR-017c): negative type multiplies by -1
-    const submitData: ObjectiveSubmitData[] = objectives.map(obj => ({
-      title: obj.title,
-      points: obj.points_type === "negative" ? -Math.abs(obj.points) : Math.abs(obj.points),
-      description: obj.description.trim() || null
-    }));
+    const submitData: ObjectiveSubmitData[] = objectives.map(toObjectiveSubmitData);
 
     onSubmit(submitData);
   };
@@ -464,6 +884,17 @@ export function VersusWizardStep3({
         <div className="space-y-3">
           {objectives.map((obj) => {
             const isEditing = editingObjective?.id === obj.id;
+            const claimLabel =
+              obj.claim_mode === "single" ? "First to claim"
+                : obj.claim_mode === "podium" ? "Podium"
+                : null;
+            const rulesSummary = [
+              claimLabel,
+              describeObjectiveLimits(toObjectiveSubmitData(obj)),
+              obj.requires_proof ? "Photo proof" : null,
+            ]
+              .filter(Boolean)
+              .join(" · ");
             
             return (
               <div
@@ -527,7 +958,8 @@ export function VersusWizardStep3({
                           max={999999}
                           value={editingObjective.points}
                           onChange={(e) => setEditingObjective(prev => prev ? { ...prev, points: parseInt(e.target.value) || 0 } : null)}
-                          className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+                          disabled={editingObjective.scoring === "per_unit"}
+                          className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground focus:border-primary focus:ring-1 focus:ring-primary disabled:opacity-50"
                         />
                         {errors.points && (
                           <p className="mt-1 text-sm text-destructive">{errors.points}</p>
@@ -535,6 +967,33 @@ export function VersusWizardStep3({
                       </div>
                     </div>
 
+                    {/* Scoring */}
+                    <ObjectiveScoringFields
+                      objective={editingObjective}
+                      errors={errors}
+                      onChange={(updates) => setEditingObjective(prev => prev ? { ...prev, ...updates } : null)}
+                    />
+
+                    {/* Claim Mode */}
+                    <ObjectiveClaimFields
+                      objective={editingObjective}
+                      errors={errors}
+                      onChange={(updates) => setEditingObjective(prev => prev ? { ...prev, ...updates } : null)}
+                    />
+
+                    {/* Completion Limits */}
+                    <ObjectiveLimitFields
+                      objective={editingObjective}
+                      errors={errors}
+                      onChange={(updates) => setEditingObjective(prev => prev ? { ...prev, ...updates } : null)}
+                    />
+
+                    {/* Proof */}
+                    <ObjectiveProofField
+                      objective={editingObjective}
+                      onChange={(updates) => setEditingObjective(prev => prev ? { ...prev, ...updates } : null)}
+                    />
+
                     {/* Description */}
                     <div>
                       <label className="block text-sm font-medium text-foreground mb-1">
@@ -608,7 +1067,11 @@ export function VersusWizardStep3({
                             obj.points_type === "positive" ? "text-neon-green" : "text-neon-pink"
                           }`}
                         >
-                          {formatPoints(obj.points_type, obj.points)}
+                          {obj.claim_mode === "podium"
+                            ? obj.podium_points.map((p) => formatPoints(obj.points_type, p)).join(" / ")
+                            : obj.scoring === "per_unit"
+                              ? formatRate(toObjectiveSubmitData(obj))
+                              : formatPoints(obj.points_type, obj.points)}
                         </span>
                       </div>
                       {obj.description && (
@@ -616,6 +1079,11 @@ export function VersusWizardStep3({
                           {obj.description}
                         </p>
                       )}
+                      {rulesSummary && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {rulesSummary}
+                        </p>
+                      )}
                     </div>
 
                     {/* Actions */}
@@ -706,7 +1174,8 @@ export function VersusWizardStep3({
                 max={999999}
                 value={editingObjective.points}
                 onChange={(e) => setEditingObjective(prev => prev ? { ...prev, points: parseInt(e.target.value) || 0 } : null)}
-                className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground focus:border-primary focus:ring-1 focus:ring-primary"
+                disabled={editingObjective.scoring === "per_unit"}
+                className="w-full rounded-lg border border-primary/30 bg-card/50 px-4 py-2 text-foreground focus:border-primary focus:ring-1 focus:ring-primary disabled:opacity-50"
               />
               {errors.points && (
                 <p className="mt-1 text-sm text-destructive">{errors.points}</p>
@@ -714,6 +1183,33 @@ export function VersusWizardStep3({
             </div>
           </div>
 
+          {/* Scoring */}
+          <ObjectiveScoringFields
+            objective={editingObjective}
+            errors={errors}
+            onChange={(updates) => setEditingObjective(prev => prev ? { ...prev, ...updates } : null)}
+          />
+
+          {/* Claim Mode */}
+          <ObjectiveClaimFields
+            objective={editingObjective}
+            errors={errors}
+            onChange={(updates) => setEditingObjective(prev => prev ? { ...prev, ...updates } : null)}
+          />
+
+          {/* Completion Limits */}
+          <ObjectiveLimitFields
+            objective={editingObjective}
+            errors={errors}
+            onChange={(updates) => setEditingObjective(prev => prev ? { ...prev, ...updates } : null)}
+          />
+
+          {/* Proof */}
+          <ObjectiveProofField
+            objective={editingObjective}
+            onChange={(updates) => setEditingObjective(prev => prev ? { ...prev, ...updates } : null)}
+          />
+
           {/* Description (Optional) */}
           <div>
             <label className="block text-sm font-medium text-foreground mb-1">
@@ -865,7 +1361,9 @@ export function VersusWizardStep3({
               Delete Objective
             </h3>
             <p className="text-sm text-muted-foreground mb-6">
-              Are you sure you want to delete this objective? This action cannot be undone and will remove all completions associated with this objective.
+              {mode === "edit"
+                ? "Are you sure you want to delete this objective? Players won't be able to log it anymore, but past completions keep their points."
+                : "Are you sure you want to delete this objective?"}
             </p>
             <div className="flex justify-end gap-3">
               <button
@@ -0,0 +1,120 @@
+-- ============================================================================
+-- Migration: Completion Undo Window and Commissioner Removals
+-- Date: 2025-12-03
+-- Description: Configurable undo grace period and reasoned removals by commissioners
+-- ============================================================================
+
+-- This migration adds:
+-- 1. undo_grace_minutes column to versus table (how long players can undo their own completions)
+-- 2. completion_removals table (record of completions removed by a commissioner, with a reason)
+-- 3. RLS policies so commissioners can remove any completion in their versus,
+--    while players can only delete their own inside the undo window
+
+-- ============================================================================
+-- STEP 1: Add undo_grace_minutes column to versus table
+-- ============================================================================
+
+ALTER TABLE versus ADD COLUMN IF NOT EXISTS undo_grace_minutes INTEGER DEFAULT 5 NOT NULL;
+
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_undo_grace_minutes_check;
+ALTER TABLE versus ADD CONSTRAINT versus_undo_grace_minutes_check CHECK (undo_grace_minutes >= 0);
+
+COMMENT ON COLUMN versus.undo_grace_minutes IS 'Minutes after logging during which a player can undo their own completion. After that, only a commissioner can remove it (with a reason).';
+
+-- ============================================================================
+-- STEP 2: Create completion_removals table
+-- ============================================================================
+
+-- Keeps a copy of the removed completion so the reason stays meaningful
+-- after the completion row itself is deleted
+CREATE TABLE IF NOT EXISTS completion_removals (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  versus_id UUID REFERENCES versus(id) ON DELETE CASCADE NOT NULL,
+  completion_id UUID NOT NULL, -- No FK: the completion is deleted after this row is written
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE NOT NULL,
+  objective_id UUID REFERENCES objectives(id) ON DELETE SET NULL,
+  completed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  removed_by UUID REFERENCES players(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (char_length(trim(reason)) > 0),
+  removed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_completion_removals_versus_id ON completion_removals(versus_id);
+
+ALTER TABLE completion_removals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view completion removals for their versus" ON completion_removals;
+CREATE POLICY "Users can view completion removals for their versus"
+  ON completion_removals FOR SELECT
+  USING (is_user_in_versus(versus_id));
+
+DROP POLICY IF EXISTS "Commissioners can record completion removals" ON completion_removals;
+CREATE POLICY "Commissioners can record completion removals"
+  ON completion_removals FOR INSERT
+  WITH CHECK (
+    removed_by = auth.uid()
+    AND is_user_commissioner(versus_id)
+  );
+
+-- ============================================================================
+-- STEP 3: Limit who can delete completions
+-- ============================================================================
+
+-- Players can delete their own completions only inside the undo window, so
+-- later removals always go through a commissioner (and completion_removals).
+-- Replaces the baseline policy, which had no time limit.
+DROP POLICY IF EXISTS "Users can delete their own completions" ON completions;
+CREATE POLICY "Users can delete their own completions"
+  ON completions FOR DELETE
+  USING (
+    auth.uid() = player_id
+    AND EXISTS (
+      SELECT 1 FROM versus v
+      WHERE v.id = completions.versus_id
+      AND completions.completed_at + make_interval(mins => v.undo_grace_minutes) > NOW()
+    )
+  );
+
+DROP POLICY IF EXISTS "Commissioners can delete completions in their versus" ON completions;
+CREATE POLICY "Commissioners can delete completions in their versus"
+  ON completions FOR DELETE
+  USING (is_user_commissioner(versus_id));
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'versus' AND column_name = 'undo_grace_minutes';
+
+SELECT policyname, cmd
+FROM pg_policies
+WHERE tablename IN ('completions', 'completion_removals')
+ORDER BY tablename, policyname;
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+DROP POLICY IF EXISTS "Commissioners can delete completions in their versus" ON completions;
+DROP POLICY IF EXISTS "Users can delete their own completions" ON completions;
+CREATE POLICY "Users can delete their own completions"
+  ON completions FOR DELETE
+  USING (auth.uid() = player_id);
+DROP TABLE IF EXISTS completion_removals;
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_undo_grace_minutes_check;
+ALTER TABLE versus DROP COLUMN IF EXISTS undo_grace_minutes;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-03-completion-undo-and-removals completed successfully!';
+    RAISE NOTICE 'Players can undo their own completions for versus.undo_grace_minutes (default 5)';
+    RAISE NOTICE 'Commissioners can remove any completion with a reason (completion_removals)';
+END $$;
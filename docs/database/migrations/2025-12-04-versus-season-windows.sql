@@ -0,0 +1,135 @@
+-- ============================================================================
+-- Migration: Versus Season Windows
+-- Date: 2025-12-04
+-- Description: Optional start/end timestamps and frozen final standings
+-- ============================================================================
+
+-- This migration adds:
+-- 1. starts_at / ends_at columns to versus table (optional season window)
+-- 2. finalized_at column to versus table (set once final standings are frozen)
+-- 3. versus_final_standings table (snapshot of player_rankings when a season closes)
+-- 4. finalize_versus_standings() function (idempotent snapshot, called lazily by the app)
+
+-- ============================================================================
+-- STEP 1: Add season columns to versus table
+-- ============================================================================
+
+ALTER TABLE versus ADD COLUMN IF NOT EXISTS starts_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE versus ADD COLUMN IF NOT EXISTS ends_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE versus ADD COLUMN IF NOT EXISTS finalized_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_season_window_check;
+ALTER TABLE versus ADD CONSTRAINT versus_season_window_check
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at);
+
+COMMENT ON COLUMN versus.starts_at IS 'Optional season start. Completions before this time are rejected.';
+COMMENT ON COLUMN versus.ends_at IS 'Optional season end. Completions after this time are rejected and final standings are frozen.';
+COMMENT ON COLUMN versus.finalized_at IS 'When the final standings were snapshotted into versus_final_standings. NULL while the season is open.';
+
+-- ============================================================================
+-- STEP 2: Create versus_final_standings table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS versus_final_standings (
+  versus_id UUID REFERENCES versus(id) ON DELETE CASCADE NOT NULL,
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE NOT NULL,
+  total_score NUMERIC NOT NULL,
+  rank INTEGER NOT NULL,
+  total_players INTEGER NOT NULL,
+  finalized_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (versus_id, player_id)
+);
+
+ALTER TABLE versus_final_standings ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for participants. Rows are only written by finalize_versus_standings().
+DROP POLICY IF EXISTS "Users can view final standings for their versus" ON versus_final_standings;
+CREATE POLICY "Users can view final standings for their versus"
+  ON versus_final_standings FOR SELECT
+  USING (is_user_in_versus(versus_id));
+
+-- ============================================================================
+-- STEP 3: Create finalize_versus_standings() function
+-- ============================================================================
+
+-- Snapshots player_rankings into versus_final_standings once ends_at has passed.
+-- Safe to call repeatedly: returns TRUE if the versus is (now) finalized,
+-- FALSE if the season has no end or hasn't ended yet.
+CREATE OR REPLACE FUNCTION finalize_versus_standings(p_versus_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ends_at TIMESTAMPTZ;
+  v_finalized_at TIMESTAMPTZ;
+BEGIN
+  IF NOT is_user_in_versus(p_versus_id) THEN
+    RAISE EXCEPTION 'You don''t have access to this versus';
+  END IF;
+
+  -- Lock the versus row so concurrent callers snapshot only once
+  SELECT ends_at, finalized_at INTO v_ends_at, v_finalized_at
+  FROM versus
+  WHERE id = p_versus_id
+  FOR UPDATE;
+
+  IF v_finalized_at IS NOT NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  IF v_ends_at IS NULL OR v_ends_at > NOW() THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO versus_final_standings (versus_id, player_id, total_score, rank, total_players)
+  SELECT versus_id, player_id, total_score, rank, total_players
+  FROM player_rankings
+  WHERE versus_id = p_versus_id;
+
+  UPDATE versus SET finalized_at = NOW() WHERE id = p_versus_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION finalize_versus_standings(UUID) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'versus'
+AND column_name IN ('starts_at', 'ends_at', 'finalized_at');
+
+SELECT routine_name, security_type
+FROM information_schema.routines
+WHERE routine_schema = 'public'
+AND routine_name = 'finalize_versus_standings';
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+DROP FUNCTION IF EXISTS finalize_versus_standings(UUID);
+DROP TABLE IF EXISTS versus_final_standings;
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_season_window_check;
+ALTER TABLE versus DROP COLUMN IF EXISTS finalized_at;
+ALTER TABLE versus DROP COLUMN IF EXISTS ends_at;
+ALTER TABLE versus DROP COLUMN IF EXISTS starts_at;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-04-versus-season-windows completed successfully!';
+    RAISE NOTICE 'Versus can now have optional starts_at / ends_at';
+    RAISE NOTICE 'Final standings are frozen by finalize_versus_standings() after ends_at';
+END $$;
@@ -0,0 +1,146 @@
+-- ============================================================================
+-- Migration: Recurring Rounds
+-- Date: 2025-12-05
+-- Description: Daily/weekly/monthly rounds with per-round standings and round wins
+-- ============================================================================
+
+-- This migration adds:
+-- 1. round_period column to versus table ('none', 'daily', 'weekly', 'monthly')
+-- 2. player_round_rankings view (score and rank per player per round)
+-- 3. player_round_wins view (how many finished rounds each player has won)
+--
+-- Rounds are calendar buckets in UTC (date_trunc), so a weekly round runs
+-- Monday 00:00 UTC to the following Monday. The all-time player_scores and
+-- player_rankings views are unchanged.
+
+-- ============================================================================
+-- STEP 1: Add round_period column to versus table
+-- ============================================================================
+
+ALTER TABLE versus ADD COLUMN IF NOT EXISTS round_period TEXT DEFAULT 'none' NOT NULL;
+
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_round_period_check;
+ALTER TABLE versus ADD CONSTRAINT versus_round_period_check
+  CHECK (round_period IN ('none', 'daily', 'weekly', 'monthly'));
+
+COMMENT ON COLUMN versus.round_period IS 'How often the versus resets into a new round. ''none'' = a single all-time scoreboard.';
+
+-- ============================================================================
+-- STEP 2: Create player_round_rankings view
+-- ============================================================================
+
+-- One row per player per round that has at least one completion.
+-- Players who logged nothing in a round are included with a score of 0.
+CREATE OR REPLACE VIEW player_round_rankings
+WITH (security_invoker = true)
+AS
+WITH rounds AS (
+  SELECT DISTINCT
+    c.versus_id,
+    date_trunc(
+      CASE v.round_period
+        WHEN 'daily' THEN 'day'
+        WHEN 'weekly' THEN 'week'
+        ELSE 'month'
+      END,
+      c.completed_at AT TIME ZONE 'UTC'
+    ) AT TIME ZONE 'UTC' AS round_start
+  FROM completions c
+  JOIN versus v ON v.id = c.versus_id
+  WHERE v.round_period <> 'none'
+),
+round_scores AS (
+  SELECT
+    r.versus_id,
+    r.round_start,
+    vp.player_id,
+    COALESCE(SUM(o.points), 0) AS total_score
+  FROM rounds r
+  JOIN versus v ON v.id = r.versus_id
+  JOIN versus_players vp ON vp.versus_id = r.versus_id
+  LEFT JOIN completions c
+    ON c.versus_id = r.versus_id
+    AND c.player_id = vp.player_id
+    AND c.completed_at >= r.round_start
+    AND c.completed_at < r.round_start + CASE v.round_period
+      WHEN 'daily' THEN INTERVAL '1 day'
+      WHEN 'weekly' THEN INTERVAL '1 week'
+      ELSE INTERVAL '1 month'
+    END
+  LEFT JOIN objectives o ON o.id = c.objective_id
+  GROUP BY r.versus_id, r.round_start, vp.player_id
+)
+SELECT
+  rs.versus_id,
+  rs.round_start,
+  rs.player_id,
+  rs.total_score,
+  CASE
+    WHEN v.reverse_ranking THEN
+      RANK() OVER (PARTITION BY rs.versus_id, rs.round_start ORDER BY rs.total_score ASC)
+    ELSE
+      RANK() OVER (PARTITION BY rs.versus_id, rs.round_start ORDER BY rs.total_score DESC)
+  END AS rank,
+  COUNT(*) OVER (PARTITION BY rs.versus_id, rs.round_start) AS total_players
+FROM round_scores rs
+JOIN versus v ON v.id = rs.versus_id;
+
+-- ============================================================================
+-- STEP 3: Create player_round_wins view
+-- ============================================================================
+
+-- A round counts once it has finished. Tied winners each get the win.
+CREATE OR REPLACE VIEW player_round_wins
+WITH (security_invoker = true)
+AS
+SELECT
+  vp.versus_id,
+  vp.player_id,
+  COUNT(prr.round_start) AS round_wins
+FROM versus_players vp
+JOIN versus v ON v.id = vp.versus_id
+LEFT JOIN player_round_rankings prr
+  ON prr.versus_id = vp.versus_id
+  AND prr.player_id = vp.player_id
+  AND prr.rank = 1
+  AND prr.round_start + CASE v.round_period
+    WHEN 'daily' THEN INTERVAL '1 day'
+    WHEN 'weekly' THEN INTERVAL '1 week'
+    ELSE INTERVAL '1 month'
+  END <= NOW()
+GROUP BY vp.versus_id, vp.player_id;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'versus' AND column_name = 'round_period';
+
+SELECT table_name
+FROM information_schema.views
+WHERE table_schema = 'public'
+AND table_name IN ('player_round_rankings', 'player_round_wins');
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+DROP VIEW IF EXISTS player_round_wins;
+DROP VIEW IF EXISTS player_round_rankings;
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_round_period_check;
+ALTER TABLE versus DROP COLUMN IF EXISTS round_period;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-05-recurring-rounds completed successfully!';
+    RAISE NOTICE 'Versus can now run in daily, weekly or monthly rounds (versus.round_period)';
+    RAISE NOTICE 'Per-round standings: player_round_rankings, round wins: player_round_wins';
+END $$;
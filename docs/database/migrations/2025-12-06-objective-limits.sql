@@ -0,0 +1,231 @@
+-- ============================================================================
+-- Migration: Objective Completion Limits and Cooldowns
+-- Date: 2025-12-06
+-- Description: Per-objective caps (overall, per day/week) and cooldowns
+-- ============================================================================
+
+-- This migration adds:
+-- 1. max_per_player, max_per_period, limit_period and cooldown_minutes columns to objectives
+-- 2. Updated create_objectives_for_versus() so the wizard can set the new columns
+-- 3. check_completion_limits() trigger enforcing the limits on every new completion
+--
+-- completeObjective() checks the same limits first so players get a friendly
+-- message; the trigger is what stops two quick inserts getting past it.
+-- NULL means "no limit" for every column.
+
+-- ============================================================================
+-- STEP 1: Add limit columns to objectives table
+-- ============================================================================
+
+ALTER TABLE objectives ADD COLUMN IF NOT EXISTS max_per_player INTEGER;
+ALTER TABLE objectives ADD COLUMN IF NOT EXISTS max_per_period INTEGER;
+ALTER TABLE objectives ADD COLUMN IF NOT EXISTS limit_period TEXT;
+ALTER TABLE objectives ADD COLUMN IF NOT EXISTS cooldown_minutes INTEGER;
+
+ALTER TABLE objectives DROP CONSTRAINT IF EXISTS objectives_limits_check;
+ALTER TABLE objectives ADD CONSTRAINT objectives_limits_check CHECK (
+  (max_per_player IS NULL OR max_per_player > 0)
+  AND (max_per_period IS NULL OR max_per_period > 0)
+  AND (limit_period IS NULL OR limit_period IN ('day', 'week'))
+  AND ((max_per_period IS NULL) = (limit_period IS NULL))
+  AND (cooldown_minutes IS NULL OR cooldown_minutes >= 0)
+);
+
+COMMENT ON COLUMN objectives.max_per_player IS 'Max completions per player for the whole versus. NULL = unlimited.';
+COMMENT ON COLUMN objectives.max_per_period IS 'Max completions per player per limit_period (UTC day/week). NULL = unlimited.';
+COMMENT ON COLUMN objectives.limit_period IS 'Window for max_per_period: ''day'' or ''week''. Set together with max_per_period.';
+COMMENT ON COLUMN objectives.cooldown_minutes IS 'Minimum minutes between two completions by the same player. NULL = no cooldown.';
+
+-- ============================================================================
+-- STEP 2: Update create_objectives_for_versus() to accept limits
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_objectives_for_versus(
+  p_versus_id UUID,
+  p_objectives JSONB  -- Array of: [{title, points, description, max_per_player, max_per_period, limit_period, cooldown_minutes}, ...]
+)
+RETURNS SETOF objectives
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  objective_record JSONB;
+  inserted_objective objectives;
+BEGIN
+  -- Validate versus exists
+  IF NOT EXISTS (SELECT 1 FROM versus WHERE id = p_versus_id) THEN
+    RAISE EXCEPTION 'Versus does not exist';
+  END IF;
+
+  -- Insert each objective
+  FOR objective_record IN SELECT * FROM jsonb_array_elements(p_objectives)
+  LOOP
+    INSERT INTO objectives (
+      versus_id,
+      title,
+      points,
+      description,
+      max_per_player,
+      max_per_period,
+      limit_period,
+      cooldown_minutes
+    )
+    VALUES (
+      p_versus_id,
+      objective_record->>'title',
+      (objective_record->>'points')::INTEGER,
+      objective_record->>'description',
+      (objective_record->>'max_per_player')::INTEGER,
+      (objective_record->>'max_per_period')::INTEGER,
+      objective_record->>'limit_period',
+      (objective_record->>'cooldown_minutes')::INTEGER
+    )
+    RETURNING * INTO inserted_objective;
+
+    RETURN NEXT inserted_objective;
+  END LOOP;
+
+  RETURN;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_objectives_for_versus(UUID, JSONB) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: Enforce limits when a completion is inserted
+-- ============================================================================
+
+-- Same rules as getObjectiveAllowance() in lib/objective-limits.ts, checked
+-- at the completion's own time. The objective row is locked (as in
+-- claim_objective()) so concurrent completions are counted one at a time.
+CREATE OR REPLACE FUNCTION check_completion_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_objective objectives;
+  v_name TEXT;
+  v_who TEXT;
+  v_period_start TIMESTAMPTZ;
+  v_cooldown_ends TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_objective
+  FROM objectives
+  WHERE id = NEW.objective_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW; -- The foreign key reports this
+  END IF;
+
+  -- A commissioner logging for someone else gets told about that player
+  IF NEW.player_id IS DISTINCT FROM auth.uid() THEN
+    SELECT COALESCE(vp.nickname, p.display_name, split_part(p.email, '@', 1))
+    INTO v_name
+    FROM players p
+    LEFT JOIN versus_players vp ON vp.player_id = p.id AND vp.versus_id = NEW.versus_id
+    WHERE p.id = NEW.player_id;
+  END IF;
+  v_who := COALESCE(v_name || ' has', 'You''ve');
+
+  -- Lifetime limit
+  IF v_objective.max_per_player IS NOT NULL AND (
+    SELECT COUNT(*) FROM completions
+    WHERE objective_id = NEW.objective_id
+    AND player_id = NEW.player_id
+  ) >= v_objective.max_per_player THEN
+    RAISE EXCEPTION '% reached the limit of % for "%"',
+      v_who, v_objective.max_per_player, v_objective.title;
+  END IF;
+
+  -- Per day / per week limit (UTC calendar buckets, weeks start on Monday)
+  IF v_objective.max_per_period IS NOT NULL THEN
+    v_period_start := date_trunc(v_objective.limit_period, NEW.completed_at, 'UTC');
+
+    IF (
+      SELECT COUNT(*) FROM completions
+      WHERE objective_id = NEW.objective_id
+      AND player_id = NEW.player_id
+      AND completed_at >= v_period_start
+      AND completed_at < v_period_start + ('1 ' || v_objective.limit_period)::INTERVAL
+    ) >= v_objective.max_per_period THEN
+      RAISE EXCEPTION '% reached % limit of % for "%"',
+        v_who,
+        CASE v_objective.limit_period WHEN 'day' THEN 'today''s' ELSE 'this week''s' END,
+        v_objective.max_per_period,
+        v_objective.title;
+    END IF;
+  END IF;
+
+  -- Cooldown since the player's previous completion
+  IF v_objective.cooldown_minutes > 0 THEN
+    SELECT MAX(completed_at) + make_interval(mins => v_objective.cooldown_minutes)
+    INTO v_cooldown_ends
+    FROM completions
+    WHERE objective_id = NEW.objective_id
+    AND player_id = NEW.player_id
+    AND completed_at <= NEW.completed_at;
+
+    IF v_cooldown_ends > NEW.completed_at THEN
+      RAISE EXCEPTION '"%" is on cooldown%. Try again in % min',
+        v_objective.title,
+        COALESCE(' for ' || v_name, ''),
+        CEIL(EXTRACT(EPOCH FROM v_cooldown_ends - NEW.completed_at) / 60);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- BEFORE triggers run in name order: "validate_..." runs after the
+-- "set_completion_..." triggers, so it sees the final completed_at
+DROP TRIGGER IF EXISTS validate_completion_limits ON completions;
+CREATE TRIGGER validate_completion_limits
+  BEFORE INSERT ON completions
+  FOR EACH ROW
+  EXECUTE FUNCTION check_completion_limits();
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'objectives'
+AND column_name IN ('max_per_player', 'max_per_period', 'limit_period', 'cooldown_minutes');
+
+SELECT tgname
+FROM pg_trigger
+WHERE tgrelid = 'completions'::regclass
+AND tgname = 'validate_completion_limits';
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+-- Re-run 2025-12-02-all-rls-workarounds.sql to restore the previous
+-- create_objectives_for_versus() definition, then:
+DROP TRIGGER IF EXISTS validate_completion_limits ON completions;
+DROP FUNCTION IF EXISTS check_completion_limits();
+ALTER TABLE objectives DROP CONSTRAINT IF EXISTS objectives_limits_check;
+ALTER TABLE objectives DROP COLUMN IF EXISTS cooldown_minutes;
+ALTER TABLE objectives DROP COLUMN IF EXISTS limit_period;
+ALTER TABLE objectives DROP COLUMN IF EXISTS max_per_period;
+ALTER TABLE objectives DROP COLUMN IF EXISTS max_per_player;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-06-objective-limits completed successfully!';
+    RAISE NOTICE 'Objectives can now cap completions (overall, per day/week) and set cooldowns';
+    RAISE NOTICE 'Limits are enforced on insert by the validate_completion_limits trigger';
+END $$;
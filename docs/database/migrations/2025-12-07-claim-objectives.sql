@@ -0,0 +1,437 @@
+-- ============================================================================
+-- Migration: First-to-Claim Objectives
+-- Date: 2025-12-07
+-- Description: Objectives that can be claimed once per versus, or by a podium of 3
+-- ============================================================================
+
+-- This migration adds:
+-- 1. claim_mode and podium_points columns to objectives table
+-- 2. claim_rank column to completions table (1 = first claimer)
+-- 3. Unique indexes so a claim slot can only be taken once
+-- 4. claim_objective() function (row-locked claim, safe under concurrency)
+-- 5. assign_completion_claim_rank trigger (every insert on a claimable objective takes a slot)
+-- 6. completion_points view (points earned by each completion)
+-- 7. player_scores and player_round_rankings rebuilt on top of completion_points
+--
+-- claim_mode:
+--   'unlimited' - default, every player can complete the objective
+--   'single'    - only the first claimer scores (objectives.points)
+--   'podium'    - 1st/2nd/3rd claimers score podium_points[1..3]
+
+-- ============================================================================
+-- STEP 1: Add claim columns
+-- ============================================================================
+
+ALTER TABLE objectives ADD COLUMN IF NOT EXISTS claim_mode TEXT DEFAULT 'unlimited' NOT NULL;
+ALTER TABLE objectives ADD COLUMN IF NOT EXISTS podium_points INTEGER[];
+
+ALTER TABLE objectives DROP CONSTRAINT IF EXISTS objectives_claim_mode_check;
+ALTER TABLE objectives ADD CONSTRAINT objectives_claim_mode_check CHECK (
+  claim_mode IN ('unlimited', 'single', 'podium')
+  AND (claim_mode <> 'podium' OR array_length(podium_points, 1) BETWEEN 1 AND 3)
+);
+
+COMMENT ON COLUMN objectives.claim_mode IS '''unlimited'' (everyone), ''single'' (first claimer only) or ''podium'' (first 1-3 claimers, scored by podium_points).';
+COMMENT ON COLUMN objectives.podium_points IS 'Points for the 1st, 2nd and 3rd claimers when claim_mode = ''podium''.';
+
+ALTER TABLE completions ADD COLUMN IF NOT EXISTS claim_rank INTEGER;
+
+COMMENT ON COLUMN completions.claim_rank IS 'Claim position (1 = first) for single/podium objectives. NULL for unlimited objectives.';
+
+-- A claim slot can only be taken once, and each player claims an objective at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_completions_claim_slot
+  ON completions(objective_id, claim_rank)
+  WHERE claim_rank IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_completions_claim_player
+  ON completions(objective_id, player_id)
+  WHERE claim_rank IS NOT NULL;
+
+-- ============================================================================
+-- STEP 2: Create claim_objective() function
+-- ============================================================================
+
+-- Locks the objective row so concurrent claims are serialized, then takes the
+-- lowest free slot. Slots freed by an undo/removal can be claimed again.
+CREATE OR REPLACE FUNCTION claim_objective(p_objective_id UUID)
+RETURNS completions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_objective objectives;
+  v_slots INTEGER;
+  v_rank INTEGER;
+  v_completion completions;
+BEGIN
+  SELECT * INTO v_objective
+  FROM objectives
+  WHERE id = p_objective_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Objective not found';
+  END IF;
+
+  IF NOT is_user_in_versus(v_objective.versus_id) THEN
+    RAISE EXCEPTION 'You don''t have access to this versus';
+  END IF;
+
+  IF v_objective.claim_mode = 'unlimited' THEN
+    RAISE EXCEPTION 'This objective isn''t claimable';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM completions
+    WHERE objective_id = p_objective_id
+    AND player_id = auth.uid()
+    AND claim_rank IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'You''ve already claimed this objective';
+  END IF;
+
+  v_slots := CASE v_objective.claim_mode
+    WHEN 'podium' THEN array_length(v_objective.podium_points, 1)
+    ELSE 1
+  END;
+
+  SELECT MIN(slot) INTO v_rank
+  FROM generate_series(1, v_slots) AS slot
+  WHERE NOT EXISTS (
+    SELECT 1 FROM completions
+    WHERE objective_id = p_objective_id
+    AND claim_rank = slot
+  );
+
+  IF v_rank IS NULL THEN
+    RAISE EXCEPTION 'This objective has already been claimed';
+  END IF;
+
+  INSERT INTO completions (versus_id, player_id, objective_id, claim_rank)
+  VALUES (v_objective.versus_id, auth.uid(), p_objective_id, v_rank)
+  RETURNING * INTO v_completion;
+
+  RETURN v_completion;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_objective(UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: Assign claim slots on every insert
+-- ============================================================================
+
+-- The insert policy lets players add completions directly, which would skip
+-- claim_objective() and leave claim_rank NULL (the unique indexes ignore
+-- those rows). This applies the same rules to every insert: the objective is
+-- locked, the player must not hold a slot yet, and the lowest free slot is
+-- taken. Unlimited objectives never carry a claim_rank.
+CREATE OR REPLACE FUNCTION assign_completion_claim_rank()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_objective objectives;
+  v_slots INTEGER;
+BEGIN
+  SELECT * INTO v_objective
+  FROM objectives
+  WHERE id = NEW.objective_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW; -- The foreign key reports this
+  END IF;
+
+  IF v_objective.claim_mode = 'unlimited' THEN
+    NEW.claim_rank := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM completions
+    WHERE objective_id = NEW.objective_id
+    AND player_id = NEW.player_id
+    AND claim_rank IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION '%', CASE WHEN NEW.player_id = auth.uid()
+      THEN 'You''ve already claimed this objective'
+      ELSE 'That player has already claimed this objective'
+    END;
+  END IF;
+
+  v_slots := CASE v_objective.claim_mode
+    WHEN 'podium' THEN array_length(v_objective.podium_points, 1)
+    ELSE 1
+  END;
+
+  SELECT MIN(slot) INTO NEW.claim_rank
+  FROM generate_series(1, v_slots) AS slot
+  WHERE NOT EXISTS (
+    SELECT 1 FROM completions
+    WHERE objective_id = NEW.objective_id
+    AND claim_rank = slot
+  );
+
+  IF NEW.claim_rank IS NULL THEN
+    RAISE EXCEPTION 'This objective has already been claimed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- BEFORE triggers run in name order: "assign_..." runs first, so later
+-- triggers (e.g. the points snapshot) see the final claim_rank
+DROP TRIGGER IF EXISTS assign_completion_claim_rank ON completions;
+CREATE TRIGGER assign_completion_claim_rank
+  BEFORE INSERT ON completions
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_completion_claim_rank();
+
+-- ============================================================================
+-- STEP 4: Create completion_points view
+-- ============================================================================
+
+-- Single source of truth for what each completion is worth.
+-- player_scores and player_round_rankings sum this view.
+CREATE OR REPLACE VIEW completion_points
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id AS completion_id,
+  c.versus_id,
+  c.player_id,
+  c.objective_id,
+  c.completed_at,
+  c.claim_rank,
+  CASE
+    WHEN o.claim_mode = 'podium' THEN COALESCE(o.podium_points[c.claim_rank], 0)
+    ELSE o.points
+  END AS points
+FROM completions c
+JOIN objectives o ON o.id = c.objective_id;
+
+-- ============================================================================
+-- STEP 5: Rebuild score views on completion_points
+-- ============================================================================
+
+CREATE OR REPLACE VIEW player_scores
+WITH (security_invoker = true)
+AS
+SELECT
+  vp.versus_id,
+  vp.player_id,
+  COALESCE(SUM(cp.points), 0) AS total_score
+FROM versus_players vp
+LEFT JOIN completion_points cp ON cp.versus_id = vp.versus_id AND cp.player_id = vp.player_id
+GROUP BY vp.versus_id, vp.player_id;
+
+CREATE OR REPLACE VIEW player_round_rankings
+WITH (security_invoker = true)
+AS
+WITH rounds AS (
+  SELECT DISTINCT
+    c.versus_id,
+    date_trunc(
+      CASE v.round_period
+        WHEN 'daily' THEN 'day'
+        WHEN 'weekly' THEN 'week'
+        ELSE 'month'
+      END,
+      c.completed_at AT TIME ZONE 'UTC'
+    ) AT TIME ZONE 'UTC' AS round_start
+  FROM completions c
+  JOIN versus v ON v.id = c.versus_id
+  WHERE v.round_period <> 'none'
+),
+round_scores AS (
+  SELECT
+    r.versus_id,
+    r.round_start,
+    vp.player_id,
+    COALESCE(SUM(cp.points), 0) AS total_score
+  FROM rounds r
+  JOIN versus v ON v.id = r.versus_id
+  JOIN versus_players vp ON vp.versus_id = r.versus_id
+  LEFT JOIN completion_points cp
+    ON cp.versus_id = r.versus_id
+    AND cp.player_id = vp.player_id
+    AND cp.completed_at >= r.round_start
+    AND cp.completed_at < r.round_start + CASE v.round_period
+      WHEN 'daily' THEN INTERVAL '1 day'
+      WHEN 'weekly' THEN INTERVAL '1 week'
+      ELSE INTERVAL '1 month'
+    END
+  GROUP BY r.versus_id, r.round_start, vp.player_id
+)
+SELECT
+  rs.versus_id,
+  rs.round_start,
+  rs.player_id,
+  rs.total_score,
+  CASE
+    WHEN v.reverse_ranking THEN
+      RANK() OVER (PARTITION BY rs.versus_id, rs.round_start ORDER BY rs.total_score ASC)
+    ELSE
+      RANK() OVER (PARTITION BY rs.versus_id, rs.round_start ORDER BY rs.total_score DESC)
+  END AS rank,
+  COUNT(*) OVER (PARTITION BY rs.versus_id, rs.round_start) AS total_players
+FROM round_scores rs
+JOIN versus v ON v.id = rs.versus_id;
+
+-- ============================================================================
+-- STEP 6: Update create_objectives_for_versus() to accept claim settings
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_objectives_for_versus(
+  p_versus_id UUID,
+  p_objectives JSONB  -- Array of: [{title, points, description, max_per_player, max_per_period, limit_period, cooldown_minutes, claim_mode, podium_points}, ...]
+)
+RETURNS SETOF objectives
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  objective_record JSONB;
+  inserted_objective objectives;
+BEGIN
+  -- Validate versus exists
+  IF NOT EXISTS (SELECT 1 FROM versus WHERE id = p_versus_id) THEN
+    RAISE EXCEPTION 'Versus does not exist';
+  END IF;
+
+  -- Insert each objective
+  FOR objective_record IN SELECT * FROM jsonb_array_elements(p_objectives)
+  LOOP
+    INSERT INTO objectives (
+      versus_id,
+      title,
+      points,
+      description,
+      max_per_player,
+      max_per_period,
+      limit_period,
+      cooldown_minutes,
+      claim_mode,
+      podium_points
+    )
+    VALUES (
+      p_versus_id,
+      objective_record->>'title',
+      (objective_record->>'points')::INTEGER,
+      objective_record->>'description',
+      (objective_record->>'max_per_player')::INTEGER,
+      (objective_record->>'max_per_period')::INTEGER,
+      objective_record->>'limit_period',
+      (objective_record->>'cooldown_minutes')::INTEGER,
+      COALESCE(objective_record->>'claim_mode', 'unlimited'),
+      CASE
+        WHEN jsonb_typeof(objective_record->'podium_points') = 'array' THEN
+          ARRAY(SELECT jsonb_array_elements_text(objective_record->'podium_points')::INTEGER)
+        ELSE NULL
+      END
+    )
+    RETURNING * INTO inserted_objective;
+
+    RETURN NEXT inserted_objective;
+  END LOOP;
+
+  RETURN;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_objectives_for_versus(UUID, JSONB) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE (table_name = 'objectives' AND column_name IN ('claim_mode', 'podium_points'))
+OR (table_name = 'completions' AND column_name = 'claim_rank');
+
+SELECT indexname FROM pg_indexes
+WHERE tablename = 'completions'
+AND indexname IN ('idx_completions_claim_slot', 'idx_completions_claim_player');
+
+SELECT tgname
+FROM pg_trigger
+WHERE tgrelid = 'completions'::regclass
+AND tgname = 'assign_completion_claim_rank';
+
+-- Direct-insert check: a second claim on a 'single' objective inserted
+-- straight into completions (not through claim_objective()) must be
+-- rejected. Uses the first claimed single objective that has another player
+-- in its versus; the test insert is always rolled back.
+DO $$
+DECLARE
+  v_claim completions;
+  v_other_player UUID;
+BEGIN
+  SELECT c.* INTO v_claim
+  FROM completions c
+  JOIN objectives o ON o.id = c.objective_id
+  WHERE o.claim_mode = 'single'
+  AND c.claim_rank = 1
+  LIMIT 1;
+
+  SELECT player_id INTO v_other_player
+  FROM versus_players
+  WHERE versus_id = v_claim.versus_id
+  AND player_id <> v_claim.player_id
+  LIMIT 1;
+
+  IF v_other_player IS NULL THEN
+    RAISE NOTICE 'Direct-insert check skipped: no claimed single objective with a second player';
+    RETURN;
+  END IF;
+
+  BEGIN
+    INSERT INTO completions (versus_id, player_id, objective_id)
+    VALUES (v_claim.versus_id, v_other_player, v_claim.objective_id);
+
+    RAISE EXCEPTION 'Direct-insert check failed: a second claim was accepted';
+  EXCEPTION WHEN raise_exception THEN
+    IF SQLERRM LIKE 'Direct-insert check failed%' THEN
+      RAISE;
+    END IF;
+    RAISE NOTICE 'Direct-insert check passed: %', SQLERRM;
+  END;
+END $$;
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+-- Restore the original score views (docs/database/supabase-schema.sql section 4)
+-- and re-run 2025-12-05-recurring-rounds.sql and 2025-12-06-objective-limits.sql, then:
+DROP VIEW IF EXISTS completion_points;
+DROP TRIGGER IF EXISTS assign_completion_claim_rank ON completions;
+DROP FUNCTION IF EXISTS assign_completion_claim_rank();
+DROP FUNCTION IF EXISTS claim_objective(UUID);
+DROP INDEX IF EXISTS idx_completions_claim_player;
+DROP INDEX IF EXISTS idx_completions_claim_slot;
+ALTER TABLE completions DROP COLUMN IF EXISTS claim_rank;
+ALTER TABLE objectives DROP CONSTRAINT IF EXISTS objectives_claim_mode_check;
+ALTER TABLE objectives DROP COLUMN IF EXISTS podium_points;
+ALTER TABLE objectives DROP COLUMN IF EXISTS claim_mode;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-07-claim-objectives completed successfully!';
+    RAISE NOTICE 'Objectives can be first-to-claim (single) or podium (1st/2nd/3rd)';
+    RAISE NOTICE 'Every insert on a claimable objective takes a claim slot (assign_completion_claim_rank)';
+    RAISE NOTICE 'Scores now sum completion_points';
+END $$;
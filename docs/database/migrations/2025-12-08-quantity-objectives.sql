@@ -0,0 +1,162 @@
+-- ============================================================================
+-- Migration: Quantity-Based Objectives
+-- Date: 2025-12-08
+-- Description: Objectives that score per unit (e.g. 2 points per mile)
+-- ============================================================================
+
+-- This migration adds:
+-- 1. unit and points_per_unit columns to objectives table
+-- 2. quantity column to completions table
+-- 3. completion_points view updated to score quantity x points_per_unit
+-- 4. Updated create_objectives_for_versus() so the wizard can set the new columns
+--
+-- Per-unit points are rounded to the nearest whole point so scores stay integers
+-- (player_scores / player_rankings keep their existing column types).
+
+-- ============================================================================
+-- STEP 1: Add per-unit columns
+-- ============================================================================
+
+ALTER TABLE objectives ADD COLUMN IF NOT EXISTS unit TEXT;
+ALTER TABLE objectives ADD COLUMN IF NOT EXISTS points_per_unit NUMERIC;
+
+ALTER TABLE objectives DROP CONSTRAINT IF EXISTS objectives_per_unit_check;
+ALTER TABLE objectives ADD CONSTRAINT objectives_per_unit_check CHECK (
+  ((unit IS NULL) = (points_per_unit IS NULL))
+  AND (unit IS NULL OR char_length(trim(unit)) BETWEEN 1 AND 30)
+  AND (points_per_unit IS NULL OR claim_mode = 'unlimited')
+);
+
+COMMENT ON COLUMN objectives.unit IS 'Unit for quantity-based objectives (e.g. ''mile''). NULL = fixed points per completion.';
+COMMENT ON COLUMN objectives.points_per_unit IS 'Points per unit (can be negative or fractional). Set together with unit.';
+
+ALTER TABLE completions ADD COLUMN IF NOT EXISTS quantity NUMERIC;
+
+ALTER TABLE completions DROP CONSTRAINT IF EXISTS completions_quantity_check;
+ALTER TABLE completions ADD CONSTRAINT completions_quantity_check CHECK (quantity IS NULL OR quantity > 0);
+
+COMMENT ON COLUMN completions.quantity IS 'Amount logged for quantity-based objectives (e.g. 3.5 miles). NULL for fixed-point objectives.';
+
+-- ============================================================================
+-- STEP 2: Score quantity x points_per_unit in completion_points
+-- ============================================================================
+
+CREATE OR REPLACE VIEW completion_points
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id AS completion_id,
+  c.versus_id,
+  c.player_id,
+  c.objective_id,
+  c.completed_at,
+  c.claim_rank,
+  CASE
+    WHEN o.claim_mode = 'podium' THEN COALESCE(o.podium_points[c.claim_rank], 0)
+    WHEN o.points_per_unit IS NOT NULL THEN ROUND(COALESCE(c.quantity, 0) * o.points_per_unit)::INTEGER
+    ELSE o.points
+  END AS points
+FROM completions c
+JOIN objectives o ON o.id = c.objective_id;
+
+-- ============================================================================
+-- STEP 3: Update create_objectives_for_versus() to accept per-unit scoring
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_objectives_for_versus(
+  p_versus_id UUID,
+  p_objectives JSONB  -- Array of: [{title, points, description, max_per_player, max_per_period, limit_period, cooldown_minutes, claim_mode, podium_points, unit, points_per_unit}, ...]
+)
+RETURNS SETOF objectives
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  objective_record JSONB;
+  inserted_objective objectives;
+BEGIN
+  -- Validate versus exists
+  IF NOT EXISTS (SELECT 1 FROM versus WHERE id = p_versus_id) THEN
+    RAISE EXCEPTION 'Versus does not exist';
+  END IF;
+
+  -- Insert each objective
+  FOR objective_record IN SELECT * FROM jsonb_array_elements(p_objectives)
+  LOOP
+    INSERT INTO objectives (
+      versus_id,
+      title,
+      points,
+      description,
+      max_per_player,
+      max_per_period,
+      limit_period,
+      cooldown_minutes,
+      claim_mode,
+      podium_points,
+      unit,
+      points_per_unit
+    )
+    VALUES (
+      p_versus_id,
+      objective_record->>'title',
+      (objective_record->>'points')::INTEGER,
+      objective_record->>'description',
+      (objective_record->>'max_per_player')::INTEGER,
+      (objective_record->>'max_per_period')::INTEGER,
+      objective_record->>'limit_period',
+      (objective_record->>'cooldown_minutes')::INTEGER,
+      COALESCE(objective_record->>'claim_mode', 'unlimited'),
+      CASE
+        WHEN jsonb_typeof(objective_record->'podium_points') = 'array' THEN
+          ARRAY(SELECT jsonb_array_elements_text(objective_record->'podium_points')::INTEGER)
+        ELSE NULL
+      END,
+      objective_record->>'unit',
+      (objective_record->>'points_per_unit')::NUMERIC
+    )
+    RETURNING * INTO inserted_objective;
+
+    RETURN NEXT inserted_objective;
+  END LOOP;
+
+  RETURN;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_objectives_for_versus(UUID, JSONB) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE (table_name = 'objectives' AND column_name IN ('unit', 'points_per_unit'))
+OR (table_name = 'completions' AND column_name = 'quantity');
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+-- Re-run 2025-12-07-claim-objectives.sql (STEP 4 and STEP 6) to restore the
+-- previous completion_points view and create_objectives_for_versus(), then:
+ALTER TABLE completions DROP CONSTRAINT IF EXISTS completions_quantity_check;
+ALTER TABLE completions DROP COLUMN IF EXISTS quantity;
+ALTER TABLE objectives DROP CONSTRAINT IF EXISTS objectives_per_unit_check;
+ALTER TABLE objectives DROP COLUMN IF EXISTS points_per_unit;
+ALTER TABLE objectives DROP COLUMN IF EXISTS unit;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-08-quantity-objectives completed successfully!';
+    RAISE NOTICE 'Objectives can now score per unit (objectives.unit, objectives.points_per_unit)';
+    RAISE NOTICE 'Completions record a quantity (completions.quantity)';
+END $$;
@@ -0,0 +1,135 @@
+-- ============================================================================
+-- Migration: Team Mode
+-- Date: 2025-12-09
+-- Description: Teams within a versus, with summed or averaged team scores
+-- ============================================================================
+
+-- This migration adds:
+-- 1. versus_teams table (teams created by commissioners)
+-- 2. team_id column to versus_players table (NULL = no team)
+-- 3. team_scoring column to versus table ('sum' or 'average')
+-- 4. RLS policies for versus_teams
+--
+-- Team totals are aggregated by the app from the individual standings
+-- (live, frozen or per round), so reverse_ranking applies to teams too.
+
+-- ============================================================================
+-- STEP 1: Create versus_teams table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS versus_teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  versus_id UUID REFERENCES versus(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(50) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE(versus_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_versus_teams_versus_id ON versus_teams(versus_id);
+
+DROP TRIGGER IF EXISTS update_versus_teams_updated_at ON versus_teams;
+CREATE TRIGGER update_versus_teams_updated_at BEFORE UPDATE ON versus_teams
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 2: Add team columns
+-- ============================================================================
+
+ALTER TABLE versus_players ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES versus_teams(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_versus_players_team_id ON versus_players(team_id);
+
+COMMENT ON COLUMN versus_players.team_id IS 'Team the player belongs to in this versus. NULL = no team.';
+
+ALTER TABLE versus ADD COLUMN IF NOT EXISTS team_scoring TEXT DEFAULT 'sum' NOT NULL;
+
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_team_scoring_check;
+ALTER TABLE versus ADD CONSTRAINT versus_team_scoring_check CHECK (team_scoring IN ('sum', 'average'));
+
+COMMENT ON COLUMN versus.team_scoring IS 'How team totals aggregate member scores: ''sum'' or ''average''.';
+
+-- A player can only join a team from the same versus
+CREATE OR REPLACE FUNCTION check_versus_player_team()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.team_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM versus_teams
+    WHERE id = NEW.team_id
+    AND versus_id = NEW.versus_id
+  ) THEN
+    RAISE EXCEPTION 'Team does not belong to this versus';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_versus_player_team ON versus_players;
+CREATE TRIGGER check_versus_player_team BEFORE INSERT OR UPDATE OF team_id ON versus_players
+    FOR EACH ROW EXECUTE FUNCTION check_versus_player_team();
+
+-- ============================================================================
+-- STEP 3: RLS policies for versus_teams
+-- ============================================================================
+
+ALTER TABLE versus_teams ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view teams for their versus" ON versus_teams;
+CREATE POLICY "Users can view teams for their versus"
+  ON versus_teams FOR SELECT
+  USING (is_user_in_versus(versus_id));
+
+DROP POLICY IF EXISTS "Commissioners can create teams" ON versus_teams;
+CREATE POLICY "Commissioners can create teams"
+  ON versus_teams FOR INSERT
+  WITH CHECK (is_user_commissioner(versus_id));
+
+DROP POLICY IF EXISTS "Commissioners can update teams" ON versus_teams;
+CREATE POLICY "Commissioners can update teams"
+  ON versus_teams FOR UPDATE
+  USING (is_user_commissioner(versus_id));
+
+DROP POLICY IF EXISTS "Commissioners can delete teams" ON versus_teams;
+CREATE POLICY "Commissioners can delete teams"
+  ON versus_teams FOR DELETE
+  USING (is_user_commissioner(versus_id));
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT table_name, column_name, data_type, column_default
+FROM information_schema.columns
+WHERE (table_name = 'versus_players' AND column_name = 'team_id')
+OR (table_name = 'versus' AND column_name = 'team_scoring');
+
+SELECT policyname, cmd
+FROM pg_policies
+WHERE tablename = 'versus_teams';
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+DROP TRIGGER IF EXISTS check_versus_player_team ON versus_players;
+DROP FUNCTION IF EXISTS check_versus_player_team();
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_team_scoring_check;
+ALTER TABLE versus DROP COLUMN IF EXISTS team_scoring;
+ALTER TABLE versus_players DROP COLUMN IF EXISTS team_id;
+DROP TABLE IF EXISTS versus_teams;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-09-team-mode completed successfully!';
+    RAISE NOTICE 'Commissioners can create teams (versus_teams) and assign players (versus_players.team_id)';
+    RAISE NOTICE 'Team totals sum or average member scores (versus.team_scoring)';
+END $$;
@@ -0,0 +1,176 @@
+-- ============================================================================
+-- Migration: Completion Points Snapshot
+-- Date: 2025-12-10
+-- Description: Completions record the points they earned; objectives are archived, not deleted
+-- ============================================================================
+
+-- This migration adds:
+-- 1. points_awarded column to completions table (backfilled from completion_points)
+-- 2. compute_completion_points() function (podium / per-unit / fixed scoring)
+-- 3. Trigger that sets points_awarded when a completion is inserted
+-- 4. completion_points view now reads the snapshot instead of live objective points
+-- 5. archived_at column to objectives table (soft delete keeps past completions)
+-- 6. rescore_objective() function (commissioners retroactively re-score on request)
+--
+-- Before this migration, editing objectives.points silently rewrote every past
+-- score, and deleting an objective cascaded away its completions.
+
+-- ============================================================================
+-- STEP 1: Create compute_completion_points() function
+-- ============================================================================
+
+-- Same rules as lib/scoring.ts getCompletionPoints()
+CREATE OR REPLACE FUNCTION compute_completion_points(
+  p_objective objectives,
+  p_claim_rank INTEGER,
+  p_quantity NUMERIC
+)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_objective.claim_mode = 'podium' THEN COALESCE(p_objective.podium_points[p_claim_rank], 0)
+    WHEN p_objective.points_per_unit IS NOT NULL THEN ROUND(COALESCE(p_quantity, 0) * p_objective.points_per_unit)::INTEGER
+    ELSE p_objective.points
+  END;
+$$;
+
+-- ============================================================================
+-- STEP 2: Add and backfill points_awarded
+-- ============================================================================
+
+ALTER TABLE completions ADD COLUMN IF NOT EXISTS points_awarded INTEGER;
+
+UPDATE completions c
+SET points_awarded = compute_completion_points(o, c.claim_rank, c.quantity)
+FROM objectives o
+WHERE o.id = c.objective_id
+AND c.points_awarded IS NULL;
+
+ALTER TABLE completions ALTER COLUMN points_awarded SET NOT NULL;
+
+COMMENT ON COLUMN completions.points_awarded IS 'Points earned when the completion was logged. Only changed by rescore_objective().';
+
+-- ============================================================================
+-- STEP 3: Snapshot points on insert
+-- ============================================================================
+
+-- Always computed server-side so clients can't award themselves points
+CREATE OR REPLACE FUNCTION set_completion_points_awarded()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_objective objectives;
+BEGIN
+  SELECT * INTO v_objective FROM objectives WHERE id = NEW.objective_id;
+  NEW.points_awarded := compute_completion_points(v_objective, NEW.claim_rank, NEW.quantity);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_completion_points_awarded ON completions;
+CREATE TRIGGER set_completion_points_awarded BEFORE INSERT ON completions
+    FOR EACH ROW EXECUTE FUNCTION set_completion_points_awarded();
+
+-- ============================================================================
+-- STEP 4: Read the snapshot in completion_points
+-- ============================================================================
+
+CREATE OR REPLACE VIEW completion_points
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id AS completion_id,
+  c.versus_id,
+  c.player_id,
+  c.objective_id,
+  c.completed_at,
+  c.claim_rank,
+  c.points_awarded AS points
+FROM completions c;
+
+-- ============================================================================
+-- STEP 5: Archive objectives instead of deleting them
+-- ============================================================================
+
+ALTER TABLE objectives ADD COLUMN IF NOT EXISTS archived_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN objectives.archived_at IS 'Set when a commissioner removes the objective. Archived objectives can''t be logged, but their completions still count.';
+
+-- ============================================================================
+-- STEP 6: Create rescore_objective() function
+-- ============================================================================
+
+-- Recomputes points_awarded for every completion of an objective using its
+-- current settings. Commissioners opt in to this when editing an objective.
+-- Returns the number of completions re-scored.
+CREATE OR REPLACE FUNCTION rescore_objective(p_objective_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_objective objectives;
+  v_count INTEGER;
+BEGIN
+  SELECT * INTO v_objective FROM objectives WHERE id = p_objective_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Objective not found';
+  END IF;
+
+  IF NOT is_user_commissioner(v_objective.versus_id) THEN
+    RAISE EXCEPTION 'Only commissioners can re-score objectives';
+  END IF;
+
+  UPDATE completions
+  SET points_awarded = compute_completion_points(v_objective, claim_rank, quantity)
+  WHERE objective_id = p_objective_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION rescore_objective(UUID) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT table_name, column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE (table_name = 'completions' AND column_name = 'points_awarded')
+OR (table_name = 'objectives' AND column_name = 'archived_at');
+
+-- Should return 0 rows
+SELECT id FROM completions WHERE points_awarded IS NULL;
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+-- Re-run 2025-12-08-quantity-objectives.sql (STEP 2) to restore the live
+-- completion_points view, then:
+DROP FUNCTION IF EXISTS rescore_objective(UUID);
+DROP TRIGGER IF EXISTS set_completion_points_awarded ON completions;
+DROP FUNCTION IF EXISTS set_completion_points_awarded();
+ALTER TABLE completions DROP COLUMN IF EXISTS points_awarded;
+ALTER TABLE objectives DROP COLUMN IF EXISTS archived_at;
+DROP FUNCTION IF EXISTS compute_completion_points(objectives, INTEGER, NUMERIC);
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-10-completion-points-snapshot completed successfully!';
+    RAISE NOTICE 'Completions now keep the points they earned (completions.points_awarded)';
+    RAISE NOTICE 'Objectives are archived (objectives.archived_at) and re-scored only via rescore_objective()';
+END $$;
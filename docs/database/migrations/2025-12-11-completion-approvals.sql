@@ -0,0 +1,275 @@
+-- ============================================================================
+-- Migration: Completion Approvals
+-- Date: 2025-12-11
+-- Description: Optional commissioner review of new completions
+-- ============================================================================
+
+-- This migration adds:
+-- 1. require_approval column to versus table
+-- 2. status, reviewed_by, reviewed_at and review_note columns to completions table
+-- 3. Trigger that sets status when a completion is inserted
+-- 4. completion_points view only counts approved completions
+-- 5. review_completion() function (commissioners approve/reject with a note)
+-- 6. Rejected completions no longer count toward objective limits
+--
+-- status:
+--   'approved' - counts toward scores (default, and always when require_approval is off)
+--   'pending'  - waiting for a commissioner, doesn't count yet
+--   'rejected' - never counts; kept so the player can see why
+--
+-- Completions logged by a commissioner are approved automatically.
+
+-- ============================================================================
+-- STEP 1: Add approval columns
+-- ============================================================================
+
+ALTER TABLE versus ADD COLUMN IF NOT EXISTS require_approval BOOLEAN DEFAULT FALSE NOT NULL;
+
+COMMENT ON COLUMN versus.require_approval IS 'If true, completions logged by non-commissioners are pending until a commissioner approves them.';
+
+ALTER TABLE completions ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'approved' NOT NULL;
+ALTER TABLE completions ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES players(id) ON DELETE SET NULL;
+ALTER TABLE completions ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE completions ADD COLUMN IF NOT EXISTS review_note TEXT;
+
+ALTER TABLE completions DROP CONSTRAINT IF EXISTS completions_status_check;
+ALTER TABLE completions ADD CONSTRAINT completions_status_check CHECK (
+  status IN ('pending', 'approved', 'rejected')
+  AND (review_note IS NULL OR char_length(review_note) <= 500)
+);
+
+CREATE INDEX IF NOT EXISTS idx_completions_pending
+  ON completions(versus_id, completed_at)
+  WHERE status = 'pending';
+
+COMMENT ON COLUMN completions.status IS '''pending'', ''approved'' or ''rejected''. Only approved completions count toward scores.';
+COMMENT ON COLUMN completions.review_note IS 'Optional note from the commissioner who approved or rejected the completion.';
+
+-- ============================================================================
+-- STEP 2: Set status on insert
+-- ============================================================================
+
+-- Always decided server-side so players can't approve their own completions
+CREATE OR REPLACE FUNCTION set_completion_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM versus WHERE id = NEW.versus_id AND require_approval)
+     AND NOT is_user_commissioner(NEW.versus_id) THEN
+    NEW.status := 'pending';
+  ELSE
+    NEW.status := 'approved';
+  END IF;
+
+  NEW.reviewed_by := NULL;
+  NEW.reviewed_at := NULL;
+  NEW.review_note := NULL;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_completion_status ON completions;
+CREATE TRIGGER set_completion_status BEFORE INSERT ON completions
+    FOR EACH ROW EXECUTE FUNCTION set_completion_status();
+
+-- ============================================================================
+-- STEP 3: Only approved completions score
+-- ============================================================================
+
+CREATE OR REPLACE VIEW completion_points
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id AS completion_id,
+  c.versus_id,
+  c.player_id,
+  c.objective_id,
+  c.completed_at,
+  c.claim_rank,
+  c.points_awarded AS points
+FROM completions c
+WHERE c.status = 'approved';
+
+-- ============================================================================
+-- STEP 4: Create review_completion() function
+-- ============================================================================
+
+-- Approves or rejects a pending completion. Rejecting a claim frees its slot
+-- so another player (or the same player) can claim the objective again.
+CREATE OR REPLACE FUNCTION review_completion(
+  p_completion_id UUID,
+  p_approve BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS completions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_completion completions;
+BEGIN
+  SELECT * INTO v_completion
+  FROM completions
+  WHERE id = p_completion_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Completion not found';
+  END IF;
+
+  IF NOT is_user_commissioner(v_completion.versus_id) THEN
+    RAISE EXCEPTION 'Only commissioners can review completions';
+  END IF;
+
+  IF v_completion.status <> 'pending' THEN
+    RAISE EXCEPTION 'This completion has already been reviewed';
+  END IF;
+
+  UPDATE completions
+  SET
+    status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+    claim_rank = CASE WHEN p_approve THEN claim_rank ELSE NULL END,
+    reviewed_by = auth.uid(),
+    reviewed_at = NOW(),
+    review_note = NULLIF(trim(p_note), '')
+  WHERE id = p_completion_id
+  RETURNING * INTO v_completion;
+
+  RETURN v_completion;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION review_completion(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 5: Rejected completions don't count toward limits
+-- ============================================================================
+
+-- Same as 2025-12-06, but skips rejected completions. Pending ones still
+-- count so a player can't queue up more than the limit.
+CREATE OR REPLACE FUNCTION check_completion_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_objective objectives;
+  v_name TEXT;
+  v_who TEXT;
+  v_period_start TIMESTAMPTZ;
+  v_cooldown_ends TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_objective
+  FROM objectives
+  WHERE id = NEW.objective_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW; -- The foreign key reports this
+  END IF;
+
+  -- A commissioner logging for someone else gets told about that player
+  IF NEW.player_id IS DISTINCT FROM auth.uid() THEN
+    SELECT COALESCE(vp.nickname, p.display_name, split_part(p.email, '@', 1))
+    INTO v_name
+    FROM players p
+    LEFT JOIN versus_players vp ON vp.player_id = p.id AND vp.versus_id = NEW.versus_id
+    WHERE p.id = NEW.player_id;
+  END IF;
+  v_who := COALESCE(v_name || ' has', 'You''ve');
+
+  -- Lifetime limit
+  IF v_objective.max_per_player IS NOT NULL AND (
+    SELECT COUNT(*) FROM completions
+    WHERE objective_id = NEW.objective_id
+    AND player_id = NEW.player_id
+    AND status <> 'rejected'
+  ) >= v_objective.max_per_player THEN
+    RAISE EXCEPTION '% reached the limit of % for "%"',
+      v_who, v_objective.max_per_player, v_objective.title;
+  END IF;
+
+  -- Per day / per week limit (UTC calendar buckets, weeks start on Monday)
+  IF v_objective.max_per_period IS NOT NULL THEN
+    v_period_start := date_trunc(v_objective.limit_period, NEW.completed_at, 'UTC');
+
+    IF (
+      SELECT COUNT(*) FROM completions
+      WHERE objective_id = NEW.objective_id
+      AND player_id = NEW.player_id
+      AND status <> 'rejected'
+      AND completed_at >= v_period_start
+      AND completed_at < v_period_start + ('1 ' || v_objective.limit_period)::INTERVAL
+    ) >= v_objective.max_per_period THEN
+      RAISE EXCEPTION '% reached % limit of % for "%"',
+        v_who,
+        CASE v_objective.limit_period WHEN 'day' THEN 'today''s' ELSE 'this week''s' END,
+        v_objective.max_per_period,
+        v_objective.title;
+    END IF;
+  END IF;
+
+  -- Cooldown since the player's previous completion
+  IF v_objective.cooldown_minutes > 0 THEN
+    SELECT MAX(completed_at) + make_interval(mins => v_objective.cooldown_minutes)
+    INTO v_cooldown_ends
+    FROM completions
+    WHERE objective_id = NEW.objective_id
+    AND player_id = NEW.player_id
+    AND status <> 'rejected'
+    AND completed_at <= NEW.completed_at;
+
+    IF v_cooldown_ends > NEW.completed_at THEN
+      RAISE EXCEPTION '"%" is on cooldown%. Try again in % min',
+        v_objective.title,
+        COALESCE(' for ' || v_name, ''),
+        CEIL(EXTRACT(EPOCH FROM v_cooldown_ends - NEW.completed_at) / 60);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT table_name, column_name, data_type, column_default
+FROM information_schema.columns
+WHERE (table_name = 'versus' AND column_name = 'require_approval')
+OR (table_name = 'completions' AND column_name IN ('status', 'reviewed_by', 'reviewed_at', 'review_note'));
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+-- Re-run 2025-12-10-completion-points-snapshot.sql (STEP 4) to restore the
+-- previous completion_points view and 2025-12-06-objective-limits.sql
+-- (STEP 3) to restore check_completion_limits(), then:
+DROP FUNCTION IF EXISTS review_completion(UUID, BOOLEAN, TEXT);
+DROP TRIGGER IF EXISTS set_completion_status ON completions;
+DROP FUNCTION IF EXISTS set_completion_status();
+DROP INDEX IF EXISTS idx_completions_pending;
+ALTER TABLE completions DROP CONSTRAINT IF EXISTS completions_status_check;
+ALTER TABLE completions DROP COLUMN IF EXISTS review_note;
+ALTER TABLE completions DROP COLUMN IF EXISTS reviewed_at;
+ALTER TABLE completions DROP COLUMN IF EXISTS reviewed_by;
+ALTER TABLE completions DROP COLUMN IF EXISTS status;
+ALTER TABLE versus DROP COLUMN IF EXISTS require_approval;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-11-completion-approvals completed successfully!';
+    RAISE NOTICE 'Versus can require commissioner approval (versus.require_approval)';
+    RAISE NOTICE 'Only approved completions count toward scores';
+END $$;
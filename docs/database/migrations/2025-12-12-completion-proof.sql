@@ -0,0 +1,272 @@
+-- ============================================================================
+-- Migration: Completion Proof
+-- Date: 2025-12-12
+-- Description: Photo proof attachments on completions
+-- ============================================================================
+
+-- This migration adds:
+-- 1. requires_proof column to objectives table
+-- 2. proof_path column to completions table
+-- 3. Private 'completion-proofs' storage bucket with member-only policies
+-- 4. claim_objective() accepts a proof path
+-- 5. Updated create_objectives_for_versus() so the wizard can set requires_proof
+--
+-- Proof files are stored under "<versus_id>/<player_id>/<uuid>.<ext>", so the
+-- storage policies can check versus membership from the path. In development
+-- the app uses a local filesystem adapter instead (STORAGE_DRIVER=local).
+
+-- ============================================================================
+-- STEP 1: Add proof columns
+-- ============================================================================
+
+ALTER TABLE objectives ADD COLUMN IF NOT EXISTS requires_proof BOOLEAN DEFAULT FALSE NOT NULL;
+
+COMMENT ON COLUMN objectives.requires_proof IS 'If true, completions must attach a photo (completions.proof_path).';
+
+ALTER TABLE completions ADD COLUMN IF NOT EXISTS proof_path TEXT;
+
+-- A proof can only point at the completing player's own folder
+ALTER TABLE completions DROP CONSTRAINT IF EXISTS completions_proof_path_check;
+ALTER TABLE completions ADD CONSTRAINT completions_proof_path_check CHECK (
+  proof_path IS NULL
+  OR proof_path LIKE versus_id::TEXT || '/' || player_id::TEXT || '/%'
+);
+
+COMMENT ON COLUMN completions.proof_path IS 'Storage key of the attached photo ("<versus_id>/<player_id>/<uuid>.<ext>").';
+
+-- ============================================================================
+-- STEP 2: Create storage bucket and policies
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'completion-proofs',
+  'completion-proofs',
+  FALSE,
+  5242880, -- 5 MB, same as PROOF_MAX_BYTES in lib/proof-utils.ts
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Members upload into their own folder of a versus they belong to
+DROP POLICY IF EXISTS "Members can upload their own proofs" ON storage.objects;
+CREATE POLICY "Members can upload their own proofs" ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'completion-proofs'
+    AND is_user_in_versus(((storage.foldername(name))[1])::UUID)
+    AND (storage.foldername(name))[2] = auth.uid()::TEXT
+  );
+
+-- Everyone in the versus can see its proofs
+DROP POLICY IF EXISTS "Members can view proofs in their versus" ON storage.objects;
+CREATE POLICY "Members can view proofs in their versus" ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'completion-proofs'
+    AND is_user_in_versus(((storage.foldername(name))[1])::UUID)
+  );
+
+-- Players delete their own proofs; commissioners can delete any in their versus
+DROP POLICY IF EXISTS "Owners and commissioners can delete proofs" ON storage.objects;
+CREATE POLICY "Owners and commissioners can delete proofs" ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'completion-proofs'
+    AND (
+      (storage.foldername(name))[2] = auth.uid()::TEXT
+      OR is_user_commissioner(((storage.foldername(name))[1])::UUID)
+    )
+  );
+
+-- ============================================================================
+-- STEP 3: Let claim_objective() attach a proof
+-- ============================================================================
+
+-- The signature changes, so drop the old single-argument version first
+DROP FUNCTION IF EXISTS claim_objective(UUID);
+
+CREATE OR REPLACE FUNCTION claim_objective(
+  p_objective_id UUID,
+  p_proof_path TEXT DEFAULT NULL
+)
+RETURNS completions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_objective objectives;
+  v_slots INTEGER;
+  v_rank INTEGER;
+  v_completion completions;
+BEGIN
+  SELECT * INTO v_objective
+  FROM objectives
+  WHERE id = p_objective_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Objective not found';
+  END IF;
+
+  IF NOT is_user_in_versus(v_objective.versus_id) THEN
+    RAISE EXCEPTION 'You don''t have access to this versus';
+  END IF;
+
+  IF v_objective.claim_mode = 'unlimited' THEN
+    RAISE EXCEPTION 'This objective isn''t claimable';
+  END IF;
+
+  IF v_objective.requires_proof AND p_proof_path IS NULL THEN
+    RAISE EXCEPTION 'This objective requires a photo as proof';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM completions
+    WHERE objective_id = p_objective_id
+    AND player_id = auth.uid()
+    AND claim_rank IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION 'You''ve already claimed this objective';
+  END IF;
+
+  v_slots := CASE v_objective.claim_mode
+    WHEN 'podium' THEN array_length(v_objective.podium_points, 1)
+    ELSE 1
+  END;
+
+  SELECT MIN(slot) INTO v_rank
+  FROM generate_series(1, v_slots) AS slot
+  WHERE NOT EXISTS (
+    SELECT 1 FROM completions
+    WHERE objective_id = p_objective_id
+    AND claim_rank = slot
+  );
+
+  IF v_rank IS NULL THEN
+    RAISE EXCEPTION 'This objective has already been claimed';
+  END IF;
+
+  INSERT INTO completions (versus_id, player_id, objective_id, claim_rank, proof_path)
+  VALUES (v_objective.versus_id, auth.uid(), p_objective_id, v_rank, p_proof_path)
+  RETURNING * INTO v_completion;
+
+  RETURN v_completion;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_objective(UUID, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 4: Update create_objectives_for_versus() to accept requires_proof
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_objectives_for_versus(
+  p_versus_id UUID,
+  p_objectives JSONB  -- Array of: [{title, points, description, max_per_player, max_per_period, limit_period, cooldown_minutes, claim_mode, podium_points, unit, points_per_unit, requires_proof}, ...]
+)
+RETURNS SETOF objectives
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  objective_record JSONB;
+  inserted_objective objectives;
+BEGIN
+  -- Validate versus exists
+  IF NOT EXISTS (SELECT 1 FROM versus WHERE id = p_versus_id) THEN
+    RAISE EXCEPTION 'Versus does not exist';
+  END IF;
+
+  -- Insert each objective
+  FOR objective_record IN SELECT * FROM jsonb_array_elements(p_objectives)
+  LOOP
+    INSERT INTO objectives (
+      versus_id,
+      title,
+      points,
+      description,
+      max_per_player,
+      max_per_period,
+      limit_period,
+      cooldown_minutes,
+      claim_mode,
+      podium_points,
+      unit,
+      points_per_unit,
+      requires_proof
+    )
+    VALUES (
+      p_versus_id,
+      objective_record->>'title',
+      (objective_record->>'points')::INTEGER,
+      objective_record->>'description',
+      (objective_record->>'max_per_player')::INTEGER,
+      (objective_record->>'max_per_period')::INTEGER,
+      objective_record->>'limit_period',
+      (objective_record->>'cooldown_minutes')::INTEGER,
+      COALESCE(objective_record->>'claim_mode', 'unlimited'),
+      CASE
+        WHEN jsonb_typeof(objective_record->'podium_points') = 'array' THEN
+          ARRAY(SELECT jsonb_array_elements_text(objective_record->'podium_points')::INTEGER)
+        ELSE NULL
+      END,
+      objective_record->>'unit',
+      (objective_record->>'points_per_unit')::NUMERIC,
+      COALESCE((objective_record->>'requires_proof')::BOOLEAN, FALSE)
+    )
+    RETURNING * INTO inserted_objective;
+
+    RETURN NEXT inserted_objective;
+  END LOOP;
+
+  RETURN;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_objectives_for_versus(UUID, JSONB) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT table_name, column_name, data_type, column_default
+FROM information_schema.columns
+WHERE (table_name = 'objectives' AND column_name = 'requires_proof')
+OR (table_name = 'completions' AND column_name = 'proof_path');
+
+SELECT id, public, file_size_limit FROM storage.buckets WHERE id = 'completion-proofs';
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+-- Re-run 2025-12-07-claim-objectives.sql (STEP 2) and
+-- 2025-12-08-quantity-objectives.sql (STEP 3) after dropping the new functions:
+DROP FUNCTION IF EXISTS claim_objective(UUID, TEXT);
+DROP POLICY IF EXISTS "Owners and commissioners can delete proofs" ON storage.objects;
+DROP POLICY IF EXISTS "Members can view proofs in their versus" ON storage.objects;
+DROP POLICY IF EXISTS "Members can upload their own proofs" ON storage.objects;
+-- Empty the bucket from the dashboard before deleting it
+DELETE FROM storage.buckets WHERE id = 'completion-proofs';
+ALTER TABLE completions DROP CONSTRAINT IF EXISTS completions_proof_path_check;
+ALTER TABLE completions DROP COLUMN IF EXISTS proof_path;
+ALTER TABLE objectives DROP COLUMN IF EXISTS requires_proof;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-12-completion-proof completed successfully!';
+    RAISE NOTICE 'Objectives can require a photo (objectives.requires_proof)';
+    RAISE NOTICE 'Proofs are stored in the private completion-proofs bucket';
+END $$;
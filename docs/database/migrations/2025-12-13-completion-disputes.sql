@@ -0,0 +1,470 @@
+-- ============================================================================
+-- Migration: Completion Disputes
+-- Date: 2025-12-13
+-- Description: Players challenge a completion and the versus votes on it
+-- ============================================================================
+
+-- This migration adds:
+-- 1. dispute_quorum_percent and dispute_window_hours columns to versus table
+-- 2. 'voided' completion status (voided completions never count)
+-- 3. completion_disputes table (one dispute per completion, with a reason)
+-- 4. dispute_votes table (one 'keep' or 'void' vote per player, with an optional comment)
+-- 5. open_completion_dispute(), cast_dispute_vote() and resolve_due_disputes() functions
+-- 6. Voided completions no longer count toward objective limits
+--
+-- Rules:
+--   - Any player can dispute another player's approved completion; their
+--     'void' vote is cast automatically
+--   - Every player in the versus can vote, including the completion's owner
+--   - The dispute resolves when everyone has voted or the deadline passes
+--   - The completion is voided only if the quorum voted and 'void' votes
+--     outnumber 'keep' votes; otherwise it stands (status 'upheld')
+--
+-- Disputes past their deadline are resolved lazily by resolve_due_disputes(),
+-- which the app calls when a versus is loaded.
+
+-- ============================================================================
+-- STEP 1: Add dispute settings to versus
+-- ============================================================================
+
+ALTER TABLE versus ADD COLUMN IF NOT EXISTS dispute_quorum_percent INTEGER DEFAULT 50 NOT NULL;
+ALTER TABLE versus ADD COLUMN IF NOT EXISTS dispute_window_hours INTEGER DEFAULT 48 NOT NULL;
+
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_dispute_settings_check;
+ALTER TABLE versus ADD CONSTRAINT versus_dispute_settings_check CHECK (
+  dispute_quorum_percent BETWEEN 1 AND 100
+  AND dispute_window_hours BETWEEN 1 AND 168
+);
+
+COMMENT ON COLUMN versus.dispute_quorum_percent IS 'Share of players (1-100%) who must vote for a dispute to void a completion.';
+COMMENT ON COLUMN versus.dispute_window_hours IS 'Hours a dispute stays open for voting (1-168).';
+
+-- ============================================================================
+-- STEP 2: Allow the 'voided' completion status
+-- ============================================================================
+
+ALTER TABLE completions DROP CONSTRAINT IF EXISTS completions_status_check;
+ALTER TABLE completions ADD CONSTRAINT completions_status_check CHECK (
+  status IN ('pending', 'approved', 'rejected', 'voided')
+  AND (review_note IS NULL OR char_length(review_note) <= 500)
+);
+
+COMMENT ON COLUMN completions.status IS '''pending'', ''approved'', ''rejected'' or ''voided'' (by a dispute vote). Only approved completions count toward scores.';
+
+-- ============================================================================
+-- STEP 3: Create completion_disputes and dispute_votes tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS completion_disputes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  versus_id UUID REFERENCES versus(id) ON DELETE CASCADE NOT NULL,
+  completion_id UUID REFERENCES completions(id) ON DELETE CASCADE NOT NULL UNIQUE,
+  opened_by UUID REFERENCES players(id) ON DELETE SET NULL,
+  reason TEXT NOT NULL CHECK (char_length(trim(reason)) BETWEEN 1 AND 500),
+  quorum INTEGER NOT NULL CHECK (quorum >= 1), -- Votes needed, fixed when the dispute opens
+  status TEXT DEFAULT 'open' NOT NULL CHECK (status IN ('open', 'upheld', 'voided')),
+  opened_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  deadline_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_completion_disputes_versus_id ON completion_disputes(versus_id);
+CREATE INDEX IF NOT EXISTS idx_completion_disputes_open
+  ON completion_disputes(deadline_at)
+  WHERE status = 'open';
+
+COMMENT ON TABLE completion_disputes IS 'A player''s challenge of a completion. Resolved by dispute_votes.';
+
+CREATE TABLE IF NOT EXISTS dispute_votes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  dispute_id UUID REFERENCES completion_disputes(id) ON DELETE CASCADE NOT NULL,
+  voter_id UUID REFERENCES players(id) ON DELETE CASCADE NOT NULL,
+  vote TEXT NOT NULL CHECK (vote IN ('keep', 'void')),
+  comment TEXT CHECK (comment IS NULL OR char_length(comment) <= 500),
+  voted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE(dispute_id, voter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_votes_dispute_id ON dispute_votes(dispute_id);
+
+-- ============================================================================
+-- STEP 4: RLS policies (read-only; writes go through the functions below)
+-- ============================================================================
+
+ALTER TABLE completion_disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dispute_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view disputes for their versus" ON completion_disputes;
+CREATE POLICY "Users can view disputes for their versus"
+  ON completion_disputes FOR SELECT
+  USING (is_user_in_versus(versus_id));
+
+DROP POLICY IF EXISTS "Users can view dispute votes for their versus" ON dispute_votes;
+CREATE POLICY "Users can view dispute votes for their versus"
+  ON dispute_votes FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM completion_disputes d
+      WHERE d.id = dispute_votes.dispute_id
+      AND is_user_in_versus(d.versus_id)
+    )
+  );
+
+-- ============================================================================
+-- STEP 5: Create dispute functions
+-- ============================================================================
+
+-- Resolves an open dispute once everyone has voted or the deadline has passed.
+-- Internal helper: callers must already have checked access. Only the
+-- dispute functions below can call it.
+CREATE OR REPLACE FUNCTION resolve_completion_dispute(p_dispute_id UUID)
+RETURNS completion_disputes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute completion_disputes;
+  v_keep INTEGER;
+  v_void INTEGER;
+  v_players INTEGER;
+BEGIN
+  SELECT * INTO v_dispute
+  FROM completion_disputes
+  WHERE id = p_dispute_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_dispute.status <> 'open' THEN
+    RETURN v_dispute;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE vote = 'keep'),
+    COUNT(*) FILTER (WHERE vote = 'void')
+  INTO v_keep, v_void
+  FROM dispute_votes
+  WHERE dispute_id = p_dispute_id;
+
+  SELECT COUNT(*) INTO v_players
+  FROM versus_players
+  WHERE versus_id = v_dispute.versus_id;
+
+  IF NOW() < v_dispute.deadline_at AND v_keep + v_void < v_players THEN
+    RETURN v_dispute;
+  END IF;
+
+  IF v_keep + v_void >= v_dispute.quorum AND v_void > v_keep THEN
+    -- Voiding frees a claim slot, like a rejection
+    UPDATE completions
+    SET status = 'voided', claim_rank = NULL
+    WHERE id = v_dispute.completion_id;
+
+    v_dispute.status := 'voided';
+  ELSE
+    v_dispute.status := 'upheld';
+  END IF;
+
+  UPDATE completion_disputes
+  SET status = v_dispute.status, resolved_at = NOW()
+  WHERE id = p_dispute_id
+  RETURNING * INTO v_dispute;
+
+  RETURN v_dispute;
+END;
+$$;
+
+-- Supabase grants new functions to anon and authenticated directly, so
+-- revoking from PUBLIC alone leaves it callable through the API
+REVOKE EXECUTE ON FUNCTION resolve_completion_dispute(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Opens a dispute on another player's approved completion and casts the
+-- challenger's 'void' vote
+CREATE OR REPLACE FUNCTION open_completion_dispute(
+  p_completion_id UUID,
+  p_reason TEXT
+)
+RETURNS completion_disputes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_completion completions;
+  v_versus versus;
+  v_players INTEGER;
+  v_dispute completion_disputes;
+BEGIN
+  SELECT * INTO v_completion
+  FROM completions
+  WHERE id = p_completion_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Completion not found';
+  END IF;
+
+  IF NOT is_user_in_versus(v_completion.versus_id) THEN
+    RAISE EXCEPTION 'You don''t have access to this versus';
+  END IF;
+
+  IF v_completion.player_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t dispute your own completion';
+  END IF;
+
+  IF v_completion.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved completions can be disputed';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to dispute a completion';
+  END IF;
+
+  SELECT * INTO v_versus FROM versus WHERE id = v_completion.versus_id;
+
+  IF v_versus.finalized_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Final standings are locked for this Versus';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM completion_disputes WHERE completion_id = p_completion_id) THEN
+    RAISE EXCEPTION 'This completion has already been disputed';
+  END IF;
+
+  SELECT COUNT(*) INTO v_players
+  FROM versus_players
+  WHERE versus_id = v_completion.versus_id;
+
+  INSERT INTO completion_disputes (versus_id, completion_id, opened_by, reason, quorum, deadline_at)
+  VALUES (
+    v_completion.versus_id,
+    p_completion_id,
+    auth.uid(),
+    trim(p_reason),
+    GREATEST(1, CEIL(v_players * v_versus.dispute_quorum_percent / 100.0)::INTEGER),
+    NOW() + make_interval(hours => v_versus.dispute_window_hours)
+  )
+  RETURNING * INTO v_dispute;
+
+  INSERT INTO dispute_votes (dispute_id, voter_id, vote)
+  VALUES (v_dispute.id, auth.uid(), 'void');
+
+  RETURN resolve_completion_dispute(v_dispute.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION open_completion_dispute(UUID, TEXT) TO authenticated;
+
+-- Records a player's vote, then resolves the dispute if everyone has voted
+CREATE OR REPLACE FUNCTION cast_dispute_vote(
+  p_dispute_id UUID,
+  p_vote TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS completion_disputes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute completion_disputes;
+BEGIN
+  SELECT * INTO v_dispute
+  FROM completion_disputes
+  WHERE id = p_dispute_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  IF NOT is_user_in_versus(v_dispute.versus_id) THEN
+    RAISE EXCEPTION 'You don''t have access to this versus';
+  END IF;
+
+  IF v_dispute.status <> 'open' OR NOW() >= v_dispute.deadline_at THEN
+    RAISE EXCEPTION 'Voting on this dispute has closed';
+  END IF;
+
+  IF p_vote NOT IN ('keep', 'void') THEN
+    RAISE EXCEPTION 'Vote must be keep or void';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM dispute_votes
+    WHERE dispute_id = p_dispute_id
+    AND voter_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You''ve already voted on this dispute';
+  END IF;
+
+  INSERT INTO dispute_votes (dispute_id, voter_id, vote, comment)
+  VALUES (p_dispute_id, auth.uid(), p_vote, NULLIF(trim(p_comment), ''));
+
+  RETURN resolve_completion_dispute(p_dispute_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cast_dispute_vote(UUID, TEXT, TEXT) TO authenticated;
+
+-- Resolves every dispute past its deadline in the caller's versus.
+-- Returns the number of disputes resolved.
+CREATE OR REPLACE FUNCTION resolve_due_disputes()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_dispute_id IN
+    SELECT d.id
+    FROM completion_disputes d
+    WHERE d.status = 'open'
+    AND d.deadline_at <= NOW()
+    AND is_user_in_versus(d.versus_id)
+  LOOP
+    PERFORM resolve_completion_dispute(v_dispute_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION resolve_due_disputes() TO authenticated;
+
+-- ============================================================================
+-- STEP 6: Voided completions don't count toward limits
+-- ============================================================================
+
+-- Same as 2025-12-11, but skips voided completions too
+CREATE OR REPLACE FUNCTION check_completion_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_objective objectives;
+  v_name TEXT;
+  v_who TEXT;
+  v_period_start TIMESTAMPTZ;
+  v_cooldown_ends TIMESTAMPTZ;
+BEGIN
+  SELECT * INTO v_objective
+  FROM objectives
+  WHERE id = NEW.objective_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW; -- The foreign key reports this
+  END IF;
+
+  -- A commissioner logging for someone else gets told about that player
+  IF NEW.player_id IS DISTINCT FROM auth.uid() THEN
+    SELECT COALESCE(vp.nickname, p.display_name, split_part(p.email, '@', 1))
+    INTO v_name
+    FROM players p
+    LEFT JOIN versus_players vp ON vp.player_id = p.id AND vp.versus_id = NEW.versus_id
+    WHERE p.id = NEW.player_id;
+  END IF;
+  v_who := COALESCE(v_name || ' has', 'You''ve');
+
+  -- Lifetime limit
+  IF v_objective.max_per_player IS NOT NULL AND (
+    SELECT COUNT(*) FROM completions
+    WHERE objective_id = NEW.objective_id
+    AND player_id = NEW.player_id
+    AND status NOT IN ('rejected', 'voided')
+  ) >= v_objective.max_per_player THEN
+    RAISE EXCEPTION '% reached the limit of % for "%"',
+      v_who, v_objective.max_per_player, v_objective.title;
+  END IF;
+
+  -- Per day / per week limit (UTC calendar buckets, weeks start on Monday)
+  IF v_objective.max_per_period IS NOT NULL THEN
+    v_period_start := date_trunc(v_objective.limit_period, NEW.completed_at, 'UTC');
+
+    IF (
+      SELECT COUNT(*) FROM completions
+      WHERE objective_id = NEW.objective_id
+      AND player_id = NEW.player_id
+      AND status NOT IN ('rejected', 'voided')
+      AND completed_at >= v_period_start
+      AND completed_at < v_period_start + ('1 ' || v_objective.limit_period)::INTERVAL
+    ) >= v_objective.max_per_period THEN
+      RAISE EXCEPTION '% reached % limit of % for "%"',
+        v_who,
+        CASE v_objective.limit_period WHEN 'day' THEN 'today''s' ELSE 'this week''s' END,
+        v_objective.max_per_period,
+        v_objective.title;
+    END IF;
+  END IF;
+
+  -- Cooldown since the player's previous completion
+  IF v_objective.cooldown_minutes > 0 THEN
+    SELECT MAX(completed_at) + make_interval(mins => v_objective.cooldown_minutes)
+    INTO v_cooldown_ends
+    FROM completions
+    WHERE objective_id = NEW.objective_id
+    AND player_id = NEW.player_id
+    AND status NOT IN ('rejected', 'voided')
+    AND completed_at <= NEW.completed_at;
+
+    IF v_cooldown_ends > NEW.completed_at THEN
+      RAISE EXCEPTION '"%" is on cooldown%. Try again in % min',
+        v_objective.title,
+        COALESCE(' for ' || v_name, ''),
+        CEIL(EXTRACT(EPOCH FROM v_cooldown_ends - NEW.completed_at) / 60);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT table_name, column_name, data_type, column_default
+FROM information_schema.columns
+WHERE (table_name = 'versus' AND column_name IN ('dispute_quorum_percent', 'dispute_window_hours'))
+OR table_name IN ('completion_disputes', 'dispute_votes');
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+-- Re-run 2025-12-11-completion-approvals.sql (STEP 5) to restore
+-- check_completion_limits(), then:
+DROP FUNCTION IF EXISTS resolve_due_disputes();
+DROP FUNCTION IF EXISTS cast_dispute_vote(UUID, TEXT, TEXT);
+DROP FUNCTION IF EXISTS open_completion_dispute(UUID, TEXT);
+DROP FUNCTION IF EXISTS resolve_completion_dispute(UUID);
+DROP TABLE IF EXISTS dispute_votes;
+DROP TABLE IF EXISTS completion_disputes;
+-- Voided completions can't go back to a valid status automatically:
+UPDATE completions SET status = 'rejected' WHERE status = 'voided';
+ALTER TABLE completions DROP CONSTRAINT IF EXISTS completions_status_check;
+ALTER TABLE completions ADD CONSTRAINT completions_status_check CHECK (
+  status IN ('pending', 'approved', 'rejected')
+  AND (review_note IS NULL OR char_length(review_note) <= 500)
+);
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_dispute_settings_check;
+ALTER TABLE versus DROP COLUMN IF EXISTS dispute_window_hours;
+ALTER TABLE versus DROP COLUMN IF EXISTS dispute_quorum_percent;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-13-completion-disputes completed successfully!';
+    RAISE NOTICE 'Players can dispute completions and vote (completion_disputes, dispute_votes)';
+    RAISE NOTICE 'Completions that lose a vote are voided and stop counting';
+END $$;
@@ -0,0 +1,263 @@
+-- ============================================================================
+-- Migration: Commissioner Logging
+-- Date: 2025-12-14
+-- Description: Commissioners log, backdate and annotate completions for any player
+-- ============================================================================
+
+-- This migration adds:
+-- 1. logged_by, logged_at and note columns to completions table
+-- 2. Trigger that records who logged a completion and enforces who may
+--    log for others, backdate or add a note (commissioners only)
+-- 3. RLS policy so commissioners can insert completions for players in their versus;
+--    players' own undo window now runs from logged_at
+-- 4. claim_objective() accepts a player, completion time and note
+-- 5. Proof paths may live in the logger's folder
+--
+-- completed_at is when the objective was done (can be backdated);
+-- logged_at is when it was recorded (the undo window starts here).
+
+-- ============================================================================
+-- STEP 1: Add logging columns
+-- ============================================================================
+
+ALTER TABLE completions ADD COLUMN IF NOT EXISTS logged_by UUID REFERENCES players(id) ON DELETE SET NULL;
+ALTER TABLE completions ADD COLUMN IF NOT EXISTS logged_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE completions ADD COLUMN IF NOT EXISTS note TEXT;
+
+UPDATE completions SET logged_at = completed_at WHERE logged_at IS NULL;
+
+ALTER TABLE completions ALTER COLUMN logged_at SET DEFAULT NOW();
+ALTER TABLE completions ALTER COLUMN logged_at SET NOT NULL;
+
+ALTER TABLE completions DROP CONSTRAINT IF EXISTS completions_note_check;
+ALTER TABLE completions ADD CONSTRAINT completions_note_check CHECK (note IS NULL OR char_length(note) <= 500);
+
+COMMENT ON COLUMN completions.logged_by IS 'Commissioner who logged the completion for the player. NULL = logged by the player.';
+COMMENT ON COLUMN completions.logged_at IS 'When the completion was recorded. completed_at may be earlier (backdated).';
+COMMENT ON COLUMN completions.note IS 'Optional note from the commissioner who logged it.';
+
+-- ============================================================================
+-- STEP 2: Record and check who logged a completion
+-- ============================================================================
+
+-- Regular players can only log for themselves, right now, without a note.
+-- Skipped when there's no signed-in user (SQL editor / service role).
+CREATE OR REPLACE FUNCTION set_completion_logged_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_is_commissioner BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_is_commissioner := is_user_commissioner(NEW.versus_id);
+  NEW.logged_at := NOW();
+
+  IF NEW.player_id = auth.uid() THEN
+    NEW.logged_by := NULL;
+  ELSIF v_is_commissioner THEN
+    NEW.logged_by := auth.uid();
+  ELSE
+    RAISE EXCEPTION 'Only commissioners can log completions for other players';
+  END IF;
+
+  IF NOT v_is_commissioner THEN
+    NEW.completed_at := NOW();
+    NEW.note := NULL;
+  ELSIF NEW.completed_at > NOW() + INTERVAL '1 minute' THEN
+    RAISE EXCEPTION 'Completions can''t be dated in the future';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_completion_logged_by ON completions;
+CREATE TRIGGER set_completion_logged_by BEFORE INSERT ON completions
+    FOR EACH ROW EXECUTE FUNCTION set_completion_logged_by();
+
+-- ============================================================================
+-- STEP 3: Let commissioners insert completions for their players
+-- ============================================================================
+
+-- The existing "Users can create their own completions" policy stays in place.
+DROP POLICY IF EXISTS "Commissioners can log completions for their players" ON completions;
+CREATE POLICY "Commissioners can log completions for their players"
+  ON completions FOR INSERT
+  WITH CHECK (
+    is_user_commissioner(versus_id)
+    AND EXISTS (
+      SELECT 1 FROM versus_players vp
+      WHERE vp.versus_id = completions.versus_id
+      AND vp.player_id = completions.player_id
+    )
+  );
+
+-- Backdated completions would otherwise be outside the window at once
+DROP POLICY IF EXISTS "Users can delete their own completions" ON completions;
+CREATE POLICY "Users can delete their own completions"
+  ON completions FOR DELETE
+  USING (
+    auth.uid() = player_id
+    AND EXISTS (
+      SELECT 1 FROM versus v
+      WHERE v.id = completions.versus_id
+      AND completions.logged_at + make_interval(mins => v.undo_grace_minutes) > NOW()
+    )
+  );
+
+-- ============================================================================
+-- STEP 4: Proofs are stored in the folder of whoever logged the completion
+-- ============================================================================
+
+ALTER TABLE completions DROP CONSTRAINT IF EXISTS completions_proof_path_check;
+ALTER TABLE completions ADD CONSTRAINT completions_proof_path_check CHECK (
+  proof_path IS NULL
+  OR proof_path LIKE versus_id::TEXT || '/' || COALESCE(logged_by, player_id)::TEXT || '/%'
+);
+
+-- ============================================================================
+-- STEP 5: Let claim_objective() log for a player
+-- ============================================================================
+
+-- The signature changes, so drop the previous version first
+DROP FUNCTION IF EXISTS claim_objective(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION claim_objective(
+  p_objective_id UUID,
+  p_proof_path TEXT DEFAULT NULL,
+  p_player_id UUID DEFAULT NULL,       -- Defaults to the caller
+  p_completed_at TIMESTAMP WITH TIME ZONE DEFAULT NULL, -- Defaults to now
+  p_note TEXT DEFAULT NULL
+)
+RETURNS completions
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_objective objectives;
+  v_player_id UUID := COALESCE(p_player_id, auth.uid());
+  v_slots INTEGER;
+  v_rank INTEGER;
+  v_completion completions;
+BEGIN
+  SELECT * INTO v_objective
+  FROM objectives
+  WHERE id = p_objective_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Objective not found';
+  END IF;
+
+  IF NOT is_user_in_versus(v_objective.versus_id) THEN
+    RAISE EXCEPTION 'You don''t have access to this versus';
+  END IF;
+
+  IF v_player_id <> auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM versus_players
+    WHERE versus_id = v_objective.versus_id
+    AND player_id = v_player_id
+  ) THEN
+    RAISE EXCEPTION 'That player isn''t in this versus';
+  END IF;
+
+  IF v_objective.claim_mode = 'unlimited' THEN
+    RAISE EXCEPTION 'This objective isn''t claimable';
+  END IF;
+
+  IF v_objective.requires_proof AND p_proof_path IS NULL THEN
+    RAISE EXCEPTION 'This objective requires a photo as proof';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM completions
+    WHERE objective_id = p_objective_id
+    AND player_id = v_player_id
+    AND claim_rank IS NOT NULL
+  ) THEN
+    RAISE EXCEPTION '%', CASE WHEN v_player_id = auth.uid()
+      THEN 'You''ve already claimed this objective'
+      ELSE 'That player has already claimed this objective'
+    END;
+  END IF;
+
+  v_slots := CASE v_objective.claim_mode
+    WHEN 'podium' THEN array_length(v_objective.podium_points, 1)
+    ELSE 1
+  END;
+
+  SELECT MIN(slot) INTO v_rank
+  FROM generate_series(1, v_slots) AS slot
+  WHERE NOT EXISTS (
+    SELECT 1 FROM completions
+    WHERE objective_id = p_objective_id
+    AND claim_rank = slot
+  );
+
+  IF v_rank IS NULL THEN
+    RAISE EXCEPTION 'This objective has already been claimed';
+  END IF;
+
+  -- set_completion_logged_by() checks who may log for others, backdate or add a note
+  INSERT INTO completions (versus_id, player_id, objective_id, claim_rank, proof_path, completed_at, note)
+  VALUES (
+    v_objective.versus_id,
+    v_player_id,
+    p_objective_id,
+    v_rank,
+    p_proof_path,
+    COALESCE(p_completed_at, NOW()),
+    p_note
+  )
+  RETURNING * INTO v_completion;
+
+  RETURN v_completion;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION claim_objective(UUID, TEXT, UUID, TIMESTAMP WITH TIME ZONE, TEXT) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type, is_nullable, column_default
+FROM information_schema.columns
+WHERE table_name = 'completions' AND column_name IN ('logged_by', 'logged_at', 'note');
+
+-- Should return 0 rows
+SELECT id FROM completions WHERE logged_at IS NULL;
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+-- Re-run 2025-12-12-completion-proof.sql (STEPS 1 and 3) after dropping the new function:
+DROP FUNCTION IF EXISTS claim_objective(UUID, TEXT, UUID, TIMESTAMP WITH TIME ZONE, TEXT);
+DROP POLICY IF EXISTS "Commissioners can log completions for their players" ON completions;
+-- Re-run 2025-12-03-completion-undo-and-removals.sql (STEP 3) for the completed_at delete policy
+DROP POLICY IF EXISTS "Users can delete their own completions" ON completions;
+DROP TRIGGER IF EXISTS set_completion_logged_by ON completions;
+DROP FUNCTION IF EXISTS set_completion_logged_by();
+ALTER TABLE completions DROP CONSTRAINT IF EXISTS completions_note_check;
+ALTER TABLE completions DROP COLUMN IF EXISTS note;
+ALTER TABLE completions DROP COLUMN IF EXISTS logged_at;
+ALTER TABLE completions DROP COLUMN IF EXISTS logged_by;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-14-commissioner-logging completed successfully!';
+    RAISE NOTICE 'Commissioners can log completions for players (completions.logged_by)';
+    RAISE NOTICE 'Undo windows now start at completions.logged_at';
+END $$;
@@ -0,0 +1,137 @@
+-- ============================================================================
+-- Migration: Completion Backfill
+-- Date: 2025-12-15
+-- Description: Players backdate completions within a per-versus window
+-- ============================================================================
+
+-- This migration adds:
+-- 1. max_backfill_hours column to versus table
+-- 2. Updated set_completion_logged_by() trigger that lets players backdate
+--    within max_backfill_hours and keeps every completion inside the season
+-- 3. Index for history ordered by completed_at
+--
+-- max_backfill_hours:
+--   0     - players can't backdate (default, the previous behaviour)
+--   1-720 - players can date a completion up to this many hours ago
+-- Commissioners can still backdate without a limit.
+--
+-- completed_at is the effective time used for scores, rounds and history;
+-- the app flags entries logged more than an hour after completed_at as late.
+
+-- ============================================================================
+-- STEP 1: Add backfill setting to versus
+-- ============================================================================
+
+ALTER TABLE versus ADD COLUMN IF NOT EXISTS max_backfill_hours INTEGER DEFAULT 0 NOT NULL;
+
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_max_backfill_hours_check;
+ALTER TABLE versus ADD CONSTRAINT versus_max_backfill_hours_check CHECK (
+  max_backfill_hours BETWEEN 0 AND 720
+);
+
+COMMENT ON COLUMN versus.max_backfill_hours IS 'How many hours back players can date a completion (0 = no backdating). Commissioners are not limited.';
+
+-- ============================================================================
+-- STEP 2: Check backdated completions on insert
+-- ============================================================================
+
+-- Replaces the 2025-12-14 version. Regular players can only log for
+-- themselves, without a note, and only as far back as max_backfill_hours.
+-- Skipped when there's no signed-in user (SQL editor / service role).
+CREATE OR REPLACE FUNCTION set_completion_logged_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_is_commissioner BOOLEAN;
+  v_versus versus;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_versus FROM versus WHERE id = NEW.versus_id;
+
+  v_is_commissioner := is_user_commissioner(NEW.versus_id);
+  NEW.logged_at := NOW();
+  NEW.completed_at := COALESCE(NEW.completed_at, NOW());
+
+  IF NEW.player_id = auth.uid() THEN
+    NEW.logged_by := NULL;
+  ELSIF v_is_commissioner THEN
+    NEW.logged_by := auth.uid();
+  ELSE
+    RAISE EXCEPTION 'Only commissioners can log completions for other players';
+  END IF;
+
+  IF NOT v_is_commissioner THEN
+    NEW.note := NULL;
+
+    IF NEW.completed_at < NOW() - make_interval(hours => v_versus.max_backfill_hours) THEN
+      IF v_versus.max_backfill_hours = 0 THEN
+        RAISE EXCEPTION 'This Versus doesn''t allow backdated completions';
+      END IF;
+      RAISE EXCEPTION 'Completions can only be backdated up to % hours', v_versus.max_backfill_hours;
+    END IF;
+  END IF;
+
+  IF NEW.completed_at > NOW() + INTERVAL '1 minute' THEN
+    RAISE EXCEPTION 'Completions can''t be dated in the future';
+  END IF;
+
+  IF v_versus.starts_at IS NOT NULL AND NEW.completed_at < v_versus.starts_at THEN
+    RAISE EXCEPTION 'That date is before this Versus started';
+  END IF;
+
+  IF v_versus.ends_at IS NOT NULL AND NEW.completed_at > v_versus.ends_at THEN
+    RAISE EXCEPTION 'That date is after this Versus ended';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 3: Index history by effective time
+-- ============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_completions_versus_completed_at
+  ON completions(versus_id, completed_at DESC);
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'versus' AND column_name = 'max_backfill_hours';
+
+-- Late entries (logged more than an hour after they happened)
+SELECT id, completed_at, logged_at
+FROM completions
+WHERE logged_at - completed_at > INTERVAL '1 hour'
+ORDER BY completed_at DESC
+LIMIT 20;
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+-- Re-run 2025-12-14-commissioner-logging.sql (STEP 2) to restore the
+-- previous trigger function, then:
+DROP INDEX IF EXISTS idx_completions_versus_completed_at;
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_max_backfill_hours_check;
+ALTER TABLE versus DROP COLUMN IF EXISTS max_backfill_hours;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-15-completion-backfill completed successfully!';
+    RAISE NOTICE 'Players can backdate completions up to versus.max_backfill_hours';
+    RAISE NOTICE 'Completions must fall inside the season window';
+END $$;
@@ -0,0 +1,347 @@
+-- ============================================================================
+-- Migration: Versus Audit Log
+-- Date: 2025-12-16
+-- Description: Append-only record of who changed a versus' settings, objectives, roster and completions
+-- ============================================================================
+
+-- This migration adds:
+-- 1. versus_audit_log table (actor, entity, action and before/after values)
+-- 2. RLS policies: every player in the versus can read it, and nobody can
+--    write, edit or delete entries through the API
+-- 3. AFTER triggers that write the entries, in the same transaction as the
+--    change, whichever way the change was made
+--
+-- Entries written by the triggers:
+--   entity_type 'versus'     - settings changes
+--   entity_type 'objective'  - objectives added, edited or removed (archived)
+--   entity_type 'player'     - players added, edited or removed
+--   entity_type 'completion' - completions deleted (undo or commissioner
+--                              removal) or re-dated
+-- before/after hold only the fields that changed. entity_label keeps a
+-- readable name (objective title, player name) after the entity is gone.
+-- The actor is the signed-in user (NULL from the SQL editor); functions
+-- explain their changes with set_audit_reason().
+
+-- ============================================================================
+-- STEP 1: Create versus_audit_log table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS versus_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  versus_id UUID REFERENCES versus(id) ON DELETE CASCADE NOT NULL,
+  actor_id UUID REFERENCES players(id) ON DELETE SET NULL,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('versus', 'objective', 'player', 'completion')),
+  entity_id UUID, -- No FK: the entity may be deleted later
+  entity_label TEXT,
+  action TEXT NOT NULL CHECK (action IN ('create', 'update', 'delete')),
+  before JSONB,
+  after JSONB,
+  reason TEXT CHECK (reason IS NULL OR char_length(reason) <= 500),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_versus_audit_log_versus_id
+  ON versus_audit_log(versus_id, created_at DESC);
+
+COMMENT ON TABLE versus_audit_log IS 'Append-only record of changes to a versus. Readable by every player in it.';
+COMMENT ON COLUMN versus_audit_log.before IS 'Changed fields before the change (NULL for create).';
+COMMENT ON COLUMN versus_audit_log.after IS 'Changed fields after the change (NULL for delete).';
+
+-- ============================================================================
+-- STEP 2: RLS policies (SELECT only - entries are written by the triggers
+-- in STEP 3 and are permanent)
+-- ============================================================================
+
+ALTER TABLE versus_audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view the audit log for their versus" ON versus_audit_log;
+CREATE POLICY "Users can view the audit log for their versus"
+  ON versus_audit_log FOR SELECT
+  USING (is_user_in_versus(versus_id));
+
+DROP POLICY IF EXISTS "Users can record their own changes" ON versus_audit_log;
+
+-- ============================================================================
+-- STEP 3: Write entries from triggers
+-- ============================================================================
+
+-- Explains the rest of the transaction's changes, e.g. 'Commissioner handoff'
+CREATE OR REPLACE FUNCTION set_audit_reason(p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM set_config('versus_audit.reason', COALESCE(p_reason, ''), true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_audit_reason(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Internal helper: writes one entry holding p_fields (only the changed ones
+-- for an update). p_old is NULL for a create, p_new for a delete. Skipped
+-- when the versus itself is being deleted and for no-op updates.
+CREATE OR REPLACE FUNCTION write_versus_audit(
+  p_versus_id UUID,
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_entity_label TEXT,
+  p_action TEXT,
+  p_old JSONB,
+  p_new JSONB,
+  p_fields TEXT[],
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_before JSONB := '{}'::JSONB;
+  v_after JSONB := '{}'::JSONB;
+  v_field TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM versus WHERE id = p_versus_id) THEN
+    RETURN;
+  END IF;
+
+  FOREACH v_field IN ARRAY p_fields LOOP
+    IF p_action = 'update' AND (p_old->v_field) IS NOT DISTINCT FROM (p_new->v_field) THEN
+      CONTINUE;
+    END IF;
+
+    IF p_old IS NOT NULL THEN
+      v_before := v_before || jsonb_build_object(v_field, p_old->v_field);
+    END IF;
+    IF p_new IS NOT NULL THEN
+      v_after := v_after || jsonb_build_object(v_field, p_new->v_field);
+    END IF;
+  END LOOP;
+
+  IF p_action = 'update' AND v_after = '{}'::JSONB THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO versus_audit_log (versus_id, actor_id, entity_type, entity_id, entity_label, action, before, after, reason)
+  VALUES (
+    p_versus_id,
+    (SELECT id FROM players WHERE id = auth.uid()),
+    p_entity_type,
+    p_entity_id,
+    p_entity_label,
+    p_action,
+    CASE WHEN p_old IS NULL THEN NULL ELSE v_before END,
+    CASE WHEN p_new IS NULL THEN NULL ELSE v_after END,
+    left(COALESCE(p_reason, NULLIF(current_setting('versus_audit.reason', true), '')), 500)
+  );
+END;
+$$;
+
+-- Supabase grants new functions to anon and authenticated directly, so
+-- revoking from PUBLIC alone leaves it callable through the API
+REVOKE EXECUTE ON FUNCTION write_versus_audit(UUID, TEXT, UUID, TEXT, TEXT, JSONB, JSONB, TEXT[], TEXT) FROM PUBLIC, anon, authenticated;
+
+-- The audited fields are the trigger arguments (TG_ARGV), so later
+-- migrations can add fields by recreating the trigger.
+
+-- Settings changes
+CREATE OR REPLACE FUNCTION audit_versus_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM write_versus_audit(NEW.id, 'versus', NEW.id, NEW.name, 'update', to_jsonb(OLD), to_jsonb(NEW), TG_ARGV);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_versus_changes ON versus;
+CREATE TRIGGER audit_versus_changes AFTER UPDATE ON versus
+    FOR EACH ROW EXECUTE FUNCTION audit_versus_change(
+      'name', 'type', 'reverse_ranking', 'undo_grace_minutes', 'starts_at', 'ends_at',
+      'round_period', 'team_scoring', 'require_approval', 'dispute_quorum_percent',
+      'dispute_window_hours', 'max_backfill_hours'
+    );
+
+-- Objectives are removed by archiving them, so archiving logs a delete
+CREATE OR REPLACE FUNCTION audit_objective_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM write_versus_audit(NEW.versus_id, 'objective', NEW.id, NEW.title, 'create', NULL, to_jsonb(NEW), TG_ARGV);
+  ELSIF TG_OP = 'DELETE' THEN
+    IF OLD.archived_at IS NULL THEN
+      PERFORM write_versus_audit(OLD.versus_id, 'objective', OLD.id, OLD.title, 'delete', to_jsonb(OLD), NULL, TG_ARGV);
+    END IF;
+  ELSIF OLD.archived_at IS NULL AND NEW.archived_at IS NOT NULL THEN
+    PERFORM write_versus_audit(NEW.versus_id, 'objective', NEW.id, OLD.title, 'delete', to_jsonb(OLD), NULL, TG_ARGV);
+  ELSIF OLD.archived_at IS NOT NULL AND NEW.archived_at IS NULL THEN
+    PERFORM write_versus_audit(NEW.versus_id, 'objective', NEW.id, NEW.title, 'create', NULL, to_jsonb(NEW), TG_ARGV);
+  ELSE
+    PERFORM write_versus_audit(NEW.versus_id, 'objective', NEW.id, NEW.title, 'update', to_jsonb(OLD), to_jsonb(NEW), TG_ARGV);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_objective_changes ON objectives;
+CREATE TRIGGER audit_objective_changes AFTER INSERT OR UPDATE OR DELETE ON objectives
+    FOR EACH ROW EXECUTE FUNCTION audit_objective_change(
+      'title', 'points', 'description', 'max_per_player', 'max_per_period', 'limit_period',
+      'cooldown_minutes', 'claim_mode', 'podium_points', 'unit', 'points_per_unit', 'requires_proof'
+    );
+
+-- Roster changes, labelled with the player's name
+CREATE OR REPLACE FUNCTION audit_versus_player_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row versus_players;
+  v_label TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    v_row := OLD;
+  ELSE
+    v_row := NEW;
+  END IF;
+
+  SELECT COALESCE(display_name, split_part(email, '@', 1)) INTO v_label
+  FROM players
+  WHERE id = v_row.player_id;
+
+  PERFORM write_versus_audit(
+    v_row.versus_id,
+    'player',
+    v_row.player_id,
+    COALESCE(v_label, v_row.nickname),
+    CASE TG_OP WHEN 'INSERT' THEN 'create' WHEN 'UPDATE' THEN 'update' ELSE 'delete' END,
+    CASE WHEN TG_OP = 'INSERT' THEN NULL ELSE to_jsonb(OLD) END,
+    CASE WHEN TG_OP = 'DELETE' THEN NULL ELSE to_jsonb(NEW) END,
+    TG_ARGV
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_versus_player_changes ON versus_players;
+CREATE TRIGGER audit_versus_player_changes AFTER INSERT OR UPDATE OR DELETE ON versus_players
+    FOR EACH ROW EXECUTE FUNCTION audit_versus_player_change('nickname', 'is_commissioner');
+
+-- Completion deletes keep a copy of the completion; the reason is the
+-- commissioner's (completion_removals) or 'Undone'. Updates log the
+-- trigger's fields. Completions deleted along with a player's account
+-- aren't logged one by one.
+CREATE OR REPLACE FUNCTION audit_completion_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_title TEXT;
+  v_player_name TEXT;
+  v_reason TEXT;
+BEGIN
+  SELECT title INTO v_title FROM objectives WHERE id = OLD.objective_id;
+
+  IF TG_OP = 'UPDATE' THEN
+    PERFORM write_versus_audit(NEW.versus_id, 'completion', NEW.id, v_title, 'update', to_jsonb(OLD), to_jsonb(NEW), TG_ARGV);
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(display_name, split_part(email, '@', 1)) INTO v_player_name
+  FROM players
+  WHERE id = OLD.player_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT reason INTO v_reason
+  FROM completion_removals
+  WHERE completion_id = OLD.id
+  ORDER BY removed_at DESC
+  LIMIT 1;
+
+  IF v_reason IS NULL AND auth.uid() IN (OLD.player_id, OLD.logged_by) THEN
+    v_reason := 'Undone';
+  END IF;
+
+  PERFORM write_versus_audit(
+    OLD.versus_id,
+    'completion',
+    OLD.id,
+    v_title,
+    'delete',
+    to_jsonb(OLD) || jsonb_build_object('player_name', v_player_name, 'objective_title', v_title),
+    NULL,
+    ARRAY['player_name', 'objective_title', 'completed_at', 'quantity', 'points_awarded'],
+    v_reason
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_completion_changes ON completions;
+CREATE TRIGGER audit_completion_changes AFTER UPDATE OR DELETE ON completions
+    FOR EACH ROW EXECUTE FUNCTION audit_completion_change('completed_at', 'quantity');
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'versus_audit_log'
+ORDER BY ordinal_position;
+
+SELECT policyname, cmd
+FROM pg_policies
+WHERE tablename = 'versus_audit_log'
+ORDER BY policyname;
+
+SELECT trigger_name, event_object_table, event_manipulation
+FROM information_schema.triggers
+WHERE trigger_name LIKE 'audit_%_changes'
+ORDER BY event_object_table;
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+DROP TRIGGER IF EXISTS audit_completion_changes ON completions;
+DROP TRIGGER IF EXISTS audit_versus_player_changes ON versus_players;
+DROP TRIGGER IF EXISTS audit_objective_changes ON objectives;
+DROP TRIGGER IF EXISTS audit_versus_changes ON versus;
+DROP FUNCTION IF EXISTS audit_completion_change();
+DROP FUNCTION IF EXISTS audit_versus_player_change();
+DROP FUNCTION IF EXISTS audit_objective_change();
+DROP FUNCTION IF EXISTS audit_versus_change();
+DROP FUNCTION IF EXISTS write_versus_audit(UUID, TEXT, UUID, TEXT, TEXT, JSONB, JSONB, TEXT[], TEXT);
+DROP FUNCTION IF EXISTS set_audit_reason(TEXT);
+DROP TABLE IF EXISTS versus_audit_log;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-16-versus-audit-log completed successfully!';
+    RAISE NOTICE 'Changes to settings, objectives, players and completions are logged in versus_audit_log';
+    RAISE NOTICE 'Entries are written by triggers; the API can only read them';
+END $$;
@@ -0,0 +1,196 @@
+-- ============================================================================
+-- Migration: Versus Invitations
+-- Date: 2025-12-17
+-- Description: Invite people by email before they have an account
+-- ============================================================================
+
+-- This migration adds:
+-- 1. versus_invitations table (one row per invited email, with a signup token)
+-- 2. RLS policies: commissioners manage their versus' invitations
+-- 3. accept_versus_invitations() - adds the signed-in user to every versus
+--    with a pending invitation for their email (or the given token)
+-- 4. Audit trigger: sent and revoked invitations appear in the audit log
+--
+-- A pending invitation reserves a roster slot: the app counts players plus
+-- pending invitations against the player limit. The invite email links to
+-- /auth/signup?invite=<token>; /auth/callback (and sign-in) call
+-- accept_versus_invitations() so the new account joins automatically.
+--
+-- status:
+--   pending  - sent, waiting for the person to sign up
+--   accepted - the person signed up and was added to the versus
+--   revoked  - cancelled by a commissioner (the token no longer works)
+
+-- ============================================================================
+-- STEP 1: Create versus_invitations table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS versus_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  versus_id UUID REFERENCES versus(id) ON DELETE CASCADE NOT NULL,
+  email TEXT NOT NULL CHECK (email = lower(email)),
+  nickname TEXT,
+  is_commissioner BOOLEAN DEFAULT false NOT NULL,
+  token TEXT UNIQUE NOT NULL DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'accepted', 'revoked')),
+  invited_by UUID REFERENCES players(id) ON DELETE SET NULL,
+  send_count INTEGER DEFAULT 1 NOT NULL,
+  last_sent_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  accepted_by UUID REFERENCES players(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- One pending invitation per email per versus
+CREATE UNIQUE INDEX IF NOT EXISTS idx_versus_invitations_pending_email
+  ON versus_invitations(versus_id, email)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_versus_invitations_email
+  ON versus_invitations(email)
+  WHERE status = 'pending';
+
+COMMENT ON TABLE versus_invitations IS 'Email invitations for people who do not have an account yet. Pending ones reserve a roster slot.';
+COMMENT ON COLUMN versus_invitations.token IS 'Secret included in the signup link.';
+
+-- ============================================================================
+-- STEP 2: RLS policies
+-- ============================================================================
+
+ALTER TABLE versus_invitations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Commissioners can view invitations" ON versus_invitations;
+CREATE POLICY "Commissioners can view invitations"
+  ON versus_invitations FOR SELECT
+  USING (is_user_commissioner(versus_id));
+
+DROP POLICY IF EXISTS "Commissioners can create invitations" ON versus_invitations;
+CREATE POLICY "Commissioners can create invitations"
+  ON versus_invitations FOR INSERT
+  WITH CHECK (
+    invited_by = auth.uid()
+    AND is_user_commissioner(versus_id)
+  );
+
+DROP POLICY IF EXISTS "Commissioners can update invitations" ON versus_invitations;
+CREATE POLICY "Commissioners can update invitations"
+  ON versus_invitations FOR UPDATE
+  USING (is_user_commissioner(versus_id));
+
+-- ============================================================================
+-- STEP 3: Accept invitations for the signed-in user
+-- ============================================================================
+
+-- Runs as the table owner because the new player isn't in the versus yet
+-- (so RLS would hide the invitation). Matches pending invitations by the
+-- account's email, plus the one the signup link's token points to (in case
+-- the person signed up with a different address). Returns the versus ids
+-- the user was added to.
+CREATE OR REPLACE FUNCTION accept_versus_invitations(p_token TEXT DEFAULT NULL)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_email TEXT;
+  v_invitation versus_invitations;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT lower(email) INTO v_email FROM players WHERE id = v_user_id;
+
+  FOR v_invitation IN
+    SELECT * FROM versus_invitations
+    WHERE status = 'pending'
+      AND (email = v_email OR (p_token IS NOT NULL AND token = p_token))
+    FOR UPDATE
+  LOOP
+    PERFORM set_audit_reason('Accepted an email invitation');
+
+    INSERT INTO versus_players (versus_id, player_id, nickname, is_commissioner)
+    VALUES (v_invitation.versus_id, v_user_id, v_invitation.nickname, v_invitation.is_commissioner)
+    ON CONFLICT (versus_id, player_id) DO NOTHING;
+
+    UPDATE versus_invitations
+    SET status = 'accepted', accepted_by = v_user_id, accepted_at = NOW()
+    WHERE id = v_invitation.id;
+
+    RETURN NEXT v_invitation.versus_id;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_versus_invitations(TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 4: Audit invitations
+-- ============================================================================
+
+-- Invitations are logged as players (with no entity_id yet). Accepting one
+-- is logged when the player is added to the versus.
+CREATE OR REPLACE FUNCTION audit_versus_invitation_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM write_versus_audit(NEW.versus_id, 'player', NULL, NEW.email, 'create', NULL, to_jsonb(NEW), TG_ARGV, 'Invited by email');
+  ELSIF OLD.status = 'pending' AND NEW.status = 'revoked' THEN
+    PERFORM write_versus_audit(NEW.versus_id, 'player', NULL, OLD.email, 'delete', to_jsonb(OLD), NULL, TG_ARGV, 'Invitation revoked');
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_versus_invitation_changes ON versus_invitations;
+CREATE TRIGGER audit_versus_invitation_changes AFTER INSERT OR UPDATE OF status ON versus_invitations
+    FOR EACH ROW EXECUTE FUNCTION audit_versus_invitation_change('email', 'nickname', 'is_commissioner');
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type, is_nullable
+FROM information_schema.columns
+WHERE table_name = 'versus_invitations'
+ORDER BY ordinal_position;
+
+SELECT policyname, cmd
+FROM pg_policies
+WHERE tablename = 'versus_invitations'
+ORDER BY policyname;
+
+-- Pending invitations per versus
+SELECT versus_id, COUNT(*) AS pending
+FROM versus_invitations
+WHERE status = 'pending'
+GROUP BY versus_id;
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+DROP TRIGGER IF EXISTS audit_versus_invitation_changes ON versus_invitations;
+DROP FUNCTION IF EXISTS audit_versus_invitation_change();
+DROP FUNCTION IF EXISTS accept_versus_invitations(TEXT);
+DROP TABLE IF EXISTS versus_invitations;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-17-versus-invitations completed successfully!';
+    RAISE NOTICE 'Commissioners can invite people by email before they sign up';
+    RAISE NOTICE 'accept_versus_invitations() adds new accounts to the versus they were invited to';
+END $$;
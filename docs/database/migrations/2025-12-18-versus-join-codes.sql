@@ -0,0 +1,271 @@
+-- ============================================================================
+-- Migration: Versus Join Codes
+-- Date: 2025-12-18
+-- Description: Shareable join links/codes with optional expiry, max uses and approval
+-- ============================================================================
+
+-- This migration adds:
+-- 1. versus_join_codes table (short code per link, expiry, max uses, approval mode)
+-- 2. versus_join_requests table (people waiting for a commissioner to let them in)
+-- 3. RLS policies: commissioners manage codes and requests, requesters see their own
+-- 4. get_join_code_preview() - what a code points to, for the /join page
+-- 5. join_versus_with_code() - joins (or asks to join) a versus with a code
+--
+-- Codes are 8 characters from an unambiguous alphabet (no 0/O/1/I) and are
+-- shared as /join/<code>. A code stops working when it's revoked, past
+-- expires_at, or has been used max_uses times. With requires_approval the
+-- person lands in versus_join_requests instead of the roster.
+--
+-- People joining aren't players yet, so RLS hides the versus from them;
+-- the two functions run as the table owner and only expose what's needed.
+
+-- ============================================================================
+-- STEP 1: Create versus_join_codes table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS versus_join_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  versus_id UUID REFERENCES versus(id) ON DELETE CASCADE NOT NULL,
+  code TEXT UNIQUE NOT NULL CHECK (code ~ '^[A-HJ-NP-Z2-9]{8}$'),
+  requires_approval BOOLEAN DEFAULT false NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_uses INTEGER CHECK (max_uses IS NULL OR max_uses > 0),
+  use_count INTEGER DEFAULT 0 NOT NULL,
+  created_by UUID REFERENCES players(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_versus_join_codes_versus_id
+  ON versus_join_codes(versus_id);
+
+COMMENT ON TABLE versus_join_codes IS 'Shareable join links. NULL expires_at / max_uses mean no limit.';
+COMMENT ON COLUMN versus_join_codes.use_count IS 'People who joined or asked to join with this code.';
+
+-- ============================================================================
+-- STEP 2: Create versus_join_requests table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS versus_join_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  versus_id UUID REFERENCES versus(id) ON DELETE CASCADE NOT NULL,
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE NOT NULL,
+  join_code_id UUID REFERENCES versus_join_codes(id) ON DELETE SET NULL,
+  status TEXT DEFAULT 'pending' NOT NULL CHECK (status IN ('pending', 'approved', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  decided_by UUID REFERENCES players(id) ON DELETE SET NULL,
+  decided_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One open request per person per versus
+CREATE UNIQUE INDEX IF NOT EXISTS idx_versus_join_requests_pending
+  ON versus_join_requests(versus_id, player_id)
+  WHERE status = 'pending';
+
+-- ============================================================================
+-- STEP 3: RLS policies
+-- ============================================================================
+
+ALTER TABLE versus_join_codes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Commissioners can view join codes" ON versus_join_codes;
+CREATE POLICY "Commissioners can view join codes"
+  ON versus_join_codes FOR SELECT
+  USING (is_user_commissioner(versus_id));
+
+DROP POLICY IF EXISTS "Commissioners can create join codes" ON versus_join_codes;
+CREATE POLICY "Commissioners can create join codes"
+  ON versus_join_codes FOR INSERT
+  WITH CHECK (
+    created_by = auth.uid()
+    AND is_user_commissioner(versus_id)
+  );
+
+DROP POLICY IF EXISTS "Commissioners can update join codes" ON versus_join_codes;
+CREATE POLICY "Commissioners can update join codes"
+  ON versus_join_codes FOR UPDATE
+  USING (is_user_commissioner(versus_id));
+
+ALTER TABLE versus_join_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their join requests" ON versus_join_requests;
+CREATE POLICY "Users can view their join requests"
+  ON versus_join_requests FOR SELECT
+  USING (
+    player_id = auth.uid()
+    OR is_user_commissioner(versus_id)
+  );
+
+DROP POLICY IF EXISTS "Commissioners can decide join requests" ON versus_join_requests;
+CREATE POLICY "Commissioners can decide join requests"
+  ON versus_join_requests FOR UPDATE
+  USING (is_user_commissioner(versus_id));
+
+-- ============================================================================
+-- STEP 4: Preview a code
+-- ============================================================================
+
+-- Returns nothing for unknown codes. status is 'active', 'revoked',
+-- 'expired' or 'used_up'; membership tells the page what to show.
+CREATE OR REPLACE FUNCTION get_join_code_preview(p_code TEXT)
+RETURNS TABLE (
+  versus_id UUID,
+  versus_name TEXT,
+  player_count BIGINT,
+  requires_approval BOOLEAN,
+  status TEXT,
+  is_member BOOLEAN,
+  has_pending_request BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.id,
+    v.name,
+    (SELECT COUNT(*) FROM versus_players vp WHERE vp.versus_id = v.id),
+    c.requires_approval,
+    CASE
+      WHEN c.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN c.expires_at IS NOT NULL AND c.expires_at <= NOW() THEN 'expired'
+      WHEN c.max_uses IS NOT NULL AND c.use_count >= c.max_uses THEN 'used_up'
+      ELSE 'active'
+    END,
+    EXISTS (
+      SELECT 1 FROM versus_players vp
+      WHERE vp.versus_id = v.id AND vp.player_id = auth.uid()
+    ),
+    EXISTS (
+      SELECT 1 FROM versus_join_requests r
+      WHERE r.versus_id = v.id AND r.player_id = auth.uid() AND r.status = 'pending'
+    )
+  FROM versus_join_codes c
+  JOIN versus v ON v.id = c.versus_id
+  WHERE c.code = upper(p_code);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_join_code_preview(TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 5: Join with a code
+-- ============================================================================
+
+-- Returns the versus id and what happened:
+--   'joined'    - added to the roster
+--   'requested' - waiting for a commissioner (requires_approval codes)
+--   'member'    - already in the versus (the code isn't used up)
+-- Pending invitations count toward the 12-player limit, as in the app.
+CREATE OR REPLACE FUNCTION join_versus_with_code(p_code TEXT)
+RETURNS TABLE (versus_id UUID, result TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_code versus_join_codes;
+  v_slots_used BIGINT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_code FROM versus_join_codes WHERE code = upper(p_code) FOR UPDATE;
+
+  IF NOT FOUND OR v_code.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This join link is not valid';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM versus_players vp
+    WHERE vp.versus_id = v_code.versus_id AND vp.player_id = v_user_id
+  ) THEN
+    RETURN QUERY SELECT v_code.versus_id, 'member'::TEXT;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM versus_join_requests r
+    WHERE r.versus_id = v_code.versus_id AND r.player_id = v_user_id AND r.status = 'pending'
+  ) THEN
+    RETURN QUERY SELECT v_code.versus_id, 'requested'::TEXT;
+    RETURN;
+  END IF;
+
+  IF v_code.expires_at IS NOT NULL AND v_code.expires_at <= NOW() THEN
+    RAISE EXCEPTION 'This join link has expired';
+  END IF;
+
+  IF v_code.max_uses IS NOT NULL AND v_code.use_count >= v_code.max_uses THEN
+    RAISE EXCEPTION 'This join link has been used the maximum number of times';
+  END IF;
+
+  UPDATE versus_join_codes SET use_count = use_count + 1 WHERE id = v_code.id;
+
+  IF v_code.requires_approval THEN
+    INSERT INTO versus_join_requests (versus_id, player_id, join_code_id)
+    VALUES (v_code.versus_id, v_user_id, v_code.id);
+
+    RETURN QUERY SELECT v_code.versus_id, 'requested'::TEXT;
+    RETURN;
+  END IF;
+
+  SELECT
+    (SELECT COUNT(*) FROM versus_players vp WHERE vp.versus_id = v_code.versus_id)
+    + (SELECT COUNT(*) FROM versus_invitations i WHERE i.versus_id = v_code.versus_id AND i.status = 'pending')
+  INTO v_slots_used;
+
+  IF v_slots_used >= 12 THEN
+    RAISE EXCEPTION 'This Versus is full';
+  END IF;
+
+  PERFORM set_audit_reason('Joined with a join link');
+
+  INSERT INTO versus_players (versus_id, player_id, is_commissioner)
+  VALUES (v_code.versus_id, v_user_id, false);
+
+  RETURN QUERY SELECT v_code.versus_id, 'joined'::TEXT;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION join_versus_with_code(TEXT) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT table_name, column_name, data_type
+FROM information_schema.columns
+WHERE table_name IN ('versus_join_codes', 'versus_join_requests')
+ORDER BY table_name, ordinal_position;
+
+SELECT tablename, policyname, cmd
+FROM pg_policies
+WHERE tablename IN ('versus_join_codes', 'versus_join_requests')
+ORDER BY tablename, policyname;
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+DROP FUNCTION IF EXISTS join_versus_with_code(TEXT);
+DROP FUNCTION IF EXISTS get_join_code_preview(TEXT);
+DROP TABLE IF EXISTS versus_join_requests;
+DROP TABLE IF EXISTS versus_join_codes;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-18-versus-join-codes completed successfully!';
+    RAISE NOTICE 'Commissioners can share /join/<code> links';
+    RAISE NOTICE 'Codes can expire, have a max number of uses, and require approval';
+END $$;
@@ -0,0 +1,664 @@
+-- ============================================================================
+-- Migration: Versus Player Roles
+-- Date: 2025-12-19
+-- Description: Viewer, participant and commissioner roles for versus members
+-- ============================================================================
+
+-- This migration adds:
+-- 1. role column to versus_players and versus_invitations, kept in sync with
+--    is_commissioner by a trigger
+-- 2. is_user_participant() helper for RLS and functions
+-- 3. player_scores / player_round_rankings rebuilt without viewers (so
+--    player_rankings, player_round_wins and final standings skip them too)
+-- 4. Completion insert policies and a trigger that keep viewers from scoring
+-- 5. Dispute functions that keep viewers out of disputes, votes and quorums
+-- 6. Viewers can't be on a team
+-- 7. accept_versus_invitations() joins with the invitation's role
+-- 8. add_players_to_versus() accepts a role per player, and only lets
+--    commissioners add players (up to the 12-player limit)
+-- 9. The audit log records role changes (instead of is_commissioner)
+--
+-- role:
+--   viewer       - sees the scoreboard and history, but doesn't play
+--   participant  - plays (the default)
+--   commissioner - plays and manages the versus
+--
+-- is_commissioner stays, since most policies check it through
+-- is_user_commissioner(). Writing either column updates the other: a role
+-- change wins, otherwise is_commissioner = true means 'commissioner'.
+
+-- ============================================================================
+-- STEP 1: Add role columns
+-- ============================================================================
+
+ALTER TABLE versus_players ADD COLUMN IF NOT EXISTS role TEXT DEFAULT 'participant' NOT NULL;
+
+ALTER TABLE versus_players DROP CONSTRAINT IF EXISTS versus_players_role_check;
+ALTER TABLE versus_players ADD CONSTRAINT versus_players_role_check CHECK (
+  role IN ('viewer', 'participant', 'commissioner')
+);
+
+UPDATE versus_players SET role = 'commissioner' WHERE is_commissioner AND role <> 'commissioner';
+
+COMMENT ON COLUMN versus_players.role IS 'viewer (watches only), participant or commissioner. Kept in sync with is_commissioner.';
+
+ALTER TABLE versus_invitations ADD COLUMN IF NOT EXISTS role TEXT DEFAULT 'participant' NOT NULL;
+
+ALTER TABLE versus_invitations DROP CONSTRAINT IF EXISTS versus_invitations_role_check;
+ALTER TABLE versus_invitations ADD CONSTRAINT versus_invitations_role_check CHECK (
+  role IN ('viewer', 'participant', 'commissioner')
+);
+
+UPDATE versus_invitations SET role = 'commissioner' WHERE is_commissioner AND role <> 'commissioner';
+
+COMMENT ON COLUMN versus_invitations.role IS 'Role the person gets when they accept. Kept in sync with is_commissioner.';
+
+-- ============================================================================
+-- STEP 2: Keep role and is_commissioner in sync
+-- ============================================================================
+
+-- Shared by versus_players and versus_invitations
+CREATE OR REPLACE FUNCTION sync_versus_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.is_commissioner THEN
+      NEW.role := 'commissioner';
+    END IF;
+  ELSIF NEW.role IS DISTINCT FROM OLD.role THEN
+    NULL; -- The role was set explicitly, is_commissioner follows below
+  ELSIF NEW.is_commissioner IS DISTINCT FROM OLD.is_commissioner THEN
+    NEW.role := CASE WHEN NEW.is_commissioner THEN 'commissioner' ELSE 'participant' END;
+  END IF;
+
+  NEW.is_commissioner := NEW.role = 'commissioner';
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_versus_player_role ON versus_players;
+CREATE TRIGGER sync_versus_player_role BEFORE INSERT OR UPDATE OF role, is_commissioner ON versus_players
+    FOR EACH ROW EXECUTE FUNCTION sync_versus_role();
+
+DROP TRIGGER IF EXISTS sync_versus_invitation_role ON versus_invitations;
+CREATE TRIGGER sync_versus_invitation_role BEFORE INSERT OR UPDATE OF role, is_commissioner ON versus_invitations
+    FOR EACH ROW EXECUTE FUNCTION sync_versus_role();
+
+-- ============================================================================
+-- STEP 3: Role helper
+-- ============================================================================
+
+-- True if the signed-in user plays in the versus (participant or commissioner)
+CREATE OR REPLACE FUNCTION is_user_participant(versus_uuid UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1 FROM versus_players
+    WHERE versus_id = versus_uuid
+    AND player_id = auth.uid()
+    AND role <> 'viewer'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ============================================================================
+-- STEP 4: Leave viewers out of the score views
+-- ============================================================================
+
+-- Same as 2025-12-07, plus the role filter. player_rankings and
+-- player_round_wins are built on these, so they follow.
+CREATE OR REPLACE VIEW player_scores
+WITH (security_invoker = true)
+AS
+SELECT
+  vp.versus_id,
+  vp.player_id,
+  COALESCE(SUM(cp.points), 0) AS total_score
+FROM versus_players vp
+LEFT JOIN completion_points cp ON cp.versus_id = vp.versus_id AND cp.player_id = vp.player_id
+WHERE vp.role <> 'viewer'
+GROUP BY vp.versus_id, vp.player_id;
+
+CREATE OR REPLACE VIEW player_round_rankings
+WITH (security_invoker = true)
+AS
+WITH rounds AS (
+  SELECT DISTINCT
+    c.versus_id,
+    date_trunc(
+      CASE v.round_period
+        WHEN 'daily' THEN 'day'
+        WHEN 'weekly' THEN 'week'
+        ELSE 'month'
+      END,
+      c.completed_at AT TIME ZONE 'UTC'
+    ) AT TIME ZONE 'UTC' AS round_start
+  FROM completions c
+  JOIN versus v ON v.id = c.versus_id
+  WHERE v.round_period <> 'none'
+),
+round_scores AS (
+  SELECT
+    r.versus_id,
+    r.round_start,
+    vp.player_id,
+    COALESCE(SUM(cp.points), 0) AS total_score
+  FROM rounds r
+  JOIN versus v ON v.id = r.versus_id
+  JOIN versus_players vp ON vp.versus_id = r.versus_id AND vp.role <> 'viewer'
+  LEFT JOIN completion_points cp
+    ON cp.versus_id = r.versus_id
+    AND cp.player_id = vp.player_id
+    AND cp.completed_at >= r.round_start
+    AND cp.completed_at < r.round_start + CASE v.round_period
+      WHEN 'daily' THEN INTERVAL '1 day'
+      WHEN 'weekly' THEN INTERVAL '1 week'
+      ELSE INTERVAL '1 month'
+    END
+  GROUP BY r.versus_id, r.round_start, vp.player_id
+)
+SELECT
+  rs.versus_id,
+  rs.round_start,
+  rs.player_id,
+  rs.total_score,
+  CASE
+    WHEN v.reverse_ranking THEN
+      RANK() OVER (PARTITION BY rs.versus_id, rs.round_start ORDER BY rs.total_score ASC)
+    ELSE
+      RANK() OVER (PARTITION BY rs.versus_id, rs.round_start ORDER BY rs.total_score DESC)
+  END AS rank,
+  COUNT(*) OVER (PARTITION BY rs.versus_id, rs.round_start) AS total_players
+FROM round_scores rs
+JOIN versus v ON v.id = rs.versus_id;
+
+-- ============================================================================
+-- STEP 5: Viewers can't score
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can create their own completions" ON completions;
+CREATE POLICY "Users can create their own completions"
+  ON completions FOR INSERT
+  WITH CHECK (
+    auth.uid() = player_id
+    AND is_user_participant(versus_id)
+  );
+
+DROP POLICY IF EXISTS "Commissioners can log completions for their players" ON completions;
+CREATE POLICY "Commissioners can log completions for their players"
+  ON completions FOR INSERT
+  WITH CHECK (
+    is_user_commissioner(versus_id)
+    AND EXISTS (
+      SELECT 1 FROM versus_players vp
+      WHERE vp.versus_id = completions.versus_id
+      AND vp.player_id = completions.player_id
+      AND vp.role <> 'viewer'
+    )
+  );
+
+-- claim_objective() runs as the table owner and skips the policies above
+CREATE OR REPLACE FUNCTION check_completion_player_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM versus_players
+    WHERE versus_id = NEW.versus_id
+    AND player_id = NEW.player_id
+    AND role = 'viewer'
+  ) THEN
+    RAISE EXCEPTION '%', CASE WHEN NEW.player_id = auth.uid()
+      THEN 'Viewers can''t log completions'
+      ELSE 'That player is only a viewer in this versus'
+    END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_completion_player_role ON completions;
+CREATE TRIGGER check_completion_player_role BEFORE INSERT ON completions
+    FOR EACH ROW EXECUTE FUNCTION check_completion_player_role();
+
+-- ============================================================================
+-- STEP 6: Viewers aren't on teams
+-- ============================================================================
+
+-- Replaces the 2025-12-09 version. Demoting a player to viewer takes them
+-- off their team.
+CREATE OR REPLACE FUNCTION check_versus_player_team()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.role = 'viewer' THEN
+    NEW.team_id := NULL;
+  END IF;
+
+  IF NEW.team_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM versus_teams
+    WHERE id = NEW.team_id
+    AND versus_id = NEW.versus_id
+  ) THEN
+    RAISE EXCEPTION 'Team does not belong to this versus';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_versus_player_team ON versus_players;
+CREATE TRIGGER check_versus_player_team BEFORE INSERT OR UPDATE OF team_id, role ON versus_players
+    FOR EACH ROW EXECUTE FUNCTION check_versus_player_team();
+
+UPDATE versus_players SET team_id = NULL WHERE role = 'viewer' AND team_id IS NOT NULL;
+
+-- ============================================================================
+-- STEP 7: Keep viewers out of disputes
+-- ============================================================================
+
+-- Same as 2025-12-13, but only players count toward "everyone has voted"
+CREATE OR REPLACE FUNCTION resolve_completion_dispute(p_dispute_id UUID)
+RETURNS completion_disputes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute completion_disputes;
+  v_keep INTEGER;
+  v_void INTEGER;
+  v_players INTEGER;
+BEGIN
+  SELECT * INTO v_dispute
+  FROM completion_disputes
+  WHERE id = p_dispute_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_dispute.status <> 'open' THEN
+    RETURN v_dispute;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE vote = 'keep'),
+    COUNT(*) FILTER (WHERE vote = 'void')
+  INTO v_keep, v_void
+  FROM dispute_votes
+  WHERE dispute_id = p_dispute_id;
+
+  SELECT COUNT(*) INTO v_players
+  FROM versus_players
+  WHERE versus_id = v_dispute.versus_id
+  AND role <> 'viewer';
+
+  IF NOW() < v_dispute.deadline_at AND v_keep + v_void < v_players THEN
+    RETURN v_dispute;
+  END IF;
+
+  IF v_keep + v_void >= v_dispute.quorum AND v_void > v_keep THEN
+    -- Voiding frees a claim slot, like a rejection
+    UPDATE completions
+    SET status = 'voided', claim_rank = NULL
+    WHERE id = v_dispute.completion_id;
+
+    v_dispute.status := 'voided';
+  ELSE
+    v_dispute.status := 'upheld';
+  END IF;
+
+  UPDATE completion_disputes
+  SET status = v_dispute.status, resolved_at = NOW()
+  WHERE id = p_dispute_id
+  RETURNING * INTO v_dispute;
+
+  RETURN v_dispute;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resolve_completion_dispute(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Same as 2025-12-13, but viewers can't open disputes and don't count
+-- toward the quorum
+CREATE OR REPLACE FUNCTION open_completion_dispute(
+  p_completion_id UUID,
+  p_reason TEXT
+)
+RETURNS completion_disputes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_completion completions;
+  v_versus versus;
+  v_players INTEGER;
+  v_dispute completion_disputes;
+BEGIN
+  SELECT * INTO v_completion
+  FROM completions
+  WHERE id = p_completion_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Completion not found';
+  END IF;
+
+  IF NOT is_user_in_versus(v_completion.versus_id) THEN
+    RAISE EXCEPTION 'You don''t have access to this versus';
+  END IF;
+
+  IF NOT is_user_participant(v_completion.versus_id) THEN
+    RAISE EXCEPTION 'Viewers can''t dispute completions';
+  END IF;
+
+  IF v_completion.player_id = auth.uid() THEN
+    RAISE EXCEPTION 'You can''t dispute your own completion';
+  END IF;
+
+  IF v_completion.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved completions can be disputed';
+  END IF;
+
+  IF char_length(trim(COALESCE(p_reason, ''))) = 0 THEN
+    RAISE EXCEPTION 'A reason is required to dispute a completion';
+  END IF;
+
+  SELECT * INTO v_versus FROM versus WHERE id = v_completion.versus_id;
+
+  IF v_versus.finalized_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Final standings are locked for this Versus';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM completion_disputes WHERE completion_id = p_completion_id) THEN
+    RAISE EXCEPTION 'This completion has already been disputed';
+  END IF;
+
+  SELECT COUNT(*) INTO v_players
+  FROM versus_players
+  WHERE versus_id = v_completion.versus_id
+  AND role <> 'viewer';
+
+  INSERT INTO completion_disputes (versus_id, completion_id, opened_by, reason, quorum, deadline_at)
+  VALUES (
+    v_completion.versus_id,
+    p_completion_id,
+    auth.uid(),
+    trim(p_reason),
+    GREATEST(1, CEIL(v_players * v_versus.dispute_quorum_percent / 100.0)::INTEGER),
+    NOW() + make_interval(hours => v_versus.dispute_window_hours)
+  )
+  RETURNING * INTO v_dispute;
+
+  INSERT INTO dispute_votes (dispute_id, voter_id, vote)
+  VALUES (v_dispute.id, auth.uid(), 'void');
+
+  RETURN resolve_completion_dispute(v_dispute.id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION open_completion_dispute(UUID, TEXT) TO authenticated;
+
+-- Same as 2025-12-13, but viewers can't vote
+CREATE OR REPLACE FUNCTION cast_dispute_vote(
+  p_dispute_id UUID,
+  p_vote TEXT,
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS completion_disputes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_dispute completion_disputes;
+BEGIN
+  SELECT * INTO v_dispute
+  FROM completion_disputes
+  WHERE id = p_dispute_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Dispute not found';
+  END IF;
+
+  IF NOT is_user_in_versus(v_dispute.versus_id) THEN
+    RAISE EXCEPTION 'You don''t have access to this versus';
+  END IF;
+
+  IF NOT is_user_participant(v_dispute.versus_id) THEN
+    RAISE EXCEPTION 'Viewers can''t vote on disputes';
+  END IF;
+
+  IF v_dispute.status <> 'open' OR NOW() >= v_dispute.deadline_at THEN
+    RAISE EXCEPTION 'Voting on this dispute has closed';
+  END IF;
+
+  IF p_vote NOT IN ('keep', 'void') THEN
+    RAISE EXCEPTION 'Vote must be keep or void';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM dispute_votes
+    WHERE dispute_id = p_dispute_id
+    AND voter_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You''ve already voted on this dispute';
+  END IF;
+
+  INSERT INTO dispute_votes (dispute_id, voter_id, vote, comment)
+  VALUES (p_dispute_id, auth.uid(), p_vote, NULLIF(trim(p_comment), ''));
+
+  RETURN resolve_completion_dispute(p_dispute_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION cast_dispute_vote(UUID, TEXT, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 8: Join with the invitation's role
+-- ============================================================================
+
+-- Same as 2025-12-17, with role instead of is_commissioner
+CREATE OR REPLACE FUNCTION accept_versus_invitations(p_token TEXT DEFAULT NULL)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_email TEXT;
+  v_invitation versus_invitations;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT lower(email) INTO v_email FROM players WHERE id = v_user_id;
+
+  FOR v_invitation IN
+    SELECT * FROM versus_invitations
+    WHERE status = 'pending'
+      AND (email = v_email OR (p_token IS NOT NULL AND token = p_token))
+    FOR UPDATE
+  LOOP
+    PERFORM set_audit_reason('Accepted an email invitation');
+
+    INSERT INTO versus_players (versus_id, player_id, nickname, role)
+    VALUES (v_invitation.versus_id, v_user_id, v_invitation.nickname, v_invitation.role)
+    ON CONFLICT (versus_id, player_id) DO NOTHING;
+
+    UPDATE versus_invitations
+    SET status = 'accepted', accepted_by = v_user_id, accepted_at = NOW()
+    WHERE id = v_invitation.id;
+
+    RETURN NEXT v_invitation.versus_id;
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_versus_invitations(TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 9: Add players with a role
+-- ============================================================================
+
+-- Same as 2025-12-02, plus an optional role per player. Players without one
+-- fall back to is_commissioner, as before.
+--
+-- Only commissioners can add players (or the creator, while the wizard adds
+-- the first members), and the versus stays within 12 players counting
+-- pending invitations - MAX_VERSUS_PLAYERS in lib/invitation-utils.ts.
+CREATE OR REPLACE FUNCTION add_players_to_versus(
+  p_versus_id UUID,
+  p_players JSONB  -- Array of: [{player_id, role, nickname}, ...]
+)
+RETURNS SETOF versus_players
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  player_record JSONB;
+  inserted_player versus_players;
+  v_role TEXT;
+  v_created_by UUID;
+  v_player_count INTEGER;
+BEGIN
+  -- Lock the versus so concurrent calls can't both pass the player limit
+  SELECT created_by INTO v_created_by
+  FROM versus
+  WHERE id = p_versus_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Versus does not exist';
+  END IF;
+
+  IF v_created_by IS DISTINCT FROM auth.uid() AND NOT is_user_commissioner(p_versus_id) THEN
+    RAISE EXCEPTION 'Only commissioners can add players';
+  END IF;
+
+  SELECT
+    (SELECT COUNT(*) FROM versus_players WHERE versus_id = p_versus_id)
+    + (SELECT COUNT(*) FROM versus_invitations WHERE versus_id = p_versus_id AND status = 'pending')
+    + jsonb_array_length(p_players)
+  INTO v_player_count;
+
+  IF v_player_count > 12 THEN
+    RAISE EXCEPTION 'A Versus can have at most 12 players, including pending invitations';
+  END IF;
+
+  -- Insert each player
+  FOR player_record IN SELECT * FROM jsonb_array_elements(p_players)
+  LOOP
+    v_role := COALESCE(
+      player_record->>'role',
+      CASE WHEN (player_record->>'is_commissioner')::BOOLEAN THEN 'commissioner' ELSE 'participant' END
+    );
+
+    INSERT INTO versus_players (versus_id, player_id, role, is_commissioner, nickname)
+    VALUES (
+      p_versus_id,
+      (player_record->>'player_id')::UUID,
+      v_role,
+      v_role = 'commissioner',
+      player_record->>'nickname'
+    )
+    RETURNING * INTO inserted_player;
+
+    RETURN NEXT inserted_player;
+  END LOOP;
+
+  RETURN;
+END;
+$$;
+
+-- 2025-12-02 also granted this to anon; adding players needs a signed-in commissioner
+REVOKE EXECUTE ON FUNCTION add_players_to_versus(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION add_players_to_versus(UUID, JSONB) TO authenticated;
+
+-- ============================================================================
+-- STEP 10: Audit roles
+-- ============================================================================
+
+-- Same triggers as 2025-12-16 and 2025-12-17, logging role instead of
+-- is_commissioner
+DROP TRIGGER IF EXISTS audit_versus_player_changes ON versus_players;
+CREATE TRIGGER audit_versus_player_changes AFTER INSERT OR UPDATE OR DELETE ON versus_players
+    FOR EACH ROW EXECUTE FUNCTION audit_versus_player_change('nickname', 'role');
+
+DROP TRIGGER IF EXISTS audit_versus_invitation_changes ON versus_invitations;
+CREATE TRIGGER audit_versus_invitation_changes AFTER INSERT OR UPDATE OF status ON versus_invitations
+    FOR EACH ROW EXECUTE FUNCTION audit_versus_invitation_change('email', 'nickname', 'role');
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT table_name, column_name, data_type, column_default
+FROM information_schema.columns
+WHERE column_name = 'role'
+AND table_name IN ('versus_players', 'versus_invitations');
+
+-- Should return no rows: role and is_commissioner disagree
+SELECT versus_id, player_id, role, is_commissioner
+FROM versus_players
+WHERE is_commissioner <> (role = 'commissioner');
+
+-- Members per role
+SELECT versus_id, role, COUNT(*)
+FROM versus_players
+GROUP BY versus_id, role
+ORDER BY versus_id, role;
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+-- Re-run the views from 2025-12-07-claim-objectives.sql (STEP 5), the team
+-- trigger from 2025-12-09-team-mode.sql (STEP 2), the dispute functions from
+-- 2025-12-13-completion-disputes.sql (STEP 5) and accept_versus_invitations()
+-- from 2025-12-17-versus-invitations.sql (STEP 3), add_players_to_versus()
+-- from 2025-12-02-all-rls-workarounds.sql and the audit triggers from
+-- 2025-12-16-versus-audit-log.sql and 2025-12-17-versus-invitations.sql, then:
+DROP TRIGGER IF EXISTS check_completion_player_role ON completions;
+DROP FUNCTION IF EXISTS check_completion_player_role();
+
+DROP POLICY IF EXISTS "Users can create their own completions" ON completions;
+CREATE POLICY "Users can create their own completions"
+  ON completions FOR INSERT
+  WITH CHECK (
+    auth.uid() = player_id
+    AND is_user_in_versus(versus_id)
+  );
+-- Re-run 2025-12-14-commissioner-logging.sql (STEP 3) for the commissioner policy
+
+DROP TRIGGER IF EXISTS sync_versus_player_role ON versus_players;
+DROP TRIGGER IF EXISTS sync_versus_invitation_role ON versus_invitations;
+DROP FUNCTION IF EXISTS sync_versus_role();
+DROP FUNCTION IF EXISTS is_user_participant(UUID);
+
+ALTER TABLE versus_invitations DROP CONSTRAINT IF EXISTS versus_invitations_role_check;
+ALTER TABLE versus_invitations DROP COLUMN IF EXISTS role;
+ALTER TABLE versus_players DROP CONSTRAINT IF EXISTS versus_players_role_check;
+ALTER TABLE versus_players DROP COLUMN IF EXISTS role;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-19-versus-player-roles completed successfully!';
+    RAISE NOTICE 'versus_players.role: viewer, participant or commissioner';
+    RAISE NOTICE 'Viewers see the scoreboard but are left out of rankings, scoring and disputes';
+END $$;
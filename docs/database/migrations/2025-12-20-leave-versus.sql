@@ -0,0 +1,278 @@
+-- ============================================================================
+-- Migration: Leave Versus and Commissioner Handoff
+-- Date: 2025-12-20
+-- Description: Players leave a versus themselves; commissioners hand it off
+-- ============================================================================
+
+-- This migration adds:
+-- 1. hand_off_versus() - internal helper that makes a member a commissioner
+--    and, if the previous commissioner created the versus, its owner
+-- 2. transfer_versus_commissioner() - a commissioner hands the versus to
+--    another member, optionally stepping down to participant
+-- 3. leave_versus() - removes the signed-in user from a versus, keeping or
+--    purging their completions
+--
+-- A versus always keeps at least one commissioner: the last commissioner
+-- can only leave by naming a successor. The owner (versus.created_by) moves
+-- with the handoff, so the creator row on the players page follows. An owner
+-- who isn't a commissioner hands off too, so created_by always points at a
+-- member (deleting their account later depends on it).
+--
+-- Purged completions are recorded in completion_removals (like a
+-- commissioner removal) so the history explains where they went. Kept
+-- completions stay in the history, but the player no longer appears on the
+-- scoreboard.
+
+-- ============================================================================
+-- STEP 1: Hand-off helper
+-- ============================================================================
+
+-- Internal helper for leave_versus(), transfer_versus_commissioner() and
+-- delete_my_account(). Only the signed-in commissioner or owner can hand
+-- off their own versus, even if it is reached some other way.
+CREATE OR REPLACE FUNCTION hand_off_versus(
+  p_versus_id UUID,
+  p_from_id UUID,
+  p_to_id UUID
+)
+RETURNS versus_players
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member versus_players;
+BEGIN
+  IF p_from_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'You can only hand off your own versus';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM versus_players
+    WHERE versus_id = p_versus_id
+    AND player_id = p_from_id
+    AND role = 'commissioner'
+  ) AND NOT EXISTS (
+    SELECT 1 FROM versus
+    WHERE id = p_versus_id
+    AND created_by = p_from_id
+  ) THEN
+    RAISE EXCEPTION 'Only commissioners can hand off a versus';
+  END IF;
+
+  IF p_to_id = p_from_id THEN
+    RAISE EXCEPTION 'Choose someone else to hand the versus to';
+  END IF;
+
+  SELECT * INTO v_member
+  FROM versus_players
+  WHERE versus_id = p_versus_id
+  AND player_id = p_to_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'That player isn''t in this versus';
+  END IF;
+
+  IF v_member.role <> 'commissioner' THEN
+    PERFORM set_audit_reason('Commissioner handoff');
+
+    UPDATE versus_players
+    SET role = 'commissioner'
+    WHERE id = v_member.id
+    RETURNING * INTO v_member;
+  END IF;
+
+  UPDATE versus
+  SET created_by = p_to_id
+  WHERE id = p_versus_id
+  AND created_by = p_from_id;
+
+  RETURN v_member;
+END;
+$$;
+
+-- Supabase grants new functions to anon and authenticated directly, so
+-- revoking from PUBLIC alone leaves it callable through the API
+REVOKE EXECUTE ON FUNCTION hand_off_versus(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- STEP 2: Transfer commissioner
+-- ============================================================================
+
+-- Makes p_new_commissioner_id a commissioner (and owner, if the caller owns
+-- the versus). With p_step_down the caller becomes a participant.
+CREATE OR REPLACE FUNCTION transfer_versus_commissioner(
+  p_versus_id UUID,
+  p_new_commissioner_id UUID,
+  p_step_down BOOLEAN DEFAULT true
+)
+RETURNS versus_players
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_member versus_players;
+BEGIN
+  IF NOT is_user_commissioner(p_versus_id) THEN
+    RAISE EXCEPTION 'Only commissioners can hand off a versus';
+  END IF;
+
+  v_member := hand_off_versus(p_versus_id, v_user_id, p_new_commissioner_id);
+
+  IF p_step_down THEN
+    PERFORM set_audit_reason('Stepped down as commissioner');
+
+    UPDATE versus_players
+    SET role = 'participant'
+    WHERE versus_id = p_versus_id
+    AND player_id = v_user_id;
+  END IF;
+
+  RETURN v_member;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transfer_versus_commissioner(UUID, UUID, BOOLEAN) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: Leave a versus
+-- ============================================================================
+
+-- Removes the caller from the versus. The last commissioner must name a
+-- successor (p_successor_id); a leaving owner passes ownership on the same
+-- way. Returns the number of completions purged.
+CREATE OR REPLACE FUNCTION leave_versus(
+  p_versus_id UUID,
+  p_purge_completions BOOLEAN DEFAULT false,
+  p_successor_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_member versus_players;
+  v_successor_id UUID := p_successor_id;
+  v_is_owner BOOLEAN;
+  v_purged INTEGER := 0;
+BEGIN
+  SELECT * INTO v_member
+  FROM versus_players
+  WHERE versus_id = p_versus_id
+  AND player_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You aren''t in this versus';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM versus_players
+    WHERE versus_id = p_versus_id
+    AND player_id <> v_user_id
+  ) THEN
+    RAISE EXCEPTION 'You''re the only member of this versus';
+  END IF;
+
+  SELECT created_by = v_user_id INTO v_is_owner
+  FROM versus
+  WHERE id = p_versus_id;
+
+  IF v_member.role = 'commissioner' OR v_is_owner THEN
+    -- Without a named successor, ownership passes to the longest-serving
+    -- remaining commissioner (if there is one)
+    IF v_successor_id IS NULL THEN
+      SELECT player_id INTO v_successor_id
+      FROM versus_players
+      WHERE versus_id = p_versus_id
+      AND player_id <> v_user_id
+      AND role = 'commissioner'
+      ORDER BY joined_at
+      LIMIT 1;
+    END IF;
+
+    IF v_successor_id IS NULL THEN
+      RAISE EXCEPTION 'Choose a new commissioner before leaving';
+    END IF;
+
+    PERFORM hand_off_versus(p_versus_id, v_user_id, v_successor_id);
+  END IF;
+
+  IF p_purge_completions THEN
+    INSERT INTO completion_removals (versus_id, completion_id, player_id, objective_id, completed_at, removed_by, reason)
+    SELECT versus_id, id, player_id, objective_id, completed_at, v_user_id, 'Player left the Versus'
+    FROM completions
+    WHERE versus_id = p_versus_id
+    AND player_id = v_user_id;
+
+    DELETE FROM completions
+    WHERE versus_id = p_versus_id
+    AND player_id = v_user_id;
+
+    GET DIAGNOSTICS v_purged = ROW_COUNT;
+  END IF;
+
+  PERFORM set_audit_reason(
+    CASE WHEN p_purge_completions
+      THEN format('Left the Versus and removed %s completions', v_purged)
+      ELSE 'Left the Versus'
+    END
+  );
+
+  DELETE FROM versus_players WHERE id = v_member.id;
+
+  RETURN v_purged;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION leave_versus(UUID, BOOLEAN, UUID) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name IN ('hand_off_versus', 'transfer_versus_commissioner', 'leave_versus');
+
+-- Should return no rows: every versus has a commissioner
+SELECT v.id, v.name
+FROM versus v
+WHERE NOT EXISTS (
+  SELECT 1 FROM versus_players vp
+  WHERE vp.versus_id = v.id AND vp.role = 'commissioner'
+);
+
+-- Should return no rows: every owner is still a member
+SELECT v.id, v.name, v.created_by
+FROM versus v
+WHERE NOT EXISTS (
+  SELECT 1 FROM versus_players vp
+  WHERE vp.versus_id = v.id AND vp.player_id = v.created_by
+);
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+DROP FUNCTION IF EXISTS leave_versus(UUID, BOOLEAN, UUID);
+DROP FUNCTION IF EXISTS transfer_versus_commissioner(UUID, UUID, BOOLEAN);
+DROP FUNCTION IF EXISTS hand_off_versus(UUID, UUID, UUID);
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-20-leave-versus completed successfully!';
+    RAISE NOTICE 'Players can leave a versus with leave_versus()';
+    RAISE NOTICE 'Commissioners hand off with transfer_versus_commissioner()';
+END $$;
@@ -0,0 +1,231 @@
+-- ============================================================================
+-- Migration: Player Profiles and Career Stats
+-- Date: 2025-12-21
+-- Description: Avatars, display name limits and cross-Versus career stats
+-- ============================================================================
+
+-- This migration adds:
+-- 1. avatar_path column to players table, and a length check on display_name
+-- 2. Private 'avatars' storage bucket (players manage their own folder)
+-- 3. shares_versus_with() helper - is the caller this player, or in a
+--    versus with them?
+-- 4. get_player_career_stats() - career totals across all of a player's
+--    versus, for their profile
+--
+-- Career stats:
+--   wins / podiums  - from versus_final_standings (rank 1 / top 3), so only
+--                     finished seasons count
+--   completions     - approved completions in every versus
+--   favourites      - the three objectives they complete most
+--   active streaks  - consecutive days (UTC) with an approved completion,
+--                     ending today or yesterday, in versus still running.
+--                     Only versus the caller can see are listed.
+--
+-- Avatars are stored as "<player_id>/<uuid>.<ext>" and served through
+-- /api/avatars, which checks shares_versus_with() like the bucket policy.
+
+-- ============================================================================
+-- STEP 1: Profile columns
+-- ============================================================================
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS avatar_path TEXT;
+
+COMMENT ON COLUMN players.avatar_path IS 'Storage key of the avatar in the avatars bucket ("<player_id>/<uuid>.<ext>"). NULL = initials.';
+
+ALTER TABLE players DROP CONSTRAINT IF EXISTS players_display_name_check;
+ALTER TABLE players ADD CONSTRAINT players_display_name_check
+  CHECK (display_name IS NULL OR char_length(trim(display_name)) BETWEEN 1 AND 50)
+  NOT VALID;
+
+-- ============================================================================
+-- STEP 2: Shared versus helper
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION shares_versus_with(p_player_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN p_player_id = auth.uid() OR EXISTS (
+    SELECT 1
+    FROM versus_players mine
+    JOIN versus_players theirs ON theirs.versus_id = mine.versus_id
+    WHERE mine.player_id = auth.uid()
+    AND theirs.player_id = p_player_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION shares_versus_with(UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 3: Avatar storage bucket and policies
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'avatars',
+  'avatars',
+  FALSE,
+  2097152, -- 2 MB, same as AVATAR_MAX_BYTES in lib/avatar-utils.ts
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Players upload into and delete from their own folder
+DROP POLICY IF EXISTS "Players can upload their own avatar" ON storage.objects;
+CREATE POLICY "Players can upload their own avatar" ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+DROP POLICY IF EXISTS "Players can delete their own avatar" ON storage.objects;
+CREATE POLICY "Players can delete their own avatar" ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND (storage.foldername(name))[1] = auth.uid()::TEXT
+  );
+
+-- Anyone in a versus with the player can see their avatar
+DROP POLICY IF EXISTS "Players in a shared versus can view avatars" ON storage.objects;
+CREATE POLICY "Players in a shared versus can view avatars" ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'avatars'
+    AND shares_versus_with(((storage.foldername(name))[1])::UUID)
+  );
+
+-- ============================================================================
+-- STEP 4: Career stats
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_player_career_stats(p_player_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  IF NOT shares_versus_with(p_player_id) THEN
+    RAISE EXCEPTION 'You can only see players you share a versus with';
+  END IF;
+
+  WITH standings AS (
+    SELECT rank
+    FROM versus_final_standings
+    WHERE player_id = p_player_id
+  ),
+  approved AS (
+    SELECT c.versus_id, c.objective_id, c.completed_at
+    FROM completions c
+    WHERE c.player_id = p_player_id
+    AND c.status = 'approved'
+  ),
+  favourites AS (
+    SELECT o.title, COUNT(*) AS completions
+    FROM approved a
+    JOIN objectives o ON o.id = a.objective_id
+    GROUP BY o.title
+    ORDER BY COUNT(*) DESC, o.title
+    LIMIT 3
+  ),
+  days AS (
+    SELECT DISTINCT versus_id, (completed_at AT TIME ZONE 'UTC')::DATE AS day
+    FROM approved
+  ),
+  runs AS (
+    -- Consecutive days share the same (day - row number)
+    SELECT versus_id, MAX(day) AS last_day, COUNT(*) AS days
+    FROM (
+      SELECT versus_id, day,
+        day - (ROW_NUMBER() OVER (PARTITION BY versus_id ORDER BY day))::INTEGER AS run
+      FROM days
+    ) numbered
+    GROUP BY versus_id, run
+  ),
+  streaks AS (
+    SELECT v.id AS versus_id, v.name AS versus_name, r.days
+    FROM runs r
+    JOIN versus v ON v.id = r.versus_id
+    WHERE r.last_day >= (NOW() AT TIME ZONE 'UTC')::DATE - 1
+    AND r.days >= 2
+    AND v.finalized_at IS NULL
+    AND (v.ends_at IS NULL OR v.ends_at > NOW())
+    AND is_user_in_versus(v.id)
+    ORDER BY r.days DESC
+  )
+  SELECT jsonb_build_object(
+    'versus_count', (SELECT COUNT(*) FROM versus_players WHERE player_id = p_player_id),
+    'finished_count', (SELECT COUNT(*) FROM standings),
+    'wins', (SELECT COUNT(*) FROM standings WHERE rank = 1),
+    'podiums', (SELECT COUNT(*) FROM standings WHERE rank <= 3),
+    'total_completions', (SELECT COUNT(*) FROM approved),
+    'favourite_objectives', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('title', title, 'completions', completions)) FROM favourites),
+      '[]'::JSONB
+    ),
+    'active_streaks', COALESCE(
+      (SELECT jsonb_agg(jsonb_build_object('versus_id', versus_id, 'versus_name', versus_name, 'days', days)) FROM streaks),
+      '[]'::JSONB
+    )
+  ) INTO v_result;
+
+  RETURN v_result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_player_career_stats(UUID) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'players'
+AND column_name = 'avatar_path';
+
+SELECT id, public, file_size_limit FROM storage.buckets WHERE id = 'avatars';
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name IN ('shares_versus_with', 'get_player_career_stats');
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+DROP FUNCTION IF EXISTS get_player_career_stats(UUID);
+DROP POLICY IF EXISTS "Players in a shared versus can view avatars" ON storage.objects;
+DROP POLICY IF EXISTS "Players can delete their own avatar" ON storage.objects;
+DROP POLICY IF EXISTS "Players can upload their own avatar" ON storage.objects;
+-- Empty the bucket from the dashboard before deleting it
+DELETE FROM storage.buckets WHERE id = 'avatars';
+DROP FUNCTION IF EXISTS shares_versus_with(UUID);
+ALTER TABLE players DROP CONSTRAINT IF EXISTS players_display_name_check;
+ALTER TABLE players DROP COLUMN IF EXISTS avatar_path;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-21-player-profiles completed successfully!';
+    RAISE NOTICE 'Players can set an avatar (private avatars bucket)';
+    RAISE NOTICE 'Career stats are available from get_player_career_stats()';
+END $$;
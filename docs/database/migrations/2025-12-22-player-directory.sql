@@ -0,0 +1,204 @@
+-- ============================================================================
+-- Migration: Privacy-Safe Player Directory
+-- Date: 2025-12-22
+-- Description: Stop exposing every player; opt-in discoverability and search
+-- ============================================================================
+
+-- This migration adds:
+-- 1. discoverable column to players table (opt-in, off by default)
+-- 2. can_see_player() helper, and a players SELECT policy that uses it
+--    instead of "Players are viewable by everyone"
+-- 3. find_player_by_email() - exact (case-insensitive) email lookup, used to
+--    add people to a versus
+-- 4. search_players() - name search limited to people you play with, plus
+--    discoverable players
+--
+-- Who can see a player row (can_see_player()):
+--   - the player themselves
+--   - anyone in a versus with them (shares_versus_with(), 2025-12-21)
+--   - anyone in a versus where they have completions (so history still
+--     shows people who left)
+--   - commissioners of a versus they've asked to join
+--
+-- Everyone else is only reachable through the two functions, which return
+-- no more than needed: an exact email match, or a discoverable player's
+-- name and avatar (never their email). Search input is a bind parameter
+-- and LIKE wildcards in it are escaped, so "%" matches a literal "%".
+
+-- ============================================================================
+-- STEP 1: Add discoverable column
+-- ============================================================================
+
+ALTER TABLE players ADD COLUMN IF NOT EXISTS discoverable BOOLEAN DEFAULT FALSE NOT NULL;
+
+COMMENT ON COLUMN players.discoverable IS 'If true, anyone can find this player by name with search_players(). Email is never exposed.';
+
+-- ============================================================================
+-- STEP 2: Restrict who can read players
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION can_see_player(p_player_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN shares_versus_with(p_player_id)
+    OR EXISTS (
+      SELECT 1 FROM completions c
+      WHERE c.player_id = p_player_id
+      AND is_user_in_versus(c.versus_id)
+    )
+    OR EXISTS (
+      SELECT 1 FROM versus_join_requests r
+      WHERE r.player_id = p_player_id
+      AND r.status = 'pending'
+      AND is_user_commissioner(r.versus_id)
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION can_see_player(UUID) TO authenticated;
+
+DROP POLICY IF EXISTS "Players are viewable by everyone" ON players;
+DROP POLICY IF EXISTS "Players can view people they play with" ON players;
+CREATE POLICY "Players can view people they play with"
+  ON players FOR SELECT
+  TO authenticated
+  USING (can_see_player(id));
+
+-- ============================================================================
+-- STEP 3: Exact email lookup
+-- ============================================================================
+
+-- Returns the player with exactly this email (ignoring case), or no rows
+CREATE OR REPLACE FUNCTION find_player_by_email(p_email TEXT)
+RETURNS TABLE (id UUID, email TEXT, display_name TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.email, p.display_name
+  FROM players p
+  WHERE lower(p.email) = lower(trim(p_email))
+  LIMIT 1;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_player_by_email(TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 4: Player search
+-- ============================================================================
+
+-- People you can already see match on name or email; discoverable players
+-- match on name only and come back without an email. Queries shorter than
+-- 2 characters return nothing.
+CREATE OR REPLACE FUNCTION search_players(p_query TEXT)
+RETURNS TABLE (
+  id UUID,
+  display_name TEXT,
+  email TEXT,
+  avatar_path TEXT,
+  plays_with_you BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_query TEXT := trim(COALESCE(p_query, ''));
+  v_pattern TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF char_length(v_query) < 2 THEN
+    RETURN;
+  END IF;
+
+  v_pattern := '%' || replace(replace(replace(v_query, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  -- Match on name/email first (materialized, so the planner can't fold it
+  -- back in) and only run can_see_player() on those rows
+  RETURN QUERY
+  WITH candidates AS MATERIALIZED (
+    SELECT p.id, p.display_name, p.email, p.avatar_path, p.discoverable
+    FROM players p
+    WHERE p.id <> auth.uid()
+    AND (p.display_name ILIKE v_pattern OR p.email ILIKE v_pattern)
+  ),
+  checked AS (
+    SELECT c.*, can_see_player(c.id) AS known
+    FROM candidates c
+  )
+  SELECT
+    k.id,
+    k.display_name,
+    CASE WHEN k.known THEN k.email END,
+    k.avatar_path,
+    k.known
+  FROM checked k
+  WHERE k.known
+  OR (k.discoverable AND k.display_name ILIKE v_pattern)
+  ORDER BY k.known DESC, k.display_name
+  LIMIT 10;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_players(TEXT) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'players'
+AND column_name = 'discoverable';
+
+-- Should list only "Players can view people they play with" for SELECT
+SELECT policyname, cmd
+FROM pg_policies
+WHERE tablename = 'players';
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name IN ('can_see_player', 'find_player_by_email', 'search_players');
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+DROP FUNCTION IF EXISTS search_players(TEXT);
+DROP FUNCTION IF EXISTS find_player_by_email(TEXT);
+DROP POLICY IF EXISTS "Players can view people they play with" ON players;
+CREATE POLICY "Players are viewable by everyone"
+  ON players FOR SELECT
+  USING (true);
+DROP FUNCTION IF EXISTS can_see_player(UUID);
+ALTER TABLE players DROP COLUMN IF EXISTS discoverable;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-22-player-directory completed successfully!';
+    RAISE NOTICE 'Players are only visible to people they play with';
+    RAISE NOTICE 'Use find_player_by_email() and search_players() to find others';
+END $$;
@@ -0,0 +1,146 @@
+-- ============================================================================
+-- Migration: Account Deletion
+-- Date: 2025-12-23
+-- Description: Players delete their own account without taking games with them
+-- ============================================================================
+
+-- This migration adds:
+-- 1. versus.created_by no longer cascades: deleting a player who still owns
+--    a versus fails instead of deleting the whole game
+-- 2. delete_my_account() - hands off or deletes each versus the caller is
+--    responsible for, then deletes the caller's auth user (which cascades
+--    to players, memberships and completions)
+--
+-- What happens to each versus the caller is in:
+--   - Only member: the versus is deleted
+--   - Owner or last commissioner: it's handed to a successor (chosen in
+--     p_successors, else the longest-serving other commissioner) with
+--     hand_off_versus() from 2025-12-20. With no commissioner left to pick,
+--     the caller must choose one.
+--   - Otherwise: the caller just leaves
+--
+-- The caller's completions are deleted with their account, so other
+-- players' rankings can change. Every remaining versus gets an audit entry.
+-- Stored files (avatar, proof photos) are removed by the app.
+
+-- ============================================================================
+-- STEP 1: Stop created_by from cascading
+-- ============================================================================
+
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_created_by_fkey;
+ALTER TABLE versus ADD CONSTRAINT versus_created_by_fkey
+  FOREIGN KEY (created_by) REFERENCES players(id) ON DELETE RESTRICT;
+
+-- ============================================================================
+-- STEP 2: Delete my account
+-- ============================================================================
+
+-- p_successors maps versus id -> player id, e.g. {"<versus_id>": "<player_id>"}
+CREATE OR REPLACE FUNCTION delete_my_account(p_successors JSONB DEFAULT '{}'::JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_member RECORD;
+  v_successor_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR v_member IN
+    SELECT vp.*, v.name AS versus_name, v.created_by
+    FROM versus_players vp
+    JOIN versus v ON v.id = vp.versus_id
+    WHERE vp.player_id = v_user_id
+    FOR UPDATE OF vp
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM versus_players
+      WHERE versus_id = v_member.versus_id
+      AND player_id <> v_user_id
+    ) THEN
+      DELETE FROM versus WHERE id = v_member.versus_id;
+      CONTINUE;
+    END IF;
+
+    IF v_member.created_by = v_user_id
+      OR (
+        v_member.role = 'commissioner'
+        AND NOT EXISTS (
+          SELECT 1 FROM versus_players
+          WHERE versus_id = v_member.versus_id
+          AND player_id <> v_user_id
+          AND role = 'commissioner'
+        )
+      )
+    THEN
+      v_successor_id := NULLIF(p_successors->>v_member.versus_id::TEXT, '')::UUID;
+
+      IF v_successor_id IS NULL THEN
+        SELECT player_id INTO v_successor_id
+        FROM versus_players
+        WHERE versus_id = v_member.versus_id
+        AND player_id <> v_user_id
+        AND role = 'commissioner'
+        ORDER BY joined_at
+        LIMIT 1;
+      END IF;
+
+      IF v_successor_id IS NULL THEN
+        RAISE EXCEPTION 'Choose who takes over %', v_member.versus_name;
+      END IF;
+
+      PERFORM hand_off_versus(v_member.versus_id, v_user_id, v_successor_id);
+    END IF;
+
+    -- Removed here (not by the cascade below) so the audit entry still has
+    -- the player's name
+    PERFORM set_audit_reason('Deleted their account');
+    DELETE FROM versus_players WHERE id = v_member.id;
+  END LOOP;
+
+  -- Cascades to players, completions, votes and requests
+  DELETE FROM auth.users WHERE id = v_user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_my_account(JSONB) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+-- Should show confdeltype = 'r' (restrict)
+SELECT conname, confdeltype
+FROM pg_constraint
+WHERE conname = 'versus_created_by_fkey';
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name = 'delete_my_account';
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+DROP FUNCTION IF EXISTS delete_my_account(JSONB);
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_created_by_fkey;
+ALTER TABLE versus ADD CONSTRAINT versus_created_by_fkey
+  FOREIGN KEY (created_by) REFERENCES players(id) ON DELETE CASCADE;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-23-account-deletion completed successfully!';
+    RAISE NOTICE 'Deleting a player no longer deletes the versus they created';
+    RAISE NOTICE 'Players can delete their account with delete_my_account()';
+END $$;
@@ -0,0 +1,325 @@
+-- ============================================================================
+-- Migration: Versus Lifecycle
+-- Date: 2025-12-24
+-- Description: Active, finished and archived Versus, a declared winner, and deletion
+-- ============================================================================
+
+-- This migration adds:
+-- 1. status and winner_id columns to versus table
+-- 2. finalize_versus_standings() now marks the versus finished and fills in
+--    the winner when its season ends on its own
+-- 3. finish_versus() - a commissioner ends the versus now and declares the
+--    winner (defaults to the leader)
+-- 4. set_versus_archived() - a commissioner archives a finished versus, or
+--    restores it
+-- 5. delete_versus() - the owner deletes a versus, typing its name to confirm
+-- 6. The audit log records status and winner changes
+--
+-- Lifecycle:
+--   active   - being played
+--   finished - final standings frozen (versus_final_standings), no more
+--              completions. Finishing early moves ends_at to now, so the
+--              season window rules from 2025-12-04 apply unchanged.
+--   archived - a finished versus, hidden from the home page's Finished tab
+--
+-- The default winner is the only player ranked #1 in the final standings;
+-- with a tie there's no winner until a commissioner declares one.
+-- There's no DELETE policy on versus, so deleting goes through
+-- delete_versus(). Stored proof photos are removed by the app.
+
+-- ============================================================================
+-- STEP 1: Add lifecycle columns to versus table
+-- ============================================================================
+
+ALTER TABLE versus ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'active';
+ALTER TABLE versus ADD COLUMN IF NOT EXISTS winner_id UUID REFERENCES players(id) ON DELETE SET NULL;
+
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_status_check;
+ALTER TABLE versus ADD CONSTRAINT versus_status_check
+  CHECK (status IN ('active', 'finished', 'archived'));
+
+COMMENT ON COLUMN versus.status IS 'Lifecycle: active (being played), finished (final standings frozen) or archived (finished and put away).';
+COMMENT ON COLUMN versus.winner_id IS 'Declared winner once finished. NULL while active, or after a tie nobody has settled.';
+
+CREATE INDEX IF NOT EXISTS idx_versus_status ON versus(status);
+
+-- ============================================================================
+-- STEP 2: Finish on finalize
+-- ============================================================================
+
+-- Internal helper: the only player ranked #1 in the final standings, or
+-- NULL for a tie (or no standings).
+CREATE OR REPLACE FUNCTION versus_final_leader(p_versus_id UUID)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN COUNT(*) = 1 THEN MIN(player_id::TEXT)::UUID END
+  FROM versus_final_standings
+  WHERE versus_id = p_versus_id
+  AND rank = 1;
+$$;
+
+-- Same as 2025-12-04, plus the status and winner once the snapshot is taken
+CREATE OR REPLACE FUNCTION finalize_versus_standings(p_versus_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_ends_at TIMESTAMPTZ;
+  v_finalized_at TIMESTAMPTZ;
+BEGIN
+  IF NOT is_user_in_versus(p_versus_id) THEN
+    RAISE EXCEPTION 'You don''t have access to this versus';
+  END IF;
+
+  -- Lock the versus row so concurrent callers snapshot only once
+  SELECT ends_at, finalized_at INTO v_ends_at, v_finalized_at
+  FROM versus
+  WHERE id = p_versus_id
+  FOR UPDATE;
+
+  IF v_finalized_at IS NOT NULL THEN
+    RETURN TRUE;
+  END IF;
+
+  IF v_ends_at IS NULL OR v_ends_at > NOW() THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO versus_final_standings (versus_id, player_id, total_score, rank, total_players)
+  SELECT versus_id, player_id, total_score, rank, total_players
+  FROM player_rankings
+  WHERE versus_id = p_versus_id;
+
+  -- Unless the caller already explained it (finish_versus)
+  IF COALESCE(current_setting('versus_audit.reason', true), '') = '' THEN
+    PERFORM set_audit_reason('Season ended');
+  END IF;
+
+  UPDATE versus
+  SET
+    finalized_at = NOW(),
+    status = CASE WHEN status = 'active' THEN 'finished' ELSE status END,
+    winner_id = COALESCE(winner_id, versus_final_leader(p_versus_id))
+  WHERE id = p_versus_id;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Seasons that already ended
+UPDATE versus
+SET
+  status = 'finished',
+  winner_id = COALESCE(winner_id, versus_final_leader(id))
+WHERE finalized_at IS NOT NULL
+AND status = 'active';
+
+-- ============================================================================
+-- STEP 3: Finish a versus
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION finish_versus(
+  p_versus_id UUID,
+  p_winner_id UUID DEFAULT NULL
+)
+RETURNS versus
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_versus versus;
+BEGIN
+  IF NOT is_user_commissioner(p_versus_id) THEN
+    RAISE EXCEPTION 'Only commissioners can finish this versus';
+  END IF;
+
+  SELECT * INTO v_versus
+  FROM versus
+  WHERE id = p_versus_id
+  FOR UPDATE;
+
+  IF v_versus.status <> 'active' THEN
+    RAISE EXCEPTION 'This versus has already finished';
+  END IF;
+
+  IF v_versus.starts_at IS NOT NULL AND v_versus.starts_at > NOW() THEN
+    RAISE EXCEPTION 'This versus hasn''t started yet';
+  END IF;
+
+  IF p_winner_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM versus_players
+    WHERE versus_id = p_versus_id
+    AND player_id = p_winner_id
+    AND role <> 'viewer'
+  ) THEN
+    RAISE EXCEPTION 'The winner must be a player in this versus';
+  END IF;
+
+  PERFORM set_audit_reason('Finished the Versus');
+
+  -- End the season now, then freeze the standings as if it had ended on its own
+  UPDATE versus
+  SET ends_at = NOW()
+  WHERE id = p_versus_id
+  AND (ends_at IS NULL OR ends_at > NOW());
+
+  PERFORM finalize_versus_standings(p_versus_id);
+
+  UPDATE versus
+  SET
+    status = 'finished',
+    winner_id = COALESCE(p_winner_id, winner_id)
+  WHERE id = p_versus_id
+  RETURNING * INTO v_versus;
+
+  RETURN v_versus;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION finish_versus(UUID, UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 4: Archive / restore
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION set_versus_archived(
+  p_versus_id UUID,
+  p_archived BOOLEAN
+)
+RETURNS versus
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_versus versus;
+  v_status TEXT := CASE WHEN p_archived THEN 'archived' ELSE 'finished' END;
+BEGIN
+  IF NOT is_user_commissioner(p_versus_id) THEN
+    RAISE EXCEPTION 'Only commissioners can archive this versus';
+  END IF;
+
+  SELECT * INTO v_versus
+  FROM versus
+  WHERE id = p_versus_id
+  FOR UPDATE;
+
+  IF v_versus.status = v_status THEN
+    RETURN v_versus;
+  END IF;
+
+  IF p_archived AND v_versus.status <> 'finished' THEN
+    RAISE EXCEPTION 'Finish this versus before archiving it';
+  END IF;
+
+  UPDATE versus
+  SET status = v_status
+  WHERE id = p_versus_id
+  RETURNING * INTO v_versus;
+
+  RETURN v_versus;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_versus_archived(UUID, BOOLEAN) TO authenticated;
+
+-- ============================================================================
+-- STEP 5: Delete a versus
+-- ============================================================================
+
+-- p_confirm_name must match the versus name (case and outer spaces ignored)
+CREATE OR REPLACE FUNCTION delete_versus(
+  p_versus_id UUID,
+  p_confirm_name TEXT
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_versus versus;
+BEGIN
+  SELECT * INTO v_versus
+  FROM versus
+  WHERE id = p_versus_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_versus.created_by <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the owner can delete this versus';
+  END IF;
+
+  IF lower(trim(COALESCE(p_confirm_name, ''))) <> lower(trim(v_versus.name)) THEN
+    RAISE EXCEPTION 'Type the versus name to confirm';
+  END IF;
+
+  -- Cascades to memberships, objectives, completions, standings and the audit log
+  DELETE FROM versus WHERE id = p_versus_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_versus(UUID, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 6: Audit status and winner changes
+-- ============================================================================
+
+-- Same trigger as 2025-12-16, plus the lifecycle columns
+DROP TRIGGER IF EXISTS audit_versus_changes ON versus;
+CREATE TRIGGER audit_versus_changes AFTER UPDATE ON versus
+    FOR EACH ROW EXECUTE FUNCTION audit_versus_change(
+      'name', 'type', 'reverse_ranking', 'undo_grace_minutes', 'starts_at', 'ends_at',
+      'round_period', 'team_scoring', 'require_approval', 'dispute_quorum_percent',
+      'dispute_window_hours', 'max_backfill_hours', 'status', 'winner_id'
+    );
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type, column_default
+FROM information_schema.columns
+WHERE table_name = 'versus'
+AND column_name IN ('status', 'winner_id');
+
+SELECT status, COUNT(*) FROM versus GROUP BY status;
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_name IN ('finish_versus', 'set_versus_archived', 'delete_versus', 'versus_final_leader');
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+-- Re-run 2025-12-16-versus-audit-log.sql (STEP 3) to restore the versus audit trigger
+DROP FUNCTION IF EXISTS delete_versus(UUID, TEXT);
+DROP FUNCTION IF EXISTS set_versus_archived(UUID, BOOLEAN);
+DROP FUNCTION IF EXISTS finish_versus(UUID, UUID);
+-- Re-run 2025-12-04-versus-season-windows.sql (STEP 3) to restore
+-- finalize_versus_standings(), then:
+DROP FUNCTION IF EXISTS versus_final_leader(UUID);
+DROP INDEX IF EXISTS idx_versus_status;
+ALTER TABLE versus DROP CONSTRAINT IF EXISTS versus_status_check;
+ALTER TABLE versus DROP COLUMN IF EXISTS winner_id;
+ALTER TABLE versus DROP COLUMN IF EXISTS status;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-24-versus-lifecycle completed successfully!';
+    RAISE NOTICE 'Versus are now active, finished (with a winner) or archived';
+    RAISE NOTICE 'Commissioners can finish and archive; owners can delete with delete_versus()';
+END $$;
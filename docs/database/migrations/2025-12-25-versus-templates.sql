@@ -0,0 +1,103 @@
+-- ============================================================================
+-- Migration: Versus Templates
+-- Date: 2025-12-25
+-- Description: Named, reusable settings and objectives for the create wizard
+-- ============================================================================
+
+-- This migration adds:
+-- 1. versus_templates table (a player's saved settings + objectives)
+-- 2. RLS policies: templates are private to the player who saved them
+--
+-- A template is saved from an existing versus and seeds Step 1 (settings)
+-- and Step 3 (objectives) of the create wizard. It's a copy: editing the
+-- versus afterwards doesn't change the template.
+--
+-- settings holds the versus columns the wizard sets (type, reverse_ranking,
+-- undo_grace_minutes, round_period, require_approval, dispute_quorum_percent,
+-- dispute_window_hours, max_backfill_hours). Season dates aren't kept - they
+-- wouldn't make sense for the next run.
+-- objectives is an array of objective rows without ids (title, points,
+-- description, limits, claim mode, scoring and requires_proof).
+--
+-- Cloning a versus needs no schema: the app reads the versus and prefills
+-- the wizard.
+
+-- ============================================================================
+-- STEP 1: Create versus_templates table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS versus_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE NOT NULL,
+  name VARCHAR(50) NOT NULL CHECK (char_length(trim(name)) > 0),
+  settings JSONB NOT NULL DEFAULT '{}'::JSONB CHECK (jsonb_typeof(settings) = 'object'),
+  objectives JSONB NOT NULL DEFAULT '[]'::JSONB CHECK (jsonb_typeof(objectives) = 'array'),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- One template per name (case-insensitive) for each player
+CREATE UNIQUE INDEX IF NOT EXISTS idx_versus_templates_player_name
+  ON versus_templates(player_id, lower(name));
+
+DROP TRIGGER IF EXISTS update_versus_templates_updated_at ON versus_templates;
+CREATE TRIGGER update_versus_templates_updated_at BEFORE UPDATE ON versus_templates
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 2: RLS policies for versus_templates
+-- ============================================================================
+
+ALTER TABLE versus_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Players can view their templates" ON versus_templates;
+CREATE POLICY "Players can view their templates"
+  ON versus_templates FOR SELECT
+  USING (player_id = auth.uid());
+
+DROP POLICY IF EXISTS "Players can create their templates" ON versus_templates;
+CREATE POLICY "Players can create their templates"
+  ON versus_templates FOR INSERT
+  WITH CHECK (player_id = auth.uid());
+
+DROP POLICY IF EXISTS "Players can update their templates" ON versus_templates;
+CREATE POLICY "Players can update their templates"
+  ON versus_templates FOR UPDATE
+  USING (player_id = auth.uid())
+  WITH CHECK (player_id = auth.uid());
+
+DROP POLICY IF EXISTS "Players can delete their templates" ON versus_templates;
+CREATE POLICY "Players can delete their templates"
+  ON versus_templates FOR DELETE
+  USING (player_id = auth.uid());
+
+-- ============================================================================
+-- VERIFICATION QUERIES
+-- ============================================================================
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'versus_templates'
+ORDER BY ordinal_position;
+
+SELECT policyname, cmd
+FROM pg_policies
+WHERE tablename = 'versus_templates';
+
+-- ============================================================================
+-- ROLLBACK SCRIPT (if needed)
+-- ============================================================================
+
+/*
+DROP TABLE IF EXISTS versus_templates;
+*/
+
+-- ============================================================================
+-- COMPLETION MESSAGE
+-- ============================================================================
+
+DO $$
+BEGIN
+    RAISE NOTICE '✅ Migration 2025-12-25-versus-templates completed successfully!';
+    RAISE NOTICE 'Players can save a Versus as a template for the create wizard';
+END $$;
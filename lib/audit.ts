@@ -0,0 +1,103 @@
+import type { AuditEntityType, AuditEntry } from "@/types/database";
+
+/**
+ * Versus audit log display helpers
+ * Entries are written by database triggers when a versus, its objectives,
+ * players or completions change; the audit page uses these helpers. The
+ * table is append-only (see docs/database/migrations/2025-12-16-versus-audit-log.sql).
+ */
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  versus: "Settings",
+  objective: "Objectives",
+  player: "Players",
+  completion: "Completions",
+};
+
+/**
+ * Readable names for logged fields (anything missing is shown as-is)
+ */
+const FIELD_LABELS: Record<string, string> = {
+  name: "Name",
+  type: "Type",
+  reverse_ranking: "Reverse ranking",
+  undo_grace_minutes: "Undo window (min)",
+  starts_at: "Starts",
+  ends_at: "Ends",
+  round_period: "Rounds",
+  team_scoring: "Team scoring",
+  require_approval: "Require approval",
+  dispute_quorum_percent: "Dispute quorum (%)",
+  dispute_window_hours: "Dispute voting (h)",
+  max_backfill_hours: "Backfill window (h)",
+  status: "Status",
+  winner_id: "Winner",
+  title: "Title",
+  points: "Points",
+  description: "Description",
+  max_per_player: "Max per player",
+  max_per_period: "Max per period",
+  limit_period: "Limit period",
+  cooldown_minutes: "Cooldown (min)",
+  claim_mode: "Claim mode",
+  podium_points: "Podium points",
+  unit: "Unit",
+  points_per_unit: "Points per unit",
+  requires_proof: "Photo proof",
+  nickname: "Nickname",
+  email: "Email",
+  role: "Role",
+  is_commissioner: "Commissioner",
+  player_name: "Player",
+  objective_title: "Objective",
+  completed_at: "Completed",
+  points_awarded: "Points",
+  quantity: "Quantity",
+};
+
+export function getAuditFieldLabel(field: string): string {
+  return FIELD_LABELS[field] ?? field;
+}
+
+/**
+ * Formats a logged value for display
+ * Timestamps are shown in local time; empty values as "—".
+ */
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    return new Date(value).toLocaleString();
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * One-line summary, e.g. 'Sam updated objective "Run 5k"'
+ */
+export function describeAuditEntry(entry: AuditEntry): string {
+  const verb = { create: "added", update: "updated", delete: "removed" }[entry.action];
+  const label = entry.entity_label ? ` "${entry.entity_label}"` : "";
+
+  switch (entry.entity_type) {
+    case "versus":
+      return `${entry.actor_name} updated the settings`;
+    case "objective":
+      return `${entry.actor_name} ${verb} objective${label}`;
+    case "player":
+      return `${entry.actor_name} ${verb} player${label}`;
+    case "completion":
+      return entry.action === "update"
+        ? `${entry.actor_name} edited a completion of${label || " an objective"}`
+        : `${entry.actor_name} deleted a completion of${label || " an objective"}`;
+  }
+}
+
+/**
+ * Every field that appears in an entry's before or after values
+ */
+export function getAuditFields(entry: AuditEntry): string[] {
+  return Array.from(new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]));
+}
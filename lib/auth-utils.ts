@@ -0,0 +1,11 @@
+/**
+ * Where to send someone after they sign in
+ * Only same-site paths are allowed, so a crafted ?next= can't redirect
+ * to another site. Anything else falls back to the home page.
+ */
+export function getSafeNextPath(next: string | null | undefined): string {
+  if (!next || !next.startsWith("/") || next.startsWith("//") || next.startsWith("/\\")) {
+    return "/";
+  }
+  return next;
+}
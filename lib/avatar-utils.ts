@@ -0,0 +1,48 @@
+/**
+ * Player avatar helpers
+ * Shared by the upload action (validation) and the UI (file input, images).
+ */
+
+export const AVATAR_MAX_BYTES = 2 * 1024 * 1024; // 2 MB
+
+/**
+ * Accepted image types, mapped to the file extension used for storage keys
+ */
+export const AVATAR_CONTENT_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+export const DISPLAY_NAME_MAX_LENGTH = 50;
+
+/**
+ * Returns why a file can't be used as an avatar, or null if it's fine
+ */
+export function getAvatarFileError(file: { type: string; size: number }): string | null {
+  if (!AVATAR_CONTENT_TYPES[file.type]) {
+    return "Avatars must be a JPEG, PNG, WebP or GIF image";
+  }
+  if (file.size > AVATAR_MAX_BYTES) {
+    return "Avatars must be 2 MB or smaller";
+  }
+  return null;
+}
+
+/**
+ * URL that serves a stored avatar to players in a shared versus
+ */
+export function getAvatarUrl(avatarPath: string | null): string | null {
+  return avatarPath ? `/api/avatars/${avatarPath}` : null;
+}
+
+/**
+ * Up to two initials for players without an avatar ("Jo Smith" → "JS")
+ */
+export function getInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return "?";
+  if (words.length === 1) return words[0].slice(0, 2).toUpperCase();
+  return (words[0][0] + words[words.length - 1][0]).toUpperCase();
+}
@@ -0,0 +1,41 @@
+/**
+ * Determines whether a player can still undo their own completion
+ * The undo window starts when the completion is logged and lasts
+ * for the versus' undo_grace_minutes
+ */
+export function isWithinUndoWindow(
+  completedAt: string,
+  graceMinutes: number,
+  now: number = Date.now()
+): boolean {
+  const completedTime = new Date(completedAt).getTime();
+  return now - completedTime <= graceMinutes * 60 * 1000;
+}
+
+/**
+ * A completion counts as late when it was logged more than this long after
+ * it happened (i.e. it was backdated)
+ */
+export const LATE_ENTRY_MINUTES = 60;
+
+/**
+ * Determines whether a completion was logged late
+ * completedAt is when the objective was done, loggedAt when it was recorded
+ */
+export function isLateEntry(completedAt: string, loggedAt: string): boolean {
+  const delay = new Date(loggedAt).getTime() - new Date(completedAt).getTime();
+  return delay > LATE_ENTRY_MINUTES * 60 * 1000;
+}
+
+/**
+ * Earliest time (ms) a player can backdate a completion to, given the
+ * versus' max_backfill_hours (0 = no backdating) and optional season start
+ */
+export function getEarliestBackfillTime(
+  maxBackfillHours: number,
+  startsAt: string | null | undefined,
+  now: number = Date.now()
+): number {
+  const earliest = now - maxBackfillHours * 60 * 60 * 1000;
+  return startsAt ? Math.max(earliest, new Date(startsAt).getTime()) : earliest;
+}
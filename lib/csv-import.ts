@@ -0,0 +1,114 @@
+/**
+ * Player CSV import
+ * A roster file has one player per line: email, then an optional nickname.
+ * A header row ("email,nickname") is optional.
+ */
+
+export interface CsvPlayerRow {
+  line: number; // 1-based line in the file, for the import report
+  email: string;
+  nickname: string;
+}
+
+/**
+ * Largest file accepted (a roster never needs more than a few KB)
+ */
+export const MAX_CSV_BYTES = 100 * 1024;
+
+/**
+ * Splits one CSV line into fields
+ * Handles quoted fields ("Smith, Jo") and doubled quotes inside them.
+ */
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === "," || char === ";" || char === "\t") {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields.map((f) => f.trim());
+}
+
+/**
+ * Parses a roster CSV into rows, skipping blank lines and the header
+ *
+ * Columns are found by header name when there is one ("email", "nickname"
+ * or "name"); otherwise email is the first column and nickname the second.
+ */
+export function parsePlayerCsv(text: string): CsvPlayerRow[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+  const rows: CsvPlayerRow[] = [];
+
+  let emailColumn = 0;
+  let nicknameColumn = 1;
+  let headerChecked = false;
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+
+    const fields = splitCsvLine(line);
+
+    if (!headerChecked) {
+      headerChecked = true;
+      const headers = fields.map((f) => f.toLowerCase());
+      const headerEmail = headers.findIndex((h) => h === "email" || h === "e-mail");
+
+      if (headerEmail !== -1) {
+        emailColumn = headerEmail;
+        const headerNickname = headers.findIndex((h) => h === "nickname" || h === "name");
+        nicknameColumn = headerNickname;
+        return;
+      }
+    }
+
+    rows.push({
+      line: index + 1,
+      email: fields[emailColumn] || "",
+      nickname: nicknameColumn === -1 ? "" : fields[nicknameColumn] || "",
+    });
+  });
+
+  return rows;
+}
+
+/**
+ * How an imported row compares with existing accounts
+ * - matched: an account exists, the player is added directly
+ * - unmatched: no account yet, the player can be invited by email
+ * - invalid: can't be added (see reason)
+ */
+export type CsvImportStatus = "matched" | "unmatched" | "invalid";
+
+export interface CsvImportResult extends CsvPlayerRow {
+  status: CsvImportStatus;
+  player_id: string;
+  display_name: string;
+  reason: string | null;
+}
+
+export const CSV_IMPORT_STATUS_LABELS: Record<CsvImportStatus, string> = {
+  matched: "Matched",
+  unmatched: "No account",
+  invalid: "Invalid",
+};
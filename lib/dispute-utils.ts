@@ -0,0 +1,96 @@
+import type { DisputeStatus, DisputeThread, DisputeVoteChoice } from "@/types/database";
+
+/**
+ * Completion dispute helpers
+ * Voting rules live in the database (see 2025-12-13-completion-disputes.sql);
+ * these only shape and describe disputes for display.
+ */
+
+type PlayerRef = { id: string; display_name: string | null; email: string } | null;
+
+/**
+ * A completion_disputes row with its opener and votes embedded
+ */
+export interface DisputeRow {
+  id: string;
+  completion_id: string;
+  status: DisputeStatus;
+  reason: string;
+  opened_by: string | null;
+  quorum: number;
+  opened_at: string;
+  deadline_at: string;
+  resolved_at: string | null;
+  opener: PlayerRef;
+  votes: Array<{
+    voter_id: string;
+    vote: DisputeVoteChoice;
+    comment: string | null;
+    voted_at: string;
+    voter: PlayerRef;
+  }>;
+}
+
+const getPlayerName = (player: PlayerRef): string =>
+  player ? player.display_name || player.email.split("@")[0] : "Former player";
+
+/**
+ * Converts a dispute row into the thread shown on a history entry
+ * Votes are listed oldest first, so the challenger's vote comes first.
+ */
+export function toDisputeThread(row: DisputeRow): DisputeThread {
+  const votes = [...row.votes]
+    .sort((a, b) => new Date(a.voted_at).getTime() - new Date(b.voted_at).getTime())
+    .map((v) => ({
+      voter_id: v.voter_id,
+      voter_name: getPlayerName(v.voter),
+      vote: v.vote,
+      comment: v.comment,
+      voted_at: v.voted_at,
+    }));
+
+  return {
+    id: row.id,
+    status: row.status,
+    reason: row.reason,
+    opened_by: row.opened_by,
+    opened_by_name: getPlayerName(row.opener),
+    opened_at: row.opened_at,
+    deadline_at: row.deadline_at,
+    resolved_at: row.resolved_at,
+    quorum: row.quorum,
+    keep_votes: votes.filter((v) => v.vote === "keep").length,
+    void_votes: votes.filter((v) => v.vote === "void").length,
+    votes,
+  };
+}
+
+/**
+ * Whether a player can still vote on a dispute
+ */
+export function canVoteOnDispute(
+  dispute: DisputeThread,
+  playerId: string,
+  now: number = Date.now()
+): boolean {
+  return (
+    dispute.status === "open" &&
+    new Date(dispute.deadline_at).getTime() > now &&
+    !dispute.votes.some((v) => v.voter_id === playerId)
+  );
+}
+
+/**
+ * "2 keep · 1 void · 3 votes needed"
+ */
+export function describeDisputeVotes(dispute: DisputeThread): string {
+  const parts = [`${dispute.keep_votes} keep`, `${dispute.void_votes} void`];
+  const cast = dispute.keep_votes + dispute.void_votes;
+
+  if (dispute.status === "open" && cast < dispute.quorum) {
+    const needed = dispute.quorum - cast;
+    parts.push(`${needed} more ${needed === 1 ? "vote" : "votes"} needed`);
+  }
+
+  return parts.join(" · ");
+}
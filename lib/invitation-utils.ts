@@ -0,0 +1,64 @@
+import type { MailMessage } from "@/lib/mailer/types";
+
+/**
+ * Most players a versus can have, counting pending invitations
+ * (matches the limit in Step 1 of the create wizard)
+ */
+export const MAX_VERSUS_PLAYERS = 12;
+
+/**
+ * How long to wait before an invitation can be sent again
+ */
+export const INVITE_RESEND_COOLDOWN_SECONDS = 60;
+
+/**
+ * Invitations are stored and matched by lowercased email
+ */
+export function normalizeInviteEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Signup link for an invitation
+ * The token lets /auth/callback attach the new account even if the person
+ * signs up with a different email address.
+ */
+export function getInviteSignupUrl(siteUrl: string, token: string, email: string): string {
+  const params = new URLSearchParams({ invite: token, email });
+  return `${siteUrl.replace(/\/$/, "")}/auth/signup?${params.toString()}`;
+}
+
+/**
+ * Seconds left before an invitation sent at lastSentAt can be resent (0 = now)
+ */
+export function getResendWaitSeconds(lastSentAt: string, now: number = Date.now()): number {
+  const elapsed = (now - new Date(lastSentAt).getTime()) / 1000;
+  return Math.max(0, Math.ceil(INVITE_RESEND_COOLDOWN_SECONDS - elapsed));
+}
+
+/**
+ * The invitation email
+ */
+export function buildInvitationEmail({
+  to,
+  versusName,
+  inviterName,
+  signupUrl,
+}: {
+  to: string;
+  versusName: string;
+  inviterName: string;
+  signupUrl: string;
+}): MailMessage {
+  const subject = `${inviterName} invited you to "${versusName}" on WhoVersus`;
+  const text = [
+    `${inviterName} added you to "${versusName}" on WhoVersus.`,
+    "",
+    "Create your account to join - you'll be added automatically once you confirm your email:",
+    signupUrl,
+    "",
+    "If you weren't expecting this, you can ignore this email.",
+  ].join("\n");
+
+  return { to, subject, text };
+}
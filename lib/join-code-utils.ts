@@ -0,0 +1,79 @@
+import type { JoinCodeStatus } from "@/types/database";
+
+/**
+ * Join codes
+ * Short codes shared as /join/<code> links. The alphabet leaves out
+ * characters that are easy to misread (0/O, 1/I) so codes can be typed.
+ */
+
+export const JOIN_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const JOIN_CODE_LENGTH = 8;
+
+/**
+ * Expiry choices offered when creating a link (hours, null = never)
+ */
+export const JOIN_CODE_EXPIRY_OPTIONS: Array<{ label: string; hours: number | null }> = [
+  { label: "Never", hours: null },
+  { label: "1 day", hours: 24 },
+  { label: "7 days", hours: 24 * 7 },
+  { label: "30 days", hours: 24 * 30 },
+];
+
+/**
+ * Random join code, e.g. "K7QM3XPA"
+ */
+export function generateJoinCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(JOIN_CODE_LENGTH));
+  return Array.from(bytes, (b) => JOIN_CODE_ALPHABET[b % JOIN_CODE_ALPHABET.length]).join("");
+}
+
+/**
+ * Cleans up a typed code: uppercase, without spaces or dashes
+ */
+export function normalizeJoinCode(code: string): string {
+  return code.toUpperCase().replace(/[\s-]/g, "");
+}
+
+export function isValidJoinCode(code: string): boolean {
+  const pattern = new RegExp(`^[${JOIN_CODE_ALPHABET}]{${JOIN_CODE_LENGTH}}$`);
+  return pattern.test(code);
+}
+
+/**
+ * Whether a code can still be used (mirrors get_join_code_preview())
+ */
+export function getJoinCodeStatus(
+  code: {
+    revoked_at: string | null;
+    expires_at: string | null;
+    max_uses: number | null;
+    use_count: number;
+  },
+  now: number = Date.now()
+): JoinCodeStatus {
+  if (code.revoked_at) return "revoked";
+  if (code.expires_at && new Date(code.expires_at).getTime() <= now) return "expired";
+  if (code.max_uses !== null && code.use_count >= code.max_uses) return "used_up";
+  return "active";
+}
+
+export const JOIN_CODE_STATUS_LABELS: Record<JoinCodeStatus, string> = {
+  active: "Active",
+  revoked: "Revoked",
+  expired: "Expired",
+  used_up: "Used up",
+};
+
+/**
+ * Shows a code in two halves for reading aloud, e.g. "K7QM-3XPA"
+ */
+export function formatJoinCode(code: string): string {
+  return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+/**
+ * Path of the join page for a code
+ */
+export function getJoinPath(code: string): string {
+  return `/join/${code}`;
+}
@@ -0,0 +1,18 @@
+import { createLocalMailer } from "@/lib/mailer/local";
+import { createResendMailer } from "@/lib/mailer/resend";
+import type { Mailer } from "@/lib/mailer/types";
+
+export type { MailMessage, Mailer } from "@/lib/mailer/types";
+
+/**
+ * Mailer for the current environment
+ * MAIL_DRIVER=resend|local overrides the default
+ * (Resend in production, local capture otherwise).
+ */
+export function getMailer(): Mailer {
+  const driver =
+    process.env.MAIL_DRIVER ||
+    (process.env.NODE_ENV === "production" ? "resend" : "local");
+
+  return driver === "resend" ? createResendMailer() : createLocalMailer();
+}
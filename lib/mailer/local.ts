@@ -0,0 +1,24 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import type { Mailer } from "@/lib/mailer/types";
+
+/**
+ * Local capture transport for development and tests
+ * Nothing is sent: each message is written as JSON under LOCAL_MAIL_DIR
+ * (default: ./.mail) and summarized in the server log, so signup links can
+ * be copied from there.
+ */
+export function createLocalMailer(
+  rootDir: string = process.env.LOCAL_MAIL_DIR || path.join(process.cwd(), ".mail")
+): Mailer {
+  return {
+    async send(message) {
+      await mkdir(rootDir, { recursive: true });
+
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto.randomUUID()}.json`;
+      await writeFile(path.join(rootDir, fileName), JSON.stringify(message, null, 2));
+
+      console.info(`[mailer] Captured "${message.subject}" to ${message.to} (${fileName})\n${message.text}`);
+    },
+  };
+}
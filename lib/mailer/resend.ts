@@ -0,0 +1,37 @@
+import type { Mailer } from "@/lib/mailer/types";
+
+/**
+ * Resend (https://resend.com) transport for production
+ * Needs RESEND_API_KEY and a verified MAIL_FROM address.
+ */
+export function createResendMailer(
+  apiKey: string | undefined = process.env.RESEND_API_KEY,
+  from: string | undefined = process.env.MAIL_FROM
+): Mailer {
+  return {
+    async send(message) {
+      if (!apiKey || !from) {
+        throw new Error("Email is not configured (set RESEND_API_KEY and MAIL_FROM)");
+      }
+
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Sending email failed: ${response.status} ${await response.text()}`);
+      }
+    },
+  };
+}
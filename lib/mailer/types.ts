@@ -0,0 +1,16 @@
+/**
+ * Mailer abstraction for outgoing email (player invitations)
+ *
+ * Messages are plain data; building the content is the caller's job.
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  /** Send a message, throwing if the transport rejects it */
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,50 @@
+import type { createClient } from "@/lib/supabase/server";
+import type { VersusMemberOption, VersusRole } from "@/types/database";
+
+/**
+ * Versus member lookups shared by the leave, handoff and account deletion
+ * flows
+ */
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>;
+
+/**
+ * Everyone in a versus except the given player, oldest members first
+ */
+export async function getOtherMembers(supabase: SupabaseClient, versusId: string, playerId: string) {
+  type MemberRow = {
+    role: VersusRole;
+    nickname: string | null;
+    player: { id: string; display_name: string | null; email: string };
+  };
+
+  const { data, error } = await supabase
+    .from("versus_players")
+    .select(
+      `
+      role,
+      nickname,
+      player:player_id (
+        id,
+        display_name,
+        email
+      )
+    `
+    )
+    .eq("versus_id", versusId)
+    .neq("player_id", playerId)
+    .order("joined_at", { ascending: true })
+    .returns<MemberRow[]>();
+
+  if (error) {
+    return { data: null, error };
+  }
+
+  const members: VersusMemberOption[] = data.map((m) => ({
+    player_id: m.player.id,
+    name: m.nickname || m.player.display_name || m.player.email.split("@")[0],
+    role: m.role,
+  }));
+
+  return { data: members, error: null };
+}
@@ -0,0 +1,103 @@
+import { getRoundStart } from "@/lib/round-utils";
+import { formatCountdown } from "@/lib/season-utils";
+import type { Objective } from "@/types/database";
+
+/**
+ * Objective completion limits
+ * Shared by completeObjective() (early, friendly check) and
+ * getObjectivesWithStatus() (remaining allowance shown in the check-in panel).
+ * The validate_completion_limits trigger applies the same rules on insert.
+ */
+
+type ObjectiveLimits = Pick<
+  Objective,
+  "title" | "max_per_player" | "max_per_period" | "limit_period" | "cooldown_minutes"
+>;
+
+export interface ObjectiveAllowance {
+  remaining: number | null; // Completions left under the tightest limit (null = unlimited)
+  availableAt: string | null; // ISO timestamp when the cooldown ends (null = available now)
+  reason: string | null; // Why the player can't log this objective right now
+}
+
+/**
+ * Works out how many more times a player can complete an objective
+ *
+ * @param objective - The objective's limit settings
+ * @param completedAt - Timestamps of the player's existing completions of this objective
+ * @param now - Current time (ms), injectable for rendering. For a backdated
+ *   completion, pass its time so the period and cooldown around it are checked.
+ * @param playerName - Set when a commissioner logs for someone else, so the
+ *   reason names that player instead of saying "You've"
+ */
+export function getObjectiveAllowance(
+  objective: ObjectiveLimits,
+  completedAt: string[],
+  now: number = Date.now(),
+  playerName: string | null = null
+): ObjectiveAllowance {
+  const times = completedAt.map((t) => new Date(t).getTime());
+  const who = playerName ? `${playerName} has` : "You've";
+  let remaining: number | null = null;
+  let reason: string | null = null;
+
+  // Lifetime limit
+  if (objective.max_per_player !== null) {
+    remaining = Math.max(0, objective.max_per_player - times.length);
+    if (remaining === 0) {
+      reason = `${who} reached the limit of ${objective.max_per_player} for "${objective.title}"`;
+    }
+  }
+
+  // Per day / per week limit (UTC calendar buckets, same as rounds)
+  if (objective.max_per_period !== null && objective.limit_period) {
+    const periodStart = new Date(
+      getRoundStart(objective.limit_period === "day" ? "daily" : "weekly", now)!
+    ).getTime();
+    const periodEnd = periodStart + (objective.limit_period === "day" ? 1 : 7) * 24 * 60 * 60 * 1000;
+    const inPeriod = times.filter((t) => t >= periodStart && t < periodEnd).length;
+    const periodRemaining = Math.max(0, objective.max_per_period - inPeriod);
+
+    remaining = remaining === null ? periodRemaining : Math.min(remaining, periodRemaining);
+    if (periodRemaining === 0 && !reason) {
+      const periodName = objective.limit_period === "day" ? "today's" : "this week's";
+      reason = `${who} reached ${periodName} limit of ${objective.max_per_period} for "${objective.title}"`;
+    }
+  }
+
+  // Cooldown since the most recent completion
+  let availableAt: string | null = null;
+  const earlierTimes = times.filter((t) => t <= now);
+  if (objective.cooldown_minutes && earlierTimes.length > 0) {
+    const cooldownEnds = Math.max(...earlierTimes) + objective.cooldown_minutes * 60 * 1000;
+    if (cooldownEnds > now) {
+      availableAt = new Date(cooldownEnds).toISOString();
+      if (!reason) {
+        const forPlayer = playerName ? ` for ${playerName}` : "";
+        reason = `"${objective.title}" is on cooldown${forPlayer}. Try again in ${formatCountdown(cooldownEnds - now)}`;
+      }
+    }
+  }
+
+  return { remaining, availableAt, reason };
+}
+
+/**
+ * Short summary of an objective's limits for display, e.g. "Max 3/day · 30m cooldown"
+ * Returns null if the objective has no limits
+ */
+export function describeObjectiveLimits(objective: ObjectiveLimits): string | null {
+  const parts: string[] = [];
+
+  if (objective.max_per_player !== null) {
+    parts.push(`Max ${objective.max_per_player} total`);
+  }
+  if (objective.max_per_period !== null && objective.limit_period) {
+    parts.push(`Max ${objective.max_per_period}/${objective.limit_period}`);
+  }
+  if (objective.cooldown_minutes) {
+    parts.push(`${formatCountdown(objective.cooldown_minutes * 60 * 1000)} cooldown`);
+  }
+
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
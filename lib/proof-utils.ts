@@ -0,0 +1,36 @@
+/**
+ * Completion proof photo helpers
+ * Shared by the upload action (validation) and the UI (file input, thumbnails).
+ */
+
+export const PROOF_MAX_BYTES = 5 * 1024 * 1024; // 5 MB
+
+/**
+ * Accepted image types, mapped to the file extension used for storage keys
+ */
+export const PROOF_CONTENT_TYPES: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+/**
+ * Returns why a file can't be used as proof, or null if it's fine
+ */
+export function getProofFileError(file: { type: string; size: number }): string | null {
+  if (!PROOF_CONTENT_TYPES[file.type]) {
+    return "Proof must be a JPEG, PNG, WebP or GIF image";
+  }
+  if (file.size > PROOF_MAX_BYTES) {
+    return "Proof images must be 5 MB or smaller";
+  }
+  return null;
+}
+
+/**
+ * URL that serves a stored proof to members of the versus
+ */
+export function getProofUrl(proofPath: string | null): string | null {
+  return proofPath ? `/api/proofs/${proofPath}` : null;
+}
@@ -0,0 +1,22 @@
+import type { VersusRole } from "@/types/database";
+
+/**
+ * Roles in the order they're offered in the players form
+ */
+export const VERSUS_ROLES: VersusRole[] = ["participant", "commissioner", "viewer"];
+
+export const VERSUS_ROLE_LABELS: Record<VersusRole, string> = {
+  viewer: "Viewer",
+  participant: "Participant",
+  commissioner: "Commissioner",
+};
+
+export const VERSUS_ROLE_DESCRIPTIONS: Record<VersusRole, string> = {
+  viewer: "Sees the scoreboard, doesn't play",
+  participant: "Plays",
+  commissioner: "Plays, and can edit settings, players and objectives",
+};
+
+export function isVersusRole(value: unknown): value is VersusRole {
+  return value === "viewer" || value === "participant" || value === "commissioner";
+}
@@ -0,0 +1,64 @@
+import type { RoundPeriod } from "@/types/database";
+
+/**
+ * Round helpers
+ * Rounds are calendar buckets in UTC, matching date_trunc() in the
+ * player_round_rankings view (weeks start on Monday).
+ */
+
+export const ROUND_PERIOD_LABELS: Record<RoundPeriod, string> = {
+  none: "No rounds (all time)",
+  daily: "Daily",
+  weekly: "Weekly",
+  monthly: "Monthly",
+};
+
+/**
+ * Start of the round containing the given time, as an ISO timestamp
+ * Returns null for versus without rounds
+ */
+export function getRoundStart(period: RoundPeriod, at: number = Date.now()): string | null {
+  const date = new Date(at);
+
+  switch (period) {
+    case "daily":
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())).toISOString();
+    case "weekly": {
+      // getUTCDay(): Sunday = 0, so Monday-based offset is (day + 6) % 7
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      return new Date(
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - daysSinceMonday)
+      ).toISOString();
+    }
+    case "monthly":
+      return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)).toISOString();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Human-readable label for a round, e.g. "Dec 4", "Week of Dec 1", "December 2025"
+ */
+export function formatRoundLabel(period: RoundPeriod, roundStart: string): string {
+  const date = new Date(roundStart);
+
+  switch (period) {
+    case "daily":
+      return date.toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+    case "weekly":
+      return `Week of ${date.toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" })}`;
+    case "monthly":
+      return date.toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" });
+    default:
+      return "All time";
+  }
+}
+
+/**
+ * Normalizes a timestamp so round starts from Postgres and from
+ * getRoundStart() compare equal ("2025-12-01 00:00:00+00" vs ISO)
+ */
+export function normalizeRoundStart(roundStart: string): string {
+  return new Date(roundStart).toISOString();
+}
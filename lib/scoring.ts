@@ -0,0 +1,93 @@
+import type { Completion, Objective } from "@/types/database";
+
+/**
+ * Scoring helpers
+ * Mirrors compute_completion_points() in the database, which snapshots each
+ * completion's points_awarded when it is logged. Used for previews (check-in,
+ * re-score) - stored completions always read points_awarded.
+ */
+
+type ScoredObjective = Pick<
+  Objective,
+  "points" | "claim_mode" | "podium_points" | "points_per_unit"
+>;
+
+/**
+ * Points earned by a single completion
+ * - Podium objectives pay by claim position
+ * - Quantity-based objectives pay quantity x points_per_unit, rounded to a whole point
+ * - Everything else pays objective.points
+ */
+export function getCompletionPoints(
+  objective: ScoredObjective,
+  completion: Partial<Pick<Completion, "claim_rank" | "quantity">>
+): number {
+  if (objective.claim_mode === "podium") {
+    if (!completion.claim_rank) return 0;
+    return objective.podium_points?.[completion.claim_rank - 1] ?? 0;
+  }
+  if (objective.points_per_unit !== null) {
+    // Postgres ROUND() rounds halves away from zero; Math.round() rounds them up
+    const raw = (completion.quantity ?? 0) * objective.points_per_unit;
+    return Math.sign(raw) * Math.round(Math.abs(raw));
+  }
+  return objective.points;
+}
+
+/**
+ * Ranks entries by score, ties sharing a rank (1, 1, 3) like RANK() in the
+ * player_rankings view
+ *
+ * @param reverseRanking - If true, the lowest score ranks #1
+ */
+export function rankByScore<T extends { score: number }>(
+  entries: T[],
+  reverseRanking: boolean
+): Array<T & { rank: number }> {
+  const sorted = [...entries].sort((a, b) =>
+    reverseRanking ? a.score - b.score : b.score - a.score
+  );
+
+  return sorted.map((entry) => ({
+    ...entry,
+    rank: sorted.findIndex((e) => e.score === entry.score) + 1,
+  }));
+}
+
+/**
+ * Whether an objective scores per unit rather than a fixed amount
+ */
+export function isQuantityObjective(
+  objective: Pick<Objective, "unit" | "points_per_unit">
+): boolean {
+  return objective.unit !== null && objective.points_per_unit !== null;
+}
+
+/**
+ * Label for a per-unit rate, e.g. "+2 / mile"
+ */
+export function formatRate(
+  objective: Pick<Objective, "unit" | "points_per_unit">
+): string {
+  const rate = objective.points_per_unit ?? 0;
+  return `${rate >= 0 ? "+" : ""}${rate} / ${objective.unit}`;
+}
+
+/**
+ * Number of claim slots for an objective (0 = not claimable)
+ */
+export function getClaimSlots(objective: Pick<Objective, "claim_mode" | "podium_points">): number {
+  if (objective.claim_mode === "single") return 1;
+  if (objective.claim_mode === "podium") return objective.podium_points?.length ?? 0;
+  return 0;
+}
+
+/**
+ * Ordinal label for a claim position, e.g. 1 -> "1st"
+ */
+export function formatClaimRank(rank: number): string {
+  if (rank === 1) return "1st";
+  if (rank === 2) return "2nd";
+  if (rank === 3) return "3rd";
+  return `${rank}th`;
+}
@@ -0,0 +1,81 @@
+/**
+ * Season window helpers
+ * A Versus can optionally have starts_at / ends_at. Without them it runs forever.
+ */
+
+export type SeasonStatus = "upcoming" | "active" | "ended";
+
+/**
+ * Works out where "now" falls relative to a season window
+ * Missing bounds are treated as open-ended
+ */
+export function getSeasonStatus(
+  startsAt: string | null | undefined,
+  endsAt: string | null | undefined,
+  now: number = Date.now()
+): SeasonStatus {
+  if (startsAt && now < new Date(startsAt).getTime()) {
+    return "upcoming";
+  }
+  if (endsAt && now >= new Date(endsAt).getTime()) {
+    return "ended";
+  }
+  return "active";
+}
+
+/**
+ * Formats a duration as a short countdown, e.g. "3d 4h", "5h 12m", "8m"
+ */
+export function formatCountdown(ms: number): string {
+  const totalMinutes = Math.max(0, Math.ceil(ms / (60 * 1000)));
+  const days = Math.floor(totalMinutes / (60 * 24));
+  const hours = Math.floor((totalMinutes % (60 * 24)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
+
+/**
+ * One-line label for a season window, or null if the Versus has no window
+ * e.g. "Starts in 2d 3h", "Ends in 5h 12m", "Ended"
+ */
+export function getSeasonLabel(
+  startsAt: string | null | undefined,
+  endsAt: string | null | undefined,
+  now: number = Date.now()
+): string | null {
+  const status = getSeasonStatus(startsAt, endsAt, now);
+
+  if (status === "upcoming" && startsAt) {
+    return `Starts in ${formatCountdown(new Date(startsAt).getTime() - now)}`;
+  }
+  if (status === "ended") {
+    return "Ended";
+  }
+  if (endsAt) {
+    return `Ends in ${formatCountdown(new Date(endsAt).getTime() - now)}`;
+  }
+  return null;
+}
+
+/**
+ * Converts an ISO timestamp to the value a datetime-local input expects
+ * (local time, "YYYY-MM-DDTHH:mm"). Returns "" for null.
+ */
+export function toDateTimeLocalValue(iso: string | null | undefined): string {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+/**
+ * Converts a datetime-local input value back to an ISO timestamp
+ * Returns null for an empty input (no bound)
+ */
+export function fromDateTimeLocalValue(value: string): string | null {
+  if (!value) return null;
+  return new Date(value).toISOString();
+}
@@ -0,0 +1,20 @@
+import { headers } from "next/headers";
+
+/**
+ * Base URL for links sent outside the app (emails, join links)
+ * NEXT_PUBLIC_SITE_URL wins; otherwise the origin of the current request.
+ * Server-only (reads request headers).
+ */
+export async function getSiteUrl(): Promise<string> {
+  if (process.env.NEXT_PUBLIC_SITE_URL) {
+    return process.env.NEXT_PUBLIC_SITE_URL.replace(/\/$/, "");
+  }
+
+  const requestHeaders = await headers();
+  const origin = requestHeaders.get("origin");
+  if (origin) return origin;
+
+  const host = requestHeaders.get("x-forwarded-host") || requestHeaders.get("host");
+  const protocol = requestHeaders.get("x-forwarded-proto") || "https";
+  return `${protocol}://${host}`;
+}
@@ -0,0 +1,33 @@
+import path from "path";
+import { createLocalStorage } from "@/lib/storage/local";
+import { createSupabaseStorage } from "@/lib/storage/supabase";
+import type { StorageAdapter } from "@/lib/storage/types";
+
+export type { StorageAdapter } from "@/lib/storage/types";
+
+/**
+ * What is stored: completion proofs or player avatars
+ */
+export type StorageBucket = "proofs" | "avatars";
+
+/**
+ * Storage adapter for the current environment
+ * STORAGE_DRIVER=supabase|local overrides the default
+ * (Supabase Storage in production, the local filesystem otherwise).
+ * Avatars live in their own bucket (or an "avatars" folder locally).
+ */
+export function getStorage(bucket: StorageBucket = "proofs"): StorageAdapter {
+  const driver =
+    process.env.STORAGE_DRIVER ||
+    (process.env.NODE_ENV === "production" ? "supabase" : "local");
+
+  if (bucket === "avatars") {
+    return driver === "supabase"
+      ? createSupabaseStorage(process.env.AVATARS_BUCKET || "avatars")
+      : createLocalStorage(
+          path.join(process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), ".storage"), "avatars")
+        );
+  }
+
+  return driver === "supabase" ? createSupabaseStorage() : createLocalStorage();
+}
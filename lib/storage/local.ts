@@ -0,0 +1,49 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import type { StorageAdapter } from "@/lib/storage/types";
+
+/**
+ * Local filesystem adapter for development and tests
+ * Files live under LOCAL_STORAGE_DIR (default: ./.storage), with the
+ * content type kept in a sidecar "<key>.type" file.
+ */
+export function createLocalStorage(
+  rootDir: string = process.env.LOCAL_STORAGE_DIR || path.join(process.cwd(), ".storage")
+): StorageAdapter {
+  // Resolve inside rootDir only, so a crafted key can't escape it
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(rootDir, key);
+    if (!filePath.startsWith(path.resolve(rootDir) + path.sep)) {
+      throw new Error("Invalid storage key");
+    }
+    return filePath;
+  };
+
+  return {
+    async put(key, data, contentType) {
+      const filePath = resolveKey(key);
+      await mkdir(path.dirname(filePath), { recursive: true });
+      await writeFile(filePath, data);
+      await writeFile(`${filePath}.type`, contentType);
+    },
+
+    async get(key) {
+      const filePath = resolveKey(key);
+      try {
+        const [data, contentType] = await Promise.all([
+          readFile(filePath),
+          readFile(`${filePath}.type`, "utf8").catch(() => "application/octet-stream"),
+        ]);
+        return { data: new Uint8Array(data), contentType };
+      } catch {
+        return null;
+      }
+    },
+
+    async delete(key) {
+      const filePath = resolveKey(key);
+      await rm(filePath, { force: true });
+      await rm(`${filePath}.type`, { force: true });
+    },
+  };
+}
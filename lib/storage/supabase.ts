@@ -0,0 +1,47 @@
+import { createClient } from "@/lib/supabase/server";
+import type { StorageAdapter } from "@/lib/storage/types";
+
+/**
+ * Supabase Storage adapter for production
+ * Uses the signed-in user's client, so the bucket's storage policies
+ * (see docs/database/migrations/2025-12-12-completion-proof.sql) apply.
+ */
+export function createSupabaseStorage(
+  bucket: string = process.env.PROOFS_BUCKET || "completion-proofs"
+): StorageAdapter {
+  return {
+    async put(key, data, contentType) {
+      const supabase = await createClient();
+      const { error } = await supabase.storage
+        .from(bucket)
+        .upload(key, data, { contentType, upsert: false });
+
+      if (error) {
+        throw new Error(`Upload failed: ${error.message}`);
+      }
+    },
+
+    async get(key) {
+      const supabase = await createClient();
+      const { data, error } = await supabase.storage.from(bucket).download(key);
+
+      if (error || !data) {
+        return null;
+      }
+
+      return {
+        data: new Uint8Array(await data.arrayBuffer()),
+        contentType: data.type || "application/octet-stream",
+      };
+    },
+
+    async delete(key) {
+      const supabase = await createClient();
+      const { error } = await supabase.storage.from(bucket).remove([key]);
+
+      if (error) {
+        throw new Error(`Delete failed: ${error.message}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,14 @@
+/**
+ * Storage abstraction for uploaded files (completion proof photos, avatars)
+ *
+ * Keys are relative paths like "<versus_id>/<player_id>/<uuid>.jpg". Access
+ * control is not the adapter's job - callers check versus membership first.
+ */
+export interface StorageAdapter {
+  /** Store a file under the given key, overwriting nothing (keys are unique) */
+  put(key: string, data: Uint8Array, contentType: string): Promise<void>;
+  /** Read a file back, or null if it doesn't exist */
+  get(key: string): Promise<{ data: Uint8Array; contentType: string } | null>;
+  /** Delete a file (no error if it's already gone) */
+  delete(key: string): Promise<void>;
+}
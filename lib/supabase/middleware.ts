@@ -1,5 +1,6 @@
 import { createServerClient } from '@supabase/ssr'
 import { NextResponse, type NextRequest } from 'next/server'
+import { getSafeNextPath } from '@/lib/auth-utils'
 
 /**
  * Create a Supabase client for use in middleware
@@ -50,9 +51,12 @@ export async function updateSession(request: NextRequest) {
     request.nextUrl.pathname !== '/auth/callback' &&
     request.nextUrl.pathname !== '/auth/error'
   ) {
-    // Redirect to login page
+    // Redirect to login page, remembering where they were headed
+    // (e.g. a /join/<code> link) so they land there after signing in
     const url = request.nextUrl.clone()
+    const next = request.nextUrl.pathname + request.nextUrl.search
     url.pathname = '/auth/login'
+    url.search = next === '/' ? '' : `?next=${encodeURIComponent(next)}`
     return NextResponse.redirect(url)
   }
 
@@ -62,9 +66,8 @@ export async function updateSession(request: NextRequest) {
     (request.nextUrl.pathname.startsWith('/auth/login') ||
       request.nextUrl.pathname.startsWith('/auth/signup'))
   ) {
-    const url = request.nextUrl.clone()
-    url.pathname = '/'
-    return NextResponse.redirect(url)
+    const next = getSafeNextPath(request.nextUrl.searchParams.get('next'))
+    return NextResponse.redirect(new URL(next, request.url))
   }
 
   // IMPORTANT: You *must* return the supabaseResponse object as it is. If you're
@@ -0,0 +1,46 @@
+import { rankByScore } from "@/lib/scoring";
+import type { PlayerWithStats, TeamScoring, TeamWithStats, VersusTeam } from "@/types/database";
+
+/**
+ * Team scoreboard helpers
+ * Team totals are built from an individual scoreboard (live, final standings
+ * or a single round), so teams always match the standings being shown.
+ */
+
+export const TEAM_SCORING_LABELS: Record<TeamScoring, string> = {
+  sum: "Sum of member scores",
+  average: "Average of member scores",
+};
+
+/**
+ * Aggregates player scores into team totals and ranks the teams
+ *
+ * Teams without members are left out. Ties share a rank (1, 1, 3), matching
+ * RANK() in the player_rankings view.
+ *
+ * @param teams - Teams in the versus
+ * @param players - Scoreboard entries, each with its team_id
+ * @param scoring - Sum or average of member scores
+ * @param reverseRanking - If true, the lowest total ranks #1
+ */
+export function rankTeams(
+  teams: Pick<VersusTeam, "id" | "name">[],
+  players: Pick<PlayerWithStats, "score" | "team_id">[],
+  scoring: TeamScoring,
+  reverseRanking: boolean
+): TeamWithStats[] {
+  const totals = teams
+    .map((team) => {
+      const members = players.filter((p) => p.team_id === team.id);
+      const sum = members.reduce((total, p) => total + Number(p.score), 0);
+      const score =
+        scoring === "average" && members.length > 0
+          ? Math.round((sum / members.length) * 10) / 10
+          : sum;
+
+      return { id: team.id, name: team.name, score, member_count: members.length };
+    })
+    .filter((team) => team.member_count > 0);
+
+  return rankByScore(totals, reverseRanking);
+}
@@ -0,0 +1,64 @@
+import type { VersusClonePart } from "@/types/database";
+
+/**
+ * Versus templates and cloning
+ * The columns copied from a versus into a template or a clone, shared by the
+ * server actions (app/actions/templates.ts) and the create wizard.
+ */
+
+export const TEMPLATE_NAME_MAX_LENGTH = 50;
+
+/**
+ * Versus columns a template keeps (see VersusTemplateSettings)
+ * Season dates are left out - the next run has its own.
+ */
+export const TEMPLATE_SETTINGS_FIELDS = [
+  "type",
+  "reverse_ranking",
+  "undo_grace_minutes",
+  "round_period",
+  "require_approval",
+  "dispute_quorum_percent",
+  "dispute_window_hours",
+  "max_backfill_hours",
+] as const;
+
+/**
+ * Objective columns a template keeps (see VersusTemplateObjective)
+ */
+export const TEMPLATE_OBJECTIVE_FIELDS = [
+  "title",
+  "points",
+  "description",
+  "max_per_player",
+  "max_per_period",
+  "limit_period",
+  "cooldown_minutes",
+  "claim_mode",
+  "podium_points",
+  "unit",
+  "points_per_unit",
+  "requires_proof",
+] as const;
+
+export const VERSUS_CLONE_PARTS: VersusClonePart[] = ["settings", "objectives", "roster"];
+
+export const VERSUS_CLONE_PART_LABELS: Record<VersusClonePart, string> = {
+  settings: "Settings",
+  objectives: "Objectives",
+  roster: "Players",
+};
+
+export const VERSUS_CLONE_PART_DESCRIPTIONS: Record<VersusClonePart, string> = {
+  settings: "Type, ranking, rounds, approvals and disputes (not the season dates)",
+  objectives: "Every objective that isn't archived",
+  roster: "Everyone in it, with their roles and nicknames",
+};
+
+/**
+ * Parses the ?include= list of the create page ("settings,objectives")
+ */
+export function parseClonePartsParam(value: string | undefined): VersusClonePart[] {
+  const requested = (value || "").split(",");
+  return VERSUS_CLONE_PARTS.filter((part) => requested.includes(part));
+}
@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    serverActions: {
+      // Completion proof photos are uploaded through a server action (max 5 MB)
+      bodySizeLimit: "6mb",
+    },
+  },
 };
 
 export default nextConfig;
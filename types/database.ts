@@ -7,10 +7,101 @@
 // Table Types
 // ============================================================================
 
+/**
+ * How often a versus resets into a new round ('none' = all time only)
+ */
+export type RoundPeriod = 'none' | 'daily' | 'weekly' | 'monthly'
+
+/**
+ * Window for an objective's max_per_period limit (UTC calendar day/week)
+ */
+export type LimitPeriod = 'day' | 'week'
+
+/**
+ * Who can score an objective
+ * - unlimited: every player, as often as limits allow
+ * - single: only the first player to claim it
+ * - podium: the first 1-3 claimers, scored by podium_points
+ */
+export type ClaimMode = 'unlimited' | 'single' | 'podium'
+
+/**
+ * Review state of a completion (only 'approved' counts toward scores)
+ * 'voided' = lost a dispute vote
+ */
+export type CompletionStatus = 'pending' | 'approved' | 'rejected' | 'voided'
+
+/**
+ * State of a dispute: open for voting, or resolved either way
+ * - upheld: the completion stands
+ * - voided: the completion was voided
+ */
+export type DisputeStatus = 'open' | 'upheld' | 'voided'
+
+/**
+ * A player's vote on a dispute
+ */
+export type DisputeVoteChoice = 'keep' | 'void'
+
+/**
+ * How a team's total aggregates its members' scores
+ */
+export type TeamScoring = 'sum' | 'average'
+
+/**
+ * What an audit log entry is about
+ * - versus: the versus' settings
+ * - objective / player: an objective or a roster entry
+ * - completion: a deleted completion
+ */
+export type AuditEntityType = 'versus' | 'objective' | 'player' | 'completion'
+
+/**
+ * What happened to the entity
+ */
+export type AuditAction = 'create' | 'update' | 'delete'
+
+/**
+ * Email invitation state
+ * - pending: sent, reserves a roster slot until the person signs up
+ * - accepted: the person signed up and joined the versus
+ * - revoked: cancelled by a commissioner
+ */
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked'
+
+/**
+ * Whether a join code can still be used
+ * (revoked by a commissioner, past its expiry, or out of uses)
+ */
+export type JoinCodeStatus = 'active' | 'revoked' | 'expired' | 'used_up'
+
+/**
+ * Join request state (codes that require approval)
+ */
+export type JoinRequestStatus = 'pending' | 'approved' | 'rejected'
+
+/**
+ * What a member can do in a versus
+ * - viewer: sees the scoreboard, but doesn't play or rank
+ * - participant: plays
+ * - commissioner: plays and manages the versus
+ */
+export type VersusRole = 'viewer' | 'participant' | 'commissioner'
+
+/**
+ * Where a versus is in its life
+ * - active: being played
+ * - finished: final standings frozen, with a declared winner
+ * - archived: finished and put away (hidden from the Finished tab)
+ */
+export type VersusStatus = 'active' | 'finished' | 'archived'
+
 export interface Player {
   id: string // UUID from auth.users
   email: string
   display_name: string | null
+  avatar_path: string | null // Storage key in the avatars bucket (null = initials)
+  discoverable: boolean // Anyone can find them by name (search_players())
   created_at: string // ISO timestamp
   updated_at: string // ISO timestamp
 }
@@ -20,6 +111,18 @@ export interface Versus {
   name: string
   type: string | null // Type: 'Scavenger Hunt', 'Fitness Challenge', 'Chore Competition', 'Swear Jar', 'Other'
   reverse_ranking: boolean // If true, lowest score ranks #1
+  undo_grace_minutes: number // Minutes a player can undo their own completion
+  starts_at: string | null // ISO timestamp - optional season start
+  ends_at: string | null // ISO timestamp - optional season end
+  finalized_at: string | null // ISO timestamp - set when final standings are frozen
+  round_period: RoundPeriod // Recurring rounds (UTC calendar buckets)
+  team_scoring: TeamScoring // Team totals sum or average member scores
+  require_approval: boolean // If true, non-commissioner completions wait for review
+  dispute_quorum_percent: number // Share of players (1-100) who must vote to void a completion
+  dispute_window_hours: number // Hours a dispute stays open for voting
+  max_backfill_hours: number // How far back players can date a completion (0 = no backdating)
+  status: VersusStatus
+  winner_id: string | null // UUID referencing players - declared winner once finished (null = none/tie)
   created_by: string // UUID referencing players
   created_at: string // ISO timestamp
   updated_at: string // ISO timestamp
@@ -29,18 +132,38 @@ export interface VersusPlayer {
   id: string // UUID
   versus_id: string // UUID referencing versus
   player_id: string // UUID referencing players
-  is_commissioner: boolean
+  role: VersusRole
+  is_commissioner: boolean // Same as role === 'commissioner' (kept in sync by the database)
   nickname: string | null // Optional: Versus-specific nickname. If null, use player's display_name
+  team_id: string | null // UUID referencing versus_teams (null = no team)
   joined_at: string // ISO timestamp
   updated_at: string // ISO timestamp
 }
 
+export interface VersusTeam {
+  id: string // UUID
+  versus_id: string // UUID referencing versus
+  name: string
+  created_at: string // ISO timestamp
+  updated_at: string // ISO timestamp
+}
+
 export interface Objective {
   id: string // UUID
   versus_id: string // UUID referencing versus
   title: string // Objective title (e.g., "Run 5 miles")
   points: number // Can be positive or negative (e.g., +10 or -5)
   description: string | null // Optional explanation of the objective
+  max_per_player: number | null // Max completions per player overall (null = unlimited)
+  max_per_period: number | null // Max completions per player per limit_period (null = unlimited)
+  limit_period: LimitPeriod | null // Window for max_per_period
+  cooldown_minutes: number | null // Minimum minutes between a player's completions (null = none)
+  claim_mode: ClaimMode
+  podium_points: number[] | null // Points for 1st/2nd/3rd claimers (podium mode only)
+  unit: string | null // Unit for quantity-based objectives (e.g. "mile"); null = fixed points
+  points_per_unit: number | null // Points per unit (can be negative/fractional); set with unit
+  requires_proof: boolean // If true, completions must attach a photo
+  archived_at: string | null // ISO timestamp - set when removed; past completions still count
   created_at: string // ISO timestamp
   updated_at: string // ISO timestamp
 }
@@ -50,7 +173,127 @@ export interface Completion {
   versus_id: string // UUID referencing versus
   player_id: string // UUID referencing players
   objective_id: string // UUID referencing objectives
-  completed_at: string // ISO timestamp
+  completed_at: string // ISO timestamp - when it was done (commissioners can backdate)
+  logged_at: string // ISO timestamp - when it was recorded (undo window starts here)
+  logged_by: string | null // UUID referencing players (commissioner who logged it; null = the player)
+  note: string | null // Optional note from the commissioner who logged it
+  claim_rank: number | null // 1 = first claimer (single/podium objectives only)
+  quantity: number | null // Amount logged for quantity-based objectives
+  points_awarded: number // Points snapshotted when logged (changed only by a re-score)
+  status: CompletionStatus
+  reviewed_by: string | null // UUID referencing players (commissioner who reviewed it)
+  reviewed_at: string | null // ISO timestamp
+  review_note: string | null // Optional note from the reviewer
+  proof_path: string | null // Storage key of the attached photo (see lib/storage)
+}
+
+export interface CompletionDispute {
+  id: string // UUID
+  versus_id: string // UUID referencing versus
+  completion_id: string // UUID referencing completions (one dispute per completion)
+  opened_by: string | null // UUID referencing players
+  reason: string
+  quorum: number // Votes needed, fixed when the dispute opened
+  status: DisputeStatus
+  opened_at: string // ISO timestamp
+  deadline_at: string // ISO timestamp - voting closes
+  resolved_at: string | null // ISO timestamp
+}
+
+export interface DisputeVote {
+  id: string // UUID
+  dispute_id: string // UUID referencing completion_disputes
+  voter_id: string // UUID referencing players
+  vote: DisputeVoteChoice
+  comment: string | null
+  voted_at: string // ISO timestamp
+}
+
+export interface CompletionRemoval {
+  id: string // UUID
+  versus_id: string // UUID referencing versus
+  completion_id: string // UUID of the removed completion (row no longer exists)
+  player_id: string // UUID referencing players (who logged the completion)
+  objective_id: string | null // UUID referencing objectives
+  completed_at: string // ISO timestamp of the removed completion
+  removed_by: string | null // UUID referencing players (commissioner)
+  reason: string // Required explanation for the removal
+  removed_at: string // ISO timestamp
+}
+
+export interface VersusAuditLogEntry {
+  id: string // UUID
+  versus_id: string // UUID referencing versus
+  actor_id: string | null // UUID referencing players (who made the change)
+  entity_type: AuditEntityType
+  entity_id: string | null // UUID of the changed row (may no longer exist)
+  entity_label: string | null // Objective title, player name, etc. at the time
+  action: AuditAction
+  before: Record<string, unknown> | null // Changed fields before (null for create)
+  after: Record<string, unknown> | null // Changed fields after (null for delete)
+  reason: string | null
+  created_at: string // ISO timestamp
+}
+
+export interface VersusInvitation {
+  id: string // UUID
+  versus_id: string // UUID referencing versus
+  email: string // Lowercased
+  nickname: string | null
+  role: VersusRole // Role the person gets when they join
+  is_commissioner: boolean // Same as role === 'commissioner'
+  token: string // Secret in the signup link
+  status: InvitationStatus
+  invited_by: string | null // UUID referencing players
+  send_count: number
+  last_sent_at: string // ISO timestamp
+  accepted_by: string | null // UUID referencing players
+  accepted_at: string | null // ISO timestamp
+  created_at: string // ISO timestamp
+}
+
+export interface VersusJoinCode {
+  id: string // UUID
+  versus_id: string // UUID referencing versus
+  code: string // 8 characters, see lib/join-code-utils.ts
+  requires_approval: boolean // Join requests instead of instant join
+  expires_at: string | null // ISO timestamp, null = never
+  max_uses: number | null // null = unlimited
+  use_count: number
+  created_by: string | null // UUID referencing players
+  created_at: string // ISO timestamp
+  revoked_at: string | null // ISO timestamp
+}
+
+export interface VersusJoinRequest {
+  id: string // UUID
+  versus_id: string // UUID referencing versus
+  player_id: string // UUID referencing players (who wants to join)
+  join_code_id: string | null // UUID referencing versus_join_codes
+  status: JoinRequestStatus
+  created_at: string // ISO timestamp
+  decided_by: string | null // UUID referencing players (commissioner)
+  decided_at: string | null // ISO timestamp
+}
+
+/**
+ * Versus settings kept in a template (no name or season dates)
+ */
+export type VersusTemplateSettings = Pick<Versus, 'type' | 'reverse_ranking' | 'undo_grace_minutes' | 'round_period' | 'require_approval' | 'dispute_quorum_percent' | 'dispute_window_hours' | 'max_backfill_hours'>
+
+/**
+ * An objective kept in a template (no ids)
+ */
+export type VersusTemplateObjective = Pick<Objective, 'title' | 'points' | 'description' | 'max_per_player' | 'max_per_period' | 'limit_period' | 'cooldown_minutes' | 'claim_mode' | 'podium_points' | 'unit' | 'points_per_unit' | 'requires_proof'>
+
+export interface VersusTemplate {
+  id: string // UUID
+  player_id: string // UUID referencing players (who saved it - templates are private)
+  name: string // Unique per player, case-insensitive
+  settings: VersusTemplateSettings
+  objectives: VersusTemplateObjective[]
+  created_at: string // ISO timestamp
+  updated_at: string // ISO timestamp
 }
 
 // ============================================================================
@@ -71,6 +314,24 @@ export interface PlayerRanking {
   total_players: number
 }
 
+/**
+ * Final standings snapshot (table, same shape as player_rankings)
+ * Written once when a season ends so later edits can't change the result
+ */
+export interface FinalStanding extends PlayerRanking {
+  finalized_at: string // ISO timestamp
+}
+
+export interface PlayerRoundRanking extends PlayerRanking {
+  round_start: string // ISO timestamp (UTC start of the round)
+}
+
+export interface PlayerRoundWins {
+  versus_id: string // UUID
+  player_id: string // UUID
+  round_wins: number // Finished rounds where the player ranked #1 (ties included)
+}
+
 // ============================================================================
 // Extended/Joined Types for Application Use
 // ============================================================================
@@ -93,10 +354,36 @@ export interface VersusWithStats extends Versus {
 
 /**
  * Player with their score and rank in a specific versus
+ * (without their privacy settings)
  */
-export interface PlayerWithStats extends Player {
+export interface PlayerWithStats extends Omit<Player, 'discoverable'> {
   score: number
   rank: number
+  round_wins?: number // Only set for versus with recurring rounds
+  team_id?: string | null // Set when the versus has teams
+}
+
+/**
+ * One player's standing before and after a retroactive re-score
+ */
+export interface RescorePreviewEntry {
+  player_id: string
+  player_name: string
+  score_before: number
+  score_after: number
+  rank_before: number
+  rank_after: number
+}
+
+/**
+ * Team with its aggregated score and rank in a specific versus
+ */
+export interface TeamWithStats {
+  id: string
+  name: string
+  score: number // Sum or average of member scores (see Versus.team_scoring)
+  rank: number
+  member_count: number
 }
 
 /**
@@ -105,6 +392,18 @@ export interface PlayerWithStats extends Player {
 export interface ObjectiveWithStatus extends Objective {
   completed_by_user: boolean
   completion_count: number
+  remaining: number | null // Completions left under the tightest limit (null = unlimited)
+  available_at: string | null // ISO timestamp when the cooldown ends (null = available now)
+  claims: ObjectiveClaim[] // Who has claimed it (single/podium objectives only), by rank
+}
+
+/**
+ * A claim on a single/podium objective
+ */
+export interface ObjectiveClaim {
+  claim_rank: number
+  player_id: string
+  player_name: string
 }
 
 /**
@@ -115,6 +414,170 @@ export interface CompletionWithDetails extends Completion {
   player: Player
 }
 
+/**
+ * A dispute with its votes, as shown on a history entry
+ */
+export interface DisputeThread {
+  id: string
+  status: DisputeStatus
+  reason: string
+  opened_by: string | null
+  opened_by_name: string
+  opened_at: string // ISO timestamp
+  deadline_at: string // ISO timestamp
+  resolved_at: string | null // ISO timestamp
+  quorum: number
+  keep_votes: number
+  void_votes: number
+  votes: Array<{
+    voter_id: string
+    voter_name: string
+    vote: DisputeVoteChoice
+    comment: string | null
+    voted_at: string // ISO timestamp
+  }>
+}
+
+/**
+ * What a join code points to (get_join_code_preview()), for the join page
+ */
+export interface JoinCodePreview {
+  versus_id: string
+  versus_name: string
+  player_count: number
+  requires_approval: boolean
+  status: JoinCodeStatus
+  is_member: boolean
+  has_pending_request: boolean
+}
+
+/**
+ * Pending join request for display, with the requester's name
+ */
+export interface JoinRequestWithPlayer extends VersusJoinRequest {
+  player_name: string
+  player_email: string
+}
+
+/**
+ * Another member of a versus, for choosing a successor or new commissioner
+ */
+export interface VersusMemberOption {
+  player_id: string
+  name: string // Nickname, display name or email prefix
+  role: VersusRole
+}
+
+/**
+ * What leaving a versus involves for the signed-in user
+ */
+export interface LeaveVersusOptions {
+  role: VersusRole
+  completion_count: number // The user's completions in the versus
+  needs_successor: boolean // Last commissioner - must name a successor
+  members: VersusMemberOption[] // Everyone else in the versus
+}
+
+/**
+ * A player who could be declared the winner when finishing a versus
+ */
+export interface VersusWinnerOption {
+  player_id: string // UUID
+  name: string // Nickname, display name or email prefix
+  score: number
+  rank: number
+}
+
+/**
+ * Which parts of a versus to copy when cloning it
+ */
+export type VersusClonePart = 'settings' | 'objectives' | 'roster'
+
+/**
+ * A member copied into a cloned versus' roster
+ */
+export interface VersusCloneMember {
+  player_id: string // UUID
+  email: string
+  display_name: string // Display name or email prefix
+  nickname: string | null
+  role: VersusRole
+}
+
+/**
+ * What a clone starts from (parts that weren't chosen are null)
+ */
+export interface VersusCloneSource {
+  versus_id: string
+  name: string
+  settings: VersusTemplateSettings | null
+  objectives: VersusTemplateObjective[] | null
+  members: VersusCloneMember[] | null // Everyone but the person cloning
+}
+
+/**
+ * What deleting your account does to one versus you're in
+ * - delete: you're the only member, so the versus is deleted
+ * - hand_off: you own it or are its last commissioner, so a successor takes over
+ * - leave: you're removed and the versus carries on
+ */
+export type AccountDeletionOutcome = 'delete' | 'hand_off' | 'leave'
+
+export interface AccountDeletionVersus {
+  versus_id: string
+  versus_name: string
+  role: VersusRole
+  is_owner: boolean
+  outcome: AccountDeletionOutcome
+  default_successor_id: string | null // Longest-serving other commissioner, if any
+  members: VersusMemberOption[] // Everyone else, for choosing a successor
+}
+
+/**
+ * Player search result (search_players())
+ * Email is only included for people you already play with.
+ */
+export interface PlayerSearchResult {
+  id: string
+  display_name: string | null
+  email: string | null
+  avatar_path: string | null
+  plays_with_you: boolean
+}
+
+/**
+ * Career totals across all of a player's versus (get_player_career_stats())
+ */
+export interface CareerStats {
+  versus_count: number
+  finished_count: number // Versus with frozen final standings
+  wins: number // Finished first
+  podiums: number // Finished in the top 3
+  total_completions: number // Approved completions
+  favourite_objectives: Array<{ title: string; completions: number }> // Top 3
+  active_streaks: Array<{ versus_id: string; versus_name: string; days: number }> // Only versus the viewer is in
+}
+
+/**
+ * A player's profile as seen by someone they share a versus with
+ */
+export interface PlayerProfile {
+  player_id: string
+  name: string // Nickname in the versus, display name or email prefix
+  display_name: string | null
+  avatar_url: string | null
+  role: VersusRole | null // Role in the versus the profile was opened from
+  joined_at: string | null
+  stats: CareerStats
+}
+
+/**
+ * Audit log entry for display, with the actor's name
+ */
+export interface AuditEntry extends VersusAuditLogEntry {
+  actor_name: string
+}
+
 /**
  * History entry for display (combines completion with objective)
  */
@@ -122,8 +585,21 @@ export interface HistoryEntry {
   id: string
   date: string
   time: string
+  completed_at: string // ISO timestamp (used for date filters)
+  logged_at: string // ISO timestamp (used for the undo window)
+  logged_by: string | null // Commissioner who logged it for the player
+  logged_by_name: string | null
+  note: string | null
+  objective_id: string
   objective_name: string
   points: number
+  claim_rank: number | null // Set when this completion claimed a single/podium objective
+  quantity: number | null // Amount logged for quantity-based objectives
+  unit: string | null // The objective's unit (e.g. "mile")
+  status: CompletionStatus
+  review_note: string | null
+  proof_url: string | null // Attached photo (served by /api/proofs)
+  dispute: DisputeThread | null
   player_name: string
   player_id: string
 }
@@ -142,17 +618,22 @@ export type DbResult<T> =
 /**
  * Insert types (without auto-generated fields)
  */
-export type InsertPlayer = Omit<Player, 'created_at' | 'updated_at'>
-export type InsertVersus = Omit<Versus, 'id' | 'created_at' | 'updated_at'>
+export type InsertPlayer = Omit<Player, 'created_at' | 'updated_at' | 'avatar_path' | 'discoverable'>
+export type InsertVersus = Omit<Versus, 'id' | 'status' | 'winner_id' | 'created_at' | 'updated_at'>
 export type InsertVersusPlayer = Omit<VersusPlayer, 'id' | 'joined_at' | 'updated_at'>
-export type InsertObjective = Omit<Objective, 'id' | 'created_at' | 'updated_at'>
-export type InsertCompletion = Omit<Completion, 'id' | 'completed_at'>
+export type InsertObjective = Omit<Objective, 'id' | 'created_at' | 'updated_at' | 'archived_at'>
+export type InsertCompletion = Omit<
+  Completion,
+  'id' | 'completed_at' | 'logged_at' | 'logged_by' | 'note' | 'claim_rank' | 'points_awarded' | 'status' | 'reviewed_by' | 'reviewed_at' | 'review_note'
+> & Partial<Pick<Completion, 'completed_at' | 'note'>>
+// claim_rank is assigned by claim_objective(); logged_at, logged_by, points_awarded and status by triggers.
+// completed_at (backdating) and note are for commissioners only.
 
 /**
  * Update types (only updateable fields)
  */
-export type UpdatePlayer = Partial<Pick<Player, 'display_name'>>
-export type UpdateVersus = Partial<Pick<Versus, 'name' | 'type' | 'reverse_ranking'>>
-export type UpdateVersusPlayer = Partial<Pick<VersusPlayer, 'is_commissioner' | 'nickname'>>
-export type UpdateObjective = Partial<Pick<Objective, 'title' | 'points' | 'description'>>
+export type UpdatePlayer = Partial<Pick<Player, 'display_name' | 'discoverable'>>
+export type UpdateVersus = Partial<Pick<Versus, 'name' | 'type' | 'reverse_ranking' | 'undo_grace_minutes' | 'starts_at' | 'ends_at' | 'round_period' | 'team_scoring' | 'require_approval' | 'dispute_quorum_percent' | 'dispute_window_hours' | 'max_backfill_hours'>>
+export type UpdateVersusPlayer = Partial<Pick<VersusPlayer, 'role' | 'is_commissioner' | 'nickname' | 'team_id'>>
+export type UpdateObjective = Partial<Pick<Objective, 'title' | 'points' | 'description' | 'max_per_player' | 'max_per_period' | 'limit_period' | 'cooldown_minutes' | 'claim_mode' | 'podium_points' | 'unit' | 'points_per_unit' | 'requires_proof'>>
 